@@ -0,0 +1,28 @@
+-- Per-portfolio daily snapshots so the performance chart can show each account.
+-- Additive only; PortfolioSnapshot keeps the per-user totals.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PortfolioAccountSnapshot" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT,
+  "portfolioId" TEXT NOT NULL,
+  "accountType" "AccountType" NOT NULL,
+  "date" DATE NOT NULL,
+  "totalCAD" DECIMAL(18,2) NOT NULL,
+  "costBasisCAD" DECIMAL(18,2) NOT NULL,
+  "cashCAD" DECIMAL(18,2) NOT NULL,
+  "engineValueCAD" DECIMAL(18,2),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "PortfolioAccountSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PortfolioAccountSnapshot_portfolioId_date_key"
+  ON "PortfolioAccountSnapshot"("portfolioId", "date");
+CREATE INDEX IF NOT EXISTS "PortfolioAccountSnapshot_userId_accountType_date_idx"
+  ON "PortfolioAccountSnapshot"("userId", "accountType", "date");
+
+DO $$ BEGIN
+  ALTER TABLE "PortfolioAccountSnapshot" ADD CONSTRAINT "PortfolioAccountSnapshot_portfolioId_fkey"
+    FOREIGN KEY ("portfolioId") REFERENCES "Portfolio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
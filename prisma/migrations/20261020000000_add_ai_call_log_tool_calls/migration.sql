@@ -0,0 +1,3 @@
+-- Record the read-only tools /api/ai/chat called (name + arguments) per AiCallLog row.
+-- Additive only; NULL for every other route and for chat turns without tool calls.
+ALTER TABLE "AiCallLog" ADD COLUMN IF NOT EXISTS "toolCalls" JSONB;
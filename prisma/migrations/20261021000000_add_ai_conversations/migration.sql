@@ -0,0 +1,45 @@
+-- Server-side AI chat conversations (list / resume / rename / delete / search).
+-- Additive only; AiCallLog keeps the per-call audit rows.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "AiConversation" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "rulebookVersion" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "AiConversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "AiConversationMessage" (
+  "id" TEXT NOT NULL,
+  "conversationId" TEXT NOT NULL,
+  "role" TEXT NOT NULL,
+  "content" TEXT NOT NULL,
+  "userQueryHash" TEXT,
+  "rulebookVersion" TEXT NOT NULL,
+  "validationStatus" TEXT,
+  "violations" JSONB,
+  "toolCalls" JSONB,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "AiConversationMessage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "AiConversation_userId_updatedAt_idx"
+  ON "AiConversation"("userId", "updatedAt");
+CREATE INDEX IF NOT EXISTS "AiConversationMessage_conversationId_createdAt_idx"
+  ON "AiConversationMessage"("conversationId", "createdAt");
+
+DO $$ BEGIN
+  ALTER TABLE "AiConversation" ADD CONSTRAINT "AiConversation_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "AiConversationMessage" ADD CONSTRAINT "AiConversationMessage_conversationId_fkey"
+    FOREIGN KEY ("conversationId") REFERENCES "AiConversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,23 @@
+-- Guardrail evaluation runs written by scripts/ai-eval.ts --save.
+-- Additive only; no existing table is touched.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "AiEvalRun" (
+  "id" TEXT NOT NULL,
+  "rulebookVersion" TEXT NOT NULL,
+  "promptHash" TEXT NOT NULL,
+  "corpusHash" TEXT NOT NULL,
+  "provider" TEXT NOT NULL,
+  "model" TEXT NOT NULL,
+  "caseCount" INTEGER NOT NULL,
+  "scoredCount" INTEGER NOT NULL,
+  "violatingCount" INTEGER NOT NULL,
+  "results" JSONB NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "AiEvalRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "AiEvalRun_rulebookVersion_createdAt_idx"
+  ON "AiEvalRun"("rulebookVersion", "createdAt");
+CREATE INDEX IF NOT EXISTS "AiEvalRun_createdAt_idx"
+  ON "AiEvalRun"("createdAt");
@@ -0,0 +1,112 @@
+// Replay the guardrail corpus and score violation rates per code.
+//   npm run ai:eval -- [--provider recorded|live] [--corpus FILE] [--baseline previous|RUN_ID|FILE]
+//                      [--tolerance SHARE] [--save] [--json FILE] [--record FILE]
+// --provider defaults to recorded (the corpus's stored replies; no provider
+// call). Exits 1 when the run regresses against --baseline, so a guardrail
+// change can be gated on it.
+import { readFileSync, writeFileSync } from "node:fs";
+import { prisma } from "@/lib/db";
+import { AI_EVAL_CORPUS } from "@/lib/ai-eval-corpus";
+import {
+  diffAiEvalRuns,
+  parseAiEvalCorpus,
+  scoreAiEvalRun,
+  type AiEvalCaseResult,
+  type AiEvalProvider,
+  type AiEvalRun,
+} from "@/lib/ai-eval";
+import { findPreviousAiEvalRun, loadAiEvalRun, runAiEval, saveAiEvalRun } from "@/lib/ai-eval-source";
+
+const USAGE =
+  "Usage: npm run ai:eval -- [--provider recorded|live] [--corpus FILE] [--baseline previous|RUN_ID|FILE] [--tolerance SHARE] [--save] [--json FILE] [--record FILE]";
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const pct = (value: number | null) => (value == null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+/** A saved run id, "previous" (latest saved run of another rulebook version) or a --json file. */
+async function loadBaseline(ref: string, rulebookVersion: string): Promise<AiEvalRun | null> {
+  if (ref === "previous") {
+    const id = await findPreviousAiEvalRun(rulebookVersion);
+    return id ? loadAiEvalRun(id) : null;
+  }
+  if (ref.endsWith(".json")) return JSON.parse(readFileSync(ref, "utf8")) as AiEvalRun;
+  return loadAiEvalRun(ref);
+}
+
+async function main() {
+  const provider = (argValue("provider") ?? "recorded") as AiEvalProvider;
+  const tolerance = Number(argValue("tolerance") ?? 0);
+  if ((provider !== "recorded" && provider !== "live") || !Number.isFinite(tolerance) || tolerance < 0 || tolerance > 1) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  const corpusPath = argValue("corpus");
+  const cases = corpusPath ? parseAiEvalCorpus(JSON.parse(readFileSync(corpusPath, "utf8"))) : AI_EVAL_CORPUS;
+
+  console.log(`Running ${cases.length} cases (${provider}${corpusPath ? `, ${corpusPath}` : ", built-in corpus"})`);
+  const run = await runAiEval(cases, provider, (done, total, r: AiEvalCaseResult) => {
+    const outcome = r.status === "error" ? `error: ${r.error}` : r.violationCodes.join(", ") || "pass";
+    console.log(`  [${done}/${total}] ${r.id.padEnd(28)} ${outcome}`);
+  });
+
+  const score = scoreAiEvalRun(run.results);
+  console.log(`\n${run.rulebookVersion} · ${run.provider}/${run.model} · prompt ${run.promptHash.slice(0, 12)}`);
+  console.log(`Scored ${score.scored}/${score.cases} (${score.errors} errors), violating ${score.violating} = ${pct(score.violationRate)}`);
+  for (const c of score.byCode) console.log(`  ${c.code.padEnd(26)} ${String(c.count).padStart(4)}  ${pct(c.rate).padStart(7)}`);
+
+  const recordPath = argValue("record");
+  if (recordPath) {
+    const replies = new Map(run.results.map((r) => [r.id, r.response]));
+    const recorded = cases.map((c) => ({ ...c, recorded: replies.get(c.id) ?? c.recorded }));
+    writeFileSync(recordPath, JSON.stringify({ cases: recorded }, null, 2));
+    console.log(`\nCorpus with this run's replies written to ${recordPath}`);
+  }
+  const jsonPath = argValue("json");
+  if (jsonPath) {
+    writeFileSync(jsonPath, JSON.stringify(run, null, 2));
+    console.log(`\nRun written to ${jsonPath} (usable as --baseline ${jsonPath})`);
+  }
+
+  const baselineRef = argValue("baseline");
+  if (baselineRef) {
+    const baseline = await loadBaseline(baselineRef, run.rulebookVersion);
+    if (!baseline) {
+      console.log(`\nNo baseline run found for "${baselineRef}"; nothing to compare.`);
+    } else {
+      const diff = diffAiEvalRuns(baseline.results, run.results, tolerance);
+      console.log(`\nAgainst ${baseline.rulebookVersion} (${baseline.provider}/${baseline.model}, ${baseline.createdAt.slice(0, 10)}) over ${diff.compared} shared cases:`);
+      if (baseline.corpusHash !== run.corpusHash) console.log("  corpus differs; only cases present in both runs are compared");
+      console.log(`  violating ${diff.baselineViolating} → ${diff.candidateViolating}`);
+      for (const d of diff.byCode) {
+        console.log(`  ${d.code.padEnd(26)} ${String(d.baselineCount).padStart(4)} → ${String(d.candidateCount).padEnd(4)} ${pct(d.baselineRate)} → ${pct(d.candidateRate)}`);
+      }
+      for (const c of diff.changes) {
+        const parts = [c.added.length ? `+${c.added.join(",")}` : "", c.removed.length ? `-${c.removed.join(",")}` : ""].filter(Boolean);
+        console.log(`  ${c.id.padEnd(28)} ${parts.join(" ")}`);
+      }
+      if (diff.regressed) {
+        console.log(`\nREGRESSED: ${diff.regressions.join("; ")}`);
+        process.exitCode = 1;
+      } else {
+        console.log("\nNo regression.");
+      }
+    }
+  }
+
+  if (process.argv.includes("--save")) {
+    const id = await saveAiEvalRun(run);
+    console.log(`\nSaved as ${id}; see /v1/ai/eval`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,42 @@
+// Backfill FxRateDaily with historical USD/CAD rates.
+//   npm run fx:backfill -- --from 2019-01-01 [--to 2026-10-19]
+// Fetches one calendar year per request; rerunning is safe (rows are upserted).
+import { ingestFxRates } from "@/lib/fx-rates";
+import { prisma } from "@/lib/db";
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function isDateKey(value: string | undefined): value is string {
+  return Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime()));
+}
+
+async function main() {
+  const from = argValue("from");
+  const to = argValue("to") ?? new Date().toISOString().slice(0, 10);
+  if (!isDateKey(from) || !isDateKey(to) || from > to) {
+    console.error("Usage: npm run fx:backfill -- --from YYYY-MM-DD [--to YYYY-MM-DD]");
+    process.exitCode = 1;
+    return;
+  }
+
+  let total = 0;
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    const start = year === Number(from.slice(0, 4)) ? from : `${year}-01-01`;
+    const end = year === Number(to.slice(0, 4)) ? to : `${year}-12-31`;
+    const rows = await ingestFxRates(start, end);
+    const sources = [...new Set(rows.map((row) => row.source))].join(", ") || "none";
+    console.log(`${start} → ${end}: ${rows.length} rows (${sources})`);
+    total += rows.length;
+  }
+  console.log(`\nFxRateDaily backfill complete: ${total} rows`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
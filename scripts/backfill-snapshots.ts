@@ -0,0 +1,65 @@
+// Backfill PortfolioSnapshot and per-account PortfolioAccountSnapshot rows from
+// transaction history and daily closes.
+//   npm run snapshots:backfill -- [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--user <id>] [--overwrite] [--dry-run]
+// --from defaults to the first transaction, --to to yesterday, --user to the single-user id.
+// Existing rows are kept unless --overwrite. Run fx:backfill for the same range first.
+import { prisma } from "@/lib/db";
+import { backfillSnapshots } from "@/lib/portfolio/snapshot-backfill-source";
+import { getSingleUserId } from "@/lib/single-user-mode";
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function isDateKey(value: string | undefined): value is string {
+  return Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime()));
+}
+
+async function main() {
+  const from = argValue("from");
+  const to = argValue("to");
+  if ((from !== undefined && !isDateKey(from)) || (to !== undefined && !isDateKey(to))) {
+    console.error("Usage: npm run snapshots:backfill -- [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--user ID] [--overwrite] [--dry-run]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const userId = argValue("user") ?? getSingleUserId();
+  const report = await backfillSnapshots(userId, {
+    from,
+    to,
+    overwrite: process.argv.includes("--overwrite"),
+    dryRun: process.argv.includes("--dry-run"),
+    onProgress: (message) => console.log(message),
+  });
+
+  if (!report.from) {
+    console.log(`No transactions or cash ledger rows for ${userId}; nothing to backfill.`);
+    return;
+  }
+  if (report.gaps.length > 0 || report.failedTickers.length > 0) {
+    console.log("\nGaps:");
+    for (const ticker of report.failedTickers) console.log(`  history_failed  ${ticker}`);
+    for (const gap of report.gaps) {
+      const carried = gap.lastCloseDate ? ` (last close ${gap.lastCloseDate})` : "";
+      console.log(`  ${gap.kind.padEnd(14)}  ${(gap.ticker ?? "USD/CAD").padEnd(10)} ${gap.from} → ${gap.to}, ${gap.days} days${carried}`);
+    }
+  }
+  console.log(
+    `\nSnapshot backfill ${report.dryRun ? "dry run" : "complete"} for ${userId}: ` +
+    `${report.dryRun ? report.planned : report.written} rows, ${report.skippedExisting} existing kept, ` +
+    `${report.tradingDays} trading days ${report.from} → ${report.to} (ledger: ${report.ledgerSource})`,
+  );
+  console.log(
+    `Per-account rows: ${report.dryRun ? report.accountRows.planned : report.accountRows.written}, ` +
+    `${report.accountRows.skippedExisting} existing kept`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,92 @@
+// Replay the rulebook over historical prices and compare it with 70/30 and SCHD only.
+//   npm run rulebook:backtest -- --from YYYY-MM-DD [--to YYYY-MM-DD] [--weekly CAD] [--initial CAD] [--no-tfsa-room] [--json FILE]
+// --to defaults to yesterday, --weekly to the rulebook's 425 CAD. Change
+// RULEBOOK_TARGETS locally and re-run to see what a version bump would have done.
+import { writeFileSync } from "node:fs";
+import { prisma } from "@/lib/db";
+import { loadRulebookBacktest } from "@/lib/rulebook-backtest-source";
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function isDateKey(value: string | undefined): value is string {
+  return Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime()));
+}
+
+function optionalNumber(value: string | undefined): number | undefined | null {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+const cad = (value: number) => value.toLocaleString("en-CA", { maximumFractionDigits: 0 });
+const pct = (value: number | null) => (value == null ? "—" : `${(value * 100).toFixed(2)}%`);
+
+async function main() {
+  const yesterday = new Date(Date.now() - 86_400_000).toISOString().slice(0, 10);
+  const from = argValue("from");
+  const to = argValue("to") ?? yesterday;
+  const weekly = optionalNumber(argValue("weekly"));
+  const initial = optionalNumber(argValue("initial"));
+  if (!isDateKey(from) || !isDateKey(to) || from >= to || weekly === null || initial === null) {
+    console.error("Usage: npm run rulebook:backtest -- --from YYYY-MM-DD [--to YYYY-MM-DD] [--weekly CAD] [--initial CAD] [--no-tfsa-room] [--json FILE]");
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Loading prices ${from} → ${to}`);
+  const result = await loadRulebookBacktest({
+    from,
+    to,
+    weeklyContributionCAD: weekly,
+    initialCAD: initial,
+    tfsaRoomExists: !process.argv.includes("--no-tfsa-room"),
+  }, (message) => console.log(message));
+
+  if (result.tradingDays === 0) {
+    console.log("No SCHD closes in the window; nothing to replay.");
+    return;
+  }
+  if (result.unpricedAtStart.length > 0) {
+    console.log(`\nNo close yet at ${result.from} for ${result.unpricedAtStart.join(", ")}; their buys are held as cash until listed.`);
+  }
+
+  console.log("\nTriggers:");
+  if (result.triggers.length === 0) console.log("  none");
+  for (const event of result.triggers) {
+    console.log(`  ${event.date}  ${event.kind.padEnd(18)} ${event.outcome.padEnd(16)} ${event.label}`);
+    for (const t of event.trades) {
+      console.log(`              ${t.side.padEnd(4)} ${t.ticker.padEnd(5)} ${cad(t.amountCAD).padStart(10)} CAD  ${t.shares.toFixed(4)} @ ${t.priceUSD.toFixed(2)} USD`);
+    }
+  }
+
+  console.log(`\n${"Strategy".padEnd(16)} ${"End value".padStart(12)} ${"Contributed".padStart(12)} ${"TWR".padStart(9)} ${"TWR/yr".padStart(9)} ${"Max DD".padStart(9)}`);
+  for (const s of result.strategies) {
+    console.log(
+      `${s.label.padEnd(16)} ${cad(s.endValueCAD).padStart(12)} ${cad(s.contributedCAD).padStart(12)} ` +
+      `${pct(s.twr).padStart(9)} ${pct(s.twrAnnualized).padStart(9)} ${pct(s.maxDrawdown).padStart(9)}`,
+    );
+  }
+  if (result.finalWeights) {
+    const w = result.finalWeights;
+    console.log(
+      `\nEnd weights: QLD core ${w.qldCoreWeightPct.toFixed(1)}%, growth ${w.growthBucketPct.toFixed(1)}%, ` +
+      `SGOV ${w.sgovTotalWeightPct.toFixed(1)}%, QQQI ${w.jepqTotalWeightPct.toFixed(1)}%, TQQQ ${w.tqqqTotalWeightPct.toFixed(1)}%`,
+    );
+  }
+
+  const jsonPath = argValue("json");
+  if (jsonPath) {
+    writeFileSync(jsonPath, JSON.stringify(result, null, 2));
+    console.log(`\nFull result (equity curve, triggers, trades) written to ${jsonPath}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
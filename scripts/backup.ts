@@ -0,0 +1,57 @@
+// Export or restore a user's data as a JSON backup bundle.
+//   npm run backup -- export [--user <id>] [--out backup.json]
+//   npm run backup -- restore --in backup.json [--user <id>] [--mode empty|merge] [--dry-run]
+// --user defaults to the single-user id. Secrets (Questrade token, OpenAI key) are never exported.
+import { readFile, writeFile } from "node:fs/promises";
+import { parseBackupBundle } from "@/lib/backup";
+import { exportBackup, restoreBackup, type RestoreMode } from "@/lib/backup-source";
+import { prisma } from "@/lib/db";
+import { getSingleUserId } from "@/lib/single-user-mode";
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const USAGE = "Usage: npm run backup -- export [--user ID] [--out FILE] | restore --in FILE [--user ID] [--mode empty|merge] [--dry-run]";
+
+async function main() {
+  const command = process.argv[2];
+  const userId = argValue("user") ?? getSingleUserId();
+
+  if (command === "export") {
+    const bundle = await exportBackup(userId);
+    const out = argValue("out") ?? `dividendtracker-backup-${bundle.exportedAt.slice(0, 10)}.json`;
+    await writeFile(out, JSON.stringify(bundle, null, 2));
+    const counts = Object.entries(bundle.data).map(([table, rows]) => `${table}=${rows.length}`).join(" ");
+    console.log(`Exported ${userId} → ${out}\n${counts}`);
+    return;
+  }
+
+  if (command === "restore") {
+    const file = argValue("in");
+    const mode = (argValue("mode") ?? "merge") as RestoreMode;
+    if (!file || (mode !== "empty" && mode !== "merge")) {
+      console.error(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+    const bundle = parseBackupBundle(JSON.parse(await readFile(file, "utf8")));
+    const result = await restoreBackup(bundle, userId, { mode, dryRun: process.argv.includes("--dry-run") });
+    for (const [table, count] of Object.entries(result.counts)) {
+      console.log(`${table.padEnd(22)} created ${count.created}, already present ${count.matched}`);
+    }
+    console.log(`\nRestore ${result.dryRun ? "dry run" : "complete"} (${mode}) for ${userId}`);
+    return;
+  }
+
+  console.error(USAGE);
+  process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadAcbLedgers } from "@/lib/portfolio/acb-source";
+
+export const dynamic = "force-dynamic";
+
+// ACB only matters for taxable accounts; registered accounts are skipped by the loader.
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const holdingId = searchParams.get("holdingId");
+  const holdingIds = searchParams.get("holdingIds")?.split(",").filter(Boolean);
+  const requestedIds = holdingIds && holdingIds.length > 0 ? holdingIds : holdingId ? [holdingId] : undefined;
+
+  const { ledgers, superficialLosses, fallbackUsdCad } = await loadAcbLedgers(session.user.id, { holdingIds: requestedIds });
+  return NextResponse.json({ ledgers, superficialLosses, fallbackUsdCad });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { AI_AUDIT_MAX_DAYS, parseAiAuditFilters } from "@/lib/ai-audit";
+import { loadAiAuditReport } from "@/lib/ai-audit-source";
+
+export const dynamic = "force-dynamic";
+
+// AiCallLog volume, latency, tokens, cache / throttle rates and flagged
+// replies across all users. ADMIN role only, like DELETE /api/ai/cache.
+// ?days=&rulebookVersion=&route=&provider=&model=
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (session.user.role !== "ADMIN") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+  const filters = parseAiAuditFilters(new URL(req.url).searchParams);
+  if (!filters) return NextResponse.json({ error: `days must be an integer from 1 to ${AI_AUDIT_MAX_DAYS}` }, { status: 400 });
+
+  try {
+    return NextResponse.json(await loadAiAuditReport(filters));
+  } catch (error) {
+    console.warn("/api/ai/audit failed", error);
+    return NextResponse.json({ error: "Failed to load the AI audit" }, { status: 500 });
+  }
+}
@@ -7,20 +7,19 @@ import { auth } from "@/auth";
 import {
   buildPortfolioContext,
   callOpenAIWithMeta,
+  streamOpenAIWithMeta,
   getCachedAiResult,
   saveAiResult,
+  type AiCallResult,
 } from "@/lib/openai";
-import {
-  AI_OUTPUT_RULES,
-  BRIEFING_STRUCTURE,
-  RULEBOOK_GUARDRAILS,
-  RULEBOOK_PROMPT_VERSION,
-  sanitizeAiOutput,
-} from "@/lib/ai-output-rules";
+import { RULEBOOK_PROMPT_VERSION, sanitizeAiOutput } from "@/lib/ai-output-rules";
+import { buildBriefingSystemPrompt } from "@/lib/ai-prompts";
 import { checkAiThrottle } from "@/lib/ai-throttle";
 import { recordAiCall } from "@/lib/audit/aiCallLog";
 import { ensureCurrentRulebookVersion } from "@/lib/audit/rulebookVersionOnce";
-import { validateAiOutput } from "@/lib/ai-validation/validateAiOutput";
+import { validateAiOutput, type ValidationResult } from "@/lib/ai-validation/validateAiOutput";
+import { wantsEventStream } from "@/lib/ai-stream";
+import { createAiStreamResponse } from "@/lib/ai-stream-response";
 
 export const dynamic = "force-dynamic";
 
@@ -32,32 +31,6 @@ function sha256Hex(input: string): string {
 
 const yahooFinance = new YahooFinance();
 
-function buildSystemPrompt(profile?: { age?: number; retirementAge?: number; yearsToRetirement?: number; annualIncomeCAD?: number; rrspRoomEstimate?: number }): string {
-  const notes: string[] = [];
-  if (profile?.retirementAge && profile?.yearsToRetirement !== undefined)
-    notes.push(`${profile.retirementAge}세 은퇴 목표 (${profile.yearsToRetirement}년 남음)`);
-  if (profile?.annualIncomeCAD)
-    notes.push(`연소득 $${profile.annualIncomeCAD.toLocaleString()} CAD, RRSP 추정 한도 ~$${profile.rrspRoomEstimate?.toLocaleString()}`);
-  const profileNote = notes.length > 0 ? `\n투자자 정보: ${notes.join(" / ")}. 은퇴 시점과 소득에 맞춘 TFSA/RRSP 전략을 우선시할 것.` : "";
-
-  return [
-    "당신은 캐나다 배당 투자 전문 어시스턴트입니다. SANGBONG INVESTMENT RULEBOOK v4.4.2 기준으로만 응답하세요.",
-    "[섹션 역할] 이 응답은 'BRIEFING' = 오늘 상태가 어떤가에 대한 짧은 status 요약. 화면에 이미 '현재 포트폴리오 표'와 '실행안 표 (정적 70/30)'가 authoritative하게 표시되고 있으므로, 이 텍스트에서는 SCHD/QLD/TQQQ/SGOV/QQQI 매수 CAD 금액을 다시 적지 마세요. 상태 평가만.",
-    "포트폴리오 데이터의 'rulebook' 섹션은 서버에서 미리 계산한 룰북 기준값입니다. 그 값을 그대로 사용하고, 영문 필드명은 한국어 라벨로 바꾸세요. 임의로 다시 계산하지 마세요.",
-    "",
-    RULEBOOK_GUARDRAILS,
-    "",
-    "캐나다 세제 메모: TFSA 연 $7,000 납입 한도, RRSP 소득공제, 미국 배당이 TFSA로 들어오면 15% 원천징수, RRSP는 면제." + profileNote,
-    "뉴스는 사실 요약 1-2문장만 언급하고, 룰북을 변경·override 하는 근거로 사용하지 마세요.",
-    "",
-    AI_OUTPUT_RULES,
-    "",
-    BRIEFING_STRUCTURE,
-    "",
-    "각 섹션은 2-3문장. 짧고 명확하게. 마크다운 별표(**) 사용하지 말 것. 모든 비중에는 'core' / 'total' 중 어느 기준인지 명시. 매수 액션 금액은 절대 텍스트로 적지 말 것 (표가 답).",
-  ].join("\n");
-}
-
 async function getTopHoldingNews(tickers: string[]): Promise<string> {
   const top = tickers.slice(0, 4);
   const results: string[] = [];
@@ -153,21 +126,39 @@ export async function POST(req: Request) {
     .filter(Boolean)
     .join("");
 
-  const systemPrompt = buildSystemPrompt(context.investorProfile);
+  const systemPrompt = buildBriefingSystemPrompt(context.investorProfile);
   const systemPromptHash = sha256Hex(systemPrompt);
 
-  const callStarted = Date.now();
-  const aiResult = await callOpenAIWithMeta(
-    [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt + "\n\n사용자에게 보여줄 답변에는 절대로 영문 필드명을 노출하지 마세요." },
-    ],
-    { maxTokens: 600 },
-  );
-  const durationMs = Date.now() - callStarted;
+  const messages = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt + "\n\n사용자에게 보여줄 답변에는 절대로 영문 필드명을 노출하지 마세요." },
+  ];
+  const errorMessage = "AI 브리핑을 생성할 수 없습니다. 잠시 후 다시 시도해주세요.";
 
-  if (!aiResult.ok) {
-    console.error("AI briefing error:", aiResult.error.message);
+  // One AiCallLog row per request, shared by the JSON and streaming paths.
+  const recordResult = (aiResult: AiCallResult, durationMs: number, final?: { sanitized: string; validation: ValidationResult }) => {
+    if (!aiResult.ok) {
+      console.error("AI briefing error:", aiResult.error.message);
+      void recordAiCall({
+        userId,
+        route: ROUTE,
+        provider: aiResult.meta.provider,
+        model: aiResult.meta.model,
+        rulebookVersion: RULEBOOK_PROMPT_VERSION,
+        systemPromptHash,
+        userQueryHash: null,
+        contextSizeChars: contextStr.length,
+        cached: false,
+        status: "upstream_error",
+        httpStatus: aiResult.error.httpStatus ?? 500,
+        durationMs,
+        upstreamDurationMs: aiResult.meta.upstreamDurationMs,
+        errorMessage: aiResult.error.message,
+      });
+      return;
+    }
+    if (!final) return;
+    const { sanitized, validation } = final;
     void recordAiCall({
       userId,
       route: ROUTE,
@@ -178,13 +169,53 @@ export async function POST(req: Request) {
       userQueryHash: null,
       contextSizeChars: contextStr.length,
       cached: false,
-      status: "upstream_error",
-      httpStatus: aiResult.error.httpStatus ?? 500,
+      status: "ok",
+      httpStatus: aiResult.meta.httpStatus,
       durationMs,
       upstreamDurationMs: aiResult.meta.upstreamDurationMs,
-      errorMessage: aiResult.error.message,
+      promptTokens: aiResult.meta.promptTokens,
+      completionTokens: aiResult.meta.completionTokens,
+      totalTokens: aiResult.meta.totalTokens,
+      // recordAiCall enforces AI_AUDIT_STORE_RAW=true to actually persist this.
+      rawResponse: aiResult.rawResponse,
+      sanitizedResponse: sanitized,
+      validatedAt: new Date(),
+      validationStatus: validation.ok ? "pass" : "violation",
+      violationCodes: validation.violations.map((v) => v.code),
+      errorMessage: validation.ok
+        ? undefined
+        : validation.violations.map((v) => `${v.code}: ${v.reason}`).join("; "),
     });
-    return NextResponse.json({ error: "AI 브리핑을 생성할 수 없습니다. 잠시 후 다시 시도해주세요.", cached: false });
+  };
+
+  // Streaming: the panel renders deltas as they arrive. A briefing the guard
+  // retracted has already been pulled from the screen, so it is not cached —
+  // the next load asks again instead of serving it from the cache.
+  if (wantsEventStream(req)) {
+    return createAiStreamResponse({
+      route: ROUTE,
+      rulebookVersion: RULEBOOK_PROMPT_VERSION,
+      call: (onDelta) => streamOpenAIWithMeta(messages, { maxTokens: 600, onDelta }),
+      resultKey: "result",
+      errorMessage,
+      onComplete: async ({ result, durationMs, sanitized, validation, retracted }) => {
+        if (result.ok && sanitized != null && validation) {
+          if (!retracted) await saveAiResult(userId, cacheKey, sanitized);
+          recordResult(result, durationMs, { sanitized, validation });
+        } else {
+          recordResult(result, durationMs);
+        }
+      },
+    });
+  }
+
+  const callStarted = Date.now();
+  const aiResult = await callOpenAIWithMeta(messages, { maxTokens: 600 });
+  const durationMs = Date.now() - callStarted;
+
+  if (!aiResult.ok) {
+    recordResult(aiResult, durationMs);
+    return NextResponse.json({ error: errorMessage, cached: false });
   }
 
   const sanitized = sanitizeAiOutput(aiResult.content);
@@ -201,34 +232,7 @@ export async function POST(req: Request) {
   });
 
   await saveAiResult(userId, cacheKey, sanitized);
-
-  void recordAiCall({
-    userId,
-    route: ROUTE,
-    provider: aiResult.meta.provider,
-    model: aiResult.meta.model,
-    rulebookVersion: RULEBOOK_PROMPT_VERSION,
-    systemPromptHash,
-    userQueryHash: null,
-    contextSizeChars: contextStr.length,
-    cached: false,
-    status: "ok",
-    httpStatus: aiResult.meta.httpStatus,
-    durationMs,
-    upstreamDurationMs: aiResult.meta.upstreamDurationMs,
-    promptTokens: aiResult.meta.promptTokens,
-    completionTokens: aiResult.meta.completionTokens,
-    totalTokens: aiResult.meta.totalTokens,
-    // recordAiCall enforces AI_AUDIT_STORE_RAW=true to actually persist this.
-    rawResponse: aiResult.rawResponse,
-    sanitizedResponse: sanitized,
-    validatedAt: new Date(),
-    validationStatus: validation.ok ? "pass" : "violation",
-    violationCodes: validation.violations.map((v) => v.code),
-    errorMessage: validation.ok
-      ? undefined
-      : validation.violations.map((v) => `${v.code}: ${v.reason}`).join("; "),
-  });
+  recordResult(aiResult, durationMs, { sanitized, validation });
 
   return NextResponse.json({ result: sanitized, cached: false });
 }
@@ -2,45 +2,51 @@ import { createHash } from "node:crypto";
 
 import { NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { buildPortfolioContext, callOpenAIWithMeta } from "@/lib/openai";
-import {
-  AI_OUTPUT_RULES,
-  RULEBOOK_GUARDRAILS,
-  RULEBOOK_PROMPT_VERSION,
-  sanitizeAiOutput,
-} from "@/lib/ai-output-rules";
+import { callOpenAIWithTools, type AiCallResult, type AiToolset } from "@/lib/openai";
+import { RULEBOOK_PROMPT_VERSION, sanitizeAiOutput } from "@/lib/ai-output-rules";
+import { buildChatSystemPrompt } from "@/lib/ai-prompts";
 import { checkAiThrottle } from "@/lib/ai-throttle";
 import { recordAiCall } from "@/lib/audit/aiCallLog";
 import { ensureCurrentRulebookVersion } from "@/lib/audit/rulebookVersionOnce";
-import { validateAiOutput } from "@/lib/ai-validation/validateAiOutput";
+import { validateAiOutput, type ValidationResult } from "@/lib/ai-validation/validateAiOutput";
+import { wantsEventStream } from "@/lib/ai-stream";
+import { createAiStreamResponse } from "@/lib/ai-stream-response";
+import { CHAT_TOOLS, parseChatToolArgs } from "@/lib/ai-chat-tools";
+import { createChatToolExecutor } from "@/lib/ai-chat-tools-source";
+import { userQueryHashOf, type AiConversationValidationStatus } from "@/lib/ai-conversations";
+import {
+  appendAiConversationMessage,
+  createAiConversation,
+  loadAiChatHistory,
+  markAiConversationTurnFailed,
+} from "@/lib/ai-conversations-source";
 
 export const dynamic = "force-dynamic";
 
 const ROUTE = "ai/chat";
 
+/** Response header carrying the conversation id (JSON and streaming paths). */
+const CONVERSATION_HEADER = "X-AI-Conversation-Id";
+
 interface ChatMessage { role: string; content: string; }
 
 function sha256Hex(input: string): string {
   return createHash("sha256").update(input).digest("hex");
 }
 
-/**
- * Per-user salted hash of the user's chat message. The salt is the cuid in
- * session.user.id, which is server-issued and unguessable — sufficient to
- * prevent cross-user hash collisions and rainbow-table lookups while keeping
- * the raw message out of storage.
- */
-function userQueryHashOf(userId: string, trimmedMessage: string): string {
-  return sha256Hex(`${userId}:${trimmedMessage}`);
-}
-
 export async function POST(req: Request) {
   const session = await auth();
   if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   const userId = session.user.id;
 
-  const { message, history = [] } = (await req.json()) as { message: string; history?: ChatMessage[] };
+  const { message, conversationId: requestedConversationId } = (await req.json()) as {
+    message: string;
+    conversationId?: string;
+  };
   if (!message?.trim()) return NextResponse.json({ error: "message is required" }, { status: 400 });
+  if (requestedConversationId != null && typeof requestedConversationId !== "string") {
+    return NextResponse.json({ error: "conversationId must be a string" }, { status: 400 });
+  }
 
   const trimmedMessage = message.trim();
   const userQueryHash = userQueryHashOf(userId, trimmedMessage);
@@ -69,46 +75,81 @@ export async function POST(req: Request) {
     );
   }
 
-  const context = await buildPortfolioContext(userId);
-  const parsed = JSON.parse(context) as { investorProfile?: { age?: number; retirementAge?: number; yearsToRetirement?: number; annualIncomeCAD?: number; rrspRoomEstimate?: number } };
-  const profile = parsed.investorProfile;
-  const notes: string[] = [];
-  if (profile?.retirementAge && profile?.yearsToRetirement !== undefined)
-    notes.push(`${profile.retirementAge}세 은퇴 목표 (${profile.yearsToRetirement}년 남음)`);
-  if (profile?.annualIncomeCAD)
-    notes.push(`연소득 $${profile.annualIncomeCAD.toLocaleString()} CAD (RRSP 추정 한도 ~$${profile.rrspRoomEstimate?.toLocaleString()})`);
-  const profileNote = notes.length > 0 ? ` 투자자 정보: ${notes.join(", ")}. 이를 바탕으로 맞춤 조언.` : "";
-
-  const systemPrompt = [
-    "캐나다 배당 투자 전문 어시스턴트. TFSA/RRSP/FHSA/NON_REG 계좌 전문가. SANGBONG INVESTMENT RULEBOOK v4.4.2 기준으로만 응답하세요.",
-    "포트폴리오 데이터의 'rulebook' 섹션 값을 그대로 활용하고, 영문 필드명은 한국어 라벨로 바꾸세요.",
-    "",
-    RULEBOOK_GUARDRAILS,
-    "",
-    "사용자 메시지가 행동 제안(매수·매도·비중 변경 등)을 담고 있으면 반드시 'Accept' / 'Reject' / 'Modify' 중 하나로 분류하고, 분류 사유와 룰북 §-조항을 답변에 포함하세요. 룰북과 충돌하면 무조건 Reject.",
-    "시장 전망·뉴스·심리·예측을 이유로 룰북을 수정·override 하지 마세요.",
-    "",
-    AI_OUTPUT_RULES,
-    "",
-    `간결하게 답변 (3-5문장). 비중은 항상 'core' 또는 'total' 기준 명시. 마크다운 별표 금지.${profileNote}`,
-    "포트폴리오 데이터:",
-    context,
-  ].join("\n");
+  // History comes from the stored conversation, never from the request body.
+  let conversationId: string;
+  let history: ChatMessage[] = [];
+  if (requestedConversationId) {
+    const stored = await loadAiChatHistory(userId, requestedConversationId);
+    if (!stored) return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    conversationId = requestedConversationId;
+    history = stored;
+  } else {
+    conversationId = await createAiConversation(userId, trimmedMessage, RULEBOOK_PROMPT_VERSION);
+  }
+  const userMessageId = await appendAiConversationMessage(conversationId, {
+    role: "user",
+    content: trimmedMessage,
+    rulebookVersion: RULEBOOK_PROMPT_VERSION,
+    userQueryHash,
+  });
 
+  // Read-only tools instead of a full buildPortfolioContext() dump: the model
+  // pulls only the slices it needs for this question.
+  const executeTool = createChatToolExecutor(userId);
+  const tools: AiToolset = {
+    definitions: CHAT_TOOLS,
+    execute: (name, rawArguments) => executeTool(parseChatToolArgs(name, rawArguments)),
+  };
+
+  const systemPrompt = buildChatSystemPrompt(new Date().toISOString().slice(0, 10));
   const systemPromptHash = sha256Hex(systemPrompt);
 
   const messages: ChatMessage[] = [
     { role: "system", content: systemPrompt },
-    ...history.slice(-6),
+    ...history,
     { role: "user", content: trimmedMessage },
   ];
 
-  const callStarted = Date.now();
-  const result = await callOpenAIWithMeta(messages, { maxTokens: 400 });
-  const durationMs = Date.now() - callStarted;
-
-  if (!result.ok) {
-    console.error("AI chat error:", result.error.message);
+  const errorMessage = "AI 응답을 생성할 수 없습니다. 잠시 후 다시 시도해주세요.";
+
+  // One AiCallLog row per request, shared by the JSON and streaming paths,
+  // plus the assistant turn in the conversation (awaited, so a resume right
+  // after the reply sees it). contextSizeChars is the portfolio data the model
+  // actually pulled via tools.
+  const recordResult = async (
+    result: AiCallResult,
+    durationMs: number,
+    final?: { reply: string; validation: ValidationResult; retracted?: boolean },
+  ) => {
+    const toolCalls = result.meta.toolCalls ?? [];
+    const contextSizeChars = toolCalls.reduce((sum, call) => sum + call.resultChars, 0);
+    if (!result.ok) {
+      console.error("AI chat error:", result.error.message);
+      void recordAiCall({
+        userId,
+        route: ROUTE,
+        provider: result.meta.provider,
+        model: result.meta.model,
+        rulebookVersion: RULEBOOK_PROMPT_VERSION,
+        systemPromptHash,
+        userQueryHash,
+        contextSizeChars,
+        status: "upstream_error",
+        httpStatus: result.error.httpStatus ?? 500,
+        durationMs,
+        upstreamDurationMs: result.meta.upstreamDurationMs,
+        errorMessage: result.error.message,
+        toolCalls,
+      });
+      try {
+        await markAiConversationTurnFailed(userMessageId);
+      } catch (error) {
+        console.warn("/api/ai/chat conversation save failed", error);
+      }
+      return;
+    }
+    if (!final) return;
+    const { reply, validation, retracted } = final;
     void recordAiCall({
       userId,
       route: ROUTE,
@@ -117,47 +158,70 @@ export async function POST(req: Request) {
       rulebookVersion: RULEBOOK_PROMPT_VERSION,
       systemPromptHash,
       userQueryHash,
-      contextSizeChars: context.length,
-      status: "upstream_error",
-      httpStatus: result.error.httpStatus ?? 500,
+      contextSizeChars,
+      status: "ok",
+      httpStatus: result.meta.httpStatus,
       durationMs,
       upstreamDurationMs: result.meta.upstreamDurationMs,
-      errorMessage: result.error.message,
+      promptTokens: result.meta.promptTokens,
+      completionTokens: result.meta.completionTokens,
+      totalTokens: result.meta.totalTokens,
+      // recordAiCall enforces AI_AUDIT_STORE_RAW=true to actually persist this.
+      rawResponse: result.rawResponse,
+      sanitizedResponse: reply,
+      validatedAt: new Date(),
+      validationStatus: validation.ok ? "pass" : "violation",
+      violationCodes: validation.violations.map((v) => v.code),
+      errorMessage: validation.ok
+        ? undefined
+        : validation.violations.map((v) => `${v.code}: ${v.reason}`).join("; "),
+      toolCalls,
     });
-    return NextResponse.json({ error: "AI 응답을 생성할 수 없습니다. 잠시 후 다시 시도해주세요." });
+
+    const validationStatus: AiConversationValidationStatus = retracted ? "retracted" : validation.ok ? "pass" : "violation";
+    try {
+      await appendAiConversationMessage(conversationId, {
+        role: "assistant",
+        content: reply,
+        rulebookVersion: RULEBOOK_PROMPT_VERSION,
+        validationStatus,
+        violations: validation.violations,
+        toolCalls,
+      });
+    } catch (error) {
+      console.warn("/api/ai/chat conversation save failed", error);
+    }
+  };
+
+  // Streaming: deltas as they arrive, retraction if a detector fires mid-stream.
+  if (wantsEventStream(req)) {
+    const response = createAiStreamResponse({
+      route: ROUTE,
+      rulebookVersion: RULEBOOK_PROMPT_VERSION,
+      call: (onDelta) => callOpenAIWithTools(messages, { maxTokens: 400, tools, onDelta }),
+      resultKey: "reply",
+      errorMessage,
+      onComplete: ({ result, durationMs, sanitized, validation, retracted }) =>
+        recordResult(result, durationMs, sanitized != null && validation ? { reply: sanitized, validation, retracted } : undefined),
+    });
+    response.headers.set(CONVERSATION_HEADER, conversationId);
+    return response;
+  }
+
+  const callStarted = Date.now();
+  const result = await callOpenAIWithTools(messages, { maxTokens: 400, tools });
+  const durationMs = Date.now() - callStarted;
+
+  if (!result.ok) {
+    await recordResult(result, durationMs);
+    return NextResponse.json({ error: errorMessage, conversationId }, { headers: { [CONVERSATION_HEADER]: conversationId } });
   }
 
   const reply = sanitizeAiOutput(result.content);
   const validation = validateAiOutput(ROUTE, result.rawResponse, reply, {
     rulebookVersion: RULEBOOK_PROMPT_VERSION,
   });
+  await recordResult(result, durationMs, { reply, validation });
 
-  void recordAiCall({
-    userId,
-    route: ROUTE,
-    provider: result.meta.provider,
-    model: result.meta.model,
-    rulebookVersion: RULEBOOK_PROMPT_VERSION,
-    systemPromptHash,
-    userQueryHash,
-    contextSizeChars: context.length,
-    status: "ok",
-    httpStatus: result.meta.httpStatus,
-    durationMs,
-    upstreamDurationMs: result.meta.upstreamDurationMs,
-    promptTokens: result.meta.promptTokens,
-    completionTokens: result.meta.completionTokens,
-    totalTokens: result.meta.totalTokens,
-    // recordAiCall enforces AI_AUDIT_STORE_RAW=true to actually persist this.
-    rawResponse: result.rawResponse,
-    sanitizedResponse: reply,
-    validatedAt: new Date(),
-    validationStatus: validation.ok ? "pass" : "violation",
-    violationCodes: validation.violations.map((v) => v.code),
-    errorMessage: validation.ok
-      ? undefined
-      : validation.violations.map((v) => `${v.code}: ${v.reason}`).join("; "),
-  });
-
-  return NextResponse.json({ reply });
+  return NextResponse.json({ reply, conversationId }, { headers: { [CONVERSATION_HEADER]: conversationId } });
 }
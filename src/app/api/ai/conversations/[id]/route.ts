@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { AI_CONVERSATION_TITLE_MAX, parseConversationTitle } from "@/lib/ai-conversations";
+import {
+  deleteAiConversation,
+  getAiConversation,
+  renameAiConversation,
+} from "@/lib/ai-conversations-source";
+
+export const dynamic = "force-dynamic";
+
+// Resume: every message with its rulebook version, validation result and the
+// tools the assistant consulted. Continue it by posting { conversationId } to
+// /api/ai/chat.
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const conversation = await getAiConversation(session.user.id, id);
+  if (!conversation) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json(conversation);
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const title = parseConversationTitle(body.title);
+  if (!title) {
+    return NextResponse.json({ error: `title must be 1-${AI_CONVERSATION_TITLE_MAX} characters` }, { status: 400 });
+  }
+
+  if (!(await renameAiConversation(session.user.id, id, title))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  if (!(await deleteAiConversation(session.user.id, id))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { AI_CONVERSATION_LIST_LIMIT, parseConversationQuery } from "@/lib/ai-conversations";
+import { listAiConversations } from "@/lib/ai-conversations-source";
+
+export const dynamic = "force-dynamic";
+
+// Past AI chat conversations, most recently active first. `?q=` searches titles
+// and message text (case-insensitive) and returns a snippet of the first match.
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const params = new URL(req.url).searchParams;
+  const rawQuery = params.get("q");
+  const query = parseConversationQuery(rawQuery);
+  if (rawQuery?.trim() && !query) {
+    return NextResponse.json({ error: "q must be at least 2 characters" }, { status: 400 });
+  }
+  const limit = Number(params.get("limit") ?? AI_CONVERSATION_LIST_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ conversations: await listAiConversations(session.user.id, { query, limit }) });
+  } catch (error) {
+    console.warn("/api/ai/conversations failed", error);
+    return NextResponse.json({ error: "Failed to load conversations" }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadAiEvalReport } from "@/lib/ai-eval-source";
+
+export const dynamic = "force-dynamic";
+
+// Saved guardrail evaluation runs (npm run ai:eval -- --save) and the diff of
+// ?candidate= against ?baseline=; both default to the latest comparable runs.
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (session.user.role !== "ADMIN") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+  const params = new URL(req.url).searchParams;
+  try {
+    return NextResponse.json(
+      await loadAiEvalReport({ candidateId: params.get("candidate") || null, baselineId: params.get("baseline") || null }),
+    );
+  } catch (error) {
+    console.warn("/api/ai/eval failed", error);
+    return NextResponse.json({ error: "Failed to load evaluation runs" }, { status: 500 });
+  }
+}
@@ -20,8 +20,11 @@ import {
   projectScenariosRulebook,
   RULEBOOK_SCENARIOS,
   RULEBOOK_TARGETS,
+  type ProjectionInputV2,
 } from "@/lib/rulebook";
-import { AI_OUTPUT_RULES, PROJECTION_STRUCTURE, RULEBOOK_GUARDRAILS, RULEBOOK_PROMPT_VERSION, sanitizeAiOutput } from "@/lib/ai-output-rules";
+import { projectMonteCarloRulebook } from "@/lib/projection-monte-carlo";
+import { RULEBOOK_PROMPT_VERSION, sanitizeAiOutput } from "@/lib/ai-output-rules";
+import { PROJECTION_SYSTEM_PROMPT } from "@/lib/ai-prompts";
 import { checkAiThrottle } from "@/lib/ai-throttle";
 import { recordAiCall } from "@/lib/audit/aiCallLog";
 import { ensureCurrentRulebookVersion } from "@/lib/audit/rulebookVersionOnce";
@@ -32,7 +35,7 @@ export const dynamic = "force-dynamic";
 const ROUTE = "ai/projection";
 
 const DEFAULT_FX = 1.38;
-const CACHE_KEY = `ai_projection_${RULEBOOK_PROMPT_VERSION}_performance_baseline_v4`;
+const CACHE_KEY = `ai_projection_${RULEBOOK_PROMPT_VERSION}_performance_baseline_v5`;
 
 function sha256Hex(input: string): string {
   return createHash("sha256").update(input).digest("hex");
@@ -401,7 +404,7 @@ async function runProjection(userId: string) {
   const SGOV_TYPICAL_YIELD_PCT = 4.5;
   const QQQI_TYPICAL_YIELD_PCT = 8.0;  // covered-call ETF; modelled constant
 
-  const scenarios = projectScenariosRulebook({
+  const projectionInput: ProjectionInputV2 = {
     start: {
       schdCAD: weights.schdCAD,
       qldCAD:  weights.qldCAD,
@@ -425,6 +428,17 @@ async function runProjection(userId: string) {
     divGrowthPct,
     yearPoints,
     maxYears,
+  };
+  const scenarios = projectScenariosRulebook(projectionInput);
+  // Same rulebook path under random yearly returns → P10/P50/P90 fan + goal / depletion odds.
+  // Horizon runs at least through the §11 meltdown, the only phase that can drain the portfolio.
+  const monteCarlo = projectMonteCarloRulebook({
+    ...projectionInput,
+    maxYears: birthYear
+      ? Math.max(maxYears, RULEBOOK_TARGETS.RRSP_MELTDOWN_END_AGE - (currentYear - birthYear))
+      : maxYears,
+    incomeGoalCAD,
+    goalYearsFromNow: yearsToRetirement || null,
   });
 
   const baseScenario = scenarios.find(s => s.id === "base")!;
@@ -641,29 +655,13 @@ async function runProjection(userId: string) {
     `위 데이터를 바탕으로 사용자에게 보여줄 분석을 제공하세요. 사용자에게 보여줄 답변에는 절대로 영문 필드명을 노출하지 마세요. 한국어 라벨과 자연스러운 문장만 사용하세요.`,
   ].join("\n");
 
-  const narrativeSystemPrompt = [
-    "당신은 캐나다 배당 투자 전문 어시스턴트입니다. SANGBONG & HAERAN INVESTMENT RULEBOOK v4.4.2 기준으로만 응답하세요.",
-    "[섹션 역할] 이 응답은 'PROJECTION narrative' = 미래·시나리오·트리거 영향 중심. 화면 위에 이미 '현재 포트폴리오 표' + '실행안 표'가 authoritative하게 표시되고 있으므로, 이 텍스트에서는 현재 비중 데이터를 다시 풀어 쓰지 말고 매수 액션 CAD 금액도 다시 적지 마세요. 시나리오 의미·트리거 미래 영향·리스크 평가에만 집중.",
-    "시나리오는 BASE 6% / PESSIMISTIC 4% / WORST 2% 세 가지만 사용. Optimistic 시나리오 생성 금지.",
-    "CRITICAL: 절대로 표의 수치(CAD 금액·percent·시나리오 절대값)를 텍스트에 다시 적지 마라. 표가 authoritative이고 narrative는 의미/트리거 영향/리스크만 평가. 표 데이터를 풀어 쓰면 응답을 거부.",
-    "v4.4.2 핵심: (1) Method B 폐지 → Core 분배는 정적 70/30. (2) Satellite = SGOV + QQQI (IAUM 제외). QQQI: Sangbong TFSA only, hard cap 5%, weekly 25 CAD. (3) TQQQ Soft Exit (34%) 재도입 + §10 Emergency cap (38%) — 둘 다 daily close. (4) §6.1 Crisis Trigger는 month-end close 만. (5) SCHD 배당 재투자도 정적 70/30 (overlay 시 70/30 SCHD/TQQQ). (6) SGOV 8% 목표 / 5% 바닥 / 3% 가용 버퍼. (7) QQQI는 crisis/rebalance/SGOV refill 자금원으로 사용 금지.",
-    "",
-    RULEBOOK_GUARDRAILS,
-    "",
-    AI_OUTPUT_RULES,
-    "",
-    PROJECTION_STRUCTURE,
-    "",
-    "각 섹션은 2-4문장. 비중은 'core' / 'total' 기준 명시. 룰북 §-조항을 본문에 인용. 마크다운 별표(**) 사용 금지. 숫자는 천 단위 콤마, 'CAD' 단위, 비율은 소수 1자리. 매수 CAD 금액 반복 금지 (실행안 표가 답). 수익률 보장 표현 금지.",
-  ].join("\n");
-
-  const systemPromptHash = sha256Hex(narrativeSystemPrompt);
+  const systemPromptHash = sha256Hex(PROJECTION_SYSTEM_PROMPT);
   const FALLBACK_NARRATIVE = "AI 분석을 생성할 수 없습니다. 잠시 후 다시 시도해주세요.";
 
   const callStarted = Date.now();
   const aiResult = await callOpenAIWithMeta(
     [
-      { role: "system", content: narrativeSystemPrompt },
+      { role: "system", content: PROJECTION_SYSTEM_PROMPT },
       { role: "user", content: narrativeUserPrompt },
     ],
     { maxTokens: 700 },
@@ -744,6 +742,7 @@ async function runProjection(userId: string) {
   const result = {
     projections,           // BASE points (backwards-compat)
     scenarios,             // 3 scenarios
+    monteCarlo,            // stochastic fan (P10/P50/P90), goal + depletion probability
     assumptions,           // existing contract
     currentState,          // UI uses this for the rulebook snapshot table
     coreAllocationPlan,    // §5 static 70/30 split (overlay-aware) / §4 QQQI / §8 SGOV streams
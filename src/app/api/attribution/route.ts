@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import {
+  ATTRIBUTION_PRESETS,
+  attributionPresetWindow,
+  type AttributionPreset,
+} from "@/lib/portfolio/attribution";
+import { loadReturnAttribution, type ReturnAttributionReport } from "@/lib/portfolio/attribution-source";
+import { parseSnapshotScope } from "@/lib/snapshot-scope";
+
+export const dynamic = "force-dynamic";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Every close in the window is replayed through the engine; the inputs move once a day.
+const cache = new Map<string, { data: ReturnAttributionReport; fetchedAt: number }>();
+const TTL = 60 * 60 * 1000; // 1 hour
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const scope = parseSnapshotScope(searchParams);
+  if ("error" in scope) return NextResponse.json({ error: scope.error }, { status: 400 });
+
+  const today = new Date().toISOString().slice(0, 10);
+  let from = searchParams.get("from");
+  let to = searchParams.get("to");
+  if (!from && !to) {
+    const preset = (searchParams.get("preset") ?? "qtd") as AttributionPreset;
+    if (!ATTRIBUTION_PRESETS.includes(preset)) return NextResponse.json({ error: "Invalid preset" }, { status: 400 });
+    ({ from, to } = attributionPresetWindow(preset, today));
+  }
+  to = to ?? today;
+  if (!from || !DATE_RE.test(from) || !DATE_RE.test(to) || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    return NextResponse.json({ error: "from and to must be YYYY-MM-DD" }, { status: 400 });
+  }
+  if (to > today) to = today;
+  if (from >= to) return NextResponse.json({ error: "from must be before to" }, { status: 400 });
+
+  const scopeKey = scope.kind === "portfolio" ? scope.portfolioId : scope.kind === "accountType" ? scope.accountType : "all";
+  const cacheKey = `${session.user.id}:${scopeKey}:${from}:${to}`;
+  const cached = cache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < TTL) return NextResponse.json(cached.data);
+
+  try {
+    const data = await loadReturnAttribution(session.user.id, from, to, scope);
+    cache.set(cacheKey, { data, fetchedAt: Date.now() });
+    return NextResponse.json(data);
+  } catch (error) {
+    console.warn("/api/attribution failed", error);
+    return NextResponse.json({ error: "Failed to compute attribution" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { deleteUserAiCache } from "@/lib/ai-cache";
+import { parseBackupBundle } from "@/lib/backup";
+import { exportBackup, restoreBackup, type RestoreMode } from "@/lib/backup-source";
+import { log } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+// Download the signed-in user's data as a versioned JSON bundle (secrets excluded).
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const bundle = await exportBackup(session.user.id);
+  const filename = `dividendtracker-backup-${bundle.exportedAt.slice(0, 10)}.json`;
+  return new NextResponse(JSON.stringify(bundle, null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+// Restore a bundle: body { bundle, mode: "empty" | "merge", dryRun? }.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const mode = (body.mode ?? "merge") as RestoreMode;
+  if (mode !== "empty" && mode !== "merge") {
+    return NextResponse.json({ error: "mode must be empty or merge" }, { status: 400 });
+  }
+
+  let bundle: ReturnType<typeof parseBackupBundle>;
+  try {
+    bundle = parseBackupBundle(body.bundle);
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid backup" }, { status: 400 });
+  }
+
+  try {
+    const result = await restoreBackup(bundle, session.user.id, { mode, dryRun: body.dryRun === true });
+    if (!result.dryRun) await deleteUserAiCache(session.user.id).catch(() => { /* non-fatal */ });
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn({ event: "backup.restore.failed", mode, error: message });
+    return NextResponse.json({ error: `Restore failed; nothing was written (${message})` }, { status: 422 });
+  }
+}
@@ -28,6 +28,12 @@ assert.match(
   "cron snapshot must continue upserting PortfolioSnapshot as a daily cache",
 );
 
+assert.match(
+  source,
+  /portfolioAccountSnapshot\.upsert/,
+  "cron snapshot must write one PortfolioAccountSnapshot row per portfolio for the account views",
+);
+
 assert.match(
   source,
   /legacy.*totalCAD|legacyTotalCAD|legacySnapshotValue/i,
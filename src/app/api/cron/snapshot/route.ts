@@ -2,6 +2,11 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { yahooFinance } from "@/lib/price";
+import { FX_MAX_STALE_DAYS, getFxRateOn, ingestFxRates } from "@/lib/fx-rates";
+import { writeRulebookTriggers } from "@/lib/rulebook-triggers-source";
+import { channelsFromEnv } from "@/lib/notify/channels";
+import { sendCronNotifications } from "@/lib/notify/notify-source";
+import type { RulebookHoldingValue } from "@/lib/rulebook";
 import {
   computePortfolioValueCAD,
   type EngineCashLedgerRow,
@@ -12,7 +17,6 @@ import {
 
 export const dynamic = "force-dynamic";
 
-const DEFAULT_FX_RATE = 1.35;
 const DRIFT_ALERT_THRESHOLD = 0.005; // 0.5% migration threshold; tighten after P7/backfill.
 const JEPQ_INVARIANT_WINDOW_MS = 24 * 60 * 60 * 1000;
 const AUTO_BUY_WINDOW_MS = 5 * 60 * 1000;
@@ -52,15 +56,6 @@ type TransactionRow = {
   };
 };
 
-async function getFxRate(): Promise<number> {
-  try {
-    const q = await yahooFinance.quote("USDCAD=X", { fields: ["regularMarketPrice"] });
-    return q.regularMarketPrice ?? parseFloat(process.env.DEFAULT_FX_RATE ?? String(DEFAULT_FX_RATE));
-  } catch {
-    return parseFloat(process.env.DEFAULT_FX_RATE ?? String(DEFAULT_FX_RATE));
-  }
-}
-
 function decimalToNumber(value: DecimalLike): number {
   const parsed = parseFloat(value?.toString() ?? "0");
   return Number.isFinite(parsed) ? parsed : 0;
@@ -107,6 +102,24 @@ function computeLegacySnapshotValueCAD(portfolios: PortfolioWithHoldings[], pric
   };
 }
 
+function rulebookHoldingValues(portfolios: PortfolioWithHoldings[], priceCache: Map<string, number>, fxRate: number) {
+  const holdings: RulebookHoldingValue[] = [];
+  const unverifiedItems = new Set<string>();
+  for (const portfolio of portfolios) {
+    for (const holding of portfolio.holdings) {
+      const quantity = decimalToNumber(holding.quantity);
+      if (!holding.isActive || quantity <= 0) continue;
+      const price = priceCache.get(holding.ticker.toUpperCase());
+      if (!price) {
+        unverifiedItems.add(`missing-price:${holding.ticker.toUpperCase()}`);
+        continue;
+      }
+      holdings.push({ ticker: holding.ticker, valueCAD: quantity * price * (holding.currency === "USD" ? fxRate : 1) });
+    }
+  }
+  return { holdings, unverifiedItems: Array.from(unverifiedItems) };
+}
+
 function transactionCostBasisCAD(transactions: EngineTransaction[], date: Date | string, fxRate: number): number {
   const byTicker = new Map<string, { quantity: number; costCAD: number }>();
   const cutoff = dateKey(date);
@@ -288,19 +301,81 @@ async function writeOptionalDriftFields(input: {
   }
 }
 
+type AccountSnapshotValue = {
+  portfolioId: string;
+  accountType: PortfolioWithHoldings["accountType"];
+  totalCAD: number;
+  costBasisCAD: number;
+  cashCAD: number;
+  engineValueCAD: number | null;
+};
+
+// One row per portfolio, valued the same way as the user's total for the run.
+function computeAccountSnapshotValues(input: {
+  portfolios: PortfolioWithHoldings[];
+  engineTransactions: EngineTransaction[];
+  engineCashLedgerRows: EngineCashLedgerRow[];
+  priceCache: Map<string, number>;
+  fxRate: number;
+  date: Date;
+  useEngine: boolean;
+}): AccountSnapshotValue[] {
+  return input.portfolios.map((portfolio) => {
+    if (!input.useEngine) {
+      const legacy = computeLegacySnapshotValueCAD([portfolio], input.priceCache, input.fxRate);
+      return { portfolioId: portfolio.id, accountType: portfolio.accountType, ...legacy, engineValueCAD: null };
+    }
+    const transactions = input.engineTransactions.filter((transaction) => transaction.portfolioId === portfolio.id);
+    const point = computePortfolioValueCAD({
+      date: input.date,
+      portfolioIds: [portfolio.id],
+      transactions,
+      ledgerRows: input.engineCashLedgerRows,
+      prices: createMarketPricePoints(transactions, input.priceCache, input.date),
+      fxRates: [{ date: input.date, usdCad: input.fxRate }],
+    });
+    return {
+      portfolioId: portfolio.id,
+      accountType: portfolio.accountType,
+      totalCAD: point.totalCAD,
+      costBasisCAD: transactionCostBasisCAD(transactions, input.date, input.fxRate),
+      cashCAD: point.cashCAD,
+      engineValueCAD: point.totalCAD,
+    };
+  });
+}
+
+async function writeAccountSnapshots(userId: string, date: Date, values: AccountSnapshotValue[]) {
+  try {
+    await prisma.$transaction(values.map((value) => {
+      const data = {
+        accountType: value.accountType,
+        totalCAD: value.totalCAD,
+        costBasisCAD: value.costBasisCAD,
+        cashCAD: value.cashCAD,
+        engineValueCAD: value.engineValueCAD,
+      };
+      return prisma.portfolioAccountSnapshot.upsert({
+        where: { portfolioId_date: { portfolioId: value.portfolioId, date } },
+        update: data,
+        create: { userId, portfolioId: value.portfolioId, date, ...data },
+      });
+    }));
+  } catch (error) {
+    console.warn("PortfolioAccountSnapshot unavailable; skipped per-account snapshot write", error);
+  }
+}
+
 export async function GET(req: Request) {
   const auth = req.headers.get("authorization");
   if (!process.env.CRON_SECRET || auth !== `Bearer ${process.env.CRON_SECRET}`) {
     return new Response("Unauthorized", { status: 401 });
   }
 
-  const [users, fxRate] = await Promise.all([
-    prisma.user.findMany({
-      where: { approved: true },
-      select: { id: true },
-    }),
-    getFxRate(),
-  ]);
+  const users = await prisma.user.findMany({
+    where: { approved: true },
+    select: { id: true },
+  });
 
   const allHoldings = await prisma.holding.findMany({
     where: {
@@ -319,6 +394,20 @@ export async function GET(req: Request) {
   const now = new Date();
   const alertPayloads: AlertPayload[] = [];
 
+  // Daily FX ingestion into FxRateDaily. The past week is refetched each run so a
+  // Bank of Canada fix published after the previous run replaces the Yahoo close.
+  const fxFrom = new Date(today);
+  fxFrom.setUTCDate(fxFrom.getUTCDate() - FX_MAX_STALE_DAYS);
+  const fxIngest = await ingestFxRates(dateKey(fxFrom), dateKey(today))
+    .then((rows) => ({ rows: rows.length, latest: rows[rows.length - 1]?.date ?? null }))
+    .catch((error: unknown) => {
+      console.warn("cron FX ingestion failed; valuations fall back to the live quote", error);
+      return { rows: 0, latest: null };
+    });
+  // Today's FxRateDaily row (or the latest within FX_MAX_STALE_DAYS), so the
+  // snapshot and the backfilled history value USD at the same rate.
+  const fxRate = (await getFxRateOn(today)).rate;
+
   const results = await Promise.all(
     users.map(async (user) => {
       try {
@@ -412,6 +501,30 @@ export async function GET(req: Request) {
           },
         });
 
+        await writeAccountSnapshots(user.id, today, computeAccountSnapshotValues({
+          portfolios,
+          engineTransactions,
+          engineCashLedgerRows,
+          priceCache,
+          fxRate,
+          date: today,
+          useEngine: usedEngine,
+        }));
+
+        // Rulebook triggers: daily-close flags every run, §6.1 crisis on month-end closes only.
+        const rulebookValues = rulebookHoldingValues(portfolios, priceCache, fxRate);
+        const triggers = await writeRulebookTriggers({
+          userId: user.id,
+          runDate: today,
+          holdings: rulebookValues.holdings,
+          cashCAD: snapshotValue.cashCAD,
+          fxRate,
+          unverifiedItems: rulebookValues.unverifiedItems,
+        }).catch((error: unknown) => {
+          console.warn("cron rulebook trigger evaluation failed", error);
+          return null;
+        });
+
         const jepqAlerts = buildJepqAutoBuyViolationAlerts(user.id, transactions, now);
         if (usedEngine) {
           if (driftAlertPayload) alertPayloads.push(driftAlertPayload);
@@ -431,6 +544,7 @@ export async function GET(req: Request) {
           totalCAD: snapshotValue.totalCAD.toFixed(2),
           costBasisCAD: snapshotValue.costBasisCAD.toFixed(2),
           cashCAD: snapshotValue.cashCAD.toFixed(2),
+          triggers,
         };
       } catch (e: unknown) {
         return {
@@ -445,9 +559,28 @@ export async function GET(req: Request) {
     console.warn("cron snapshot alerts", JSON.stringify({ alerts: alertPayloads }));
   }
 
+  // Deliver open trigger events and alert payloads to each user's channels.
+  // Notification failures are logged and never fail the snapshot run.
+  const notifyChannels = channelsFromEnv();
+  const notifications = [];
+  for (const user of users) {
+    const sent = await sendCronNotifications({
+      userId: user.id,
+      runDate: today,
+      alerts: alertPayloads.filter((alert) => alert.userId === user.id),
+      registry: notifyChannels,
+    }).catch((error: unknown) => {
+      console.warn("cron notification delivery failed", error);
+      return null;
+    });
+    notifications.push({ userId: user.id, ...sent });
+  }
+
   return NextResponse.json({
     ok: true,
     date: today.toISOString().slice(0, 10),
+    fx: fxIngest,
     users: results,
+    notifications,
   });
 }
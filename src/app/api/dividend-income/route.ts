@@ -2,9 +2,11 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { yahooFinance } from "@/lib/price";
 import { detectFrequency } from "@/lib/dividend-utils";
+import { getDividendEvents, type DividendEvent } from "@/lib/dividend-events";
 import { getNasdaqDividend } from "@/lib/nasdaq-dividend";
 import { projectDividendMonthsFromAnchor, toLocalNoonDate } from "@/lib/dividend-date";
 import { auth } from "@/auth";
+import { expectedWithholdingRate, reconcileWithholdingRow, type WithholdingStatus } from "@/lib/withholding";
 
 export const dynamic = "force-dynamic";
 
@@ -15,11 +17,6 @@ interface DivData {
   currency: string;
 }
 
-interface DividendEvent {
-  date: string;
-  amount: number;
-}
-
 type Currency = "CAD" | "USD";
 
 function normalizeCurrency(value: string | null | undefined, fallback: Currency): Currency {
@@ -28,7 +25,6 @@ function normalizeCurrency(value: string | null | undefined, fallback: Currency)
 
 // 1-hour in-memory cache
 const cache = new Map<string, { data: DivData; fetchedAt: number }>();
-const historyCache = new Map<string, { data: { currency: string; events: DividendEvent[] }; fetchedAt: number }>();
 const TTL = 60 * 60 * 1000;
 
 interface DividendItem {
@@ -38,28 +34,18 @@ interface DividendItem {
   currency: string;
   accountType: string;
   isCanadianEligible?: boolean; // CAD dividend in non-registered account (may qualify for DTC)
+  withholdingStatus?: WithholdingStatus; // past mode: recorded withholdingTax vs expected treaty rate
+  withheld?: number | null;
 }
 
 
-// Heuristic: US-listed tickers have no exchange suffix (e.g. AAPL, VTI)
-// Canadian tickers use .TO, .V, etc. Foreign ADRs in USD may have different rates.
-function isUSListed(ticker: string): boolean {
-  return !ticker.includes(".");
-}
+// Registered accounts lose the withholding for good; Margin/Cash return gross
+// (personal tax handled separately, see the foreign tax credit report).
+const NET_OF_WITHHOLDING_ACCOUNT_TYPES = new Set(["RRSP", "TFSA", "FHSA", "RESP"]);
 
 function netFactor(accountType: string, currency: string, ticker: string): number {
-  // Only apply US 15% NRA withholding if the stock is US-listed (heuristic: no exchange suffix)
-  const applyUSWithholding = currency === "USD" && isUSListed(ticker);
-  if (accountType === "RRSP") {
-    // Canada-US treaty Art XXI(7): US-listed stocks exempt from NRA withholding
-    if (applyUSWithholding) return 1.0;
-    if (currency === "CAD") return 1.0; // domestic dividends: no foreign withholding
-    return 0.85; // non-US foreign holdings (ADRs, EU stocks): treaty may not apply
-  }
-  if (accountType === "TFSA") return applyUSWithholding ? 0.85 : 1.0; // TFSA not treaty-exempt
-  if (accountType === "FHSA") return applyUSWithholding ? 0.85 : 1.0; // FHSA not treaty-exempt
-  if (accountType === "RESP") return applyUSWithholding ? 0.85 : 1.0; // RESP not treaty-exempt
-  return 1.0; // Margin/Cash — return gross (personal tax handled separately)
+  if (!NET_OF_WITHHOLDING_ACCOUNT_TYPES.has(accountType)) return 1.0;
+  return 1 - expectedWithholdingRate(accountType, currency, ticker);
 }
 
 function computeSharesHeldAtDate(
@@ -75,30 +61,6 @@ function computeSharesHeldAtDate(
   }, 0);
 }
 
-async function getDividendEvents(ticker: string, year: number): Promise<{ currency: string; events: DividendEvent[] }> {
-  const cacheKey = `${ticker}:${year}`;
-  const cached = historyCache.get(cacheKey);
-  if (cached && Date.now() - cached.fetchedAt < TTL) return cached.data;
-
-  const chart = await yahooFinance.chart(ticker, {
-    period1: `${year - 1}-10-01`,
-    period2: `${year + 1}-03-31`,
-    interval: "1mo",
-  });
-
-  const dividendMap = chart.events?.dividends ?? {};
-  const events = Object.values(dividendMap)
-    .map((d) => {
-      const item = d as { date: Date | number | string; amount: number };
-      return { date: new Date(item.date).toISOString().slice(0, 10), amount: item.amount };
-    })
-    .sort((a, b) => a.date.localeCompare(b.date));
-
-  const data = { currency: chart.meta?.currency ?? "USD", events };
-  historyCache.set(cacheKey, { data, fetchedAt: Date.now() });
-  return data;
-}
-
 function findMatchingDividendEvent(events: DividendEvent[], paymentDate: Date): DividendEvent | null {
   const paymentTs = paymentDate.getTime();
   const maxLagMs = 120 * 86400000;
@@ -192,7 +154,7 @@ export async function GET(req: Request) {
 
       if (!dividendHistoryByTicker.has(ticker)) {
         try {
-          dividendHistoryByTicker.set(ticker, await getDividendEvents(ticker, year));
+          dividendHistoryByTicker.set(ticker, await getDividendEvents(ticker, { from: `${year - 1}-10-01`, to: `${year + 1}-03-31` }));
         } catch {
           dividendHistoryByTicker.set(ticker, null);
         }
@@ -213,6 +175,18 @@ export async function GET(req: Request) {
       const estimatedGrossFromWithholding = factor > 0 && factor < 1 ? netAmount / factor : netAmount;
       grossAmount = Math.max(grossAmount, estimatedGrossFromWithholding, netAmount);
 
+      const withheld = txn.withholdingTax != null ? parseFloat(txn.withholdingTax.toString()) : null;
+      const reconciliation = reconcileWithholdingRow({
+        transactionId: txn.id,
+        date: txn.date.toISOString().slice(0, 10),
+        ticker,
+        accountType,
+        currency: txn.holding.currency,
+        netAmount,
+        withheld,
+        fxRateCAD: 1,
+      });
+
       monthMap.get(monthKey)!.items.push({
         ticker,
         amount: grossAmount,
@@ -220,6 +194,8 @@ export async function GET(req: Request) {
         currency,
         accountType,
         isCanadianEligible: currency === "CAD" && accountType === "NON_REG",
+        withholdingStatus: reconciliation.status,
+        withheld,
       });
     }
   } else {
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadDividendGrowthReport } from "@/lib/dividend-growth-source";
+
+export const dynamic = "force-dynamic";
+
+// Dividend CAGR, yield on cost and cut / suspension flags per held ticker,
+// plus the income-raise split. ?ticker= narrows to one holding.
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const ticker = new URL(req.url).searchParams.get("ticker")?.trim() || undefined;
+  try {
+    return NextResponse.json(await loadDividendGrowthReport(session.user.id, { ticker }));
+  } catch (error) {
+    console.warn("/api/dividends/growth failed", error);
+    return NextResponse.json({ error: "Failed to load dividend growth" }, { status: 500 });
+  }
+}
@@ -1,14 +1,14 @@
 import { NextResponse } from "next/server";
+import { defaultUsdCad } from "@/lib/fx-rates";
 
 export const dynamic = "force-dynamic";
 
-const FALLBACK_RATE = Number.parseFloat(process.env.DEFAULT_FX_RATE ?? "1.35");
 const SOURCE = "Frankfurter USD/CAD";
 const SOURCE_URL = "https://api.frankfurter.app/latest?from=USD&to=CAD";
 
 function fallbackResponse() {
   return NextResponse.json({
-    rate: Number.isFinite(FALLBACK_RATE) && FALLBACK_RATE > 0 ? FALLBACK_RATE : 1.35,
+    rate: defaultUsdCad(),
     source: "DEFAULT_FX_RATE",
     fallback: true,
     asOf: new Date().toISOString(),
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadPerformanceReturns, type PerformanceReturnsReport } from "@/lib/performance-twr-source";
+import type { PerformanceMetricRange } from "@/lib/performance-metrics";
+
+export const dynamic = "force-dynamic";
+
+const VALID_RANGES = ["3m", "6m", "1y", "3y", "5y", "all"] as const;
+
+// Daily engine replay per portfolio is heavy; the history it reads moves once a day.
+const cache = new Map<string, { data: PerformanceReturnsReport; fetchedAt: number }>();
+const TTL = 60 * 60 * 1000; // 1 hour
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const rawRange = searchParams.get("range") ?? "1y";
+  if (!VALID_RANGES.includes(rawRange as PerformanceMetricRange)) {
+    return NextResponse.json({ error: "Invalid range" }, { status: 400 });
+  }
+  const range = rawRange as PerformanceMetricRange;
+
+  const cacheKey = `${session.user.id}:${range}`;
+  const cached = cache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < TTL) return NextResponse.json(cached.data);
+
+  try {
+    const data = await loadPerformanceReturns(session.user.id, range);
+    cache.set(cacheKey, { data, fetchedAt: Date.now() });
+    return NextResponse.json(data);
+  } catch (error) {
+    console.warn("/api/performance/returns failed", error);
+    return NextResponse.json({ error: "Failed to compute returns" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/auth";
+import { USER_RESOLUTION_ACTIONS, type TriggerResolutionAction } from "@/lib/rulebook-triggers";
+
+// Record the user's decision on an open trigger event.
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const action = body.resolutionAction as TriggerResolutionAction;
+  if (!USER_RESOLUTION_ACTIONS.includes(action)) {
+    return NextResponse.json({ error: "resolutionAction must be user_approved or user_rejected" }, { status: 400 });
+  }
+  const notes = typeof body.resolutionNotes === "string" ? body.resolutionNotes.trim().slice(0, 2000) : "";
+
+  const { id } = await params;
+  const event = await prisma.rulebookTriggerEvent.findUnique({
+    where: { id },
+    select: { userId: true, resolvedAt: true },
+  });
+  if (!event || event.userId !== session.user.id) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (event.resolvedAt) {
+    return NextResponse.json({ error: "Event is already resolved" }, { status: 409 });
+  }
+
+  const updated = await prisma.rulebookTriggerEvent.update({
+    where: { id },
+    data: { resolvedAt: new Date(), resolutionAction: action, resolutionNotes: notes || null },
+    select: { id: true, resolvedAt: true, resolutionAction: true, resolutionNotes: true },
+  });
+  return NextResponse.json(updated);
+}
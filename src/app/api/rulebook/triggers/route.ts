@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/auth";
+import { triggerSpec } from "@/lib/rulebook-triggers";
+
+export const dynamic = "force-dynamic";
+
+// Open events first, then the most recent resolved ones.
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") ?? "30", 10) || 30, 1), 200);
+  const select = {
+    id: true,
+    triggerKind: true,
+    severity: true,
+    detectedAt: true,
+    resolvedAt: true,
+    rulebookVersion: true,
+    computedPlan: true,
+    weightsAtDetect: true,
+    resolutionAction: true,
+    resolutionNotes: true,
+  } as const;
+
+  const [open, resolved] = await Promise.all([
+    prisma.rulebookTriggerEvent.findMany({
+      where: { userId: session.user.id, resolvedAt: null },
+      orderBy: { detectedAt: "desc" },
+      select,
+    }),
+    prisma.rulebookTriggerEvent.findMany({
+      where: { userId: session.user.id, resolvedAt: { not: null } },
+      orderBy: { resolvedAt: "desc" },
+      take: limit,
+      select,
+    }),
+  ]);
+
+  const items = [...open, ...resolved].map((event) => {
+    const spec = triggerSpec(event.triggerKind);
+    return {
+      ...event,
+      label: spec?.label ?? event.triggerKind,
+      gate: spec?.gate ?? null,
+      detectedAt: event.detectedAt.toISOString(),
+      resolvedAt: event.resolvedAt?.toISOString() ?? null,
+    };
+  });
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { WHAT_IF_MAX_ACTIONS, parseWhatIfAction, type WhatIfAction } from "@/lib/rulebook-what-if";
+import { loadWhatIfReport } from "@/lib/rulebook-what-if-source";
+
+export const dynamic = "force-dynamic";
+
+// Simulation only: values the live book, applies the actions and returns the
+// before / after weights, flag flips and plans. Nothing is written.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const rawActions = Array.isArray(body.actions) ? body.actions : null;
+  if (!rawActions || rawActions.length > WHAT_IF_MAX_ACTIONS) {
+    return NextResponse.json({ error: `actions must be an array of at most ${WHAT_IF_MAX_ACTIONS}` }, { status: 400 });
+  }
+  const actions: WhatIfAction[] = [];
+  for (const [i, raw] of rawActions.entries()) {
+    const action = parseWhatIfAction(raw);
+    if (!action) return NextResponse.json({ error: `Invalid action #${i + 1}` }, { status: 400 });
+    actions.push(action);
+  }
+
+  try {
+    return NextResponse.json(await loadWhatIfReport(session.user.id, actions));
+  } catch (error) {
+    console.warn("/api/rulebook/what-if failed", error);
+    return NextResponse.json({ error: "Failed to run the simulation" }, { status: 500 });
+  }
+}
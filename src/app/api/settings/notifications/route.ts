@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/auth";
+import { z } from "zod";
+import { channelsFromEnv } from "@/lib/notify/channels";
+import { loadNotifySettings, NOTIFY_SETTINGS_SUFFIX } from "@/lib/notify/notify-source";
+
+export const dynamic = "force-dynamic";
+
+const notifySettingsSchema = z.object({
+  telegram: z.object({
+    enabled: z.boolean(),
+    chatId: z.string().trim().regex(/^(-?\d{1,20}|@[A-Za-z0-9_]{5,32})?$/, "Chat id must be numeric or @channel"),
+  }),
+  email: z.object({
+    enabled: z.boolean(),
+    to: z.union([z.string().trim().email(), z.literal("")]),
+  }),
+  minSeverity: z.enum(["info", "warn", "action_required"]),
+}).strict();
+
+function settingsKey(userId: string) {
+  return `${userId}:${NOTIFY_SETTINGS_SUFFIX}`;
+}
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const registry = channelsFromEnv();
+  return NextResponse.json({
+    settings: await loadNotifySettings(session.user.id!),
+    // Which transports this deployment has credentials for.
+    transports: { telegram: Boolean(registry.telegram), email: Boolean(registry.email) },
+  });
+}
+
+export async function POST(req: Request) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const parsed = notifySettingsSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+  const { telegram, email } = parsed.data;
+  if (telegram.enabled && !telegram.chatId) {
+    return NextResponse.json({ error: "Telegram chat id is required" }, { status: 400 });
+  }
+  if (email.enabled && !email.to) {
+    return NextResponse.json({ error: "Email address is required" }, { status: 400 });
+  }
+
+  const value = JSON.stringify(parsed.data);
+  await prisma.setting.upsert({
+    where: { key: settingsKey(session.user.id!) },
+    update: { value },
+    create: { key: settingsKey(session.user.id!), value },
+  });
+  return NextResponse.json({ ok: true, settings: parsed.data });
+}
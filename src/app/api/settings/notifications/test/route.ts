@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { log } from "@/lib/logger";
+import { channelsFromEnv } from "@/lib/notify/channels";
+import { loadNotifySettings } from "@/lib/notify/notify-source";
+import { activeTargets, deliver } from "@/lib/notify/notifier";
+
+export const dynamic = "force-dynamic";
+
+// Sends a test message to the saved channels so the user can confirm the
+// chat id / address before the cron relies on it.
+export async function POST() {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const userId = session.user.id!;
+
+  const targets = activeTargets(await loadNotifySettings(userId), channelsFromEnv());
+  if (targets.length === 0) {
+    return NextResponse.json({ error: "No enabled channel with a configured transport" }, { status: 400 });
+  }
+
+  const result = await deliver(targets, {
+    subject: "DividendTracker test notification",
+    text: "DividendTracker test notification — rulebook triggers and cron alerts will arrive here.",
+    severity: "info",
+  });
+  if (result.failed.length > 0) {
+    log.warn({ event: "notify.test.failed", userId, failed: result.failed });
+  }
+  return NextResponse.json(result, { status: result.sent.length > 0 ? 200 : 502 });
+}
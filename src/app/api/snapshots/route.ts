@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/auth";
 import { getFxRate, getHistory } from "@/lib/price";
+import { loadFxRateResolver } from "@/lib/fx-rates";
 import {
   computePortfolioValueCAD,
   deriveCashLedgerRowsFromExistingRecords,
@@ -15,6 +16,7 @@ import {
   type EngineTransaction,
   type MarketPricePoint,
 } from "@/lib/portfolio/engine";
+import { parseSnapshotScope, rollUpAccountSnapshots, type SnapshotScope } from "@/lib/snapshot-scope";
 
 export const dynamic = "force-dynamic";
 
@@ -84,6 +86,13 @@ function decimalToNumber(value: { toString(): string } | null | undefined): numb
   return Number.isFinite(parsed) ? parsed : 0;
 }
 
+// Portfolio filter shared by every query, so a scoped request only sees its accounts.
+function portfolioWhereForScope(userId: string, scope: SnapshotScope) {
+  if (scope.kind === "portfolio") return { userId, id: scope.portfolioId };
+  if (scope.kind === "accountType") return { userId, accountType: scope.accountType };
+  return { userId };
+}
+
 function contributionEventsFromCashTxns(cashTxns: CashTxn[]) {
   return cashTxns.map((tx) => {
     const signedAmount = decimalToNumber(tx.amount) * (tx.action === "WITHDRAWAL" ? -1 : 1);
@@ -209,20 +218,40 @@ export async function GET(req: NextRequest) {
   }
   const range = rawRange as Range;
   const since = rangeToSince(range);
-
-  const snapshotsQuery = prisma.portfolioSnapshot.findMany({
-    where: {
-      userId: session.user.id,
-      ...(since ? { date: { gte: since } } : {}),
-    },
-    orderBy: { date: "asc" },
-    select: { date: true, totalCAD: true, costBasisCAD: true, cashCAD: true },
-  });
+  const scope = parseSnapshotScope(searchParams);
+  if ("error" in scope) return NextResponse.json({ error: scope.error }, { status: 400 });
+  const userId = session.user.id;
+  const portfolioWhere = portfolioWhereForScope(userId, scope);
+
+  // The user-level cache covers all accounts; a scoped view sums the per-portfolio rows.
+  const snapshotsQuery: Promise<LegacySnapshot[]> = scope.kind === "all"
+    ? prisma.portfolioSnapshot.findMany({
+      where: {
+        userId,
+        ...(since ? { date: { gte: since } } : {}),
+      },
+      orderBy: { date: "asc" },
+      select: { date: true, totalCAD: true, costBasisCAD: true, cashCAD: true },
+    })
+    : prisma.portfolioAccountSnapshot.findMany({
+      where: {
+        userId,
+        ...(scope.kind === "portfolio" ? { portfolioId: scope.portfolioId } : { accountType: scope.accountType }),
+        ...(since ? { date: { gte: since } } : {}),
+      },
+      orderBy: { date: "asc" },
+      select: { date: true, totalCAD: true, costBasisCAD: true, cashCAD: true },
+    }).then((rows) => rollUpAccountSnapshots(rows.map((row) => ({
+      date: row.date,
+      totalCAD: decimalToNumber(row.totalCAD),
+      costBasisCAD: decimalToNumber(row.costBasisCAD),
+      cashCAD: decimalToNumber(row.cashCAD),
+    }))).map((row) => ({ ...row, date: new Date(`${row.date}T00:00:00Z`) })));
 
   const dividendTxnsQuery = prisma.transaction.findMany({
     where: {
       action: "DIVIDEND",
-      holding: { portfolio: { userId: session.user.id } },
+      holding: { portfolio: portfolioWhere },
       ...(since ? { date: { gte: since } } : {}),
     },
     orderBy: { date: "asc" },
@@ -231,19 +260,27 @@ export async function GET(req: NextRequest) {
 
   const cashTxnsQuery = prisma.cashTransaction.findMany({
     where: {
-      portfolio: { userId: session.user.id },
+      portfolio: portfolioWhere,
     },
     orderBy: { date: "asc" },
     select: { id: true, portfolioId: true, date: true, action: true, amount: true, currency: true },
   });
 
+  // Every account, for the chart's account selector.
+  const accountsQuery = prisma.portfolio.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, name: true, accountType: true },
+  });
+
   try {
-    const [snapshots, dividendTxns, cashTxns, portfolios, transactions] = await Promise.all([
+    const [snapshots, dividendTxns, cashTxns, accounts, portfolios, transactions] = await Promise.all([
       snapshotsQuery,
       dividendTxnsQuery,
       cashTxnsQuery,
+      accountsQuery,
       prisma.portfolio.findMany({
-        where: { userId: session.user.id },
+        where: portfolioWhere,
         select: {
           id: true,
           cashCAD: true,
@@ -259,7 +296,7 @@ export async function GET(req: NextRequest) {
         },
       }),
       prisma.transaction.findMany({
-        where: { holding: { portfolio: { userId: session.user.id } } },
+        where: { holding: { portfolio: portfolioWhere } },
         orderBy: { date: "asc" },
         select: {
           id: true,
@@ -341,7 +378,7 @@ export async function GET(req: NextRequest) {
 
     try {
       const ledgerRows = await prisma.cashLedger.findMany({
-        where: { portfolio: { userId: session.user.id } },
+        where: { portfolio: portfolioWhere },
         orderBy: { date: "asc" },
         select: { id: true, portfolioId: true, date: true, currency: true, amount: true, eventType: true, ticker: true },
       });
@@ -366,12 +403,18 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({
         snapshots: legacySnapshotData(snapshots, dividendTxns),
         contributionEventsCAD: contributionEventsFromCashTxns(cashTxns),
+        accounts,
       });
     }
 
     const prices = await pricePointsFromTransactions(allEngineTransactions, valuationDates);
-    const { rate: usdCadRate } = await getFxRate();
-    const fxRates = valuationDates.map((date) => ({ date, usdCad: usdCadRate || FX_FALLBACK }));
+    // Each valuation date uses the stored daily rate for that date; today's live
+    // quote covers dates the FxRateDaily ingestion has not reached yet.
+    const [{ rate: usdCadRate }, fxRateOn] = await Promise.all([
+      getFxRate(),
+      loadFxRateResolver(valuationDates[0], valuationDates[valuationDates.length - 1]).catch(() => () => null),
+    ]);
+    const fxRates = valuationDates.map((date) => ({ date, usdCad: fxRateOn(date) ?? (usdCadRate || FX_FALLBACK) }));
     const data = valuationDates.map((valuationDate) => {
       const point = computePortfolioValueCAD({
         date: valuationDate,
@@ -391,13 +434,19 @@ export async function GET(req: NextRequest) {
       };
     });
 
-    return NextResponse.json({ snapshots: data, contributionEventsCAD: contributionEventsFromCashTxns(cashTxns) });
+    return NextResponse.json({ snapshots: data, contributionEventsCAD: contributionEventsFromCashTxns(cashTxns), accounts });
   } catch (error) {
     console.warn("/api/snapshots engine reconstruction failed; falling back to PortfolioSnapshot cache", error);
-    const [snapshots, dividendTxns, cashTxns] = await Promise.all([snapshotsQuery, dividendTxnsQuery, cashTxnsQuery]);
+    const [snapshots, dividendTxns, cashTxns, accounts] = await Promise.all([
+      snapshotsQuery,
+      dividendTxnsQuery,
+      cashTxnsQuery,
+      accountsQuery.catch(() => []),
+    ]);
     return NextResponse.json({
       snapshots: legacySnapshotData(snapshots, dividendTxns),
       contributionEventsCAD: contributionEventsFromCashTxns(cashTxns),
+      accounts,
     });
   }
 }
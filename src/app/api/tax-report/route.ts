@@ -1,6 +1,238 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/auth";
+import { loadAcbLedgers } from "@/lib/portfolio/acb-source";
+import { buildCapitalGainsDispositions, summarizeSchedule3 } from "@/lib/portfolio/capital-gains";
+import { computeT1135Report } from "@/lib/portfolio/foreign-property";
+import { isTaxableAccountType } from "@/lib/portfolio/superficial-loss";
+import { defaultUsdCad, loadFxRateResolver } from "@/lib/fx-rates";
+import { isMismatch, reconcileWithholding, summarizeForeignTaxCredit } from "@/lib/withholding";
+
+// Sanitize cells: escape quotes and strip leading formula chars (=, +, -, @) to prevent CSV injection.
+// Plain numbers (including negative gains) pass through so spreadsheets still read them as numbers.
+const sanitize = (cell: string) => {
+  const s = String(cell).replace(/"/g, '""');
+  if (/^-?\d+(\.\d+)?$/.test(s)) return s;
+  return /^[=+\-@\t\r]/.test(s) ? `'${s}` : s;
+};
+
+function toCsv(rows: string[][]): string {
+  return rows
+    .map((row) => row.map((cell) => `"${sanitize(cell)}"`).join(","))
+    .join("\n");
+}
+
+// Stored daily USD/CAD rates for the report year; rows without fxRateCAD use the
+// rate for their own date, and defaultUsdCad() only when none is stored.
+async function yearFxRateOn(yearNum: number): Promise<(date: Date) => number | null> {
+  return loadFxRateResolver(`${yearNum}-01-01`, `${yearNum}-12-31`).catch(() => () => null);
+}
+
+function csvResponse(csv: string, filename: string) {
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+// T5008 / Schedule 3: one row per disposition in taxable accounts, then a
+// summary row per account type. TFSA / RRSP / FHSA are skipped by the loader.
+async function capitalGainsCsv(userId: string, yearNum: number) {
+  const { ledgers } = await loadAcbLedgers(userId);
+  const dispositions = buildCapitalGainsDispositions(ledgers).filter((d) => d.year === yearNum);
+  const summaries = summarizeSchedule3(dispositions);
+
+  const rows = [
+    ["Row Type", "Year", "Portfolio", "Account Type", "Ticker", "Acquired From", "Acquired To", "Date Sold", "Quantity", "Proceeds (CAD)", "ACB (CAD)", "Outlays (CAD)", "Gain/Loss (CAD)", "Superficial Loss Denied (CAD)", "Notes"],
+    ...dispositions.map((d) => [
+      "DISPOSITION",
+      String(d.year),
+      d.portfolioName ?? "",
+      d.accountType,
+      d.ticker,
+      d.acquiredFrom ?? "",
+      d.acquiredTo ?? "",
+      d.dateSold,
+      Number.isInteger(d.quantity) ? String(d.quantity) : d.quantity.toFixed(4),
+      d.proceedsCAD.toFixed(2),
+      d.acbCAD.toFixed(2),
+      d.outlaysCAD.toFixed(2),
+      d.gainCAD.toFixed(2),
+      d.deniedLossCAD > 0 ? d.deniedLossCAD.toFixed(2) : "",
+      d.oversoldQuantity != null ? `Sold ${d.oversoldQuantity} more shares than recorded buys` : "",
+    ]),
+    ...summaries.map((s) => [
+      "SCHEDULE 3 SUMMARY",
+      String(s.year),
+      "",
+      s.accountType,
+      "",
+      "",
+      "",
+      "",
+      String(s.dispositions),
+      s.proceedsCAD.toFixed(2),
+      s.acbCAD.toFixed(2),
+      s.outlaysCAD.toFixed(2),
+      s.gainCAD.toFixed(2),
+      s.deniedLossCAD > 0 ? s.deniedLossCAD.toFixed(2) : "",
+      "Quantity column = number of dispositions",
+    ]),
+  ];
+
+  return csvResponse(toCsv(rows), `capital-gains-${yearNum}.csv`);
+}
+
+// T1135: max cost of USD holdings in taxable accounts during the year. JSON by
+// default (the More page shows the 100k warning); format=csv for the download.
+async function t1135Report(userId: string, yearNum: number, format: string | null) {
+  const [{ ledgers, fallbackUsdCad }, fxRateOn] = await Promise.all([loadAcbLedgers(userId), yearFxRateOn(yearNum)]);
+
+  const dividends = await prisma.transaction.findMany({
+    where: {
+      action: "DIVIDEND",
+      date: { gte: new Date(`${yearNum}-01-01`), lt: new Date(`${yearNum + 1}-01-01`) },
+      holding: { currency: "USD", portfolio: { userId } },
+    },
+    select: {
+      date: true,
+      quantity: true,
+      price: true,
+      fxRateCAD: true,
+      holding: { select: { ticker: true, portfolio: { select: { accountType: true } } } },
+    },
+  });
+  const income = dividends
+    .filter((d) => isTaxableAccountType(d.holding.portfolio.accountType))
+    .map((d) => {
+      const fxRate = d.fxRateCAD ? parseFloat(d.fxRateCAD.toString()) : fxRateOn(d.date) ?? fallbackUsdCad;
+      return {
+        ticker: d.holding.ticker,
+        date: d.date.toISOString().slice(0, 10),
+        amountCAD: parseFloat(d.quantity.toString()) * parseFloat(d.price.toString()) * fxRate,
+      };
+    });
+
+  const report = computeT1135Report(ledgers, income, yearNum);
+  if (format !== "csv") return NextResponse.json(report);
+
+  const rows = [
+    ["Row Type", "Year", "Category", "Country", "Ticker", "Max Cost (CAD)", "Year-End Cost (CAD)", "Income (CAD)", "Gain/Loss (CAD)", "Notes"],
+    [
+      "TOTAL",
+      String(report.year),
+      "",
+      "",
+      "",
+      report.maxCostCAD.toFixed(2),
+      report.yearEndCostCAD.toFixed(2),
+      "",
+      "",
+      report.exceedsThreshold
+        ? `T1135 required (${report.method} method); max cost on ${report.maxCostDate}`
+        : `Max cost at or under CAD ${report.thresholdCAD.toLocaleString("en-CA")}; T1135 not required`,
+    ],
+    ...report.categories.map((c) => [
+      "CATEGORY",
+      String(report.year),
+      c.category,
+      c.country,
+      "",
+      c.maxCostCAD.toFixed(2),
+      c.yearEndCostCAD.toFixed(2),
+      c.incomeCAD.toFixed(2),
+      c.gainCAD.toFixed(2),
+      "",
+    ]),
+    ...report.properties.map((p) => [
+      "PROPERTY",
+      String(report.year),
+      p.category,
+      p.country,
+      p.ticker,
+      p.maxCostCAD.toFixed(2),
+      p.yearEndCostCAD.toFixed(2),
+      p.incomeCAD.toFixed(2),
+      p.gainCAD.toFixed(2),
+      "",
+    ]),
+  ];
+
+  return csvResponse(toCsv(rows), `t1135-${yearNum}.csv`);
+}
+
+// Withholding reconciliation: recorded withholdingTax vs the expected treaty
+// rate per DIVIDEND row, then the foreign tax paid in taxable accounts for the
+// foreign tax credit line (T2209 / Schedule 1).
+async function withholdingCsv(userId: string, yearNum: number) {
+  const dividends = await prisma.transaction.findMany({
+    where: {
+      action: "DIVIDEND",
+      date: { gte: new Date(`${yearNum}-01-01`), lt: new Date(`${yearNum + 1}-01-01`) },
+      holding: { portfolio: { userId } },
+    },
+    orderBy: { date: "asc" },
+    include: { holding: { include: { portfolio: true } } },
+  });
+
+  const DEFAULT_FX = defaultUsdCad();
+  const fxRateOn = await yearFxRateOn(yearNum);
+  const reconciled = reconcileWithholding(
+    dividends.map((t) => ({
+      transactionId: t.id,
+      date: t.date.toISOString().slice(0, 10),
+      ticker: t.holding.ticker,
+      accountType: t.holding.portfolio.accountType,
+      currency: t.holding.currency,
+      netAmount: parseFloat(t.quantity.toString()) * parseFloat(t.price.toString()),
+      withheld: t.withholdingTax != null ? parseFloat(t.withholdingTax.toString()) : null,
+      fxRateCAD: t.holding.currency === "USD" ? (t.fxRateCAD ? parseFloat(t.fxRateCAD.toString()) : fxRateOn(t.date) ?? DEFAULT_FX) : 1,
+    })),
+  );
+  const portfolioNames = new Map(dividends.map((t) => [t.id, t.holding.portfolio.name]));
+  const credit = summarizeForeignTaxCredit(reconciled);
+
+  const pct = (rate: number | null) => (rate == null ? "" : `${(rate * 100).toFixed(2)}%`);
+  const rows = [
+    ["Row Type", "Date", "Portfolio", "Account Type", "Ticker", "Currency", "Net", "Withheld", "Gross", "Actual Rate", "Expected Rate", "Difference", "FX Rate (CAD/USD)", "Status"],
+    ...reconciled.map((r) => [
+      isMismatch(r.status) ? "MISMATCH" : "DIVIDEND",
+      r.date,
+      portfolioNames.get(r.transactionId) ?? "",
+      r.accountType,
+      r.ticker,
+      r.currency,
+      r.netAmount.toFixed(2),
+      r.withheld == null ? "" : r.withheld.toFixed(2),
+      r.grossAmount.toFixed(2),
+      pct(r.actualRate),
+      pct(r.expectedRate),
+      r.differenceAmount == null ? "" : r.differenceAmount.toFixed(2),
+      r.currency === "USD" ? r.fxRateCAD.toFixed(6) : "",
+      r.status.toUpperCase(),
+    ]),
+    ...credit.map((c) => [
+      "FOREIGN TAX CREDIT",
+      String(c.year),
+      "",
+      "NON_REG / CASH",
+      "",
+      "CAD",
+      "",
+      c.foreignTaxPaidCAD.toFixed(2),
+      c.foreignIncomeCAD.toFixed(2),
+      "",
+      "",
+      "",
+      "",
+      c.unrecordedCount > 0 ? `${c.unrecordedCount} dividend(s) with no withholding recorded` : "",
+    ]),
+  ];
+
+  return csvResponse(toCsv(rows), `withholding-${yearNum}.csv`);
+}
 
 export async function GET(req: NextRequest) {
   const session = await auth();
@@ -14,6 +246,14 @@ export async function GET(req: NextRequest) {
   }
   const year = String(yearNum);
 
+  const type = searchParams.get("type") ?? "dividends";
+  if (type === "capital-gains") return capitalGainsCsv(session.user.id, yearNum);
+  if (type === "withholding") return withholdingCsv(session.user.id, yearNum);
+  if (type === "t1135") return t1135Report(session.user.id, yearNum, searchParams.get("format"));
+  if (type !== "dividends") {
+    return NextResponse.json({ error: "Invalid type" }, { status: 400 });
+  }
+
   const txns = await prisma.transaction.findMany({
     where: {
       action: "DIVIDEND",
@@ -27,7 +267,8 @@ export async function GET(req: NextRequest) {
     include: { holding: { include: { portfolio: true } } },
   });
 
-  const DEFAULT_FX = parseFloat(process.env.DEFAULT_FX_RATE ?? "1.36");
+  const DEFAULT_FX = defaultUsdCad();
+  const fxRateOn = await yearFxRateOn(yearNum);
 
   const rows = [
     ["Date", "Portfolio", "Account Type", "Ticker", "Currency", "Shares", "Per Share", "Amount", "FX Rate (CAD/USD)", "Amount (CAD)", "Notes"],
@@ -36,7 +277,7 @@ export async function GET(req: NextRequest) {
       const price = parseFloat(t.price.toString());
       const amount = qty * price;
       const isUSD = t.holding.currency === "USD";
-      const fxRate = t.fxRateCAD ? parseFloat(t.fxRateCAD.toString()) : DEFAULT_FX;
+      const fxRate = t.fxRateCAD ? parseFloat(t.fxRateCAD.toString()) : fxRateOn(t.date) ?? DEFAULT_FX;
       const amountCAD = isUSD ? (amount * fxRate).toFixed(2) : amount.toFixed(2);
       return [
         t.date.toISOString().slice(0, 10),
@@ -54,19 +295,5 @@ export async function GET(req: NextRequest) {
     }),
   ];
 
-  // Sanitize cells: escape quotes and strip leading formula chars (=, +, -, @) to prevent CSV injection
-  const sanitize = (cell: string) => {
-    const s = String(cell).replace(/"/g, '""');
-    return /^[=+\-@\t\r]/.test(s) ? `'${s}` : s;
-  };
-  const csv = rows
-    .map((row) => row.map((cell) => `"${sanitize(cell)}"`).join(","))
-    .join("\n");
-
-  return new NextResponse(csv, {
-    headers: {
-      "Content-Type": "text/csv; charset=utf-8",
-      "Content-Disposition": `attachment; filename="dividends-${year}.csv"`,
-    },
-  });
+  return csvResponse(toCsv(rows), `dividends-${year}.csv`);
 }
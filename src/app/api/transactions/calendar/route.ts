@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/auth";
+import { reconcileWithholdingRow } from "@/lib/withholding";
 
 export const dynamic = "force-dynamic";
 
@@ -10,21 +11,44 @@ export async function GET() {
 
   const transactions = await prisma.transaction.findMany({
     where: { holding: { portfolio: { userId: session.user.id } } },
-    include: { holding: { select: { ticker: true, currency: true } } },
+    include: { holding: { select: { ticker: true, currency: true, portfolio: { select: { accountType: true } } } } },
     orderBy: { date: "desc" },
   });
 
   return NextResponse.json(
-    transactions.map((t) => ({
-      id: t.id,
-      action: t.action as "BUY" | "SELL" | "DIVIDEND",
-      date: t.date.toISOString().split("T")[0],
-      ticker: t.holding.ticker,
-      quantity: parseFloat(t.quantity.toString()),
-      price: parseFloat(t.price.toString()),
-      commission: parseFloat((t.commission ?? 0).toString()),
-      total: parseFloat(t.quantity.toString()) * parseFloat(t.price.toString()),
-      currency: t.holding.currency,
-    }))
+    transactions.map((t) => {
+      const total = parseFloat(t.quantity.toString()) * parseFloat(t.price.toString());
+      // DIVIDEND rows carry the withholding reconciliation so the calendar can flag mismatches
+      const withholding = t.action === "DIVIDEND"
+        ? reconcileWithholdingRow({
+            transactionId: t.id,
+            date: t.date.toISOString().split("T")[0],
+            ticker: t.holding.ticker,
+            accountType: t.holding.portfolio.accountType,
+            currency: t.holding.currency,
+            netAmount: total,
+            withheld: t.withholdingTax != null ? parseFloat(t.withholdingTax.toString()) : null,
+            fxRateCAD: 1,
+          })
+        : null;
+      return {
+        id: t.id,
+        action: t.action as "BUY" | "SELL" | "DIVIDEND",
+        date: t.date.toISOString().split("T")[0],
+        ticker: t.holding.ticker,
+        quantity: parseFloat(t.quantity.toString()),
+        price: parseFloat(t.price.toString()),
+        commission: parseFloat((t.commission ?? 0).toString()),
+        total,
+        currency: t.holding.currency,
+        ...(withholding
+          ? {
+              withheld: withholding.withheld,
+              withholdingStatus: withholding.status,
+              expectedWithholdingRate: withholding.expectedRate,
+            }
+          : {}),
+      };
+    })
   );
 }
@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { auth } from "@/auth";
+import { deleteUserAiCache } from "@/lib/ai-cache";
+import { loadFxRateResolver } from "@/lib/fx-rates";
+import { log } from "@/lib/logger";
+import {
+  BROKER_CSV_FORMATS,
+  cashTransactionKey,
+  earliestImportDate,
+  parseBrokerCsv,
+  planImport,
+  tradeKey,
+  type BrokerCsvFormat,
+  type CsvColumnMapping,
+  type ExistingImportKeys,
+  type ParsedImportRow,
+} from "@/lib/broker-csv";
+import {
+  deriveCashLedgerRowsFromExistingRecords,
+  type EngineCashTransactionInput,
+  type EngineCurrency,
+  type EngineTransaction,
+} from "@/lib/portfolio/engine";
+
+export const dynamic = "force-dynamic";
+
+const MAX_CSV_BYTES = 2 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 5000;
+
+async function loadExistingKeys(
+  portfolioId: string,
+  rows: ParsedImportRow[],
+  db: Prisma.TransactionClient = prisma,
+): Promise<ExistingImportKeys> {
+  const trades = rows.filter((row) => row.ticker);
+  const externalIds = trades.map((row) => row.externalId);
+  const cashDates = rows.filter((row) => !row.ticker).map((row) => new Date(`${row.date}T00:00:00Z`));
+  const firstTrade = earliestImportDate(trades);
+  const lastTrade = trades.reduce<string | null>((max, row) => (max == null || row.date > max ? row.date : max), null);
+  const [transactions, cashTransactions, synced] = await Promise.all([
+    externalIds.length > 0
+      ? db.transaction.findMany({
+          where: { externalId: { in: externalIds }, holding: { portfolioId } },
+          select: { externalId: true },
+        })
+      : [],
+    cashDates.length > 0
+      ? db.cashTransaction.findMany({
+          where: { portfolioId, date: { in: cashDates } },
+          select: { action: true, date: true, amount: true, currency: true },
+        })
+      : [],
+    // The API sync writes its own externalIds; its trades are matched on tradeKey().
+    firstTrade && lastTrade
+      ? db.transaction.findMany({
+          where: {
+            source: "questrade",
+            holding: { portfolioId },
+            date: { gte: new Date(`${firstTrade}T00:00:00Z`), lte: new Date(`${lastTrade}T23:59:59.999Z`) },
+          },
+          select: { action: true, date: true, quantity: true, price: true, holding: { select: { ticker: true } } },
+        })
+      : [],
+  ]);
+  return {
+    externalIds: new Set(transactions.map((t) => t.externalId).filter((id): id is string => !!id)),
+    cashKeys: new Set(cashTransactions.map((c) => cashTransactionKey({
+      action: c.action,
+      date: c.date,
+      amount: parseFloat(c.amount.toString()),
+      currency: c.currency,
+    }))),
+    syncedTradeKeys: synced.map((t) => tradeKey({
+      date: t.date,
+      ticker: t.holding.ticker,
+      action: t.action,
+      quantity: parseFloat(t.quantity.toString()),
+      price: parseFloat(t.price.toString()),
+    })),
+  };
+}
+
+// Dry run by default: returns the parsed rows marked new / duplicate / blocked.
+// With commit=true the new rows are written in a single database transaction,
+// together with their CashLedger rows.
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { portfolioId, csv, format, mapping, commit } = body;
+  if (!portfolioId || typeof csv !== "string" || !csv.trim()) {
+    return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+  }
+  if (csv.length > MAX_CSV_BYTES) {
+    return NextResponse.json({ error: "CSV too large (max 2 MB)" }, { status: 413 });
+  }
+  if (format != null && format !== "auto" && !BROKER_CSV_FORMATS.includes(format as BrokerCsvFormat)) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  const portfolio = await prisma.portfolio.findUnique({
+    where: { id: portfolioId as string, userId: session.user.id },
+    select: { id: true },
+  });
+  if (!portfolio) return NextResponse.json({ error: "Portfolio not found" }, { status: 404 });
+
+  let parsed: ReturnType<typeof parseBrokerCsv>;
+  try {
+    parsed = parseBrokerCsv(csv, {
+      format: (format as BrokerCsvFormat | "auto" | undefined) ?? "auto",
+      mapping: mapping && typeof mapping === "object" ? mapping as CsvColumnMapping : undefined,
+    });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Could not parse CSV" }, { status: 400 });
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json({ error: `Too many rows (max ${MAX_IMPORT_ROWS})` }, { status: 413 });
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const preview = planImport(parsed.rows, await loadExistingKeys(portfolio.id, parsed.rows)).map((row) =>
+    row.status === "new" && row.date > today
+      ? { ...row, status: "blocked" as const, reason: "Transaction date cannot be in the future" }
+      : row,
+  );
+  const summary = {
+    total: preview.length,
+    new: preview.filter((row) => row.status === "new").length,
+    duplicate: preview.filter((row) => row.status === "duplicate").length,
+    blocked: preview.filter((row) => row.status === "blocked").length,
+    skipped: parsed.skipped.length,
+  };
+
+  if (commit !== true) {
+    return NextResponse.json({ format: parsed.format, rows: preview, skipped: parsed.skipped, summary, committed: false });
+  }
+
+  const toWrite = preview.filter((row) => row.status === "new");
+  if (toWrite.length === 0) {
+    return NextResponse.json({ format: parsed.format, rows: preview, skipped: parsed.skipped, summary, committed: true, created: { transactions: 0, cashTransactions: 0, ledgerRows: 0 } });
+  }
+
+  // USD trades record the trade-date rate like manual entry; missing dates stay null.
+  const fxRateOn = await loadFxRateResolver(earliestImportDate(toWrite) ?? today, today).catch(() => undefined);
+  const source = `csv:${parsed.format}`;
+
+  try {
+    const created = await prisma.$transaction(async (db) => {
+      // Re-check inside the transaction so a concurrent import cannot double-insert.
+      const existing = await loadExistingKeys(portfolio.id, toWrite, db);
+      const rows = planImport(toWrite, existing).filter((row) => row.status === "new");
+
+      const holdings = new Map<string, { id: string; currency: EngineCurrency }>();
+      const engineTransactions: EngineTransaction[] = [];
+      const engineCash: EngineCashTransactionInput[] = [];
+
+      for (const row of rows) {
+        const date = new Date(`${row.date}T00:00:00Z`);
+        if (!row.ticker) {
+          const cash = await db.cashTransaction.create({
+            data: {
+              portfolioId: portfolio.id,
+              action: row.action as "DEPOSIT" | "WITHDRAWAL",
+              date,
+              amount: row.amount,
+              currency: row.currency,
+              notes: row.description?.slice(0, 500) ?? `Imported from ${parsed.format} CSV`,
+            },
+            select: { id: true },
+          });
+          engineCash.push({ id: cash.id, portfolioId: portfolio.id, date, currency: row.currency, action: row.action as "DEPOSIT" | "WITHDRAWAL", amount: row.amount });
+          continue;
+        }
+
+        let holding = holdings.get(row.ticker);
+        if (!holding) {
+          const upserted = await db.holding.upsert({
+            where: { portfolioId_ticker: { portfolioId: portfolio.id, ticker: row.ticker } },
+            update: { isActive: true },
+            create: { portfolioId: portfolio.id, ticker: row.ticker, currency: row.currency, isActive: true },
+            select: { id: true, currency: true },
+          });
+          holding = { id: upserted.id, currency: upserted.currency as EngineCurrency };
+          holdings.set(row.ticker, holding);
+        }
+
+        const action = row.action as "BUY" | "SELL" | "DIVIDEND";
+        const tx = await db.transaction.create({
+          data: {
+            holdingId: holding.id,
+            action,
+            date,
+            quantity: row.quantity,
+            price: row.price,
+            commission: row.commission,
+            fxRateCAD: holding.currency === "USD" ? fxRateOn?.(row.date) ?? null : null,
+            source,
+            externalId: row.externalId,
+            notes: row.description?.slice(0, 500) ?? null,
+          },
+          select: { id: true },
+        });
+        engineTransactions.push({
+          id: tx.id,
+          portfolioId: portfolio.id,
+          ticker: row.ticker,
+          currency: holding.currency,
+          action,
+          date,
+          quantity: row.quantity,
+          price: row.price,
+          commission: row.commission,
+        });
+      }
+
+      const ledgerRows = deriveCashLedgerRowsFromExistingRecords({ cashTransactions: engineCash, transactions: engineTransactions });
+      const ledger = ledgerRows.length > 0
+        ? await db.cashLedger.createMany({
+            data: ledgerRows.map((row) => ({
+              portfolioId: row.portfolioId,
+              date: row.date,
+              currency: row.currency,
+              amount: row.amount,
+              eventType: row.eventType,
+              ticker: row.ticker,
+              source: "csv-import",
+              relatedTransactionId: row.id.startsWith("tx:") ? row.id.slice(3) : null,
+              relatedCashTransactionId: row.id.startsWith("cash:") ? row.id.slice(5) : null,
+            })),
+            skipDuplicates: true,
+          })
+        : { count: 0 };
+
+      return { transactions: engineTransactions.length, cashTransactions: engineCash.length, ledgerRows: ledger.count };
+    }, { timeout: 60_000 });
+
+    await deleteUserAiCache(session.user.id).catch(() => { /* non-fatal */ });
+    return NextResponse.json({ format: parsed.format, rows: preview, skipped: parsed.skipped, summary, committed: true, created });
+  } catch (error) {
+    log.warn({ event: "import.csv.failed", portfolioId: portfolio.id, format: parsed.format, error: String(error) });
+    return NextResponse.json({ error: "Import failed; nothing was written" }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/auth";
-import { getFxRate } from "@/lib/price";
+import { getFxRateOn } from "@/lib/fx-rates";
 
 const LEGACY_INCOME_TICKER = ["JE", "PQ"].join("");
 
@@ -114,11 +114,11 @@ export async function POST(req: NextRequest) {
   if (txDate > new Date()) {
     return NextResponse.json({ error: "Transaction date cannot be in the future" }, { status: 400 });
   }
-  // For USD holdings, capture the CAD/USD rate at time of entry for CRA reporting
+  // For USD holdings, capture the CAD/USD rate on the trade date for CRA reporting
   let fxRateCAD: number | null = null;
   if (holdingCurrency === "USD") {
-    const fx = await getFxRate().catch(() => null);
-    fxRateCAD = fx?.rate ?? null;
+    const fx = await getFxRateOn(txDate).catch(() => null);
+    fxRateCAD = fx && !fx.fallback ? fx.rate : null;
   }
 
   const tx = await prisma.transaction.create({
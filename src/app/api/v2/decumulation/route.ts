@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import {
+  DECUMULATION_ACCOUNTS,
+  DECUMULATION_PROVINCES,
+  type DecumulationAccount,
+  type DecumulationProvince,
+} from "@/lib/decumulation";
+import { loadDecumulationReport, type DecumulationOverrides } from "@/lib/decumulation-source";
+
+export const dynamic = "force-dynamic";
+
+// Query param → [override key, min, max]. Amounts are CAD per year, rates are percents.
+const NUMERIC_PARAMS = {
+  age: ["currentAge", 18, 110],
+  endAge: ["endAge", 50, 110],
+  spend: ["spendingTargetCAD", 0, 10_000_000],
+  return: ["realReturnPct", -10, 20],
+  yield: ["nonRegYieldPct", 0, 20],
+  cpp: ["cppAnnualCAD", 0, 100_000],
+  cppAge: ["cppStartAge", 60, 70],
+  oas: ["oasAnnualCAD", 0, 100_000],
+  oasAge: ["oasStartAge", 65, 70],
+  pension: ["pensionAnnualCAD", 0, 10_000_000],
+  meltdown: ["meltdownAnnualCAD", 0, 10_000_000],
+} as const;
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const overrides: DecumulationOverrides = {};
+
+  const province = searchParams.get("province");
+  if (province != null) {
+    if (!DECUMULATION_PROVINCES.includes(province as DecumulationProvince)) {
+      return NextResponse.json({ error: "Invalid province" }, { status: 400 });
+    }
+    overrides.province = province as DecumulationProvince;
+  }
+
+  const people = searchParams.get("people");
+  if (people != null) {
+    if (people !== "1" && people !== "2") return NextResponse.json({ error: "Invalid people" }, { status: 400 });
+    overrides.people = people === "2" ? 2 : 1;
+  }
+
+  const order = searchParams.get("order");
+  if (order != null) {
+    const accounts = order.split(",").map((a) => a.trim().toUpperCase());
+    const valid = accounts.length === DECUMULATION_ACCOUNTS.length
+      && DECUMULATION_ACCOUNTS.every((a) => accounts.includes(a));
+    if (!valid) return NextResponse.json({ error: "order must list NON_REG, TFSA and RRSP once each" }, { status: 400 });
+    overrides.withdrawalOrder = accounts as DecumulationAccount[];
+  }
+
+  for (const [param, [key, min, max]] of Object.entries(NUMERIC_PARAMS)) {
+    const raw = searchParams.get(param);
+    if (raw == null || raw === "") continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      return NextResponse.json({ error: `Invalid ${param}` }, { status: 400 });
+    }
+    overrides[key] = key.endsWith("Age") ? Math.round(value) : value;
+  }
+
+  try {
+    const report = await loadDecumulationReport(session.user.id, overrides);
+    if (!report) {
+      return NextResponse.json({ error: "Set a birth year in Settings or pass ?age=" }, { status: 422 });
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.warn("/api/v2/decumulation failed", error);
+    return NextResponse.json({ error: "Failed to build the withdrawal plan" }, { status: 500 });
+  }
+}
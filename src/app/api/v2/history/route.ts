@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/auth";
+import { parseSnapshotScope, rollUpAccountSnapshots } from "@/lib/snapshot-scope";
 
 export const dynamic = "force-dynamic";
 
@@ -23,6 +24,8 @@ export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const rawRange = searchParams.get("range") ?? "3m";
   const range = (VALID_RANGES.includes(rawRange as Range) ? rawRange : "3m") as Range;
+  const scope = parseSnapshotScope(searchParams);
+  if ("error" in scope) return NextResponse.json({ error: scope.error }, { status: 400 });
 
   const now = new Date();
   let since: Date | undefined;
@@ -40,24 +43,34 @@ export async function GET(req: NextRequest) {
     since.setFullYear(since.getFullYear() - 1);
   }
 
-  const snapshots = await prisma.portfolioSnapshot.findMany({
-    where: {
-      userId: uid,
-      ...(since ? { date: { gte: since } } : {}),
-    },
-    orderBy: { date: "asc" },
-    select: { date: true, totalCAD: true, costBasisCAD: true, cashCAD: true },
-  });
+  const dateFilter = since ? { date: { gte: since } } : {};
+  const select = { date: true, totalCAD: true, costBasisCAD: true, cashCAD: true } as const;
+  const rows = scope.kind === "all"
+    ? await prisma.portfolioSnapshot.findMany({
+      where: { userId: uid, ...dateFilter },
+      orderBy: { date: "asc" },
+      select,
+    })
+    : await prisma.portfolioAccountSnapshot.findMany({
+      where: {
+        userId: uid,
+        ...(scope.kind === "portfolio" ? { portfolioId: scope.portfolioId } : { accountType: scope.accountType }),
+        ...dateFilter,
+      },
+      orderBy: { date: "asc" },
+      select,
+    });
 
-  const series = snapshots.map((s) => ({
-    date: s.date.toISOString().slice(0, 10),
+  const series = rollUpAccountSnapshots(rows.map((s) => ({
+    date: s.date,
     totalCAD: toNum(s.totalCAD),
     costBasisCAD: toNum(s.costBasisCAD),
     cashCAD: toNum(s.cashCAD),
-  }));
+  })));
 
   return NextResponse.json({
     range,
+    scope,
     series,
     isEmpty: series.length === 0,
   });
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadRiskReport, RISK_RANGES, type RiskRange } from "@/lib/performance-risk-source";
+import { parseSnapshotScope } from "@/lib/snapshot-scope";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const rawRange = searchParams.get("range") ?? "1y";
+  if (!RISK_RANGES.includes(rawRange as RiskRange)) {
+    return NextResponse.json({ error: "Invalid range" }, { status: 400 });
+  }
+  const scope = parseSnapshotScope(searchParams);
+  if ("error" in scope) return NextResponse.json({ error: scope.error }, { status: 400 });
+
+  // `rf` is an annual percentage, e.g. rf=4.2.
+  const rawRiskFree = searchParams.get("rf");
+  let riskFree: number | null = null;
+  if (rawRiskFree != null && rawRiskFree !== "") {
+    const parsed = Number(rawRiskFree);
+    if (!Number.isFinite(parsed) || parsed < -10 || parsed > 50) {
+      return NextResponse.json({ error: "Invalid rf" }, { status: 400 });
+    }
+    riskFree = parsed / 100;
+  }
+
+  try {
+    return NextResponse.json(await loadRiskReport(session.user.id, rawRange as RiskRange, scope, riskFree));
+  } catch (error) {
+    console.warn("/api/v2/risk failed", error);
+    return NextResponse.json({ error: "Failed to compute risk metrics" }, { status: 500 });
+  }
+}
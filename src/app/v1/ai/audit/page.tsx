@@ -0,0 +1,27 @@
+import { AI_AUDIT_DEFAULT_DAYS } from "@/lib/ai-audit";
+import { loadAiAuditReport } from "@/lib/ai-audit-source";
+import { AiAuditDashboard } from "@/components/ai-audit-dashboard";
+import { ErrorBoundary } from "@/components/error-boundary";
+
+export const dynamic = "force-dynamic";
+
+export default async function AiAuditPage() {
+  const report = await loadAiAuditReport({
+    days: AI_AUDIT_DEFAULT_DAYS,
+    rulebookVersion: null,
+    route: null,
+    provider: null,
+    model: null,
+  }).catch((error) => {
+    console.warn("/v1/ai/audit: initial report failed", error);
+    return null;
+  });
+
+  return (
+    <div>
+      <ErrorBoundary label="AI AUDIT">
+        <AiAuditDashboard initial={report} />
+      </ErrorBoundary>
+    </div>
+  );
+}
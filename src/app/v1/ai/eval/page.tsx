@@ -0,0 +1,20 @@
+import { loadAiEvalReport } from "@/lib/ai-eval-source";
+import { AiEvalReportView } from "@/components/ai-eval-report";
+import { ErrorBoundary } from "@/components/error-boundary";
+
+export const dynamic = "force-dynamic";
+
+export default async function AiEvalPage() {
+  const report = await loadAiEvalReport().catch((error) => {
+    console.warn("/v1/ai/eval: initial report failed", error);
+    return null;
+  });
+
+  return (
+    <div>
+      <ErrorBoundary label="AI EVAL">
+        <AiEvalReportView initial={report} />
+      </ErrorBoundary>
+    </div>
+  );
+}
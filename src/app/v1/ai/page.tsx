@@ -1,9 +1,11 @@
+import Link from "next/link";
 import { AiPanel } from "@/components/ai-panel";
 import { ProjectionCard } from "@/components/projection-card";
 import { ProjectionVsActual } from "@/components/projection-vs-actual";
 import { AiTriggerSummary } from "@/components/ai-trigger-summary";
 import { ThisWeekActionPlan } from "@/components/this-week-action-plan";
 import { RulebookStatus } from "@/components/rulebook-status";
+import { RulebookTriggerEvents } from "@/components/rulebook-trigger-events";
 import { AiPageRefreshButton } from "@/components/ai-page-refresh";
 import { ErrorBoundary } from "@/components/error-boundary";
 
@@ -14,6 +16,7 @@ export default async function AiAssistantPage() {
   //   1. Top Summary       — 4-stat 스냅샷 (코어/QLD/SGOV)
   //   2. This Week Action  — 정적 70/30 + Non-Core (sole authority)
   //   3. Rulebook Status   — 트리거 적용 여부 (구조화 list)
+  //      Trigger Events    — cron 감지 이벤트, 승인/거절 기록
   //   4. AI Briefing/Insights — 짧은 status / 분석 (액션 금액 반복 금지)
   //   5. Projection        — 미래 시나리오 + AI narrative (현재 상태/실행안 반복 금지)
   return (
@@ -22,7 +25,15 @@ export default async function AiAssistantPage() {
         <div className="text-xs tracking-wide text-muted-foreground">
           포트폴리오를 룰북 v4.4.2 기준으로 분석하고 이번 주 실행안을 제시합니다.
         </div>
-        <AiPageRefreshButton />
+        <div className="flex items-center gap-2 shrink-0">
+          <Link href="/v1/ai/audit" className="btn-retro text-xs px-2 py-1 leading-none">
+            AUDIT
+          </Link>
+          <Link href="/v1/ai/eval" className="btn-retro text-xs px-2 py-1 leading-none">
+            EVAL
+          </Link>
+          <AiPageRefreshButton />
+        </div>
       </div>
 
       {/* 1) Top Summary — 4-stat 스냅샷 */}
@@ -40,6 +51,11 @@ export default async function AiAssistantPage() {
         <RulebookStatus />
       </ErrorBoundary>
 
+      {/* 3b) Trigger Events — cron 감지 이력 + 승인/거절 */}
+      <ErrorBoundary label="TRIGGER EVENTS">
+        <RulebookTriggerEvents />
+      </ErrorBoundary>
+
       {/* 4) Briefing + Insights tabs — text only, no buy amounts */}
       <ErrorBoundary label="AI ASSISTANT">
         <AiPanel />
@@ -1,5 +1,6 @@
 import { auth } from "@/auth";
 import { prisma } from "@/lib/db";
+import { defaultUsdCad } from "@/lib/fx-rates";
 import { getFxRate } from "@/lib/price";
 import { MoreClient, type Txn } from "@/components/more-client";
 import { ErrorBoundary } from "@/components/error-boundary";
@@ -17,7 +18,7 @@ export default async function MorePage() {
       orderBy: { date: "desc" },
       include: { holding: { include: { portfolio: true } } },
     }),
-    getFxRate().catch(() => ({ rate: parseFloat(process.env.DEFAULT_FX_RATE ?? "1.35"), fallback: true })),
+    getFxRate().catch(() => ({ rate: defaultUsdCad(), fallback: true })),
   ]);
 
   // Serialize Prisma Decimal + Date fields for the client component
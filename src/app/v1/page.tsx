@@ -1,6 +1,7 @@
 import { Suspense } from "react";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/db";
+import { defaultUsdCad } from "@/lib/fx-rates";
 import { DashboardClient } from "@/components/dashboard-client";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { DashboardSkeleton } from "@/components/skeleton";
@@ -17,7 +18,7 @@ export default async function Home() {
     include: { holdings: { include: { transactions: true } } },
   });
 
-  const fxRate = parseFloat(process.env.DEFAULT_FX_RATE ?? "1.35");
+  const fxRate = defaultUsdCad();
   // JSON round-trip serializes Prisma Decimal fields to strings for client components
   const serialized = JSON.parse(JSON.stringify(portfolios));
 
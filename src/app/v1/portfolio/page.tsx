@@ -1,6 +1,7 @@
 import { Suspense } from "react";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/db";
+import { defaultUsdCad } from "@/lib/fx-rates";
 import { PortfolioClient } from "@/components/portfolio-client";
 import { ErrorBoundary } from "@/components/error-boundary";
 
@@ -16,7 +17,7 @@ export default async function PortfolioPage() {
     include: { holdings: { include: { transactions: true } } },
   });
 
-  const fxRate = parseFloat(process.env.DEFAULT_FX_RATE ?? "1.35");
+  const fxRate = defaultUsdCad();
   const serialized = JSON.parse(JSON.stringify(portfolios));
 
   return (
@@ -0,0 +1,14 @@
+import { auth } from "@/auth";
+import { loadDecumulationReport } from "@/lib/decumulation-source";
+import { V2RetirementClient } from "@/components/v2/v2-retirement-client";
+
+export const dynamic = "force-dynamic";
+
+export default async function V2RetirementPage() {
+  const session = await auth();
+  const report = await loadDecumulationReport(session.user.id).catch((error) => {
+    console.warn("/v2/retirement: initial plan failed", error);
+    return null;
+  });
+  return <V2RetirementClient initial={report} />;
+}
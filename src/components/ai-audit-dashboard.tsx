@@ -0,0 +1,338 @@
+"use client";
+
+/**
+ * AI audit — AiCallLog across all users via /api/ai/audit.
+ * Filters re-query the route; the version table ignores the rulebook filter so
+ * a prompt change can be read against the version before it.
+ */
+import { useMemo, useState } from "react";
+import ReactECharts from "echarts-for-react";
+import { useThemeTokens } from "@/lib/use-theme-tokens";
+import {
+  AI_AUDIT_DEFAULT_DAYS,
+  type AiAuditBreakdown,
+  type AiAuditFilters,
+  type AiAuditReport,
+} from "@/lib/ai-audit";
+
+const DAY_OPTIONS = [7, 30, 90, 365];
+
+function fmtInt(n: number) {
+  return n.toLocaleString("en-CA");
+}
+
+function fmtPct(r: number | null) {
+  return r == null ? "—" : `${(r * 100).toFixed(1)}%`;
+}
+
+function fmtMs(ms: number | null) {
+  if (ms == null) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function fmtWhen(iso: string) {
+  return new Date(iso).toLocaleString("en-CA", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function Stat({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="border border-border bg-muted/20 p-2.5">
+      <div className="text-[10px] text-muted-foreground">{label}</div>
+      <div className="text-sm tabular-nums">{value}</div>
+      {sub && <div className="text-[10px] text-muted-foreground tabular-nums">{sub}</div>}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border border-border bg-card">
+      <div className="px-4 py-2 border-b border-border text-accent text-xs tracking-wide">&#9654; {title}</div>
+      <div className="p-3 sm:p-4">{children}</div>
+    </div>
+  );
+}
+
+function BreakdownTable({ label, rows }: { label: string; rows: AiAuditBreakdown[] }) {
+  return (
+    <table className="w-full text-[10px] sm:text-[11px] tabular-nums border border-border">
+      <thead>
+        <tr className="text-muted-foreground border-b border-border bg-muted/30">
+          <th className="text-left py-1 px-2 font-normal">{label}</th>
+          <th className="text-right py-1 px-2 font-normal">Calls</th>
+          <th className="text-right py-1 px-2 font-normal">Cached</th>
+          <th className="text-right py-1 px-2 font-normal">Throttled</th>
+          <th className="text-right py-1 px-2 font-normal">Errors</th>
+          <th className="text-right py-1 px-2 font-normal">Flagged</th>
+          <th className="text-right py-1 px-2 font-normal hidden sm:table-cell">Tokens</th>
+          <th className="text-right py-1 px-2 font-normal">p50</th>
+          <th className="text-right py-1 px-2 font-normal">p95</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.key} className="border-b border-border/50">
+            <td className="py-1 px-2 break-all">{r.key}</td>
+            <td className="text-right py-1 px-2">{fmtInt(r.calls)}</td>
+            <td className="text-right py-1 px-2">{fmtInt(r.cached)}</td>
+            <td className="text-right py-1 px-2">{fmtInt(r.throttled)}</td>
+            <td className={`text-right py-1 px-2 ${r.errors ? "text-negative" : ""}`}>{fmtInt(r.errors)}</td>
+            <td className={`text-right py-1 px-2 ${r.flagged ? "text-negative" : ""}`}>{fmtInt(r.flagged)}</td>
+            <td className="text-right py-1 px-2 hidden sm:table-cell">{fmtInt(r.totalTokens)}</td>
+            <td className="text-right py-1 px-2">{fmtMs(r.p50Ms)}</td>
+            <td className="text-right py-1 px-2">{fmtMs(r.p95Ms)}</td>
+          </tr>
+        ))}
+        {rows.length === 0 && (
+          <tr>
+            <td colSpan={9} className="py-2 text-center text-muted-foreground">NO CALLS</td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+export function AiAuditDashboard({ initial }: { initial: AiAuditReport | null }) {
+  const [report, setReport] = useState<AiAuditReport | null>(initial);
+  const [filters, setFilters] = useState<AiAuditFilters>(
+    initial?.filters ?? { days: AI_AUDIT_DEFAULT_DAYS, rulebookVersion: null, route: null, provider: null, model: null },
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(initial ? null : "감사 로그를 불러올 수 없습니다.");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const tokens = useThemeTokens();
+
+  async function apply(next: AiAuditFilters) {
+    setFilters(next);
+    setLoading(true);
+    setError(null);
+    const params = new URLSearchParams({ days: String(next.days) });
+    for (const key of ["rulebookVersion", "route", "provider", "model"] as const) {
+      if (next[key]) params.set(key, next[key]);
+    }
+    try {
+      const res = await fetch(`/api/ai/audit?${params}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? "Failed");
+      setReport(json as AiAuditReport);
+    } catch (err) {
+      setError("사유: " + (err instanceof Error ? err.message : "Failed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const axis = useMemo(
+    () => ({
+      tooltip: {
+        trigger: "axis" as const,
+        confine: true,
+        backgroundColor: tokens.card,
+        borderColor: tokens.border,
+        borderWidth: 1,
+        textStyle: { color: tokens.foreground, fontFamily: "IBM Plex Mono, monospace", fontSize: 11 },
+        extraCssText: "border-radius:0",
+      },
+      legend: {
+        top: 0,
+        textStyle: { color: tokens.mutedForeground, fontFamily: "IBM Plex Mono, monospace", fontSize: 10 },
+        itemWidth: 10,
+        itemHeight: 6,
+      },
+      grid: { left: 40, right: 4, top: 24, bottom: 24 },
+      xAxis: {
+        type: "category" as const,
+        data: report?.summary.daily.map((d) => d.date.slice(5)) ?? [],
+        axisLabel: { color: tokens.mutedForeground, fontFamily: "IBM Plex Mono, monospace", fontSize: 10, hideOverlap: true },
+        axisLine: { lineStyle: { color: tokens.border } },
+        axisTick: { show: false },
+      },
+      yAxis: {
+        type: "value" as const,
+        axisLabel: { color: tokens.mutedForeground, fontFamily: "IBM Plex Mono, monospace", fontSize: 10 },
+        splitLine: { lineStyle: { color: tokens.border, type: [2, 4] as [number, number] } },
+      },
+    }),
+    [report, tokens],
+  );
+
+  const callsOption = useMemo(() => {
+    if (!report) return {};
+    const routes = report.options.routes.filter((route) => report.summary.daily.some((d) => d.byRoute[route]));
+    const palette = [tokens.primary, tokens.accent, tokens.positive, tokens.mutedForeground, tokens.foreground];
+    return {
+      backgroundColor: "transparent",
+      animation: false,
+      ...axis,
+      series: [
+        ...routes.map((route, i) => ({
+          type: "bar",
+          name: route,
+          stack: "calls",
+          data: report.summary.daily.map((d) => d.byRoute[route] ?? 0),
+          color: palette[i % palette.length],
+        })),
+        {
+          type: "line",
+          name: "flagged",
+          data: report.summary.daily.map((d) => d.flagged),
+          color: tokens.negative,
+          symbol: "none",
+        },
+      ],
+    };
+  }, [report, axis, tokens]);
+
+  const tokensOption = useMemo(() => {
+    if (!report) return {};
+    return {
+      backgroundColor: "transparent",
+      animation: false,
+      ...axis,
+      series: [
+        { type: "bar", name: "prompt", stack: "tokens", data: report.summary.daily.map((d) => d.promptTokens), color: tokens.primary },
+        { type: "bar", name: "completion", stack: "tokens", data: report.summary.daily.map((d) => d.completionTokens), color: tokens.accent },
+      ],
+    };
+  }, [report, axis, tokens]);
+
+  const selectClass = "bg-card border border-border text-foreground text-xs px-2 py-1";
+  const t = report?.summary.totals;
+  const latency = report?.summary.latency;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select value={filters.days} onChange={(e) => apply({ ...filters, days: Number(e.target.value) })} className={selectClass}>
+          {DAY_OPTIONS.map((d) => (
+            <option key={d} value={d}>{d}D</option>
+          ))}
+        </select>
+        {(
+          [
+            ["rulebookVersion", "ALL VERSIONS", report?.options.rulebookVersions],
+            ["route", "ALL ROUTES", report?.options.routes],
+            ["provider", "ALL PROVIDERS", report?.options.providers],
+            ["model", "ALL MODELS", report?.options.models],
+          ] as const
+        ).map(([key, all, values]) => (
+          <select
+            key={key}
+            value={filters[key] ?? ""}
+            onChange={(e) => apply({ ...filters, [key]: e.target.value || null })}
+            className={selectClass}
+          >
+            <option value="">{all}</option>
+            {(values ?? []).map((v) => (
+              <option key={v} value={v}>{v}</option>
+            ))}
+          </select>
+        ))}
+        {loading && <span className="text-[10px] text-muted-foreground">LOADING...</span>}
+      </div>
+
+      {error && <div className="text-xs text-negative">{error}</div>}
+      {report?.truncated && (
+        <div className="text-[10px] text-accent">행이 너무 많아 최근 호출만 집계했습니다. 기간을 줄여주세요.</div>
+      )}
+
+      {report && t && latency && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+            <Stat label="CALLS" value={fmtInt(t.calls)} sub={`${fmtInt(t.errors)} errors`} />
+            <Stat label="LATENCY p50 / p95" value={`${fmtMs(latency.p50Ms)} / ${fmtMs(latency.p95Ms)}`} sub={`upstream ${fmtMs(latency.upstreamP50Ms)} / ${fmtMs(latency.upstreamP95Ms)}`} />
+            <Stat label="TOKENS" value={fmtInt(t.totalTokens)} sub={`${fmtInt(t.promptTokens)} in · ${fmtInt(t.completionTokens)} out`} />
+            <Stat label="CACHE HIT" value={fmtPct(t.cacheHitRate)} sub={`${fmtInt(t.cached)} cached`} />
+            <Stat label="THROTTLED" value={fmtInt(t.throttled)} sub={fmtPct(t.throttleRate)} />
+            <Stat label="FLAGGED" value={fmtInt(t.flagged)} sub={`${fmtPct(t.validated ? t.flagged / t.validated : null)} of ${fmtInt(t.validated)} validated`} />
+          </div>
+
+          <Section title="CALLS PER DAY">
+            <div className="h-56 chart-touch-zone">
+              <ReactECharts option={callsOption} notMerge style={{ height: "100%", width: "100%" }} />
+            </div>
+          </Section>
+
+          <Section title="TOKENS PER DAY">
+            <div className="h-56 chart-touch-zone">
+              <ReactECharts option={tokensOption} notMerge style={{ height: "100%", width: "100%" }} />
+            </div>
+          </Section>
+
+          <Section title="BREAKDOWN">
+            <div className="space-y-3 overflow-x-auto">
+              <BreakdownTable label="Route" rows={report.summary.byRoute} />
+              <BreakdownTable label="Provider" rows={report.summary.byProvider} />
+              <BreakdownTable label="Model" rows={report.summary.byModel} />
+            </div>
+          </Section>
+
+          <Section title="RULEBOOK VERSIONS">
+            <table className="w-full text-[10px] sm:text-[11px] tabular-nums border border-border">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border bg-muted/30">
+                  <th className="text-left py-1 px-2 font-normal">Version</th>
+                  <th className="text-left py-1 px-2 font-normal hidden sm:table-cell">Seen</th>
+                  <th className="text-right py-1 px-2 font-normal">Calls</th>
+                  <th className="text-right py-1 px-2 font-normal">Validated</th>
+                  <th className="text-right py-1 px-2 font-normal">Flagged</th>
+                  <th className="text-right py-1 px-2 font-normal">Rate</th>
+                  <th className="text-left py-1 px-2 font-normal">Top codes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.versions.map((v) => (
+                  <tr
+                    key={v.rulebookVersion}
+                    className={`border-b border-border/50 ${filters.rulebookVersion === v.rulebookVersion ? "text-accent" : ""}`}
+                  >
+                    <td className="py-1 px-2">{v.rulebookVersion}</td>
+                    <td className="py-1 px-2 hidden sm:table-cell text-muted-foreground">
+                      {v.firstSeen.slice(0, 10)} → {v.lastSeen.slice(0, 10)}
+                    </td>
+                    <td className="text-right py-1 px-2">{fmtInt(v.calls)}</td>
+                    <td className="text-right py-1 px-2">{fmtInt(v.validated)}</td>
+                    <td className="text-right py-1 px-2">{fmtInt(v.flagged)}</td>
+                    <td className={`text-right py-1 px-2 ${v.flagged ? "text-negative" : ""}`}>{fmtPct(v.violationRate)}</td>
+                    <td className="py-1 px-2">{v.topCodes.map((c) => `${c.code} ×${c.count}`).join(", ") || "—"}</td>
+                  </tr>
+                ))}
+                {report.versions.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="py-2 text-center text-muted-foreground">NO CALLS</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </Section>
+
+          <Section title={`FLAGGED RESPONSES (${report.flagged.length})`}>
+            <ul className="space-y-2">
+              {report.flagged.map((f) => (
+                <li key={f.id} className="border border-border p-2 text-xs">
+                  <button
+                    onClick={() => setExpanded(expanded === f.id ? null : f.id)}
+                    className="w-full flex flex-wrap gap-x-3 text-left text-[10px] text-muted-foreground hover:text-foreground"
+                  >
+                    <span>{fmtWhen(f.createdAt)}</span>
+                    <span>{f.route}</span>
+                    <span>{f.provider}/{f.model}</span>
+                    <span>RULEBOOK {f.rulebookVersion}</span>
+                    <span className="text-negative">{f.violationCodes.join(", ") || f.status.toUpperCase()}</span>
+                  </button>
+                  {expanded === f.id && (
+                    <div className="mt-2 whitespace-pre-wrap break-words leading-relaxed">
+                      {f.sanitizedResponse ?? <span className="text-muted-foreground">NO RESPONSE STORED</span>}
+                    </div>
+                  )}
+                </li>
+              ))}
+              {report.flagged.length === 0 && <li className="text-[10px] text-muted-foreground">NO FLAGGED RESPONSES</li>}
+            </ul>
+          </Section>
+        </>
+      )}
+    </div>
+  );
+}
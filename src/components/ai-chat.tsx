@@ -0,0 +1,250 @@
+"use client";
+
+// CHAT tab of the AI panel: server-side conversations from
+// /api/ai/conversations (list, search, resume, rename, delete) and streamed
+// turns through /api/ai/chat. Each assistant reply shows its validation result
+// and the portfolio tools it consulted, so a recommendation can be revisited.
+import { useEffect, useRef, useState } from "react";
+import { sanitizeAiOutput } from "@/lib/ai-output-rules";
+import { AI_STREAM_CONTENT_TYPE, readAiResponse } from "@/lib/ai-stream";
+import type {
+  AiConversationDetail,
+  AiConversationMessageView,
+  AiConversationSummary,
+} from "@/lib/ai-conversations";
+
+function fmtWhen(iso: string) {
+  return new Date(iso).toLocaleString("en-CA", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function ValidationBadge({ message }: { message: AiConversationMessageView }) {
+  if (!message.validationStatus) return null;
+  const codes = message.violations.map((v) => v.code).join(", ");
+  const detail = message.violations.map((v) => `${v.code} (${v.section}): ${v.reason}`).join("\n");
+  if (message.validationStatus === "pass") return <span className="text-positive">PASS</span>;
+  return (
+    <span className="text-negative" title={detail}>
+      {message.validationStatus === "retracted" ? "RETRACTED" : "VIOLATION"}{codes ? ` · ${codes}` : ""}
+    </span>
+  );
+}
+
+function MessageRow({ message }: { message: AiConversationMessageView }) {
+  const tools = [...new Set(message.toolCalls.map((c) => c.name))];
+  return (
+    <div className={message.role === "user" ? "text-right" : ""}>
+      <div
+        className={`inline-block max-w-full text-left text-xs whitespace-pre-wrap break-words leading-relaxed border border-border p-2 ${
+          message.role === "user" ? "bg-muted/40" : "bg-background"
+        } ${message.validationStatus === "retracted" ? "opacity-60 line-through" : ""}`}
+      >
+        {message.role === "assistant" ? sanitizeAiOutput(message.content) : message.content}
+      </div>
+      {message.role === "assistant" && (
+        <div className="mt-1 flex flex-wrap gap-x-3 text-[10px] text-muted-foreground">
+          <ValidationBadge message={message} />
+          {tools.length > 0 && <span>DATA: {tools.join(", ")}</span>}
+          <span>RULEBOOK {message.rulebookVersion}</span>
+          <span>{fmtWhen(message.createdAt)}</span>
+        </div>
+      )}
+      {message.role === "user" && message.validationStatus === "error" && (
+        <div className="mt-1 text-[10px] text-negative">NO REPLY · 응답 생성 실패</div>
+      )}
+    </div>
+  );
+}
+
+export function AiChat() {
+  const [conversations, setConversations] = useState<AiConversationSummary[]>([]);
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState<AiConversationDetail | null>(null);
+  const [draft, setDraft] = useState("");
+  const [pending, setPending] = useState<{ question: string; reply: string } | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const searchRef = useRef<ReturnType<typeof setTimeout>>(null);
+
+  async function loadList(q = query) {
+    const trimmed = q.trim();
+    const url = trimmed.length >= 2 ? `/api/ai/conversations?q=${encodeURIComponent(trimmed)}` : "/api/ai/conversations";
+    try {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed");
+      setConversations(((await res.json()) as { conversations: AiConversationSummary[] }).conversations);
+    } catch {
+      setError("대화 목록을 불러올 수 없습니다.");
+    }
+  }
+
+  async function open(id: string) {
+    setError(null);
+    setRenaming(null);
+    try {
+      const res = await fetch(`/api/ai/conversations/${id}`);
+      if (!res.ok) throw new Error("Failed");
+      setActive((await res.json()) as AiConversationDetail);
+    } catch {
+      setError("대화를 불러올 수 없습니다.");
+    }
+  }
+
+  async function send() {
+    const question = draft.trim();
+    if (!question || pending) return;
+    setDraft("");
+    setError(null);
+    setPending({ question, reply: "" });
+    try {
+      const res = await fetch("/api/ai/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: AI_STREAM_CONTENT_TYPE },
+        body: JSON.stringify({ message: question, conversationId: active?.id }),
+      });
+      const conversationId = res.headers.get("X-AI-Conversation-Id");
+      const outcome = await readAiResponse(res, {
+        onDelta: (text) => setPending({ question, reply: text }),
+        onRetract: (violations) =>
+          setError(`룰북 위반 가능성으로 응답을 철회했습니다 (${violations.map((v) => v.code).join(", ")}). 다시 질문해주세요.`),
+      });
+      if (!outcome.ok && !outcome.retracted) setError(outcome.error ?? "Failed");
+      if (conversationId) await open(conversationId);
+      await loadList();
+    } catch {
+      setError("Network error");
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function rename(id: string, title: string) {
+    const res = await fetch(`/api/ai/conversations/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+    setRenaming(null);
+    if (!res.ok) {
+      setError("사유: " + (((await res.json()) as { error?: string }).error ?? "Failed"));
+      return;
+    }
+    if (active?.id === id) setActive({ ...active, title: title.trim() });
+    await loadList();
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Delete this conversation?")) return;
+    await fetch(`/api/ai/conversations/${id}`, { method: "DELETE" });
+    if (active?.id === id) setActive(null);
+    await loadList();
+  }
+
+  useEffect(() => {
+    fetch("/api/ai/conversations")
+      .then(async (r) => {
+        if (!r.ok) throw new Error("Failed");
+        return ((await r.json()) as { conversations: AiConversationSummary[] }).conversations;
+      })
+      .then(setConversations)
+      .catch(() => setError("대화 목록을 불러올 수 없습니다."));
+  }, []);
+
+  function onSearch(value: string) {
+    setQuery(value);
+    if (searchRef.current) clearTimeout(searchRef.current);
+    searchRef.current = setTimeout(() => loadList(value), 300);
+  }
+
+  return (
+    <div className="grid gap-3 md:grid-cols-[200px_1fr]">
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            value={query}
+            onChange={(e) => onSearch(e.target.value)}
+            placeholder="SEARCH"
+            className="w-full !py-1 text-xs"
+          />
+          <button onClick={() => { setActive(null); setError(null); }} className="btn-retro text-xs py-1">[ NEW ]</button>
+        </div>
+        <ul className="max-h-80 overflow-y-auto space-y-1">
+          {conversations.map((c) => (
+            <li key={c.id}>
+              <button
+                onClick={() => open(c.id)}
+                className={`w-full text-left px-2 py-1 border text-xs ${
+                  active?.id === c.id ? "border-accent" : "border-border hover:border-muted-foreground"
+                }`}
+              >
+                <div className="truncate">{c.title}</div>
+                <div className="text-[10px] text-muted-foreground">{fmtWhen(c.updatedAt)} · {c.messageCount} MSG</div>
+                {c.snippet && <div className="text-[10px] text-muted-foreground truncate">{c.snippet}</div>}
+              </button>
+            </li>
+          ))}
+          {conversations.length === 0 && (
+            <li className="text-[10px] text-muted-foreground">{query.trim() ? "NO MATCHES" : "NO CONVERSATIONS"}</li>
+          )}
+        </ul>
+      </div>
+
+      <div className="space-y-3 min-w-0">
+        {active && (
+          <div className="flex items-center justify-between gap-2 text-[10px] text-muted-foreground">
+            {renaming != null ? (
+              <input
+                autoFocus
+                value={renaming}
+                onChange={(e) => setRenaming(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") rename(active.id, renaming);
+                  if (e.key === "Escape") setRenaming(null);
+                }}
+                className="w-full !py-1 text-xs"
+              />
+            ) : (
+              <span className="truncate">{active.title} · STARTED {fmtWhen(active.createdAt)} · RULEBOOK {active.rulebookVersion}</span>
+            )}
+            <span className="flex gap-2 shrink-0">
+              <button onClick={() => setRenaming(active.title)} className="hover:text-foreground">RENAME</button>
+              <button onClick={() => remove(active.id)} className="hover:text-negative">DELETE</button>
+            </span>
+          </div>
+        )}
+
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {active?.messages.map((m) => <MessageRow key={m.id} message={m} />)}
+          {pending && (
+            <>
+              <div className="text-right">
+                <div className="inline-block text-left text-xs whitespace-pre-wrap break-words border border-border bg-muted/40 p-2">{pending.question}</div>
+              </div>
+              <div className="text-xs whitespace-pre-wrap break-words leading-relaxed border border-border bg-background p-2">
+                {pending.reply ? sanitizeAiOutput(pending.reply) : <span className="text-muted-foreground">ANALYZING...</span>}
+              </div>
+            </>
+          )}
+          {!active && !pending && (
+            <div className="text-[10px] text-muted-foreground py-4 text-center">ASK ABOUT YOUR PORTFOLIO OR THE RULEBOOK</div>
+          )}
+        </div>
+
+        {error && <div className="text-xs text-negative">{error}</div>}
+
+        <div className="flex gap-2">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && !e.nativeEvent.isComposing) send(); }}
+            placeholder="MESSAGE"
+            disabled={pending != null}
+            className="w-full !py-1 text-xs"
+          />
+          <button onClick={send} disabled={pending != null || !draft.trim()} className="btn-retro btn-retro-primary text-xs py-1">
+            [ SEND ]
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
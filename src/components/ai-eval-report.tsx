@@ -0,0 +1,189 @@
+"use client";
+
+/**
+ * Guardrail evaluation report — saved `npm run ai:eval -- --save` runs via
+ * /api/ai/eval. Pick a candidate and a baseline run; the table shows per-code
+ * violation counts over the cases both runs scored, and every case whose codes
+ * changed, with both replies.
+ */
+import { useState } from "react";
+import type { AiEvalReport, AiEvalReportSide, AiEvalRunSummary } from "@/lib/ai-eval-source";
+
+function fmtPct(r: number | null) {
+  return r == null ? "—" : `${(r * 100).toFixed(1)}%`;
+}
+
+function fmtWhen(iso: string) {
+  return new Date(iso).toLocaleString("en-CA", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function runLabel(r: AiEvalRunSummary) {
+  return `${r.rulebookVersion} · ${r.provider} · ${fmtWhen(r.createdAt)}`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border border-border bg-card">
+      <div className="px-4 py-2 border-b border-border text-accent text-xs tracking-wide">&#9654; {title}</div>
+      <div className="p-3 sm:p-4">{children}</div>
+    </div>
+  );
+}
+
+function RunCard({ label, side }: { label: string; side: AiEvalReportSide | null }) {
+  if (!side) {
+    return (
+      <div className="border border-border bg-muted/20 p-2.5 text-[10px] text-muted-foreground">
+        {label}: NO RUN
+      </div>
+    );
+  }
+  const { run, score } = side;
+  return (
+    <div className="border border-border bg-muted/20 p-2.5 space-y-0.5">
+      <div className="text-[10px] text-muted-foreground">{label}</div>
+      <div className="text-sm tabular-nums">
+        {run.rulebookVersion} · {fmtPct(score.violationRate)}
+      </div>
+      <div className="text-[10px] text-muted-foreground tabular-nums">
+        {score.violating}/{score.scored} violating · {score.errors} errors · {run.provider}/{run.model}
+      </div>
+      <div className="text-[10px] text-muted-foreground">
+        prompt {run.promptHash.slice(0, 12)} · corpus {run.corpusHash.slice(0, 12)}
+      </div>
+    </div>
+  );
+}
+
+export function AiEvalReportView({ initial }: { initial: AiEvalReport | null }) {
+  const [report, setReport] = useState<AiEvalReport | null>(initial);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(initial ? null : "평가 결과를 불러올 수 없습니다.");
+
+  async function select(candidateId: string | null, baselineId: string | null) {
+    setLoading(true);
+    setError(null);
+    const params = new URLSearchParams();
+    if (candidateId) params.set("candidate", candidateId);
+    if (baselineId) params.set("baseline", baselineId);
+    try {
+      const res = await fetch(`/api/ai/eval?${params}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? "Failed");
+      setReport(json as AiEvalReport);
+    } catch (err) {
+      setError("사유: " + (err instanceof Error ? err.message : "Failed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const selectClass = "bg-card border border-border text-foreground text-xs px-2 py-1 max-w-full";
+  const candidateId = report?.candidate?.run.id ?? "";
+  const baselineId = report?.baseline?.run.id ?? "";
+  const diff = report?.diff;
+
+  if (report && report.runs.length === 0) {
+    return (
+      <Section title="GUARDRAIL EVAL">
+        <div className="text-xs text-muted-foreground">
+          저장된 평가 실행이 없습니다. <code>npm run ai:eval -- --save</code> 로 첫 실행을 기록하세요.
+        </div>
+      </Section>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {report && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-[10px] text-muted-foreground">CANDIDATE</span>
+          <select value={candidateId} onChange={(e) => select(e.target.value, baselineId || null)} className={selectClass}>
+            {report.runs.map((r) => (
+              <option key={r.id} value={r.id}>{runLabel(r)}</option>
+            ))}
+          </select>
+          <span className="text-[10px] text-muted-foreground">BASELINE</span>
+          <select value={baselineId} onChange={(e) => select(candidateId || null, e.target.value || null)} className={selectClass}>
+            {!baselineId && <option value="">—</option>}
+            {report.runs.map((r) => (
+              <option key={r.id} value={r.id}>{runLabel(r)}</option>
+            ))}
+          </select>
+          {loading && <span className="text-[10px] text-muted-foreground">LOADING...</span>}
+        </div>
+      )}
+
+      {error && <div className="text-xs text-negative">{error}</div>}
+
+      {report && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <RunCard label="BASELINE" side={report.baseline} />
+          <RunCard label="CANDIDATE" side={report.candidate} />
+        </div>
+      )}
+
+      {diff && (
+        <>
+          <div className={`text-xs ${diff.regressed ? "text-negative" : "text-positive"}`}>
+            {diff.regressed ? `REGRESSED: ${diff.regressions.join("; ")}` : "NO REGRESSION"}
+            <span className="ml-2 text-[10px] text-muted-foreground">{diff.compared} shared cases</span>
+          </div>
+
+          <Section title="VIOLATIONS BY CODE">
+            <table className="w-full text-[10px] sm:text-[11px] tabular-nums border border-border">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border bg-muted/30">
+                  <th className="text-left py-1 px-2 font-normal">Code</th>
+                  <th className="text-right py-1 px-2 font-normal">Baseline</th>
+                  <th className="text-right py-1 px-2 font-normal">Candidate</th>
+                  <th className="text-right py-1 px-2 font-normal">Δ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.byCode.map((d) => {
+                  const delta = d.candidateCount - d.baselineCount;
+                  return (
+                    <tr key={d.code} className="border-b border-border/50">
+                      <td className="py-1 px-2">{d.code}</td>
+                      <td className="text-right py-1 px-2">{d.baselineCount} <span className="text-muted-foreground">({fmtPct(d.baselineRate)})</span></td>
+                      <td className="text-right py-1 px-2">{d.candidateCount} <span className="text-muted-foreground">({fmtPct(d.candidateRate)})</span></td>
+                      <td className={`text-right py-1 px-2 ${delta > 0 ? "text-negative" : delta < 0 ? "text-positive" : ""}`}>
+                        {delta > 0 ? "+" : ""}{delta}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {diff.byCode.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="py-2 text-center text-muted-foreground">NO VIOLATIONS</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </Section>
+
+          <Section title={`CHANGED CASES (${diff.changes.length})`}>
+            <ul className="space-y-2">
+              {diff.changes.map((c) => (
+                <li key={c.id} className="border border-border p-2 text-xs space-y-1">
+                  <div className="flex flex-wrap gap-x-3 text-[10px] text-muted-foreground">
+                    <span className="text-foreground">{c.id}</span>
+                    <span>{c.route}</span>
+                    {c.added.length > 0 && <span className="text-negative">+{c.added.join(", ")}</span>}
+                    {c.removed.length > 0 && <span className="text-positive">−{c.removed.join(", ")}</span>}
+                  </div>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    <div className="whitespace-pre-wrap break-words leading-relaxed text-muted-foreground">{c.baselineResponse ?? "—"}</div>
+                    <div className="whitespace-pre-wrap break-words leading-relaxed">{c.candidateResponse ?? "—"}</div>
+                  </div>
+                </li>
+              ))}
+              {diff.changes.length === 0 && <li className="text-[10px] text-muted-foreground">NO CHANGES</li>}
+            </ul>
+          </Section>
+        </>
+      )}
+    </div>
+  );
+}
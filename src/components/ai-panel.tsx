@@ -3,17 +3,21 @@
 import { useState, useEffect } from "react";
 import { sanitizeAiOutput } from "@/lib/ai-output-rules";
 import { AI_REFRESH_EVENT } from "@/components/ai-page-refresh";
+import { AI_STREAM_CONTENT_TYPE, readAiResponse } from "@/lib/ai-stream";
+import { AiChat } from "@/components/ai-chat";
 
-type Tab = "BRIEFING" | "INSIGHTS";
+type Tab = "BRIEFING" | "INSIGHTS" | "CHAT";
 
 interface AiState {
   result: string | null;
   cached: boolean;
   loading: boolean;
+  /** Deltas are still arriving; `result` is partial. */
+  streaming: boolean;
   error: string | null;
 }
 
-const INITIAL_STATE: AiState = { result: null, cached: false, loading: false, error: null };
+const INITIAL_STATE: AiState = { result: null, cached: false, loading: false, streaming: false, error: null };
 
 export function AiPanel() {
   const [tab, setTab] = useState<Tab>("BRIEFING");
@@ -21,18 +25,29 @@ export function AiPanel() {
   const [insights, setInsights] = useState<AiState>(INITIAL_STATE);
 
   async function fetchBriefing(opts: { force?: boolean } = {}) {
-    setBriefing((s) => ({ ...s, loading: true, error: null }));
+    setBriefing((s) => ({ ...s, loading: true, streaming: false, error: null }));
     try {
       const url = opts.force ? "/api/ai/briefing?force=1" : "/api/ai/briefing";
-      const res = await fetch(url, { method: "POST" });
-      const data = (await res.json()) as { result?: string; cached?: boolean; error?: string };
-      if (!res.ok) {
-        setBriefing({ result: null, cached: false, loading: false, error: data.error ?? "Failed" });
+      // Streams when the briefing is generated; cache hits and errors come back as JSON.
+      const res = await fetch(url, { method: "POST", headers: { Accept: AI_STREAM_CONTENT_TYPE } });
+      const outcome = await readAiResponse(res, {
+        onDelta: (text) => setBriefing({ result: text, cached: false, loading: false, streaming: true, error: null }),
+        onRetract: (violations) => setBriefing({
+          result: null,
+          cached: false,
+          loading: false,
+          streaming: false,
+          error: `룰북 위반 가능성으로 응답을 철회했습니다 (${violations.map((v) => v.code).join(", ")}). 다시 생성해주세요.`,
+        }),
+      });
+      if (outcome.retracted) return;
+      if (!outcome.ok) {
+        setBriefing({ result: null, cached: false, loading: false, streaming: false, error: outcome.error ?? "Failed" });
       } else {
-        setBriefing({ result: data.result ?? null, cached: data.cached ?? false, loading: false, error: null });
+        setBriefing({ result: outcome.text, cached: outcome.cached, loading: false, streaming: false, error: null });
       }
     } catch {
-      setBriefing({ result: null, cached: false, loading: false, error: "Network error" });
+      setBriefing({ result: null, cached: false, loading: false, streaming: false, error: "Network error" });
     }
   }
 
@@ -43,12 +58,12 @@ export function AiPanel() {
       const res = await fetch(url, { method: "POST" });
       const data = (await res.json()) as { result?: string; cached?: boolean; error?: string };
       if (!res.ok) {
-        setInsights({ result: null, cached: false, loading: false, error: data.error ?? "Failed" });
+        setInsights({ result: null, cached: false, loading: false, streaming: false, error: data.error ?? "Failed" });
       } else {
-        setInsights({ result: data.result ?? null, cached: data.cached ?? false, loading: false, error: null });
+        setInsights({ result: data.result ?? null, cached: data.cached ?? false, loading: false, streaming: false, error: null });
       }
     } catch {
-      setInsights({ result: null, cached: false, loading: false, error: "Network error" });
+      setInsights({ result: null, cached: false, loading: false, streaming: false, error: "Network error" });
     }
   }
 
@@ -64,7 +79,7 @@ export function AiPanel() {
      
   }, []);
 
-  const tabs: Tab[] = ["BRIEFING", "INSIGHTS"];
+  const tabs: Tab[] = ["BRIEFING", "INSIGHTS", "CHAT"];
   const current = tab === "BRIEFING" ? briefing : insights;
 
   return (
@@ -89,29 +104,39 @@ export function AiPanel() {
         ))}
       </div>
 
-      <div className="p-4 space-y-3">
-        {current.loading && (
-          <div className="text-xs text-muted-foreground py-4 text-center">ANALYZING...</div>
-        )}
-
-        {current.error && !current.loading && (
-          <div className="text-xs text-negative">{current.error}</div>
-        )}
-
-        {current.result && !current.loading && (
-          <div className="text-xs whitespace-pre-wrap break-words leading-relaxed text-foreground border border-border bg-background p-3 overflow-hidden">
-            {sanitizeAiOutput(current.result)}
-          </div>
-        )}
-
-        {!current.loading && current.cached && (
-          <div className="pt-1">
-            <span className="text-[10px] text-muted-foreground border border-border px-1.5 py-0.5">
-              CACHED
-            </span>
-          </div>
-        )}
-      </div>
+      {tab === "CHAT" ? (
+        <div className="p-4">
+          <AiChat />
+        </div>
+      ) : (
+        <div className="p-4 space-y-3">
+          {current.loading && (
+            <div className="text-xs text-muted-foreground py-4 text-center">ANALYZING...</div>
+          )}
+
+          {current.error && !current.loading && (
+            <div className="text-xs text-negative">{current.error}</div>
+          )}
+
+          {current.result && !current.loading && (
+            <div className="text-xs whitespace-pre-wrap break-words leading-relaxed text-foreground border border-border bg-background p-3 overflow-hidden">
+              {sanitizeAiOutput(current.result)}
+            </div>
+          )}
+
+          {current.streaming && (
+            <div className="text-[10px] text-muted-foreground tracking-wide">STREAMING...</div>
+          )}
+
+          {!current.loading && current.cached && (
+            <div className="pt-1">
+              <span className="text-[10px] text-muted-foreground border border-border px-1.5 py-0.5">
+                CACHED
+              </span>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CheckCircle, AlertCircle, Download, Upload } from "lucide-react";
+import type { BackupBundle, BackupTable, RestoreCounts } from "@/lib/backup";
+
+type RestoreMode = "empty" | "merge";
+
+interface RestoreResponse {
+  mode: RestoreMode;
+  dryRun: boolean;
+  counts: RestoreCounts;
+}
+
+const TABLE_LABELS: Record<BackupTable, string> = {
+  portfolios: "PORTFOLIOS",
+  holdings: "HOLDINGS",
+  transactions: "TRANSACTIONS",
+  cashTransactions: "CASH TXN",
+  externalDeposits: "EXT DEPOSITS",
+  fxConversions: "FX CONVERSIONS",
+  cashLedger: "CASH LEDGER",
+  portfolioSnapshots: "SNAPSHOTS",
+  portfolioAccountSnapshots: "ACCOUNT SNAPSHOTS",
+  assetWeightSnapshots: "WEIGHT SNAPSHOTS",
+  settings: "SETTINGS",
+};
+
+export function BackupSection() {
+  const router = useRouter();
+  const [bundle, setBundle] = useState<BackupBundle | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [result, setResult] = useState<RestoreResponse | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    setResult(null);
+    setError(null);
+    setBundle(null);
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setBundle(JSON.parse(await file.text()));
+    } catch {
+      setError("File is not valid JSON");
+    }
+  };
+
+  const restore = async (dryRun: boolean) => {
+    if (!bundle) return;
+    setPending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/backup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bundle, mode, dryRun }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Restore failed");
+        setResult(null);
+        return;
+      }
+      setResult(data);
+      if (!dryRun) router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-[10px] text-muted-foreground">
+        Portfolios, transactions, cash ledger, snapshots and settings as one JSON file. The Questrade token and API keys are not included.
+      </div>
+
+      <a href="/api/backup" className="btn-retro btn-retro-primary w-full py-2 flex items-center justify-center gap-2 text-xs">
+        <Download size={13} />
+        [ EXPORT BACKUP ]
+      </a>
+
+      <div className="pt-2 border-t border-border space-y-2">
+        <div className="text-[10px] tracking-wide text-muted-foreground">RESTORE</div>
+        <label className="btn-retro w-full py-2 flex items-center justify-center gap-2 cursor-pointer text-xs">
+          <Upload size={13} />
+          {fileName ?? "[ CHOOSE BACKUP FILE ]"}
+          <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+        </label>
+        <select
+          value={mode}
+          onChange={(e) => { setMode(e.target.value as RestoreMode); setResult(null); }}
+          className="w-full !py-1 text-xs bg-card border border-border"
+        >
+          <option value="merge">MERGE — ADD MISSING ROWS ONLY</option>
+          <option value="empty">EMPTY — ONLY IF NO PORTFOLIOS EXIST</option>
+        </select>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => restore(true)} disabled={!bundle || pending} className="btn-retro w-full py-2 disabled:opacity-40">
+            [ DRY RUN ]
+          </button>
+          <button
+            onClick={() => restore(false)}
+            disabled={!bundle || pending || !result?.dryRun}
+            className="btn-retro btn-retro-primary w-full py-2 disabled:opacity-40"
+          >
+            {pending ? "RESTORING..." : "[ RESTORE ]"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-xs text-negative">
+          <AlertCircle size={12} />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="border border-border bg-card p-3 text-xs space-y-1">
+          <div className="flex items-center gap-2 text-accent tracking-wide mb-1">
+            {!result.dryRun && <CheckCircle size={12} className="text-primary" />}
+            {result.dryRun ? "DRY RUN — NOTHING WRITTEN" : "RESTORE COMPLETE"}
+          </div>
+          {(Object.keys(TABLE_LABELS) as BackupTable[]).map((table) => (
+            <div key={table} className="flex justify-between tabular-nums">
+              <span className="text-muted-foreground">{TABLE_LABELS[table]}</span>
+              <span>
+                <span className="text-positive">+{result.counts[table].created}</span>
+                <span className="text-muted-foreground"> · {result.counts[table].matched} present</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useMemo } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import { DividendIncomeRaiseSummary } from "./dividend-growth";
 
 interface DividendCalendarEvent {
   ticker: string;
@@ -37,6 +38,9 @@ interface TxnCalEvent {
   commission: number;
   total: number;
   currency: string;
+  withheld?: number | null;
+  withholdingStatus?: "ok" | "unexpected" | "short" | "unrecorded";
+  expectedWithholdingRate?: number;
 }
 
 const DAYS = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
@@ -452,6 +456,14 @@ export function CalendarClient() {
                           {cur}{fmt2(t.total)}
                         </span>
                       )}
+                      {t && (t.withholdingStatus === "unexpected" || t.withholdingStatus === "short") && (
+                        <span
+                          className="text-[10px] tracking-wide px-1 py-0.5 border text-negative border-negative/40"
+                          title={`Withheld ${cur}${fmt2(t.withheld ?? 0)}; expected ${Math.round((t.expectedWithholdingRate ?? 0) * 100)}%`}
+                        >
+                          WHT {t.withholdingStatus === "unexpected" ? "UNEXPECTED" : "SHORT"}
+                        </span>
+                      )}
                     </div>
                   </div>
                 );
@@ -554,6 +566,9 @@ export function CalendarClient() {
           )}
         </div>
 
+        {/* Income raise: distribution increases vs new shares */}
+        <DividendIncomeRaiseSummary />
+
         {/* Summary cards */}
         {events.length > 0 && (
           <div>
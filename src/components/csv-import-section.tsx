@@ -0,0 +1,259 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CheckCircle, AlertCircle, Upload } from "lucide-react";
+import {
+  parseCsv,
+  type BrokerCsvFormat,
+  type CsvColumnMapping,
+  type ImportIssue,
+  type ImportPreviewRow,
+} from "@/lib/broker-csv";
+
+interface PortfolioOption {
+  id: string;
+  name: string;
+  accountType: string;
+}
+
+interface ImportResponse {
+  format: BrokerCsvFormat;
+  rows: ImportPreviewRow[];
+  skipped: ImportIssue[];
+  summary: { total: number; new: number; duplicate: number; blocked: number; skipped: number };
+  committed: boolean;
+  created?: { transactions: number; cashTransactions: number; ledgerRows: number };
+}
+
+const FORMAT_OPTIONS: { value: BrokerCsvFormat | "auto"; label: string }[] = [
+  { value: "auto", label: "AUTO-DETECT" },
+  { value: "wealthsimple", label: "WEALTHSIMPLE" },
+  { value: "ibkr", label: "IBKR FLEX" },
+  { value: "questrade", label: "QUESTRADE ACTIVITY" },
+  { value: "custom", label: "CUSTOM MAPPING" },
+];
+
+const MAPPING_FIELDS: { key: keyof CsvColumnMapping; label: string; required?: boolean }[] = [
+  { key: "date", label: "DATE", required: true },
+  { key: "action", label: "ACTION", required: true },
+  { key: "ticker", label: "SYMBOL" },
+  { key: "quantity", label: "QUANTITY" },
+  { key: "price", label: "PRICE" },
+  { key: "amount", label: "AMOUNT" },
+  { key: "commission", label: "COMMISSION" },
+  { key: "currency", label: "CURRENCY" },
+  { key: "description", label: "DESCRIPTION" },
+];
+
+const STATUS_CLASS: Record<ImportPreviewRow["status"], string> = {
+  new: "text-positive",
+  duplicate: "text-muted-foreground",
+  blocked: "text-negative",
+};
+
+function fmt(n: number, digits = 2) {
+  return n.toLocaleString("en-CA", { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+export function CsvImportSection({ portfolios }: { portfolios: PortfolioOption[] }) {
+  const router = useRouter();
+  const [portfolioId, setPortfolioId] = useState(portfolios[0]?.id ?? "");
+  const [format, setFormat] = useState<BrokerCsvFormat | "auto">("auto");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+  const [preview, setPreview] = useState<ImportResponse | null>(null);
+  const [pending, setPending] = useState<"preview" | "commit" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const headers = useMemo(() => (csv ? parseCsv(csv.split(/\r?\n/, 1)[0] ?? "")[0] ?? [] : []), [csv]);
+
+  const reset = () => {
+    setPreview(null);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    setMapping({});
+  };
+
+  const submit = async (commit: boolean) => {
+    setPending(commit ? "commit" : "preview");
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/transactions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          portfolioId,
+          csv,
+          format,
+          mapping: format === "custom" ? mapping : undefined,
+          commit,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Import failed");
+        return;
+      }
+      setPreview(data);
+      if (commit && data.created) {
+        setSuccess(`Imported ${data.created.transactions} transactions and ${data.created.cashTransactions} cash rows`);
+        router.refresh();
+      }
+    } catch {
+      setError("Network error");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const mappingReady = format !== "custom" || (!!mapping.date && !!mapping.action);
+  const canPreview = !!portfolioId && !!csv && mappingReady && !pending;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-[10px] text-muted-foreground">
+        Import activity exports from other brokers. Preview first; rows already recorded are skipped.
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <div className="text-[10px] tracking-wide text-muted-foreground mb-1">PORTFOLIO</div>
+          <select
+            value={portfolioId}
+            onChange={(e) => { setPortfolioId(e.target.value); reset(); }}
+            className="w-full !py-1 text-xs bg-card border border-border"
+          >
+            {portfolios.map((p) => (
+              <option key={p.id} value={p.id}>{p.name} ({p.accountType})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="text-[10px] tracking-wide text-muted-foreground mb-1">FORMAT</div>
+          <select
+            value={format}
+            onChange={(e) => { setFormat(e.target.value as BrokerCsvFormat | "auto"); reset(); }}
+            className="w-full !py-1 text-xs bg-card border border-border"
+          >
+            {FORMAT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label className="btn-retro w-full py-2 flex items-center justify-center gap-2 cursor-pointer text-xs">
+        <Upload size={13} />
+        {fileName ?? "[ CHOOSE CSV FILE ]"}
+        <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+      </label>
+
+      {format === "custom" && headers.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {MAPPING_FIELDS.map((field) => (
+            <div key={field.key}>
+              <div className="text-[10px] tracking-wide text-muted-foreground mb-1">
+                {field.label}{field.required ? " *" : ""}
+              </div>
+              <select
+                value={mapping[field.key] ?? ""}
+                onChange={(e) => {
+                  setMapping((prev) => ({ ...prev, [field.key]: e.target.value || undefined }));
+                  setPreview(null);
+                }}
+                className="w-full !py-1 text-xs bg-card border border-border"
+              >
+                <option value="">— NONE —</option>
+                {headers.map((h) => (
+                  <option key={h} value={h}>{h}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => submit(false)} disabled={!canPreview} className="btn-retro w-full py-2 disabled:opacity-40">
+          {pending === "preview" ? "PARSING..." : "[ PREVIEW ]"}
+        </button>
+        <button
+          onClick={() => submit(true)}
+          disabled={!canPreview || !preview || preview.committed || preview.summary.new === 0}
+          className="btn-retro btn-retro-primary w-full py-2 disabled:opacity-40"
+        >
+          {pending === "commit" ? "IMPORTING..." : `[ IMPORT ${preview?.committed ? 0 : preview?.summary.new ?? 0} ROWS ]`}
+        </button>
+      </div>
+
+      {success && (
+        <div className="flex items-center gap-2 text-xs text-primary">
+          <CheckCircle size={12} />
+          {success}
+        </div>
+      )}
+      {error && (
+        <div className="flex items-center gap-2 text-xs text-negative">
+          <AlertCircle size={12} />
+          {error}
+        </div>
+      )}
+
+      {preview && (
+        <div className="border border-border bg-card p-3 text-xs space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-accent tracking-wide">PREVIEW — {preview.format.toUpperCase()}</span>
+            <span className="text-muted-foreground text-[10px]">
+              {preview.summary.new} NEW · {preview.summary.duplicate} DUP · {preview.summary.blocked} BLOCKED · {preview.summary.skipped} SKIPPED
+            </span>
+          </div>
+          <div className="overflow-x-auto max-h-72 overflow-y-auto">
+            <table>
+              <thead>
+                <tr>
+                  <th>DATE</th>
+                  <th>ACTION</th>
+                  <th>TICKER</th>
+                  <th className="text-right">QTY</th>
+                  <th className="text-right">AMOUNT</th>
+                  <th>STATUS</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr key={row.externalId}>
+                    <td className="text-muted-foreground">{row.date}</td>
+                    <td>{row.action}</td>
+                    <td className="font-medium text-accent">{row.ticker ?? "—"}</td>
+                    <td className="text-right tabular-nums">{row.action === "BUY" || row.action === "SELL" ? row.quantity : "—"}</td>
+                    <td className="text-right tabular-nums">{row.currency} {fmt(row.amount)}</td>
+                    <td className={STATUS_CLASS[row.status]} title={row.reason ?? undefined}>{row.status.toUpperCase()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.skipped.length > 0 && (
+            <div className="text-muted-foreground space-y-0.5 pt-2 border-t border-border">
+              {preview.skipped.slice(0, 20).map((issue) => (
+                <div key={issue.line}>LINE {issue.line}: {issue.reason}</div>
+              ))}
+              {preview.skipped.length > 20 && <div>… {preview.skipped.length - 20} more</div>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { HoldingsTable } from "./holdings-table";
 import { AllocationBars } from "./allocation-bars";
 import { DividendIncomeChart } from "./dividend-income-chart";
 import { PerformanceChart } from "./performance-chart";
+import { ReturnAttribution } from "./return-attribution";
 import { UpcomingDividends } from "./upcoming-dividends";
 import { SkeletonBlock } from "./skeleton";
 import { Card } from "./ui-card";
@@ -330,6 +331,9 @@ function DashboardContent({ initialPortfolios }: { initialPortfolios: Portfolio[
 
           {/* Performance chart */}
           <PerformanceChart />
+
+          {/* Return attribution */}
+          <ReturnAttribution portfolioId={selectedPortfolioId} />
         </div>
 
         {/* Right column */}
@@ -0,0 +1,177 @@
+"use client";
+
+// Dividend growth views over /api/dividends/growth: the per-holding card in
+// the detail panel's dividend tab and the income-raise summary on the calendar.
+import { useEffect, useState } from "react";
+import { fmt } from "@/lib/utils";
+import type { DividendGrowthStatus } from "@/lib/dividend-growth";
+import type { DividendGrowthReport } from "@/lib/dividend-growth-source";
+
+const STATUS_LABEL: Record<DividendGrowthStatus, string> = {
+  growing: "GROWING",
+  flat: "FLAT",
+  declining: "DECLINING",
+  cut: "CUT",
+  suspended: "SUSPENDED",
+  insufficient_history: "SHORT HISTORY",
+};
+
+function statusClass(status: DividendGrowthStatus) {
+  if (status === "growing") return "text-positive";
+  if (status === "cut" || status === "suspended") return "text-negative";
+  if (status === "declining") return "text-amber-500";
+  return "text-muted-foreground";
+}
+
+function fmtGrowth(value: number | null) {
+  if (value == null) return "—";
+  return `${value > 0 ? "+" : value < 0 ? "−" : ""}${fmt(Math.abs(value), 1)}%`;
+}
+
+function fmtSignedCAD(value: number) {
+  if (Math.abs(value) < 0.5) return "—";
+  return `${value > 0 ? "+" : "−"}C$${fmt(Math.abs(value), 0)}`;
+}
+
+function useDividendGrowth(ticker?: string) {
+  const [report, setReport] = useState<DividendGrowthReport | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setReport(null);
+    setError(false);
+    const query = ticker ? `?ticker=${encodeURIComponent(ticker)}` : "";
+    fetch(`/api/dividends/growth${query}`)
+      .then(async (r) => {
+        if (!r.ok) throw new Error("Failed");
+        return r.json() as Promise<DividendGrowthReport>;
+      })
+      .then(setReport)
+      .catch(() => setError(true));
+  }, [ticker]);
+
+  return { report, error };
+}
+
+export function HoldingDividendGrowth({ ticker }: { ticker: string }) {
+  const { report, error } = useDividendGrowth(ticker);
+  const holding = report?.holdings.find((h) => h.ticker === ticker);
+
+  if (error) return null;
+  if (!report) {
+    return <div className="border border-border bg-card p-4 mb-3 text-[10px] text-muted-foreground">LOADING DIVIDEND GROWTH...</div>;
+  }
+  if (!holding) return null;
+
+  const { analysis, incomeRaise } = holding;
+  const cur = holding.currency === "CAD" ? "C$" : "$";
+  const lastCut = analysis.cuts.at(-1);
+
+  return (
+    <div className="border border-border bg-card p-4 mb-3">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[10px] text-muted-foreground tracking-wide">DIVIDEND GROWTH</div>
+        <span className={`text-[10px] ${statusClass(analysis.status)}`}>{STATUS_LABEL[analysis.status]}</span>
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-[11px] tabular-nums">
+        {([["1Y", analysis.cagr.y1], ["3Y", analysis.cagr.y3], ["5Y", analysis.cagr.y5]] as const).map(([label, value]) => (
+          <div key={label}>
+            <div className="text-[9px] text-muted-foreground">{label} CAGR</div>
+            <div className={value == null ? "text-muted-foreground" : value >= 0 ? "text-positive" : "text-negative"}>{fmtGrowth(value)}</div>
+          </div>
+        ))}
+        <div title="Forward annual dividend per share ÷ average cost">
+          <div className="text-[9px] text-muted-foreground">YIELD ON COST</div>
+          <div>{analysis.yieldOnCostPct != null ? `${fmt(analysis.yieldOnCostPct, 2)}%` : "—"}</div>
+        </div>
+      </div>
+      <div className="flex justify-between mt-3 text-[10px] text-muted-foreground tabular-nums">
+        <span>FWD {cur}{fmt(analysis.forwardAnnualPerShare, 4)}/SH · TTM {cur}{fmt(analysis.trailing12PerShare, 4)}</span>
+        <span>{analysis.frequency}×/YR</span>
+      </div>
+      {incomeRaise.rateYearAgo > 0 && incomeRaise.rateNow !== incomeRaise.rateYearAgo && (
+        <div className="mt-1 text-[10px] text-muted-foreground tabular-nums">
+          RATE {cur}{fmt(incomeRaise.rateYearAgo, 4)} → {cur}{fmt(incomeRaise.rateNow, 4)} · RAISES {incomeRaise.fromRaises >= 0 ? "+" : "−"}{cur}{fmt(Math.abs(incomeRaise.fromRaises))}/YR ON YEAR-AGO SHARES
+        </div>
+      )}
+      {analysis.suspended && analysis.lastEventDate && (
+        <div className="mt-1 text-[10px] text-negative">NO PAYMENT SINCE {analysis.lastEventDate}</div>
+      )}
+      {!analysis.suspended && lastCut && (
+        <div className="mt-1 text-[10px] text-amber-500 tabular-nums">
+          LAST CUT {lastCut.date}: {cur}{fmt(lastCut.priorAmount, 4)} → {cur}{fmt(lastCut.amount, 4)} ({fmtGrowth(lastCut.changePct)})
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DividendIncomeRaiseSummary() {
+  const { report, error } = useDividendGrowth();
+  if (error || !report || report.holdings.length === 0) return null;
+
+  const { summary } = report;
+  const change = summary.incomeNowCAD - summary.incomeYearAgoCAD;
+  const flagged = report.holdings.filter((h) => h.analysis.status === "cut" || h.analysis.status === "suspended");
+  const raisers = report.holdings
+    .filter((h) => h.analysis.cagr.y1 != null)
+    .sort((a, b) => (b.analysis.cagr.y1 ?? 0) - (a.analysis.cagr.y1 ?? 0));
+
+  return (
+    <div>
+      <div className="text-xs tracking-wide text-accent mb-3">INCOME RAISE — LAST 12 MONTHS</div>
+      <div className="border border-border bg-card px-3 py-3 space-y-3">
+        <div className="flex items-baseline justify-between text-[11px] tabular-nums">
+          <span className="text-muted-foreground">
+            FORWARD C${fmt(summary.incomeYearAgoCAD, 0)} → C${fmt(summary.incomeNowCAD, 0)}
+          </span>
+          <span className={change >= 0 ? "text-positive" : "text-negative"}>{fmtSignedCAD(change)}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2 text-[11px] tabular-nums">
+          <div title="Year-ago shares × change in the forward dividend rate">
+            <div className="text-[9px] text-muted-foreground">FROM RAISES</div>
+            <div className={summary.fromRaisesCAD >= 0 ? "text-positive" : "text-negative"}>{fmtSignedCAD(summary.fromRaisesCAD)}</div>
+          </div>
+          <div title="Shares added over the year × today's forward rate">
+            <div className="text-[9px] text-muted-foreground">FROM NEW SHARES</div>
+            <div>{fmtSignedCAD(summary.fromNewSharesCAD)}</div>
+          </div>
+          <div title="Raises ÷ forward income a year ago">
+            <div className="text-[9px] text-muted-foreground">ORGANIC</div>
+            <div>{fmtGrowth(summary.organicGrowthPct)}</div>
+          </div>
+        </div>
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="py-1 pr-2 text-left font-normal"></th>
+              <th className="py-1 px-2 text-right font-normal">1Y</th>
+              <th className="py-1 px-2 text-right font-normal">5Y</th>
+              <th className="py-1 pl-2 text-right font-normal">YOC</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {raisers.map((h) => (
+              <tr key={h.ticker} className="border-t border-border/50">
+                <td className="py-1 pr-2">
+                  {h.ticker} <span className={`text-[9px] ${statusClass(h.analysis.status)}`}>{STATUS_LABEL[h.analysis.status]}</span>
+                </td>
+                <td className="py-1 px-2 text-right">{fmtGrowth(h.analysis.cagr.y1)}</td>
+                <td className="py-1 px-2 text-right">{fmtGrowth(h.analysis.cagr.y5)}</td>
+                <td className="py-1 pl-2 text-right">{h.analysis.yieldOnCostPct != null ? `${fmt(h.analysis.yieldOnCostPct, 2)}%` : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {flagged.length > 0 && (
+          <div className="text-[10px] text-negative">
+            CUT / SUSPENDED: {flagged.map((h) => h.ticker).join(", ")}
+          </div>
+        )}
+        {report.failedTickers.length > 0 && (
+          <div className="text-[9px] text-amber-500">NO HISTORY: {report.failedTickers.join(", ")}</div>
+        )}
+      </div>
+    </div>
+  );
+}
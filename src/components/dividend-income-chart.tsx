@@ -16,6 +16,8 @@ interface DividendItem {
   currency: string;
   accountType: string;
   isCanadianEligible?: boolean;
+  withholdingStatus?: "ok" | "unexpected" | "short" | "unrecorded";
+  withheld?: number | null;
 }
 
 interface MonthData {
@@ -492,7 +494,17 @@ export function DividendIncomeChart({
                     return (
                       <div key={i} className="flex items-center justify-between text-xs gap-2 py-0.5">
                         <span className="font-medium min-w-[48px]">{item.ticker}</span>
-                        <span className="text-muted-foreground text-[10px] flex-1">{item.accountType}</span>
+                        <span className="text-muted-foreground text-[10px] flex-1">
+                          {item.accountType}
+                          {(item.withholdingStatus === "unexpected" || item.withholdingStatus === "short") && (
+                            <span
+                              className="text-negative ml-1.5"
+                              title={`Withheld ${item.withheld ?? 0} ${item.currency} — ${item.withholdingStatus === "unexpected" ? "more" : "less"} than the treaty rate for ${item.accountType}`}
+                            >
+                              WHT {item.withholdingStatus === "unexpected" ? "UNEXPECTED" : "SHORT"}
+                            </span>
+                          )}
+                        </span>
                         <span className="tabular-nums text-primary">
                           {currencySymbol}{fmt(displayAmt)}
                           {showNet && item.net < item.amount && (
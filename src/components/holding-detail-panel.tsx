@@ -3,6 +3,7 @@
 import { useEffect, useRef, useState, useMemo, useCallback } from "react";
 import { createPortal } from "react-dom";
 import { AddTransactionDialog } from "./add-transaction-dialog";
+import { HoldingDividendGrowth } from "./dividend-growth";
 import { X } from "lucide-react";
 import { fmt, fmtPct } from "@/lib/utils";
 import { COLOR_ACTUAL } from "@/lib/chart-tokens";
@@ -56,7 +57,49 @@ interface HoldingRow {
   unrealizedPnLPct: number;
 }
 
-type DetailTab = "transactions" | "dividends";
+type DetailTab = "transactions" | "dividends" | "acb";
+
+interface AcbEventRow {
+  transactionId: string;
+  date: string;
+  action: "BUY" | "SELL" | "ADJUST";
+  quantity: number;
+  amountCAD: number;
+  fxRateSource: "native" | "transaction" | "daily" | "fallback";
+  sharesAfter: number;
+  acbAfterCAD: number;
+  acbPerShareAfterCAD: number;
+  realizedGainCAD: number | null;
+  deniedLossCAD: number | null;
+  oversoldQuantity: number | null;
+}
+
+interface AcbLedgerRow {
+  portfolioId: string;
+  portfolioName: string | null;
+  ticker: string;
+  events: AcbEventRow[];
+  shares: number;
+  acbCAD: number;
+  acbPerShareCAD: number;
+  realizedGainCAD: number;
+}
+
+interface SuperficialLossRow {
+  sellTransactionId: string;
+  portfolioId: string;
+  portfolioName: string | null;
+  ticker: string;
+  date: string;
+  windowStart: string;
+  windowEnd: string;
+  quantitySold: number;
+  deniedLossCAD: number;
+  allowedLossCAD: number;
+  acbBumpCAD: number;
+  permanentlyDeniedCAD: number;
+  substitutes: { transactionId: string; portfolioName: string | null; accountType: string; date: string; quantity: number }[];
+}
 
 interface EChartTooltipParam {
   value?: number | string | Array<number | string>;
@@ -125,6 +168,10 @@ export function HoldingDetailPanel({
   const [txnsLoading, setTxnsLoading] = useState(true);
   const [txnsError, setTxnsError] = useState(false);
   const [acctDropdownOpen, setAcctDropdownOpen] = useState(false);
+  const [acbLedgers, setAcbLedgers] = useState<AcbLedgerRow[] | null>(null);
+  const [acbLoading, setAcbLoading] = useState(false);
+  const [acbError, setAcbError] = useState(false);
+  const [superficialLosses, setSuperficialLosses] = useState<SuperficialLossRow[]>([]);
   const transactionHoldingIds = useMemo(
     () => row.holding.allHoldingIds ?? [row.holding.id],
     [row.holding.allHoldingIds, row.holding.id]
@@ -158,8 +205,29 @@ export function HoldingDetailPanel({
     }
   }, [transactionHoldingIds]);
 
+  const fetchAcb = useCallback(async () => {
+    setAcbLoading(true);
+    setAcbError(false);
+    try {
+      const ids = transactionHoldingIds;
+      const param = ids.length > 1 ? `holdingIds=${ids.join(",")}` : `holdingId=${ids[0]}`;
+      const res = await fetch(`/api/acb?${param}`);
+      if (!res.ok) throw new Error("fetch failed");
+      const data = await res.json();
+      setAcbLedgers(Array.isArray(data.ledgers) ? data.ledgers : []);
+      setSuperficialLosses(Array.isArray(data.superficialLosses) ? data.superficialLosses : []);
+    } catch {
+      setAcbError(true);
+    } finally {
+      setAcbLoading(false);
+    }
+  }, [transactionHoldingIds]);
+
   useEffect(() => { setMounted(true); }, []);
   useEffect(() => { fetchTxns(); }, [fetchTxns]);
+  useEffect(() => {
+    if (activeTab === "acb" && acbLedgers === null) fetchAcb();
+  }, [activeTab, acbLedgers, fetchAcb]);
 
   // Lock body scroll while panel is open
   useEffect(() => {
@@ -393,7 +461,7 @@ export function HoldingDetailPanel({
     setDeletingTxnId(id);
     try {
       const res = await fetch(`/api/transactions/${id}`, { method: "DELETE" });
-      if (res.ok) { onRefresh(); fetchTxns(); }
+      if (res.ok) { onRefresh(); fetchTxns(); setAcbLedgers(null); }
     } finally {
       setDeletingTxnId(null);
     }
@@ -401,7 +469,7 @@ export function HoldingDetailPanel({
 
   const updateTxn = async (id: string, data: Partial<{ action: string; date: string; quantity: string; price: string; commission: string; notes: string }>) => {
     const res = await fetch(`/api/transactions/${id}`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(data) });
-    if (res.ok) { onRefresh(); fetchTxns(); }
+    if (res.ok) { onRefresh(); fetchTxns(); setAcbLedgers(null); }
   };
 
   const startLongPress = (e: React.MouseEvent | React.TouchEvent, txn: Transaction) => {
@@ -869,6 +937,12 @@ export function HoldingDetailPanel({
           >
             DIV HISTORY
           </button>
+          <button
+            className={`btn-retro text-xs ${activeTab === "acb" ? "btn-retro-primary" : ""}`}
+            onClick={() => setActiveTab("acb")}
+          >
+            ACB
+          </button>
         </div>
 
         {/* Transactions tab */}
@@ -1041,6 +1115,8 @@ export function HoldingDetailPanel({
         {/* Dividend History tab */}
         {activeTab === "dividends" && (
           <>
+            <HoldingDividendGrowth ticker={row.holding.ticker} />
+
             {/* Dividend history bar chart */}
             {hasActualDivChart && (
               <div className="border border-border bg-card p-4 mb-3">
@@ -1161,6 +1237,105 @@ export function HoldingDetailPanel({
             </div>
           </>
         )}
+
+        {/* ACB History tab — NON_REG portfolios only, always in CAD */}
+        {activeTab === "acb" && (
+          <div className="border border-border bg-card p-4 mb-4">
+            <div className="flex items-center justify-between mb-3">
+              <div className="text-[10px] text-muted-foreground tracking-wide">
+                {acbLoading ? "LOADING..." : acbError ? "FAILED TO LOAD" : "ADJUSTED COST BASE (CAD)"}
+              </div>
+              {acbError && (
+                <button className="btn-retro text-[9px] px-2 py-0.5" onClick={() => fetchAcb()}>RETRY</button>
+              )}
+            </div>
+            {!acbLoading && !acbError && acbLedgers?.length === 0 && (
+              <div className="text-muted-foreground text-xs text-center py-4">NO NON-REGISTERED TRADES</div>
+            )}
+            {!acbLoading && !acbError && superficialLosses.length > 0 && (
+              <div className="border border-negative/40 p-3 mb-4 text-xs space-y-2">
+                <div className="text-[10px] text-negative tracking-wide">SUPERFICIAL LOSS (30-DAY RULE)</div>
+                {superficialLosses.map((finding) => (
+                  <div key={finding.sellTransactionId} className="border-b border-border pb-2 last:border-0 last:pb-0">
+                    <div className="flex items-center justify-between">
+                      <span>
+                        SELL {fmt(finding.quantitySold, Number.isInteger(finding.quantitySold) ? 0 : 4)} · {finding.date}
+                        {finding.portfolioName && <span className="text-muted-foreground"> · {finding.portfolioName}</span>}
+                      </span>
+                      <span className="tabular-nums text-negative">DENIED C${fmt(finding.deniedLossCAD)}</span>
+                    </div>
+                    <div className="text-[10px] text-muted-foreground/60 tabular-nums">
+                      WINDOW {finding.windowStart} ~ {finding.windowEnd} · ALLOWED LOSS C${fmt(finding.allowedLossCAD)}
+                      {finding.acbBumpCAD > 0 && ` · ACB +C$${fmt(finding.acbBumpCAD)}`}
+                      {finding.permanentlyDeniedCAD > 0 && ` · LOST (REGISTERED) C$${fmt(finding.permanentlyDeniedCAD)}`}
+                    </div>
+                    <div className="text-[10px] text-muted-foreground/60">
+                      {finding.substitutes
+                        .map((s) => `${s.accountType} ${s.portfolioName ?? ""} BUY ${fmt(s.quantity, Number.isInteger(s.quantity) ? 0 : 4)} ${s.date}`.replace(/\s+/g, " "))
+                        .join(" · ")}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {acbLedgers?.map((ledger) => (
+              <div key={`${ledger.portfolioId}:${ledger.ticker}`} className="mb-4 last:mb-0">
+                <div className="grid grid-cols-3 gap-3 text-sm mb-3">
+                  <div>
+                    <div className="text-[10px] text-muted-foreground">{ledger.portfolioName ?? "ACCOUNT"}</div>
+                    <div className="tabular-nums">C${fmt(ledger.acbCAD)}</div>
+                  </div>
+                  <div>
+                    <div className="text-[10px] text-muted-foreground">ACB / SHARE</div>
+                    <div className="tabular-nums">C${fmt(ledger.acbPerShareCAD, 4)}</div>
+                  </div>
+                  <div>
+                    <div className="text-[10px] text-muted-foreground">REALIZED</div>
+                    <div className={`tabular-nums ${ledger.realizedGainCAD >= 0 ? "text-positive" : "text-negative"}`}>
+                      {ledger.realizedGainCAD >= 0 ? "+" : "-"}C${fmt(Math.abs(ledger.realizedGainCAD))}
+                    </div>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {[...ledger.events].reverse().map((event) => (
+                    <div key={event.transactionId} className="flex items-center justify-between text-xs border-b border-border pb-2 last:border-0">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          {event.action === "ADJUST" ? (
+                            <span className="text-negative">SUPERFICIAL LOSS ACB +C${fmt(event.amountCAD)}</span>
+                          ) : (
+                            <>
+                              <span className={event.action === "BUY" ? "text-positive" : "text-negative"}>{event.action}</span>
+                              <span className="tabular-nums">{fmt(event.quantity, Number.isInteger(event.quantity) ? 0 : 4)}</span>
+                              <span className="text-muted-foreground tabular-nums">C${fmt(event.amountCAD)}</span>
+                            </>
+                          )}
+                        </div>
+                        <div className="text-[10px] text-muted-foreground/60">
+                          {event.date}
+                          {event.fxRateSource === "fallback" && " · FX FALLBACK"}
+                          {event.deniedLossCAD != null && ` · SUPERFICIAL C$${fmt(event.deniedLossCAD)} DENIED`}
+                          {event.oversoldQuantity != null && ` · OVERSOLD ${fmt(event.oversoldQuantity, 4)}`}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="tabular-nums">C${fmt(event.acbAfterCAD)}</div>
+                        <div className="text-[10px] text-muted-foreground/60 tabular-nums">
+                          {fmt(event.sharesAfter, Number.isInteger(event.sharesAfter) ? 0 : 4)} SH · C${fmt(event.acbPerShareAfterCAD, 4)}
+                        </div>
+                        {event.realizedGainCAD != null && (
+                          <div className={`text-[10px] tabular-nums ${event.realizedGainCAD >= 0 ? "text-positive" : "text-negative"}`}>
+                            {event.realizedGainCAD >= 0 ? "+" : "-"}C${fmt(Math.abs(event.realizedGainCAD))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
         </>)}
 
       </div>
@@ -132,8 +132,25 @@ export function MoreClient({ initialTxns, initialFxRate }: { initialTxns: Txn[];
   const tradeTxns = useMemo(() => filtered.filter(t => t.action === "BUY" || t.action === "SELL"), [filtered]);
   const divTxns = useMemo(() => filtered.filter(t => t.action === "DIVIDEND"), [filtered]);
 
-  // Derive the year for the CSV link: use selected year, or most recent year in filtered dividends, or current year
+  // Derive the year for the CSV links: use selected year, or most recent year in the filtered rows, or current year
+  const csvYear = useMemo(() => {
+    if (selectedYear) return selectedYear;
+    const rows = activeTab === "dividends" ? divTxns : tradeTxns;
+    const latest = rows.reduce((max, t) => (t.date.slice(0, 4) > max ? t.date.slice(0, 4) : max), "");
+    return latest || String(new Date().getFullYear());
+  }, [selectedYear, activeTab, divTxns, tradeTxns]);
 
+  // T1135 check for the CSV year: warn when foreign property max cost crossed CAD 100k
+  const [t1135, setT1135] = useState<{ year: number; maxCostCAD: number; maxCostDate: string | null; exceedsThreshold: boolean; method: string } | null>(null);
+  useEffect(() => {
+    if (activeTab === "cashflow") return;
+    let cancelled = false;
+    fetch(`/api/tax-report?type=t1135&year=${csvYear}`)
+      .then(r => (r.ok ? r.json() : null))
+      .then(d => { if (!cancelled) setT1135(d); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [csvYear, activeTab]);
 
   return (
     <div>
@@ -186,8 +203,30 @@ export function MoreClient({ initialTxns, initialFxRate }: { initialTxns: Txn[];
               onChange={setSelectedTicker}
               placeholder="TICKER"
             />
+            <div className="flex items-center gap-2 ml-auto">
+              <a href={`/api/tax-report?year=${csvYear}`} download className="btn-retro text-xs">
+                DIVIDEND CSV {csvYear}
+              </a>
+              {/* T5008 / Schedule 3 — taxable accounts only; TFSA / RRSP / FHSA are skipped */}
+              <a href={`/api/tax-report?type=capital-gains&year=${csvYear}`} download className="btn-retro text-xs">
+                CAPITAL GAINS CSV {csvYear}
+              </a>
+              <a href={`/api/tax-report?type=withholding&year=${csvYear}`} download className="btn-retro text-xs">
+                WITHHOLDING / FTC CSV {csvYear}
+              </a>
+              <a href={`/api/tax-report?type=t1135&format=csv&year=${csvYear}`} download className="btn-retro text-xs">
+                T1135 CSV {csvYear}
+              </a>
+            </div>
           </div>
 
+          {t1135?.exceedsThreshold && String(t1135.year) === csvYear && (
+            <div className="border border-negative/40 text-negative text-xs px-3 py-2 mb-4">
+              T1135 REQUIRED FOR {t1135.year} — FOREIGN PROPERTY MAX COST C${fmt(t1135.maxCostCAD)}
+              {t1135.maxCostDate && ` ON ${t1135.maxCostDate}`} ({t1135.method.toUpperCase()} METHOD)
+            </div>
+          )}
+
           {activeTab === "transactions" && (
             <div className="overflow-x-auto">
               <table>
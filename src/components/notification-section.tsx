@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle, AlertCircle, Send } from "lucide-react";
+import type { NotifySettings, NotifySeverity } from "@/lib/notify/notifier";
+
+interface NotifyResponse {
+  settings: NotifySettings;
+  transports: { telegram: boolean; email: boolean };
+}
+
+const SEVERITY_OPTIONS: Array<{ value: NotifySeverity; label: string }> = [
+  { value: "action_required", label: "ACTION REQUIRED ONLY" },
+  { value: "warn", label: "WARN + ACTION REQUIRED" },
+  { value: "info", label: "ALL TRIGGERS" },
+];
+
+export function NotificationSection() {
+  const [settings, setSettings] = useState<NotifySettings | null>(null);
+  const [transports, setTransports] = useState<NotifyResponse["transports"]>({ telegram: false, email: false });
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    fetch("/api/settings/notifications")
+      .then((r) => r.json() as Promise<NotifyResponse>)
+      .then((data) => {
+        setSettings(data.settings);
+        setTransports(data.transports);
+      })
+      .catch(() => setMessage({ ok: false, text: "Failed to load notification settings" }));
+  }, []);
+
+  if (!settings) {
+    return <div className="text-muted-foreground text-xs">{message?.text ?? "LOADING..."}</div>;
+  }
+
+  const update = (next: NotifySettings) => {
+    setSettings(next);
+    setMessage(null);
+  };
+
+  const save = async () => {
+    setPending(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/settings/notifications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await res.json();
+      setMessage(res.ok ? { ok: true, text: "SAVED" } : { ok: false, text: data.error ?? "Save failed" });
+    } catch {
+      setMessage({ ok: false, text: "Network error" });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const sendTest = async () => {
+    setPending(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/settings/notifications/test", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok && !data.sent) {
+        setMessage({ ok: false, text: data.error ?? data.failed?.[0]?.error ?? "Test failed" });
+      } else {
+        const failed = (data.failed ?? []) as Array<{ channel: string; error: string }>;
+        setMessage({
+          ok: failed.length === 0,
+          text: `SENT: ${(data.sent as string[]).join(", ").toUpperCase()}${failed.length > 0 ? ` · FAILED: ${failed.map((f) => f.channel).join(", ").toUpperCase()}` : ""}`,
+        });
+      }
+    } catch {
+      setMessage({ ok: false, text: "Network error" });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-[10px] text-muted-foreground">
+        The daily cron sends each new rulebook trigger once, plus engine drift and JEPQ auto-buy alerts. Save before sending a test.
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between text-xs">
+          <span className="tracking-wide">TELEGRAM</span>
+          <input
+            type="checkbox"
+            checked={settings.telegram.enabled}
+            onChange={(e) => update({ ...settings, telegram: { ...settings.telegram, enabled: e.target.checked } })}
+          />
+        </label>
+        <input
+          type="text"
+          value={settings.telegram.chatId}
+          onChange={(e) => update({ ...settings, telegram: { ...settings.telegram, chatId: e.target.value } })}
+          placeholder="Chat id (e.g. 123456789)"
+          className="w-full !py-1 text-xs"
+        />
+        {!transports.telegram && (
+          <div className="text-[10px] text-muted-foreground">TELEGRAM_BOT_TOKEN is not set on the server.</div>
+        )}
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <label className="flex items-center justify-between text-xs">
+          <span className="tracking-wide">EMAIL</span>
+          <input
+            type="checkbox"
+            checked={settings.email.enabled}
+            onChange={(e) => update({ ...settings, email: { ...settings.email, enabled: e.target.checked } })}
+          />
+        </label>
+        <input
+          type="email"
+          value={settings.email.to}
+          onChange={(e) => update({ ...settings, email: { ...settings.email, to: e.target.value } })}
+          placeholder="you@example.com"
+          className="w-full !py-1 text-xs"
+        />
+        {!transports.email && (
+          <div className="text-[10px] text-muted-foreground">SMTP_HOST / SMTP_FROM are not set on the server.</div>
+        )}
+      </div>
+
+      <div className="space-y-1 pt-2 border-t border-border">
+        <div className="text-[10px] tracking-wide text-muted-foreground">TRIGGER SEVERITY</div>
+        <select
+          value={settings.minSeverity}
+          onChange={(e) => update({ ...settings, minSeverity: e.target.value as NotifySeverity })}
+          className="w-full !py-1 text-xs bg-card border border-border"
+        >
+          {SEVERITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={save} disabled={pending} className="btn-retro btn-retro-primary w-full py-2 disabled:opacity-40">
+          {pending ? "SAVING..." : "[ SAVE ]"}
+        </button>
+        <button onClick={sendTest} disabled={pending} className="btn-retro w-full py-2 flex items-center justify-center gap-2 disabled:opacity-40">
+          <Send size={12} />
+          [ TEST ]
+        </button>
+      </div>
+
+      {message && (
+        <div className={`flex items-center gap-2 text-xs ${message.ok ? "text-positive" : "text-negative"}`}>
+          {message.ok ? <CheckCircle size={12} /> : <AlertCircle size={12} />}
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
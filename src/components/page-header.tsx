@@ -5,6 +5,8 @@ import { tabs } from "./bottom-nav";
 
 const NON_TAB_LABELS: Record<string, string> = {
   "/v1/settings": "SETTINGS",
+  "/v1/ai/audit": "AI AUDIT",
+  "/v1/ai/eval": "AI EVAL",
 };
 
 export function PageHeader() {
@@ -20,6 +20,7 @@ import {
 import { useCurrency } from "@/lib/currency-context";
 import { useThemeTokens } from "@/lib/use-theme-tokens";
 import { Card } from "./ui-card";
+import { PerformanceReturns } from "./performance-returns";
 
 interface Snapshot {
   date: string;
@@ -37,6 +38,25 @@ interface BenchmarkPoint {
   value: number;
 }
 
+interface AccountOption {
+  id: string;
+  name: string;
+  accountType: string;
+}
+
+// "all", "type:<AccountType>" or "portfolio:<id>"; maps onto the /api/snapshots scope params.
+type AccountSelection = string;
+
+function accountQuery(selection: AccountSelection): string {
+  if (selection.startsWith("type:")) return `&accountType=${encodeURIComponent(selection.slice(5))}`;
+  if (selection.startsWith("portfolio:")) return `&portfolioId=${encodeURIComponent(selection.slice(10))}`;
+  return "";
+}
+
+function accountTypeLabel(accountType: string): string {
+  return accountType.replace("_", "-");
+}
+
 const PROJECTION_OPTIONS: Array<{ id: ProjectionSelection; label: string }> = [
   ...BASE_RATE_OPTIONS.map((option) => ({ id: option.id, label: option.label })),
   { id: "all", label: "ALL" },
@@ -70,6 +90,8 @@ export function PerformanceChart() {
   const [benchmark, setBenchmark] = useState<BenchmarkPoint[]>([]);
   const [selectedBenchmark, setSelectedBenchmark] = useState<BenchmarkTicker>("SPY");
   const [selectedProjection, setSelectedProjection] = useState<ProjectionSelection>("6");
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState<AccountSelection>("all");
   const [benchmarkError, setBenchmarkError] = useState(false);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState(false);
@@ -77,7 +99,9 @@ export function PerformanceChart() {
   const [rangeDropOpen, setRangeDropOpen] = useState(false);
   const [benchmarkDropOpen, setBenchmarkDropOpen] = useState(false);
   const [projectionDropOpen, setProjectionDropOpen] = useState(false);
+  const [accountDropOpen, setAccountDropOpen] = useState(false);
   const rangeDropRef = useRef<HTMLDivElement>(null);
+  const accountDropRef = useRef<HTMLDivElement>(null);
   const benchmarkDropRef = useRef<HTMLDivElement>(null);
   const projectionDropRef = useRef<HTMLDivElement>(null);
   const tokens = useThemeTokens();
@@ -89,6 +113,7 @@ export function PerformanceChart() {
       if (rangeDropRef.current && !rangeDropRef.current.contains(target)) setRangeDropOpen(false);
       if (benchmarkDropRef.current && !benchmarkDropRef.current.contains(target)) setBenchmarkDropOpen(false);
       if (projectionDropRef.current && !projectionDropRef.current.contains(target)) setProjectionDropOpen(false);
+      if (accountDropRef.current && !accountDropRef.current.contains(target)) setAccountDropOpen(false);
     };
     document.addEventListener("mousedown", h);
     return () => document.removeEventListener("mousedown", h);
@@ -98,16 +123,17 @@ export function PerformanceChart() {
     if (range === "all" && allLoaded) return;
     setLoading(true);
     setFetchError(false);
-    fetch(`/api/snapshots?range=${range}`)
+    fetch(`/api/snapshots?range=${range}${accountQuery(selectedAccount)}`)
       .then((r) => r.json())
       .then((d) => {
         setSnapshots(d.snapshots ?? []);
         setContributionEventsCAD(d.contributionEventsCAD ?? []);
+        if (d.accounts) setAccounts(d.accounts);
         if (range === "all") setAllLoaded(true);
         setLoading(false);
       })
       .catch(() => { setFetchError(true); setLoading(false); });
-  }, [range, allLoaded]);
+  }, [range, allLoaded, selectedAccount]);
 
   useEffect(() => {
     setBenchmarkError(false);
@@ -121,10 +147,10 @@ export function PerformanceChart() {
       .catch(() => { setBenchmark([]); setBenchmarkError(true); });
   }, [range, selectedBenchmark]);
 
-  const { xirr, mdd, valueChange, chartData } = useMemo(() => {
-    if (snapshots.length < 2) return { xirr: null, mdd: null, valueChange: null, chartData: [] };
+  const { xirr, twr, mdd, valueChange, chartData } = useMemo(() => {
+    if (snapshots.length < 2) return { xirr: null, twr: null, mdd: null, valueChange: null, chartData: [] };
 
-    const { xirr, mdd, valueChange } = computePerformanceMetrics(snapshots, range, contributionEventsCAD);
+    const { xirr, twr, mdd, valueChange } = computePerformanceMetrics(snapshots, range, contributionEventsCAD);
     const baselinePortfolioValueCAD = snapshots[0].totalCAD;
     const cashflowAdjustedBenchmarkCAD = buildCashflowAdjustedBenchmarkSeries(
       snapshots,
@@ -170,7 +196,7 @@ export function PerformanceChart() {
       };
     });
 
-    return { xirr, mdd, valueChange, chartData };
+    return { xirr, twr, mdd, valueChange, chartData };
 
   }, [snapshots, benchmark, range, contributionEventsCAD, convertAmount]);
 
@@ -182,6 +208,13 @@ export function PerformanceChart() {
   const activeBenchmarkLabel = selectedBenchmark;
   const selectedBenchmarkLabel = selectedBenchmark;
   const selectedProjectionLabel = getProjectionSelectionLabel(selectedProjection);
+  const accountTypes = Array.from(new Set(accounts.map((account) => account.accountType)));
+  const accountOptions: Array<{ id: AccountSelection; label: string }> = [
+    { id: "all", label: "ALL" },
+    ...accountTypes.map((type) => ({ id: `type:${type}`, label: accountTypeLabel(type) })),
+    ...(accounts.length > 1 ? accounts.map((account) => ({ id: `portfolio:${account.id}`, label: account.name.toUpperCase() })) : []),
+  ];
+  const selectedAccountLabel = accountOptions.find((option) => option.id === selectedAccount)?.label ?? "ALL";
   const projectionLegendItems = activeProjectionOptions.map((option) => ({
     ...option,
     color: selectedProjection === "all" ? option.color : BASE_LINE_COLOR,
@@ -487,6 +520,36 @@ export function PerformanceChart() {
               </div>
             )}
           </div>
+          {accountOptions.length > 2 && (
+            <div className="relative shrink-0" ref={accountDropRef}>
+              <button
+                type="button"
+                className="btn-retro btn-retro-primary text-[10px] inline-flex w-[6rem] items-center justify-between gap-1.5"
+                onClick={() => setAccountDropOpen((v) => !v)}
+                aria-haspopup="menu"
+                aria-expanded={accountDropOpen}
+                aria-label="Account selector"
+                title="Select account or account type"
+              >
+                <span className="text-left truncate">{selectedAccountLabel}</span>
+                <span className="text-muted-foreground">▾</span>
+              </button>
+              {accountDropOpen && (
+                <div className="absolute top-full left-0 mt-0.5 z-50 bg-card border border-border min-w-full">
+                  {accountOptions.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      className={`w-full text-left px-3 py-1.5 text-[10px] whitespace-nowrap hover:bg-border/30 ${selectedAccount === option.id ? "text-accent" : ""}`}
+                      onClick={() => { setSelectedAccount(option.id); setAllLoaded(false); setAccountDropOpen(false); }}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           <div className="relative shrink-0" ref={rangeDropRef}>
             <button
               className="btn-retro btn-retro-primary text-[10px] inline-flex w-[4.5rem] items-center justify-between gap-1.5"
@@ -514,13 +577,19 @@ export function PerformanceChart() {
 
       {/* Metrics row */}
       {hasSufficientData && (
-        <div className="grid grid-cols-3 gap-px bg-border border border-border mb-4">
+        <div className="grid grid-cols-4 gap-px bg-border border border-border mb-4">
           <div className="bg-card p-2" title="외부 투입 자금 기준 연환산 수익률">
             <div className="text-[10px] text-muted-foreground tracking-wide mb-1">XIRR <span className="opacity-50">?</span></div>
             <div className={`text-sm font-medium tabular-nums ${xirr !== null && xirr >= 0 ? "text-positive" : "text-negative"}`}>
               {xirr !== null ? `${xirr >= 0 ? "+" : ""}${(xirr * 100).toFixed(2)}%` : "—"}
             </div>
           </div>
+          <div className="bg-card p-2" title="Time-Weighted Return — daily-linked return over the visible snapshots with deposits and withdrawals neutralized. Not annualized.">
+            <div className="text-[10px] text-muted-foreground tracking-wide mb-1">TWR <span className="opacity-50">?</span></div>
+            <div className={`text-sm font-medium tabular-nums ${twr !== null && twr >= 0 ? "text-positive" : "text-negative"}`}>
+              {twr !== null ? `${twr >= 0 ? "+" : ""}${(twr * 100).toFixed(2)}%` : "—"}
+            </div>
+          </div>
           <div className="bg-card p-2" title="Portfolio Value Change — total portfolio value change in CAD from first to last visible snapshot. Includes deposits/withdrawals and cash; not price-only or total-return performance.">
             <div className="text-[10px] text-muted-foreground tracking-wide mb-1">VALUE CHANGE</div>
             <div className={`text-sm font-medium tabular-nums ${valueChange !== null && valueChange >= 0 ? "text-positive" : "text-negative"}`}>
@@ -623,6 +692,7 @@ export function PerformanceChart() {
           <div className="h-48 lg:h-72 chart-touch-zone">
             <ReactECharts option={option} notMerge={true} style={{ height: "100%", width: "100%" }} />
           </div>
+          <PerformanceReturns range={range} benchmark={selectedBenchmark} />
         </div>
       )}
     </Card>
@@ -0,0 +1,109 @@
+"use client";
+
+// Time-weighted vs money-weighted returns for the selected range, per
+// portfolio and per account type, against the selected benchmark over the
+// same window. TWR neutralizes deposit timing, so TWR − benchmark isolates
+// strategy; XIRR − TWR is what contribution timing added or cost.
+import { useEffect, useState } from "react";
+import type { BenchmarkTicker } from "@/lib/performance-benchmark";
+import type { PerformanceMetricRange } from "@/lib/performance-metrics";
+import type { GroupReturns, PerformanceReturnsReport } from "@/lib/performance-twr-source";
+
+function fmtPct(value: number | null) {
+  if (value == null) return "—";
+  return `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+}
+
+function pctClass(value: number | null) {
+  if (value == null) return "text-muted-foreground";
+  return value >= 0 ? "text-positive" : "text-negative";
+}
+
+function ReturnRow({ group, benchmark, strong }: { group: GroupReturns; benchmark: BenchmarkTicker; strong?: boolean }) {
+  const comparison = group.benchmarks.find((b) => b.ticker === benchmark);
+  return (
+    <tr className="border-t border-border/50">
+      <td className={`py-1 pr-2 truncate max-w-[8rem] ${strong ? "text-foreground" : "text-muted-foreground"}`} title={group.startDate ? `${group.startDate} → ${group.endDate}` : undefined}>
+        {group.label}
+      </td>
+      <td className={`py-1 px-2 text-right tabular-nums ${pctClass(group.twr)}`}>{fmtPct(group.twr)}</td>
+      <td className={`py-1 px-2 text-right tabular-nums ${pctClass(group.twrAnnualized)}`}>{fmtPct(group.twrAnnualized)}</td>
+      <td className={`py-1 px-2 text-right tabular-nums ${pctClass(group.xirr)}`}>{fmtPct(group.xirr)}</td>
+      <td className={`py-1 pl-2 text-right tabular-nums ${pctClass(comparison?.excess ?? null)}`} title={comparison?.twr != null ? `${benchmark} ${fmtPct(comparison.twr)}` : undefined}>
+        {fmtPct(comparison?.excess ?? null)}
+      </td>
+    </tr>
+  );
+}
+
+export function PerformanceReturns({ range, benchmark }: { range: PerformanceMetricRange; benchmark: BenchmarkTicker }) {
+  const [report, setReport] = useState<PerformanceReturnsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(false);
+    fetch(`/api/performance/returns?range=${range}`)
+      .then(async (r) => {
+        if (!r.ok) throw new Error("Failed");
+        return r.json() as Promise<PerformanceReturnsReport>;
+      })
+      .then((data) => { setReport(data); setLoading(false); })
+      .catch(() => { setError(true); setLoading(false); });
+  }, [range]);
+
+  if (loading) return <div className="mt-4 text-[10px] text-muted-foreground">LOADING RETURNS...</div>;
+  if (error) return <div className="mt-4 text-[10px] text-negative">RETURNS UNAVAILABLE</div>;
+  if (!report?.total) return null;
+
+  const showAccountTypes = report.accountTypes.length > 1;
+  const showPortfolios = report.portfolios.length > 1;
+  const gapTickers = Array.from(new Set([
+    ...report.failedTickers,
+    ...report.gaps.flatMap((gap) => gap.ticker ? [gap.ticker] : []),
+  ]));
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-baseline justify-between mb-1">
+        <div className="text-[10px] text-muted-foreground tracking-wide" title="TWR links daily returns and removes the effect of deposits and withdrawals; XIRR weights returns by the money invested at the time.">
+          RETURNS · TWR vs XIRR <span className="opacity-50">?</span>
+        </div>
+        <div className="text-[9px] text-muted-foreground opacity-60">CAD · {report.total.startDate} → {report.total.endDate}</div>
+      </div>
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="py-1 pr-2 text-left font-normal"></th>
+            <th className="py-1 px-2 text-right font-normal">TWR</th>
+            <th className="py-1 px-2 text-right font-normal">TWR/YR</th>
+            <th className="py-1 px-2 text-right font-normal">XIRR</th>
+            <th className="py-1 pl-2 text-right font-normal">vs {benchmark}</th>
+          </tr>
+        </thead>
+        <tbody>
+          <ReturnRow group={report.total} benchmark={benchmark} strong />
+          {showAccountTypes && report.accountTypes.map((group) => (
+            <ReturnRow key={group.key} group={group} benchmark={benchmark} />
+          ))}
+          {showPortfolios && report.portfolios.map((group) => (
+            <ReturnRow key={group.key} group={group} benchmark={benchmark} />
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap gap-x-3 mt-1 text-[9px] text-muted-foreground">
+        {report.total.benchmarks.map((b) => (
+          <span key={b.ticker} className={b.ticker === benchmark ? "text-accent" : undefined}>
+            {b.ticker} {fmtPct(b.twr)}
+          </span>
+        ))}
+        {gapTickers.length > 0 && (
+          <span className="ml-auto text-amber-500" title="Days valued with a carried-forward close or the last trade price">
+            PRICE GAPS: {gapTickers.join(", ")}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useMemo, useEffect, useRef } from "react";
 import { HoldingsTable } from "./holdings-table";
+import { RulebookWhatIf } from "./rulebook-what-if";
 import { mergeHoldings } from "@/lib/utils";
 import type { Portfolio, HoldingSummary } from "@/lib/types";
 
@@ -123,6 +124,8 @@ export function PortfolioClient({ initialPortfolios, fxRate: initialFxRate }: {
           NO PORTFOLIOS — CREATE ONE IN SETTINGS
         </div>
       )}
+
+      {portfolios.length > 0 && <RulebookWhatIf />}
     </div>
   );
 }
@@ -4,10 +4,12 @@
 // scenario selector + per-year projection table + AI narrative.
 // Current portfolio snapshot (Top Summary 4-stat), trigger status (RulebookStatus),
 // and static 70/30 execution plan (ThisWeekActionPlan) are owned by other components.
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import ReactECharts from "echarts-for-react";
 import { sanitizeAiOutput } from "@/lib/ai-output-rules";
-import type { ProjectionApiResponse as ProjectionData } from "@/lib/types/ai-projection";
+import type { ProjectionApiResponse as ProjectionData, ProjectionMonteCarlo } from "@/lib/types/ai-projection";
 import { AI_REFRESH_EVENT } from "@/components/ai-page-refresh";
+import { useThemeTokens } from "@/lib/use-theme-tokens";
 
 function fmtCAD(n: number) {
   if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(2)}M CAD`;
@@ -18,6 +20,101 @@ function fmtPct(n: number) {
   return `${n.toFixed(1)}%`;
 }
 
+type FanTooltipParam = { axisValue?: string; seriesName?: string; dataIndex: number };
+
+// P10–P90 band stacked as an invisible P10 base plus a filled (P90 − P10) layer, P50 drawn on top.
+function MonteCarloFan({ mc, retirementYear }: { mc: ProjectionMonteCarlo; retirementYear: number | null }) {
+  const tokens = useThemeTokens();
+  const option = useMemo(() => {
+    const bands = mc.bands;
+    return {
+      backgroundColor: "transparent",
+      animation: false,
+      grid: { left: 56, right: 8, top: 8, bottom: 24 },
+      tooltip: {
+        trigger: "axis" as const,
+        confine: true,
+        backgroundColor: tokens.card,
+        borderColor: tokens.border,
+        borderWidth: 1,
+        textStyle: { color: tokens.foreground, fontFamily: "IBM Plex Mono, monospace", fontSize: 11 },
+        extraCssText: "border-radius:0",
+        formatter: (params: FanTooltipParam | FanTooltipParam[]) => {
+          const items = Array.isArray(params) ? params : [params];
+          const b = bands[items[0]?.dataIndex ?? 0];
+          if (!b) return "";
+          return `
+            <div style="color:${tokens.mutedForeground};margin-bottom:4px">${b.year}</div>
+            <div>P90 ${fmtCAD(b.totalP90)}</div>
+            <div style="color:${tokens.primary}">P50 ${fmtCAD(b.totalP50)}</div>
+            <div>P10 ${fmtCAD(b.totalP10)}</div>
+            <div style="border-top:1px solid ${tokens.border};margin-top:4px;padding-top:4px;color:${tokens.positive}">
+              연배당 P50 ${fmtCAD(b.incomeP50)}
+            </div>
+          `;
+        },
+      },
+      xAxis: {
+        type: "category" as const,
+        data: bands.map(b => String(b.year)),
+        axisLabel: { color: tokens.mutedForeground, fontSize: 10 },
+        axisLine: { lineStyle: { color: tokens.border } },
+        axisTick: { show: false },
+      },
+      yAxis: {
+        type: "value" as const,
+        axisLabel: {
+          color: tokens.mutedForeground,
+          fontSize: 10,
+          formatter: (v: number) => (v >= 1_000_000 ? `${(v / 1_000_000).toFixed(1)}M` : `${Math.round(v / 1_000)}K`),
+        },
+        splitLine: { lineStyle: { color: tokens.border, type: [2, 2] as [number, number] } },
+      },
+      series: [
+        {
+          type: "line",
+          name: "P10",
+          stack: "band",
+          data: bands.map(b => b.totalP10),
+          lineStyle: { opacity: 0 },
+          symbol: "none",
+          emphasis: { disabled: true },
+        },
+        {
+          type: "line",
+          name: "P10–P90",
+          stack: "band",
+          data: bands.map(b => b.totalP90 - b.totalP10),
+          lineStyle: { opacity: 0 },
+          areaStyle: { color: tokens.primaryAlpha(0.18) },
+          symbol: "none",
+          emphasis: { disabled: true },
+        },
+        {
+          type: "line",
+          name: "P50",
+          data: bands.map(b => b.totalP50),
+          color: tokens.primary,
+          lineStyle: { width: 1.5 },
+          symbol: "none",
+          emphasis: { disabled: true },
+          markLine: retirementYear
+            ? {
+                silent: true,
+                symbol: "none",
+                label: { show: false },
+                lineStyle: { color: tokens.accent, type: [4, 3] as [number, number], width: 1 },
+                data: [{ xAxis: String(retirementYear) }],
+              }
+            : undefined,
+        },
+      ],
+    };
+  }, [mc, retirementYear, tokens]);
+
+  return <ReactECharts option={option} style={{ height: 220, width: "100%" }} />;
+}
+
 export function ProjectionCard() {
   const [data, setData] = useState<ProjectionData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -223,7 +320,34 @@ export function ProjectionCard() {
               </section>
             )}
 
-            {/* 2) AI narrative — future-only commentary */}
+            {/* 2) Monte Carlo fan — same rulebook path under random yearly returns */}
+            {data.monteCarlo && data.monteCarlo.bands.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-[10px] tracking-wide text-muted-foreground">
+                  MONTE CARLO · {data.monteCarlo.paths.toLocaleString()} PATHS · P10 / P50 / P90
+                </h3>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-muted-foreground">
+                  {data.monteCarlo.goal && (
+                    <span>
+                      목표 연배당 {fmtCAD(data.monteCarlo.goal.annualTargetCAD)} ({data.monteCarlo.goal.year}) 달성 확률{" "}
+                      <span className="text-positive">{fmtPct(data.monteCarlo.goal.probability * 100)}</span>
+                    </span>
+                  )}
+                  <span>
+                    자산 고갈 확률{" "}
+                    <span className={data.monteCarlo.depletionProbability > 0 ? "text-negative" : "text-foreground"}>
+                      {fmtPct(data.monteCarlo.depletionProbability * 100)}
+                    </span>
+                  </span>
+                  {data.monteCarlo.goal == null && <span>Settings에 목표 연배당을 입력하면 달성 확률을 표시합니다</span>}
+                </div>
+                <div className="chart-touch-zone">
+                  <MonteCarloFan mc={data.monteCarlo} retirementYear={a?.retirementYear ?? null} />
+                </div>
+              </section>
+            )}
+
+            {/* 3) AI narrative — future-only commentary */}
             {data.narrative && (
               <section className="space-y-2">
                 <h3 className="text-[10px] tracking-wide text-muted-foreground">AI 분석</h3>
@@ -0,0 +1,147 @@
+"use client";
+
+// Where the CAD value change over a window came from: contributions, price
+// moves, dividends and USD/CAD, split by rulebook bucket and by ticker.
+import { useEffect, useState } from "react";
+import { Card } from "./ui-card";
+import { fmt } from "@/lib/utils";
+import {
+  ATTRIBUTION_BUCKET_LABELS,
+  type AttributionBucket,
+  type AttributionLine,
+  type AttributionPreset,
+} from "@/lib/portfolio/attribution";
+import type { ReturnAttributionReport } from "@/lib/portfolio/attribution-source";
+
+const PRESETS: Array<{ key: AttributionPreset; label: string }> = [
+  { key: "qtd", label: "QTD" },
+  { key: "lastq", label: "LAST Q" },
+  { key: "ytd", label: "YTD" },
+  { key: "1y", label: "1Y" },
+];
+
+function fmtSigned(value: number) {
+  if (value === 0) return "—";
+  return `${value > 0 ? "+" : "−"}$${fmt(Math.abs(value), 0)}`;
+}
+
+function signedClass(value: number) {
+  if (value === 0) return "text-muted-foreground";
+  return value > 0 ? "text-positive" : "text-negative";
+}
+
+function LineRow({ line, label, strong }: { line: AttributionLine; label: string; strong?: boolean }) {
+  return (
+    <tr className="border-t border-border/50">
+      <td className={`py-1 pr-2 truncate max-w-[9rem] ${strong ? "text-foreground" : "text-muted-foreground"}`}>{label}</td>
+      <td className={`py-1 px-2 text-right tabular-nums ${signedClass(line.priceCAD)}`}>{fmtSigned(line.priceCAD)}</td>
+      <td className={`py-1 px-2 text-right tabular-nums ${signedClass(line.dividendCAD)}`}>{fmtSigned(line.dividendCAD)}</td>
+      <td className={`py-1 px-2 text-right tabular-nums ${signedClass(line.fxCAD)}`}>{fmtSigned(line.fxCAD)}</td>
+      <td className={`py-1 pl-2 text-right tabular-nums ${signedClass(line.totalCAD)}`}>{fmtSigned(line.totalCAD)}</td>
+    </tr>
+  );
+}
+
+export function ReturnAttribution({ portfolioId = "all" }: { portfolioId?: string }) {
+  const [preset, setPreset] = useState<AttributionPreset>("qtd");
+  const [report, setReport] = useState<ReturnAttributionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [showTickers, setShowTickers] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(false);
+    const scope = portfolioId !== "all" ? `&portfolioId=${encodeURIComponent(portfolioId)}` : "";
+    fetch(`/api/attribution?preset=${preset}${scope}`)
+      .then(async (r) => {
+        if (!r.ok) throw new Error("Failed");
+        return r.json() as Promise<ReturnAttributionReport>;
+      })
+      .then((data) => { setReport(data); setLoading(false); })
+      .catch(() => { setError(true); setLoading(false); });
+  }, [preset, portfolioId]);
+
+  const summary: Array<{ label: string; value: number; title?: string }> = report ? [
+    { label: "CONTRIB", value: report.contributionsCAD, title: "Deposits minus withdrawals" },
+    { label: "PRICE", value: report.priceCAD, title: "Price moves at the opening USD/CAD rate, net of commissions" },
+    { label: "DIVIDENDS", value: report.dividendCAD },
+    { label: "FX", value: report.fxCAD, title: "USD/CAD moves on USD holdings and USD cash" },
+  ] : [];
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[10px] text-muted-foreground tracking-wide">RETURN ATTRIBUTION · CAD</div>
+        <div className="flex gap-1">
+          {PRESETS.map((p) => (
+            <button
+              key={p.key}
+              onClick={() => setPreset(p.key)}
+              className={`px-1.5 py-0.5 text-[10px] ${preset === p.key ? "text-accent" : "text-muted-foreground hover:text-foreground"}`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && <div className="text-[10px] text-muted-foreground">LOADING ATTRIBUTION...</div>}
+      {!loading && error && <div className="text-[10px] text-negative">ATTRIBUTION UNAVAILABLE</div>}
+      {!loading && !error && report && (
+        <>
+          <div className="flex items-baseline justify-between text-[11px] tabular-nums">
+            <span className="text-muted-foreground">${fmt(report.startValueCAD, 0)} → ${fmt(report.endValueCAD, 0)}</span>
+            <span className={signedClass(report.changeCAD)}>{fmtSigned(report.changeCAD)}</span>
+          </div>
+          <div className="grid grid-cols-4 gap-2 mt-2">
+            {summary.map((item) => (
+              <div key={item.label} title={item.title}>
+                <div className="text-[9px] text-muted-foreground">{item.label}</div>
+                <div className={`text-[11px] tabular-nums ${signedClass(item.value)}`}>{fmtSigned(item.value)}</div>
+              </div>
+            ))}
+          </div>
+          {report.otherCAD !== 0 && (
+            <div className="mt-1 text-[9px] text-muted-foreground" title="Fees, FX conversion spreads and adjustments">
+              OTHER {fmtSigned(report.otherCAD)}
+            </div>
+          )}
+
+          <table className="w-full text-[10px] mt-3">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="py-1 pr-2 text-left font-normal"></th>
+                <th className="py-1 px-2 text-right font-normal">PRICE</th>
+                <th className="py-1 px-2 text-right font-normal">DIV</th>
+                <th className="py-1 px-2 text-right font-normal">FX</th>
+                <th className="py-1 pl-2 text-right font-normal">TOTAL</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(showTickers ? report.byTicker : report.byBucket).map((line) => (
+                <LineRow
+                  key={line.key}
+                  line={line}
+                  label={showTickers ? line.key : ATTRIBUTION_BUCKET_LABELS[line.key as AttributionBucket]}
+                  strong={!showTickers}
+                />
+              ))}
+            </tbody>
+          </table>
+          <div className="flex justify-between mt-1 text-[9px] text-muted-foreground">
+            <button onClick={() => setShowTickers((v) => !v)} className="hover:text-foreground">
+              {showTickers ? "BY BUCKET" : "BY TICKER"}
+            </button>
+            <span className="opacity-60">{report.from} → {report.to}</span>
+          </div>
+          {report.failedTickers.length > 0 && (
+            <div className="mt-1 text-[9px] text-amber-500" title="No price history; the last trade price was used">
+              PRICE GAPS: {report.failedTickers.join(", ")}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
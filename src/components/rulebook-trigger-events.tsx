@@ -0,0 +1,174 @@
+"use client";
+
+// Rulebook trigger event log written by the daily cron. Open events can be
+// approved (trade executed) or rejected (deliberately skipped) with a note;
+// the decision fills RulebookTriggerEvent.resolutionAction / resolutionNotes.
+import { useEffect, useState } from "react";
+import { AI_REFRESH_EVENT } from "@/components/ai-page-refresh";
+
+interface TriggerEventItem {
+  id: string;
+  triggerKind: string;
+  label: string;
+  gate: "daily" | "month_end" | "year_end" | null;
+  severity: string;
+  detectedAt: string;
+  resolvedAt: string | null;
+  resolutionAction: string | null;
+  resolutionNotes: string | null;
+  computedPlan: Record<string, unknown> | null;
+}
+
+const GATE_LABEL: Record<string, string> = {
+  daily: "DAILY CLOSE",
+  month_end: "MONTH-END CLOSE",
+  year_end: "YEAR-END CLOSE",
+};
+
+const RESOLUTION_LABEL: Record<string, string> = {
+  user_approved: "APPROVED",
+  user_rejected: "REJECTED",
+  auto_resolved_by_market: "CLEARED",
+};
+
+function severityClass(severity: string) {
+  if (severity === "action_required") return "text-negative border-negative/40";
+  if (severity === "warn") return "text-amber-500 border-amber-500/40";
+  return "text-muted-foreground border-border";
+}
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-CA", { year: "numeric", month: "short", day: "numeric" });
+}
+
+export function planSummary(plan: Record<string, unknown> | null): string | null {
+  if (!plan || plan.active === false) return null;
+  const parts = Object.entries(plan)
+    .filter(([key, value]) => key.endsWith("CAD") && typeof value === "number" && value > 0)
+    .map(([key, value]) => `${key.replace(/CAD$/, "")} $${Math.round(value as number).toLocaleString()}`);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+export function RulebookTriggerEvents() {
+  const [items, setItems] = useState<TriggerEventItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const load = () => {
+    setError(null);
+    fetch("/api/rulebook/triggers")
+      .then(async (r) => {
+        const json = await r.json();
+        if (!r.ok) throw new Error(json.error ?? "Failed");
+        return json as { items: TriggerEventItem[] };
+      })
+      .then((json) => setItems(json.items))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed"));
+  };
+
+  useEffect(() => {
+    load();
+    window.addEventListener(AI_REFRESH_EVENT, load);
+    return () => window.removeEventListener(AI_REFRESH_EVENT, load);
+  }, []);
+
+  const resolve = async (id: string, resolutionAction: "user_approved" | "user_rejected") => {
+    setSavingId(id);
+    try {
+      const res = await fetch(`/api/rulebook/triggers/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resolutionAction, resolutionNotes: notes[id] ?? "" }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? "Failed");
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const open = items?.filter((item) => !item.resolvedAt) ?? [];
+  const resolved = items?.filter((item) => item.resolvedAt) ?? [];
+
+  return (
+    <div className="border border-border bg-card">
+      <div className="px-4 py-2 border-b border-border text-accent text-xs tracking-wide flex items-center justify-between">
+        <span>▶ TRIGGER EVENTS</span>
+        {open.length > 0 && <span className="text-[10px] text-negative">{open.length} OPEN</span>}
+      </div>
+      <div className="p-2 space-y-2">
+        {!items && !error && <div className="px-3 py-2 text-[11px] text-muted-foreground">로딩…</div>}
+        {error && <div className="px-3 py-2 text-[11px] text-negative">사유: {error}</div>}
+        {items && items.length === 0 && (
+          <div className="px-3 py-2 text-[11px] text-muted-foreground">기록된 트리거 없음 — daily cron이 감지하면 여기에 표시됩니다.</div>
+        )}
+
+        {open.map((item) => {
+          const plan = planSummary(item.computedPlan);
+          return (
+            <div key={item.id} className="border border-border px-3 py-2 space-y-2 text-[11px]">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate">{item.label}</div>
+                  <div className="text-[10px] text-muted-foreground">
+                    {fmtDate(item.detectedAt)}{item.gate ? ` · ${GATE_LABEL[item.gate]}` : ""}
+                  </div>
+                </div>
+                <span className={`text-[10px] px-1.5 py-0.5 border flex-shrink-0 ${severityClass(item.severity)}`}>
+                  {item.severity.toUpperCase().replace("_", " ")}
+                </span>
+              </div>
+              {plan && <div className="text-[10px] text-muted-foreground tabular-nums">PLAN: {plan}</div>}
+              <input
+                type="text"
+                value={notes[item.id] ?? ""}
+                onChange={(e) => setNotes((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                placeholder="Notes (optional)"
+                className="w-full !py-1 text-xs"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => resolve(item.id, "user_approved")}
+                  disabled={savingId === item.id}
+                  className="btn-retro btn-retro-primary text-xs py-1 disabled:opacity-40"
+                >
+                  [ APPROVE ]
+                </button>
+                <button
+                  onClick={() => resolve(item.id, "user_rejected")}
+                  disabled={savingId === item.id}
+                  className="btn-retro text-xs py-1 text-negative border-negative/30 hover:border-negative disabled:opacity-40"
+                >
+                  [ REJECT ]
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        {resolved.length > 0 && (
+          <ul className="divide-y divide-border">
+            {resolved.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-2 px-3 py-2 text-[11px]">
+                <div className="min-w-0">
+                  <div className="truncate text-muted-foreground">{item.label}</div>
+                  <div className="text-[10px] text-muted-foreground truncate">
+                    {fmtDate(item.detectedAt)} → {item.resolvedAt ? fmtDate(item.resolvedAt) : "—"}
+                    {item.resolutionNotes ? ` · ${item.resolutionNotes}` : ""}
+                  </div>
+                </div>
+                <span className="text-[10px] px-1.5 py-0.5 border border-border text-muted-foreground flex-shrink-0">
+                  {RESOLUTION_LABEL[item.resolutionAction ?? ""] ?? "RESOLVED"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
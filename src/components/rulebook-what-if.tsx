@@ -0,0 +1,230 @@
+"use client";
+
+// What-if sandbox under the holdings table: queue hypothetical buys, sells and
+// price shocks, then compare rulebook weights, trigger flags and the plans the
+// triggers would generate. /api/rulebook/what-if only simulates — no writes.
+import { useState } from "react";
+import { fmt } from "@/lib/utils";
+import type { WhatIfAction } from "@/lib/rulebook-what-if";
+import type { WhatIfReport } from "@/lib/rulebook-what-if-source";
+import type { RulebookWeights } from "@/lib/rulebook";
+import { planSummary } from "./rulebook-trigger-events";
+
+const TICKERS = ["SCHD", "QLD", "TQQQ", "SGOV", "QQQI"];
+
+type ActionType = "BUY" | "SELL" | "SHOCK";
+
+const WEIGHT_ROWS: Array<{ key: keyof RulebookWeights; label: string }> = [
+  { key: "qldCoreWeightPct", label: "QLD CORE W" },
+  { key: "growthBucketPct", label: "GROWTH BUCKET" },
+  { key: "sgovTotalWeightPct", label: "SGOV" },
+  { key: "jepqTotalWeightPct", label: "QQQI" },
+  { key: "tqqqTotalWeightPct", label: "TQQQ" },
+];
+
+function describe(action: WhatIfAction): string {
+  if (action.kind === "shock") return `${action.ticker} ${action.pct > 0 ? "+" : "−"}${Math.abs(action.pct)}%`;
+  return `${action.side} ${action.ticker} $${fmt(action.amountCAD, 0)}`;
+}
+
+function severityClass(severity: string) {
+  if (severity === "action_required") return "text-negative";
+  if (severity === "warn") return "text-amber-500";
+  return "text-muted-foreground";
+}
+
+export function RulebookWhatIf() {
+  const [open, setOpen] = useState(false);
+  const [ticker, setTicker] = useState("QLD");
+  const [type, setType] = useState<ActionType>("SHOCK");
+  const [amount, setAmount] = useState("-30");
+  const [actions, setActions] = useState<WhatIfAction[]>([]);
+  const [report, setReport] = useState<WhatIfReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const add = () => {
+    const value = Number(amount);
+    const t = ticker.trim().toUpperCase();
+    if (!t || !Number.isFinite(value)) return;
+    if (type === "SHOCK") {
+      if (value < -100) return;
+      setActions((prev) => [...prev, { kind: "shock", ticker: t, pct: value }]);
+    } else {
+      if (value <= 0) return;
+      setActions((prev) => [...prev, { kind: "trade", ticker: t, side: type, amountCAD: value }]);
+    }
+  };
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/rulebook/what-if", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ actions }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? "Failed");
+      setReport(json as WhatIfReport);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const changed = report?.flags.filter((f) => f.changed) ?? [];
+  const activeAfter = report?.flags.filter((f) => f.after && !f.changed) ?? [];
+
+  return (
+    <div className="border border-border bg-card mt-6">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="w-full px-4 py-2 text-left text-accent text-xs tracking-wide flex items-center justify-between"
+      >
+        <span>▶ WHAT-IF SANDBOX</span>
+        <span className="text-[10px] text-muted-foreground">{open ? "HIDE" : "SIMULATE TRADES / SHOCKS"}</span>
+      </button>
+
+      {open && (
+        <div className="border-t border-border p-3 space-y-3 text-[11px]">
+          <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
+            <input
+              list="what-if-tickers"
+              value={ticker}
+              onChange={(e) => setTicker(e.target.value.toUpperCase())}
+              className="w-full !py-1 text-xs"
+            />
+            <datalist id="what-if-tickers">
+              {TICKERS.map((t) => <option key={t} value={t} />)}
+            </datalist>
+            <select value={type} onChange={(e) => setType(e.target.value as ActionType)} className="text-xs">
+              <option value="BUY">BUY $</option>
+              <option value="SELL">SELL $</option>
+              <option value="SHOCK">PRICE %</option>
+            </select>
+            <input
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={type === "SHOCK" ? "-30" : "CAD"}
+              className="w-full !py-1 text-xs tabular-nums"
+            />
+            <button onClick={add} className="btn-retro text-xs py-1">[ ADD ]</button>
+          </div>
+
+          {actions.length > 0 && (
+            <ol className="space-y-1">
+              {actions.map((action, i) => (
+                <li key={i} className="flex items-center justify-between tabular-nums">
+                  <span>{i + 1}. {describe(action)}</span>
+                  <button
+                    onClick={() => setActions((prev) => prev.filter((_, j) => j !== i))}
+                    className="text-[10px] text-muted-foreground hover:text-negative"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={run}
+              disabled={running}
+              className="btn-retro btn-retro-primary text-xs py-1 disabled:opacity-40"
+            >
+              {running ? "SIMULATING…" : "[ SIMULATE ]"}
+            </button>
+            <button
+              onClick={() => { setActions([]); setReport(null); }}
+              disabled={running || (actions.length === 0 && !report)}
+              className="btn-retro text-xs py-1 disabled:opacity-40"
+            >
+              [ CLEAR ]
+            </button>
+          </div>
+
+          {error && <div className="text-negative">사유: {error}</div>}
+
+          {report && (
+            <div className="space-y-3">
+              <table className="w-full text-[10px]">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="py-1 pr-2 text-left font-normal"></th>
+                    <th className="py-1 px-2 text-right font-normal">NOW</th>
+                    <th className="py-1 pl-2 text-right font-normal">WHAT-IF</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  <tr className="border-t border-border/50">
+                    <td className="py-1 pr-2 text-muted-foreground">TOTAL</td>
+                    <td className="py-1 px-2 text-right">${fmt(report.before.totalCAD, 0)}</td>
+                    <td className="py-1 pl-2 text-right">${fmt(report.after.totalCAD, 0)}</td>
+                  </tr>
+                  {WEIGHT_ROWS.map((row) => {
+                    const before = report.before[row.key] as number;
+                    const after = report.after[row.key] as number;
+                    return (
+                      <tr key={row.key} className="border-t border-border/50">
+                        <td className="py-1 pr-2 text-muted-foreground">{row.label}</td>
+                        <td className="py-1 px-2 text-right">{fmt(before, 1)}%</td>
+                        <td className={`py-1 pl-2 text-right ${Math.abs(after - before) >= 0.05 ? "text-accent" : ""}`}>
+                          {fmt(after, 1)}%
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div>
+                <div className="text-[10px] text-muted-foreground mb-1">FLAG CHANGES</div>
+                {changed.length === 0 && <div className="text-muted-foreground">변화 없음</div>}
+                {changed.map((flag) => (
+                  <div key={flag.kind} className={`flex justify-between gap-2 ${severityClass(flag.severity)}`}>
+                    <span className="truncate">{flag.label}</span>
+                    <span className="shrink-0">{flag.before ? "ON" : "OFF"} → {flag.after ? "ON" : "OFF"}</span>
+                  </div>
+                ))}
+                {activeAfter.length > 0 && (
+                  <div className="mt-1 text-[10px] text-muted-foreground">
+                    STILL ON: {activeAfter.map((f) => f.label).join(" · ")}
+                  </div>
+                )}
+              </div>
+
+              {report.plans.length > 0 && (
+                <div>
+                  <div className="text-[10px] text-muted-foreground mb-1">PLANS</div>
+                  {report.plans.map((p) => (
+                    <div key={p.kind} className="border border-border px-2 py-1 mb-1">
+                      <div className={severityClass(p.severity)}>{p.label}</div>
+                      <div className="text-[10px] text-muted-foreground tabular-nums">
+                        {planSummary(p.plan as Record<string, unknown>) ?? "no trade"}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {(report.warnings.length > 0 || report.unpriced.length > 0) && (
+                <div className="text-[10px] text-amber-500 space-y-0.5">
+                  {report.warnings.map((w) => <div key={w}>{w}</div>)}
+                  {report.unpriced.length > 0 && <div>NO QUOTE (EXCLUDED): {report.unpriced.join(", ")}</div>}
+                </div>
+              )}
+              <div className="text-[9px] text-muted-foreground opacity-60">
+                All close gates treated as open · crisis cycle {report.cycleArmed ? "armed" : "used"} · USD/CAD {fmt(report.fxRate, 4)}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { RefreshCw, Trash2, CheckCircle, AlertCircle, Loader } from "lucide-react";
 import { AddPortfolioDialog } from "./add-portfolio-dialog";
+import { CsvImportSection } from "./csv-import-section";
+import { BackupSection } from "./backup-section";
+import { NotificationSection } from "./notification-section";
 import { getGlidePath, getNextGlideStep } from "@/lib/glide-path";
 
 interface TokenStatus {
@@ -357,7 +360,7 @@ export function SettingsClient({ portfolios: initialPortfolios }: { portfolios:
 
   return (
     <div className="lg:grid lg:grid-cols-2 lg:gap-4 lg:items-start">
-      {/* Left column: Portfolio + Questrade */}
+      {/* Left column: Portfolio + Questrade + CSV import + backup */}
       <div className="space-y-2">
       {/* Portfolio Management */}
       <Section title="PORTFOLIO MANAGEMENT" defaultOpen={true}>
@@ -533,6 +536,25 @@ export function SettingsClient({ portfolios: initialPortfolios }: { portfolios:
         )}
         </div>
       </Section>
+
+      {/* CSV import for brokers without API sync */}
+      <Section title="CSV IMPORT — OTHER BROKERS" defaultOpen={false}>
+        {portfolios.length === 0 ? (
+          <div className="text-muted-foreground text-xs text-center py-4">ADD A PORTFOLIO FIRST</div>
+        ) : (
+          <CsvImportSection portfolios={portfolios} />
+        )}
+      </Section>
+
+      {/* Full data export / restore */}
+      <Section title="DATA BACKUP" defaultOpen={false}>
+        <BackupSection />
+      </Section>
+
+      {/* Telegram / email delivery for cron alerts and rulebook triggers */}
+      <Section title="NOTIFICATIONS" defaultOpen={false}>
+        <NotificationSection />
+      </Section>
       </div>
 
       {/* Right column: Investor Profile + settings */}
@@ -11,6 +11,7 @@ import {
   YAxis,
 } from "recharts";
 import { fmtCAD } from "./format";
+import { V2RiskCard } from "./v2-risk-card";
 
 type RangeId = "1m" | "3m" | "6m" | "1y" | "all";
 
@@ -195,6 +196,8 @@ export function V2GraphClient({ initialRange, initialSeries }: V2GraphProps) {
         ) : null}
       </div>
 
+      <V2RiskCard range={range} />
+
       <p className="v2-fineprint">
         Per-ticker and normal-vs-excluded split charts will land in a follow-up release.
       </p>
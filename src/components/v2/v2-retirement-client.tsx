@@ -0,0 +1,236 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import {
+  DECUMULATION_PROVINCES,
+  type DecumulationAccount,
+  type DecumulationProvince,
+} from "@/lib/decumulation";
+import type { DecumulationReport } from "@/lib/decumulation-source";
+import { fmtPct } from "./format";
+
+const ORDERS: Array<{ value: string; label: string }> = [
+  { value: "NON_REG,TFSA,RRSP", label: "Non-reg → TFSA → RRSP" },
+  { value: "RRSP,NON_REG,TFSA", label: "RRSP → Non-reg → TFSA" },
+  { value: "NON_REG,RRSP,TFSA", label: "Non-reg → RRSP → TFSA" },
+  { value: "TFSA,NON_REG,RRSP", label: "TFSA → Non-reg → RRSP" },
+];
+
+const cad = (n: number) =>
+  new Intl.NumberFormat("en-CA", { style: "currency", currency: "CAD", maximumFractionDigits: 0 }).format(n);
+const dash = (n: number) => (n > 0 ? cad(n) : "—");
+
+interface FormState {
+  age: string;
+  province: DecumulationProvince;
+  people: "1" | "2";
+  spend: string;
+  return: string;
+  cpp: string;
+  oas: string;
+  pension: string;
+  order: string;
+}
+
+function initialForm(report: DecumulationReport | null): FormState {
+  const input = report?.input;
+  return {
+    age: input ? String(input.currentAge) : "",
+    province: input?.province ?? "ON",
+    people: input?.people === 2 ? "2" : "1",
+    spend: input ? String(input.spendingTargetCAD) : "",
+    return: "",
+    cpp: "",
+    oas: "",
+    pension: "",
+    order: (input?.withdrawalOrder ?? ["NON_REG", "TFSA", "RRSP"] as DecumulationAccount[]).join(","),
+  };
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="v2-fineprint">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+export function V2RetirementClient({ initial }: { initial: DecumulationReport | null }) {
+  const [report, setReport] = useState<DecumulationReport | null>(initial);
+  const [form, setForm] = useState<FormState>(() => initialForm(initial));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = <K extends keyof FormState>(key: K) => (value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  async function run() {
+    const params = new URLSearchParams({ province: form.province, people: form.people, order: form.order });
+    for (const key of ["age", "spend", "return", "cpp", "oas", "pension"] as const) {
+      if (form[key].trim() !== "") params.set(key, form[key].trim());
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/v2/decumulation?${params}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+      setReport(json as DecumulationReport);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const plan = report?.plan;
+  const balances = report?.defaults.balances;
+  const firstPensionYear = plan?.years.find((y) => y.pensionCAD > 0 || y.cppCAD > 0);
+
+  return (
+    <div className="space-y-7">
+      <div className="v2-card p-4 sm:p-6">
+        <div className="v2-display" style={{ fontSize: 17, fontWeight: 600, color: "hsl(var(--v2-ink-strong))" }}>
+          Retirement withdrawals
+        </div>
+        <div className="v2-caption mt-1">
+          Year-by-year draw from non-registered, TFSA and RRSP/RRIF in today&apos;s dollars: §11 meltdown to{" "}
+          71, RRIF minimums after, CPP/OAS/pension from 65, 2026 federal + provincial tax and OAS clawback.
+        </div>
+        {balances ? (
+          <div className="v2-fineprint mt-2 v2-tnum">
+            Starting balances{report?.defaults.asOf ? ` (${report.defaults.asOf})` : ""}: non-reg{" "}
+            {cad(balances.nonRegCAD)} · TFSA {cad(balances.tfsaCAD)} · RRSP{" "}
+            {cad(balances.rrspSchdCAD + balances.rrspOtherCAD)} (SCHD {cad(balances.rrspSchdCAD)})
+          </div>
+        ) : null}
+
+        <form
+          className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-5 sm:items-end"
+          onSubmit={(e) => { e.preventDefault(); run(); }}
+        >
+          <Field label="Age">
+            <input className="v2-input v2-tnum" inputMode="numeric" value={form.age} onChange={(e) => set("age")(e.target.value)} />
+          </Field>
+          <Field label="Province">
+            <select className="v2-select" value={form.province} onChange={(e) => set("province")(e.target.value as DecumulationProvince)}>
+              {DECUMULATION_PROVINCES.map((p) => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </Field>
+          <Field label="People">
+            <select className="v2-select" value={form.people} onChange={(e) => set("people")(e.target.value as "1" | "2")}>
+              <option value="1">Single</option>
+              <option value="2">Couple (split)</option>
+            </select>
+          </Field>
+          <Field label="After-tax spending / yr">
+            <input className="v2-input v2-tnum" inputMode="numeric" value={form.spend} onChange={(e) => set("spend")(e.target.value)} />
+          </Field>
+          <Field label="Real return %">
+            <input className="v2-input v2-tnum" inputMode="decimal" placeholder="4" value={form.return} onChange={(e) => set("return")(e.target.value)} />
+          </Field>
+          <Field label="CPP / person / yr">
+            <input className="v2-input v2-tnum" inputMode="numeric" placeholder="12000" value={form.cpp} onChange={(e) => set("cpp")(e.target.value)} />
+          </Field>
+          <Field label="OAS / person / yr">
+            <input className="v2-input v2-tnum" inputMode="numeric" placeholder="8880" value={form.oas} onChange={(e) => set("oas")(e.target.value)} />
+          </Field>
+          <Field label="Other pension / yr">
+            <input className="v2-input v2-tnum" inputMode="numeric" placeholder="rulebook" value={form.pension} onChange={(e) => set("pension")(e.target.value)} />
+          </Field>
+          <Field label="Withdrawal order">
+            <select className="v2-select" value={form.order} onChange={(e) => set("order")(e.target.value)}>
+              {ORDERS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </Field>
+          <button type="submit" className="v2-btn v2-btn-primary" disabled={loading}>
+            {loading ? "Planning…" : "Plan"}
+          </button>
+        </form>
+        {error ? (
+          <div className="v2-caption mt-3" style={{ color: "hsl(var(--negative))" }}>Couldn&apos;t build the plan · {error}</div>
+        ) : null}
+      </div>
+
+      {!plan ? (
+        <div className="v2-card p-4 sm:p-6 v2-caption">Enter your age (or set a birth year in Settings) to build a plan.</div>
+      ) : (
+        <div className="v2-card p-4 sm:p-6">
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            <div>
+              <div className="v2-fineprint">Money lasts</div>
+              <div className="v2-tnum" style={{ fontSize: 20, fontWeight: 600, color: plan.depletedAtAge != null ? "hsl(var(--negative))" : "hsl(var(--v2-ink-strong))" }}>
+                {plan.depletedAtAge != null ? `to age ${plan.depletedAtAge}` : `past ${plan.years.at(-1)?.age ?? "—"}`}
+              </div>
+            </div>
+            <div>
+              <div className="v2-fineprint">After-tax at {firstPensionYear?.age ?? "65"}</div>
+              <div className="v2-tnum" style={{ fontSize: 20, fontWeight: 600, color: "hsl(var(--v2-ink-strong))" }}>
+                {firstPensionYear ? cad(firstPensionYear.afterTaxIncomeCAD) : "—"}
+              </div>
+            </div>
+            <div>
+              <div className="v2-fineprint">Lifetime tax</div>
+              <div className="v2-tnum" style={{ fontSize: 20, fontWeight: 600, color: "hsl(var(--v2-ink-strong))" }}>
+                {cad(plan.lifetimeTaxCAD)}
+              </div>
+            </div>
+            <div>
+              <div className="v2-fineprint">Average tax rate</div>
+              <div className="v2-tnum" style={{ fontSize: 20, fontWeight: 600, color: "hsl(var(--v2-ink-strong))" }}>
+                {fmtPct(plan.averageTaxRatePct, 1)}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-5 overflow-x-auto">
+            <table className="v2-table">
+              <thead>
+                <tr>
+                  <th>Age</th>
+                  <th className="num">RRSP / RRIF</th>
+                  <th className="num">Non-reg</th>
+                  <th className="num">TFSA</th>
+                  <th className="num">CPP + OAS</th>
+                  <th className="num">Pension</th>
+                  <th className="num">Dividends</th>
+                  <th className="num">Tax</th>
+                  <th className="num">OAS clawback</th>
+                  <th className="num">After tax</th>
+                  <th className="num">End balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.years.map((y) => (
+                  <tr key={y.age}>
+                    <td className="v2-tnum">
+                      {y.age} <span className="v2-fineprint">{y.year}</span>
+                    </td>
+                    <td className="num v2-tnum" title={y.rrifMinimumCAD > 0 ? `RRIF minimum ${cad(y.rrifMinimumCAD)}` : undefined}>
+                      {dash(y.withdrawals.RRSP)}
+                      {y.rrifMinimumCAD > 0 ? <span className="v2-fineprint"> min</span> : null}
+                    </td>
+                    <td className="num v2-tnum">{dash(y.withdrawals.NON_REG)}</td>
+                    <td className="num v2-tnum">{dash(y.withdrawals.TFSA)}</td>
+                    <td className="num v2-tnum">{dash(y.cppCAD + y.oasCAD)}</td>
+                    <td className="num v2-tnum">{dash(y.pensionCAD)}</td>
+                    <td className="num v2-tnum">{dash(y.dividendsCAD)}</td>
+                    <td className="num v2-tnum">{dash(y.federalTaxCAD + y.provincialTaxCAD)}</td>
+                    <td className="num v2-tnum" style={y.oasClawbackCAD > 0 ? { color: "hsl(var(--negative))" } : undefined}>
+                      {dash(y.oasClawbackCAD)}
+                    </td>
+                    <td className="num v2-tnum" style={y.shortfallCAD > 0 ? { color: "hsl(var(--negative))" } : undefined}>
+                      {cad(y.afterTaxIncomeCAD)}
+                    </td>
+                    <td className="num v2-tnum">{cad(y.endBalances.totalCAD)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
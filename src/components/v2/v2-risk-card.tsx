@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { RiskRange, RiskReport } from "@/lib/performance-risk-source";
+import { fmtPct } from "./format";
+
+const pct = (value: number | null, decimals = 1) => (value == null ? "—" : fmtPct(value * 100, decimals));
+const ratio = (value: number | null) => (value == null ? "—" : value.toFixed(2));
+
+export function V2RiskCard({ range }: { range: RiskRange }) {
+  const [report, setReport] = useState<RiskReport | null>(null);
+  const [riskFreeInput, setRiskFreeInput] = useState("");
+  const [riskFree, setRiskFree] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    const rf = riskFree !== "" ? `&rf=${encodeURIComponent(riskFree)}` : "";
+    fetch(`/api/v2/risk?range=${range}${rf}`, { cache: "no-store" })
+      .then(async (r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return (await r.json()) as RiskReport;
+      })
+      .then((data) => { if (!cancelled) setReport(data); })
+      .catch((e) => { if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load"); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [range, riskFree]);
+
+  const riskFreeLabel = report
+    ? report.riskFreeSource === "proxy"
+      ? `${report.riskFreeProxy} yield`
+      : report.riskFreeSource === "none"
+        ? "none"
+        : report.riskFreeSource
+    : "";
+
+  const stats: Array<{ label: string; value: string; hint: string }> = report ? [
+    { label: "Volatility", value: pct(report.volatility), hint: "Annualized standard deviation of flow-adjusted returns" },
+    { label: "Downside dev.", value: pct(report.downsideDeviation), hint: "Annualized deviation of returns below the risk-free rate" },
+    { label: "Sharpe", value: ratio(report.sharpe), hint: "Annual excess return per unit of volatility" },
+    { label: "Sortino", value: ratio(report.sortino), hint: "Annual excess return per unit of downside deviation" },
+  ] : [];
+
+  return (
+    <div className="v2-card p-4 sm:p-6">
+      <div className="flex items-baseline justify-between gap-3">
+        <div className="v2-display" style={{ fontSize: 17, fontWeight: 600, color: "hsl(var(--v2-ink-strong))" }}>
+          Risk
+        </div>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => { e.preventDefault(); setRiskFree(riskFreeInput.trim()); }}
+        >
+          <label className="v2-fineprint" htmlFor="v2-risk-free">
+            Risk-free {report ? `${pct(report.riskFreeRate, 2)} · ${riskFreeLabel}` : ""}
+          </label>
+          <input
+            id="v2-risk-free"
+            className="v2-input v2-tnum"
+            style={{ width: 72 }}
+            inputMode="decimal"
+            placeholder="auto %"
+            value={riskFreeInput}
+            onChange={(e) => setRiskFreeInput(e.target.value)}
+            onBlur={() => setRiskFree(riskFreeInput.trim())}
+          />
+        </form>
+      </div>
+
+      {error ? (
+        <div className="v2-caption mt-3" style={{ color: "hsl(var(--negative))" }}>Couldn&apos;t load risk metrics · {error}</div>
+      ) : !report || report.periods < 2 ? (
+        <div className="v2-caption mt-3">{loading ? "Loading…" : "Not enough history in this range."}</div>
+      ) : (
+        <>
+          <div className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {stats.map((stat) => (
+              <div key={stat.label} title={stat.hint}>
+                <div className="v2-fineprint">{stat.label}</div>
+                <div className="v2-tnum" style={{ fontSize: 20, fontWeight: 600, color: "hsl(var(--v2-ink-strong))" }}>
+                  {stat.value}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-5 flex flex-wrap gap-x-6 gap-y-2">
+            {report.benchmarks.map((b) => (
+              <div key={b.ticker} className="v2-tnum" style={{ fontSize: 13 }}>
+                <span className="v2-body-strong">{b.ticker}</span>
+                <span className="v2-fineprint"> β </span>{ratio(b.beta)}
+                <span className="v2-fineprint"> ρ </span>{ratio(b.correlation)}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-5 overflow-x-auto">
+            <table className="v2-table">
+              <thead>
+                <tr>
+                  <th>Peak</th>
+                  <th>Trough</th>
+                  <th className="num">Depth</th>
+                  <th className="num">Recovery</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.drawdowns.length === 0 ? (
+                  <tr><td colSpan={4} className="v2-caption">No drawdowns in this range.</td></tr>
+                ) : report.drawdowns.slice(0, 5).map((episode) => (
+                  <tr key={episode.peakDate}>
+                    <td className="v2-tnum">{episode.peakDate}</td>
+                    <td className="v2-tnum">{episode.troughDate}</td>
+                    <td className="num v2-tnum" style={{ color: "hsl(var(--negative))" }}>{pct(episode.depth, 2)}</td>
+                    <td className="num v2-tnum">
+                      {episode.recoveryDays == null ? <span className="v2-fineprint">ongoing</span> : `${episode.recoveryDays}d`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {loading ? <div className="v2-fineprint mt-3 text-center">Loading…</div> : null}
+        </>
+      )}
+    </div>
+  );
+}
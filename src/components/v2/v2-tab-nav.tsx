@@ -6,6 +6,7 @@ import { usePathname, useRouter } from "next/navigation";
 const tabs = [
   { href: "/v2", label: "Summary" },
   { href: "/v2/graph", label: "Graph" },
+  { href: "/v2/retirement", label: "Retirement" },
   { href: "/v2/settings", label: "Settings" },
 ] as const;
 
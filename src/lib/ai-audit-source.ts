@@ -0,0 +1,104 @@
+/**
+ * Loads AiCallLog rows for the AI audit page (/v1/ai/audit and
+ * /api/ai/audit) and runs ./ai-audit over them. Spans all users; no
+ * userId, query hash or rawResponse leaves this module.
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  AI_AUDIT_FLAGGED_LIMIT,
+  compareRulebookVersions,
+  summarizeAiAudit,
+  type AiAuditFilters,
+  type AiAuditReport,
+} from "@/lib/ai-audit";
+
+/** Enough for a year of single-household use; beyond it the summary is partial. */
+const MAX_ROWS = 50_000;
+
+const SUMMARY_SELECT = {
+  route: true,
+  provider: true,
+  model: true,
+  rulebookVersion: true,
+  cached: true,
+  status: true,
+  durationMs: true,
+  upstreamDurationMs: true,
+  promptTokens: true,
+  completionTokens: true,
+  totalTokens: true,
+  validationStatus: true,
+  violationCodes: true,
+  createdAt: true,
+} satisfies Prisma.AiCallLogSelect;
+
+async function distinct(field: "rulebookVersion" | "route" | "provider" | "model", since: Date): Promise<string[]> {
+  const rows = await prisma.aiCallLog.findMany({
+    where: { createdAt: { gte: since } },
+    distinct: [field],
+    select: { [field]: true },
+  });
+  return rows.map((r) => (r as Record<string, string>)[field]).sort();
+}
+
+export async function loadAiAuditReport(filters: AiAuditFilters, now = new Date()): Promise<AiAuditReport> {
+  const since = new Date(now.getTime() - filters.days * 24 * 60 * 60 * 1000);
+  const scope: Prisma.AiCallLogWhereInput = {
+    createdAt: { gte: since },
+    ...(filters.route ? { route: filters.route } : {}),
+    ...(filters.provider ? { provider: filters.provider } : {}),
+    ...(filters.model ? { model: filters.model } : {}),
+  };
+  const versionScope = filters.rulebookVersion ? { rulebookVersion: filters.rulebookVersion } : {};
+
+  // Versions are compared across the whole scope, so the rulebookVersion
+  // filter is applied in memory rather than in the query.
+  const rows = await prisma.aiCallLog.findMany({
+    where: scope,
+    select: SUMMARY_SELECT,
+    orderBy: { createdAt: "desc" },
+    take: MAX_ROWS + 1,
+  });
+  const truncated = rows.length > MAX_ROWS;
+  const window = rows.slice(0, MAX_ROWS).reverse();
+  const selected = filters.rulebookVersion ? window.filter((r) => r.rulebookVersion === filters.rulebookVersion) : window;
+
+  const [flagged, rulebookVersions, routes, providers, models] = await Promise.all([
+    prisma.aiCallLog.findMany({
+      where: {
+        ...scope,
+        ...versionScope,
+        OR: [{ status: "validation_rejected" }, { validationStatus: "violation" }],
+      },
+      select: {
+        id: true,
+        createdAt: true,
+        route: true,
+        provider: true,
+        model: true,
+        rulebookVersion: true,
+        status: true,
+        validationStatus: true,
+        violationCodes: true,
+        sanitizedResponse: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: AI_AUDIT_FLAGGED_LIMIT,
+    }),
+    distinct("rulebookVersion", since),
+    distinct("route", since),
+    distinct("provider", since),
+    distinct("model", since),
+  ]);
+
+  return {
+    asOf: now.toISOString(),
+    filters,
+    summary: summarizeAiAudit(selected, since, now),
+    versions: compareRulebookVersions(window),
+    flagged: flagged.map((r) => ({ ...r, createdAt: r.createdAt.toISOString() })),
+    options: { rulebookVersions, routes, providers, models },
+    truncated,
+  };
+}
@@ -0,0 +1,110 @@
+/* Run: npx tsx src/lib/ai-audit.test.ts */
+import { strict as assert } from "node:assert";
+import {
+  AI_AUDIT_DEFAULT_DAYS,
+  compareRulebookVersions,
+  isFlagged,
+  parseAiAuditFilters,
+  summarizeAiAudit,
+  type AiAuditRow,
+} from "./ai-audit";
+
+function row(overrides: Partial<AiAuditRow> = {}): AiAuditRow {
+  return {
+    route: "ai/chat",
+    provider: "hermes",
+    model: "hermes-agent",
+    rulebookVersion: "v4.4.2-1",
+    cached: false,
+    status: "ok",
+    durationMs: 1000,
+    upstreamDurationMs: 900,
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    validationStatus: "pass",
+    violationCodes: [],
+    createdAt: new Date("2026-10-10T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+// Filters: defaults, trimming, days bounds.
+assert.deepEqual(parseAiAuditFilters(new URLSearchParams("")), {
+  days: AI_AUDIT_DEFAULT_DAYS,
+  rulebookVersion: null,
+  route: null,
+  provider: null,
+  model: null,
+});
+assert.deepEqual(parseAiAuditFilters(new URLSearchParams("days=7&rulebookVersion=%20v4.4.2-2%20&route=")), {
+  days: 7,
+  rulebookVersion: "v4.4.2-2",
+  route: null,
+  provider: null,
+  model: null,
+});
+assert.equal(parseAiAuditFilters(new URLSearchParams("days=0")), null);
+assert.equal(parseAiAuditFilters(new URLSearchParams("days=2.5")), null);
+assert.equal(parseAiAuditFilters(new URLSearchParams("days=1000")), null);
+
+// Violations are logged as status "ok" + validationStatus "violation".
+assert.equal(isFlagged({ status: "ok", validationStatus: "violation" }), true);
+assert.equal(isFlagged({ status: "validation_rejected", validationStatus: null }), true);
+assert.equal(isFlagged({ status: "ok", validationStatus: "pass" }), false);
+
+{
+  const rows = [
+    row({ durationMs: 1000 }),
+    row({ durationMs: 2000, route: "ai/briefing", provider: "openai", model: "gpt-4o-mini" }),
+    row({ durationMs: 3000, validationStatus: "violation", violationCodes: ["SCHD_SELL"] }),
+    row({ cached: true, durationMs: 5, upstreamDurationMs: null, promptTokens: null, completionTokens: null, totalTokens: null }),
+    row({ status: "throttled", durationMs: 2, upstreamDurationMs: null, validationStatus: null, totalTokens: null, promptTokens: null, completionTokens: null, createdAt: new Date("2026-10-11T01:00:00Z") }),
+    row({ status: "upstream_error", durationMs: 9000, upstreamDurationMs: null, validationStatus: null, totalTokens: null, promptTokens: null, completionTokens: null }),
+  ];
+  const s = summarizeAiAudit(rows, new Date("2026-10-09T08:00:00Z"), new Date("2026-10-11T08:00:00Z"));
+
+  assert.equal(s.totals.calls, 6);
+  assert.equal(s.totals.throttled, 1);
+  assert.equal(s.totals.errors, 1);
+  assert.equal(s.totals.flagged, 1);
+  assert.equal(s.totals.validated, 4);
+  assert.equal(s.totals.totalTokens, 450);
+  assert.equal(s.totals.cacheHitRate, 1 / 5, "throttled calls never reach the cache");
+  assert.equal(s.totals.throttleRate, 1 / 6);
+
+  // Cache hits and throttles are left out of latency.
+  assert.equal(s.latency.samples, 4);
+  assert.equal(s.latency.p50Ms, 2500);
+  assert.equal(s.latency.p95Ms, 8100);
+  assert.equal(s.latency.upstreamP50Ms, 900);
+
+  // Zero-filled UTC days.
+  assert.deepEqual(s.daily.map((d) => d.date), ["2026-10-09", "2026-10-10", "2026-10-11"]);
+  assert.deepEqual(s.daily.map((d) => d.calls), [0, 5, 1]);
+  assert.deepEqual(s.daily[1].byRoute, { "ai/chat": 4, "ai/briefing": 1 });
+  assert.equal(s.daily[1].totalTokens, 450);
+
+  assert.deepEqual(s.byRoute.map((b) => [b.key, b.calls]), [["ai/chat", 5], ["ai/briefing", 1]]);
+  assert.deepEqual(s.byModel.map((b) => b.key), ["hermes/hermes-agent", "openai/gpt-4o-mini"]);
+}
+
+// Version comparison: rate over validated replies, oldest version first.
+{
+  const versions = compareRulebookVersions([
+    row({ rulebookVersion: "v4.4.2-2", createdAt: new Date("2026-10-15T00:00:00Z") }),
+    row({ rulebookVersion: "v4.4.2-1", validationStatus: "violation", violationCodes: ["SCHD_SELL", "OPTIMISTIC_SCENARIO"] }),
+    row({ rulebookVersion: "v4.4.2-1", validationStatus: "violation", violationCodes: ["SCHD_SELL"] }),
+    row({ rulebookVersion: "v4.4.2-1" }),
+    row({ rulebookVersion: "v4.4.2-1", status: "throttled", validationStatus: null }),
+  ]);
+  assert.deepEqual(versions.map((v) => v.rulebookVersion), ["v4.4.2-1", "v4.4.2-2"]);
+  assert.equal(versions[0].calls, 4);
+  assert.equal(versions[0].validated, 3);
+  assert.equal(versions[0].violationRate, 2 / 3);
+  assert.deepEqual(versions[0].topCodes, [{ code: "SCHD_SELL", count: 2 }, { code: "OPTIMISTIC_SCENARIO", count: 1 }]);
+  assert.equal(versions[1].violationRate, 0);
+  assert.equal(compareRulebookVersions([row({ validationStatus: null })])[0].violationRate, null);
+}
+
+console.log("ai audit tests passed");
@@ -0,0 +1,333 @@
+/**
+ * Admin view over AiCallLog: volume by route / provider / model, latency
+ * percentiles, token spend per day, cache hit rate, throttle rejections and
+ * rulebook violations. Pure; rows come from ./ai-audit-source.
+ *
+ * "Flagged" covers status "validation_rejected" and validationStatus
+ * "violation". The routes log a violating reply as status "ok" (the sanitized
+ * text was still served), so filtering on status alone would miss them.
+ */
+import { percentile } from "./projection-monte-carlo";
+
+export const AI_AUDIT_DEFAULT_DAYS = 30;
+export const AI_AUDIT_MAX_DAYS = 365;
+export const AI_AUDIT_FLAGGED_LIMIT = 100;
+
+export interface AiAuditFilters {
+  days: number;
+  rulebookVersion: string | null;
+  route: string | null;
+  provider: string | null;
+  model: string | null;
+}
+
+/** The AiCallLog columns the summary reads; rawResponse is never loaded. */
+export interface AiAuditRow {
+  route: string;
+  provider: string;
+  model: string;
+  rulebookVersion: string;
+  cached: boolean;
+  status: string;
+  durationMs: number;
+  upstreamDurationMs: number | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+  validationStatus: string | null;
+  violationCodes: string[];
+  createdAt: Date;
+}
+
+export interface AiAuditLatency {
+  samples: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  upstreamP50Ms: number | null;
+  upstreamP95Ms: number | null;
+}
+
+export interface AiAuditTotals {
+  calls: number;
+  ok: number;
+  cached: number;
+  throttled: number;
+  errors: number;
+  /** Replies the validator checked: passed or flagged. */
+  validated: number;
+  flagged: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** cached / calls that got past the throttle; null with no such calls. */
+  cacheHitRate: number | null;
+  throttleRate: number | null;
+}
+
+export interface AiAuditDay {
+  date: string;
+  calls: number;
+  cached: number;
+  throttled: number;
+  flagged: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  byRoute: Record<string, number>;
+}
+
+export interface AiAuditBreakdown {
+  key: string;
+  calls: number;
+  cached: number;
+  throttled: number;
+  errors: number;
+  flagged: number;
+  totalTokens: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+export interface AiAuditVersionRow {
+  rulebookVersion: string;
+  calls: number;
+  validated: number;
+  flagged: number;
+  /** flagged / validated; null before the validator saw any reply. */
+  violationRate: number | null;
+  topCodes: { code: string; count: number }[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface AiAuditFlaggedResponse {
+  id: string;
+  createdAt: string;
+  route: string;
+  provider: string;
+  model: string;
+  rulebookVersion: string;
+  status: string;
+  validationStatus: string | null;
+  violationCodes: string[];
+  sanitizedResponse: string | null;
+}
+
+export interface AiAuditSummary {
+  totals: AiAuditTotals;
+  latency: AiAuditLatency;
+  daily: AiAuditDay[];
+  byRoute: AiAuditBreakdown[];
+  byProvider: AiAuditBreakdown[];
+  byModel: AiAuditBreakdown[];
+}
+
+export interface AiAuditReport {
+  asOf: string;
+  filters: AiAuditFilters;
+  summary: AiAuditSummary;
+  /**
+   * Every version in the window, ignoring the rulebookVersion filter (the
+   * other filters still apply), so a prompt change can be compared with the
+   * one before it.
+   */
+  versions: AiAuditVersionRow[];
+  flagged: AiAuditFlaggedResponse[];
+  options: { rulebookVersions: string[]; routes: string[]; providers: string[]; models: string[] };
+  /** True when the window held more rows than the loader reads. */
+  truncated: boolean;
+}
+
+/** Query string → filters; null on an out-of-range `days`. */
+export function parseAiAuditFilters(params: URLSearchParams): AiAuditFilters | null {
+  const rawDays = params.get("days");
+  const days = rawDays == null || rawDays === "" ? AI_AUDIT_DEFAULT_DAYS : Number(rawDays);
+  if (!Number.isInteger(days) || days < 1 || days > AI_AUDIT_MAX_DAYS) return null;
+  const text = (name: string) => params.get(name)?.trim().slice(0, 100) || null;
+  return {
+    days,
+    rulebookVersion: text("rulebookVersion"),
+    route: text("route"),
+    provider: text("provider"),
+    model: text("model"),
+  };
+}
+
+export function isFlagged(row: Pick<AiAuditRow, "status" | "validationStatus">): boolean {
+  return row.status === "validation_rejected" || row.validationStatus === "violation";
+}
+
+function isError(row: Pick<AiAuditRow, "status">): boolean {
+  return row.status === "auth_error" || row.status === "upstream_error";
+}
+
+/**
+ * Latency only counts calls that reached the provider: cache hits and
+ * throttle rejections return in milliseconds and would drag p50 to zero.
+ */
+function upstreamCalls(rows: AiAuditRow[]): AiAuditRow[] {
+  return rows.filter((r) => !r.cached && r.status !== "throttled");
+}
+
+function sortedMs(values: (number | null)[]): number[] {
+  return values.filter((v): v is number => v != null).sort((a, b) => a - b);
+}
+
+function pct(sorted: number[], p: number): number | null {
+  return sorted.length ? Math.round(percentile(sorted, p)) : null;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+export function summarizeLatency(rows: AiAuditRow[]): AiAuditLatency {
+  const live = upstreamCalls(rows);
+  const duration = sortedMs(live.map((r) => r.durationMs));
+  const upstream = sortedMs(live.map((r) => r.upstreamDurationMs));
+  return {
+    samples: duration.length,
+    p50Ms: pct(duration, 0.5),
+    p95Ms: pct(duration, 0.95),
+    upstreamP50Ms: pct(upstream, 0.5),
+    upstreamP95Ms: pct(upstream, 0.95),
+  };
+}
+
+function totalsOf(rows: AiAuditRow[]): AiAuditTotals {
+  let ok = 0, cached = 0, throttled = 0, errors = 0, validated = 0, flagged = 0;
+  let promptTokens = 0, completionTokens = 0, totalTokens = 0;
+  for (const r of rows) {
+    if (r.status === "ok") ok++;
+    if (r.cached) cached++;
+    if (r.status === "throttled") throttled++;
+    if (isError(r)) errors++;
+    if (r.validationStatus === "pass" || isFlagged(r)) validated++;
+    if (isFlagged(r)) flagged++;
+    promptTokens += r.promptTokens ?? 0;
+    completionTokens += r.completionTokens ?? 0;
+    totalTokens += r.totalTokens ?? 0;
+  }
+  return {
+    calls: rows.length,
+    ok,
+    cached,
+    throttled,
+    errors,
+    validated,
+    flagged,
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    cacheHitRate: ratio(cached, rows.length - throttled),
+    throttleRate: ratio(throttled, rows.length),
+  };
+}
+
+function groupBy(rows: AiAuditRow[], keyOf: (r: AiAuditRow) => string): Map<string, AiAuditRow[]> {
+  const groups = new Map<string, AiAuditRow[]>();
+  for (const r of rows) {
+    const key = keyOf(r);
+    const group = groups.get(key);
+    if (group) group.push(r);
+    else groups.set(key, [r]);
+  }
+  return groups;
+}
+
+function breakdown(rows: AiAuditRow[], keyOf: (r: AiAuditRow) => string): AiAuditBreakdown[] {
+  return [...groupBy(rows, keyOf).entries()]
+    .map(([key, group]) => {
+      const t = totalsOf(group);
+      const latency = summarizeLatency(group);
+      return {
+        key,
+        calls: t.calls,
+        cached: t.cached,
+        throttled: t.throttled,
+        errors: t.errors,
+        flagged: t.flagged,
+        totalTokens: t.totalTokens,
+        p50Ms: latency.p50Ms,
+        p95Ms: latency.p95Ms,
+      };
+    })
+    .sort((a, b) => b.calls - a.calls || a.key.localeCompare(b.key));
+}
+
+/** UTC calendar days from `since` through `until`, zero-filled. */
+export function dailySeries(rows: AiAuditRow[], since: Date, until: Date): AiAuditDay[] {
+  const days = new Map<string, AiAuditDay>();
+  const cursor = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate()));
+  while (cursor <= until) {
+    const date = cursor.toISOString().slice(0, 10);
+    days.set(date, {
+      date,
+      calls: 0,
+      cached: 0,
+      throttled: 0,
+      flagged: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      byRoute: {},
+    });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  for (const r of rows) {
+    const day = days.get(r.createdAt.toISOString().slice(0, 10));
+    if (!day) continue;
+    day.calls++;
+    if (r.cached) day.cached++;
+    if (r.status === "throttled") day.throttled++;
+    if (isFlagged(r)) day.flagged++;
+    day.promptTokens += r.promptTokens ?? 0;
+    day.completionTokens += r.completionTokens ?? 0;
+    day.totalTokens += r.totalTokens ?? 0;
+    day.byRoute[r.route] = (day.byRoute[r.route] ?? 0) + 1;
+  }
+  return [...days.values()];
+}
+
+export function summarizeAiAudit(rows: AiAuditRow[], since: Date, until: Date): AiAuditSummary {
+  return {
+    totals: totalsOf(rows),
+    latency: summarizeLatency(rows),
+    daily: dailySeries(rows, since, until),
+    byRoute: breakdown(rows, (r) => r.route),
+    byProvider: breakdown(rows, (r) => r.provider),
+    byModel: breakdown(rows, (r) => `${r.provider}/${r.model}`),
+  };
+}
+
+/** Violation rate per rulebook version, oldest version first. */
+export function compareRulebookVersions(rows: AiAuditRow[]): AiAuditVersionRow[] {
+  return [...groupBy(rows, (r) => r.rulebookVersion).entries()]
+    .map(([rulebookVersion, group]) => {
+      const t = totalsOf(group);
+      const codes = new Map<string, number>();
+      for (const r of group) {
+        if (!isFlagged(r)) continue;
+        for (const code of r.violationCodes) codes.set(code, (codes.get(code) ?? 0) + 1);
+      }
+      let first = Infinity, last = -Infinity;
+      for (const r of group) {
+        first = Math.min(first, r.createdAt.getTime());
+        last = Math.max(last, r.createdAt.getTime());
+      }
+      return {
+        rulebookVersion,
+        calls: t.calls,
+        validated: t.validated,
+        flagged: t.flagged,
+        violationRate: ratio(t.flagged, t.validated),
+        topCodes: [...codes.entries()]
+          .map(([code, count]) => ({ code, count }))
+          .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code))
+          .slice(0, 5),
+        firstSeen: new Date(first).toISOString(),
+        lastSeen: new Date(last).toISOString(),
+      };
+    })
+    .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen));
+}
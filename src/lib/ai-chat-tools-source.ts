@@ -0,0 +1,163 @@
+/**
+ * Executes the ./ai-chat-tools calls for one /api/ai/chat request. Read-only:
+ * the overview, holdings and rulebook tools slice one buildPortfolioContext()
+ * snapshot (built on first use, then reused for the rest of the request), the
+ * dividend and transaction tools query Transaction rows directly, and
+ * run_what_if goes through the in-memory what-if sandbox.
+ */
+import { prisma } from "@/lib/db";
+import { buildPortfolioContext } from "@/lib/openai";
+import { getFxRate } from "@/lib/price";
+import { loadWhatIfReport } from "@/lib/rulebook-what-if-source";
+import { matchesAccount, type ChatToolArgs } from "@/lib/ai-chat-tools";
+
+interface ContextAccount {
+  name: string;
+  type: string;
+  valueCAD: number;
+  costCAD: number;
+  gainCAD: number;
+  gainPct: number;
+  todayChangeCAD: number;
+  holdings: unknown[];
+}
+
+interface PortfolioContext {
+  date: string;
+  fxRate: number;
+  fxFallbackInUse: boolean;
+  unverified: string[];
+  rulebook: unknown;
+  accounts: ContextAccount[];
+  [key: string]: unknown;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function num(value: { toString(): string } | null | undefined): number {
+  const parsed = parseFloat(value?.toString() ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+async function loadDividendIncome(userId: string, year: number) {
+  const [rows, fx] = await Promise.all([
+    prisma.transaction.findMany({
+      where: {
+        action: "DIVIDEND",
+        date: { gte: new Date(`${year}-01-01`), lt: new Date(`${year + 1}-01-01`) },
+        holding: { portfolio: { userId } },
+      },
+      select: {
+        date: true,
+        quantity: true,
+        price: true,
+        fxRateCAD: true,
+        withholdingTax: true,
+        holding: { select: { ticker: true, currency: true } },
+      },
+      orderBy: { date: "asc" },
+    }),
+    getFxRate(),
+  ]);
+
+  const byMonth = new Map<string, number>();
+  const byTicker = new Map<string, number>();
+  let grossCAD = 0;
+  let withheldCAD = 0;
+  for (const row of rows) {
+    const rate = row.holding.currency === "USD" ? num(row.fxRateCAD) || fx.rate : 1;
+    const amountCAD = num(row.quantity) * num(row.price) * rate;
+    const month = row.date.toISOString().slice(0, 7);
+    byMonth.set(month, (byMonth.get(month) ?? 0) + amountCAD);
+    byTicker.set(row.holding.ticker, (byTicker.get(row.holding.ticker) ?? 0) + amountCAD);
+    grossCAD += amountCAD;
+    withheldCAD += num(row.withholdingTax) * rate;
+  }
+
+  return {
+    year,
+    currency: "CAD",
+    payments: rows.length,
+    grossCAD: round2(grossCAD),
+    withheldCAD: round2(withheldCAD),
+    netCAD: round2(grossCAD - withheldCAD),
+    byMonth: [...byMonth.entries()].map(([month, amountCAD]) => ({ month, amountCAD: round2(amountCAD) })),
+    byTicker: [...byTicker.entries()]
+      .map(([ticker, amountCAD]) => ({ ticker, amountCAD: round2(amountCAD) }))
+      .sort((a, b) => b.amountCAD - a.amountCAD),
+    ...(fx.fallback ? { note: "USD rows without a recorded FX rate use the fallback USD/CAD rate" } : {}),
+  };
+}
+
+async function loadTransactions(userId: string, args: Extract<ChatToolArgs, { name: "get_transactions" }>) {
+  const rows = await prisma.transaction.findMany({
+    where: {
+      holding: { portfolio: { userId }, ...(args.ticker ? { ticker: args.ticker } : {}) },
+      ...(args.action ? { action: args.action } : {}),
+      ...(args.from || args.to
+        ? { date: { ...(args.from ? { gte: new Date(args.from) } : {}), ...(args.to ? { lte: new Date(`${args.to}T23:59:59.999Z`) } : {}) } }
+        : {}),
+    },
+    select: {
+      date: true,
+      action: true,
+      quantity: true,
+      price: true,
+      commission: true,
+      holding: { select: { ticker: true, currency: true, portfolio: { select: { name: true, accountType: true } } } },
+    },
+    orderBy: { date: "desc" },
+    // The account filter matches names as well as types, so it runs in memory.
+    take: args.account ? undefined : args.limit,
+  });
+
+  return rows
+    .filter((row) => matchesAccount(args.account, { name: row.holding.portfolio.name, type: row.holding.portfolio.accountType }))
+    .slice(0, args.limit)
+    .map((row) => ({
+      date: row.date.toISOString().slice(0, 10),
+      account: row.holding.portfolio.name,
+      ticker: row.holding.ticker,
+      action: row.action,
+      quantity: num(row.quantity),
+      price: num(row.price),
+      commission: num(row.commission),
+      currency: row.holding.currency,
+    }));
+}
+
+/** Returns an executor bound to one user and one request. */
+export function createChatToolExecutor(userId: string): (args: ChatToolArgs) => Promise<unknown> {
+  let context: Promise<PortfolioContext> | null = null;
+  const portfolioContext = () =>
+    (context ??= buildPortfolioContext(userId).then((json) => JSON.parse(json) as PortfolioContext));
+
+  return async (args) => {
+    switch (args.name) {
+      case "get_portfolio_overview": {
+        const { accounts, rulebook: _rulebook, recentTrades: _trades, ...overview } = await portfolioContext();
+        return {
+          ...overview,
+          accounts: accounts.map(({ holdings, ...account }) => ({ ...account, holdingCount: holdings.length })),
+        };
+      }
+      case "get_holdings": {
+        const ctx = await portfolioContext();
+        const accounts = ctx.accounts.filter((account) => matchesAccount(args.account, account));
+        return { date: ctx.date, fxRate: ctx.fxRate, unverified: ctx.unverified, accounts };
+      }
+      case "get_rulebook_weights": {
+        const ctx = await portfolioContext();
+        return { date: ctx.date, fxFallbackInUse: ctx.fxFallbackInUse, rulebook: ctx.rulebook };
+      }
+      case "get_dividend_income":
+        return loadDividendIncome(userId, args.year);
+      case "get_transactions":
+        return { transactions: await loadTransactions(userId, args) };
+      case "run_what_if":
+        return loadWhatIfReport(userId, args.actions);
+    }
+  };
+}
@@ -0,0 +1,83 @@
+/* Run: npx tsx src/lib/ai-chat-tools.test.ts */
+import { strict as assert } from "node:assert";
+import {
+  CHAT_TOOLS,
+  CHAT_TOOL_RESULT_MAX_CHARS,
+  CHAT_TOOL_TRANSACTION_LIMIT,
+  matchesAccount,
+  parseChatToolArgs,
+  serializeToolResult,
+  toolArgumentsForLog,
+} from "./ai-chat-tools";
+
+// Every definition parses with its own minimal arguments.
+{
+  const minimal: Record<string, string> = {
+    get_dividend_income: '{"year":2025}',
+    run_what_if: '{"actions":[{"kind":"shock","ticker":"QLD","pct":-30}]}',
+  };
+  for (const tool of CHAT_TOOLS) {
+    assert.equal(parseChatToolArgs(tool.function.name, minimal[tool.function.name] ?? "").name, tool.function.name);
+  }
+}
+
+// Empty arguments are an empty object; non-objects are rejected.
+assert.deepEqual(parseChatToolArgs("get_holdings", ""), { name: "get_holdings", account: null });
+assert.deepEqual(parseChatToolArgs("get_holdings", '{"account":"  TFSA "}'), { name: "get_holdings", account: "TFSA" });
+assert.throws(() => parseChatToolArgs("get_holdings", "[1]"), /JSON object/);
+assert.throws(() => parseChatToolArgs("get_holdings", "{not json"));
+assert.throws(() => parseChatToolArgs("place_order", "{}"), /unknown tool: place_order/);
+
+// Dividend year bounds.
+assert.throws(() => parseChatToolArgs("get_dividend_income", "{}"), /year/);
+assert.throws(() => parseChatToolArgs("get_dividend_income", '{"year":2025.5}'), /year/);
+
+// Transactions: defaults, normalisation, limit clamp, date validation.
+assert.deepEqual(parseChatToolArgs("get_transactions", '{"ticker":"schd","action":"buy","from":"2025-01-01"}'), {
+  name: "get_transactions",
+  ticker: "SCHD",
+  account: null,
+  action: "BUY",
+  from: "2025-01-01",
+  to: null,
+  limit: 20,
+});
+{
+  const args = parseChatToolArgs("get_transactions", '{"limit":500}');
+  assert.equal(args.name === "get_transactions" && args.limit, CHAT_TOOL_TRANSACTION_LIMIT);
+}
+assert.throws(() => parseChatToolArgs("get_transactions", '{"action":"DEPOSIT"}'), /action/);
+assert.throws(() => parseChatToolArgs("get_transactions", '{"from":"last week"}'), /from must be YYYY-MM-DD/);
+assert.throws(() => parseChatToolArgs("get_transactions", '{"limit":0}'), /limit/);
+
+// What-if actions go through the sandbox's own validator.
+assert.deepEqual(
+  parseChatToolArgs("run_what_if", '{"actions":[{"kind":"trade","ticker":"tqqq","side":"BUY","amountCAD":5000}]}'),
+  { name: "run_what_if", actions: [{ kind: "trade", ticker: "TQQQ", side: "BUY", amountCAD: 5000 }] },
+);
+assert.throws(() => parseChatToolArgs("run_what_if", '{"actions":[]}'), /1 to/);
+assert.throws(
+  () => parseChatToolArgs("run_what_if", '{"actions":[{"kind":"shock","ticker":"QLD","pct":-30},{"kind":"trade","ticker":"QLD","side":"HOLD","amountCAD":1}]}'),
+  /invalid action #2/,
+);
+
+// Account filter: type exact, name substring, case-insensitive.
+const tfsa = { name: "Sangbong TFSA", type: "TFSA" };
+assert.equal(matchesAccount(null, tfsa), true);
+assert.equal(matchesAccount("tfsa", tfsa), true);
+assert.equal(matchesAccount("sangbong", tfsa), true);
+assert.equal(matchesAccount("RRSP", tfsa), false);
+
+// Oversized results are cut with a note the model can act on.
+assert.equal(serializeToolResult({ a: 1 }), '{"a":1}');
+{
+  const big = serializeToolResult({ rows: "x".repeat(CHAT_TOOL_RESULT_MAX_CHARS * 2) });
+  assert.ok(big.length <= CHAT_TOOL_RESULT_MAX_CHARS);
+  assert.equal(JSON.parse(big).truncated, true);
+}
+
+assert.deepEqual(toolArgumentsForLog('{"year":2025}'), { year: 2025 });
+assert.deepEqual(toolArgumentsForLog(""), {});
+assert.equal(toolArgumentsForLog("{broken"), "{broken");
+
+console.log("ai chat tools tests passed");
@@ -0,0 +1,254 @@
+/**
+ * Read-only tools exposed to the model by /api/ai/chat. Instead of pasting the
+ * whole buildPortfolioContext() JSON into every turn, the model asks for the
+ * slice it needs. Pure: definitions (OpenAI function-calling schema),
+ * argument validation and result shaping. Execution against the DB lives in
+ * ./ai-chat-tools-source.
+ *
+ * Nothing here can place, queue or persist a trade — run_what_if is the
+ * in-memory sandbox from ./rulebook-what-if.
+ */
+import { WHAT_IF_MAX_ACTIONS, parseWhatIfAction, type WhatIfAction } from "./rulebook-what-if";
+
+/** Upstream rounds with tools enabled; the next round is forced to answer in text. */
+export const CHAT_TOOL_MAX_ROUNDS = 4;
+/** Tool results are cut to this many characters before going back to the model. */
+export const CHAT_TOOL_RESULT_MAX_CHARS = 12_000;
+export const CHAT_TOOL_TRANSACTION_LIMIT = 50;
+
+export type ChatToolName =
+  | "get_portfolio_overview"
+  | "get_holdings"
+  | "get_rulebook_weights"
+  | "get_dividend_income"
+  | "get_transactions"
+  | "run_what_if";
+
+export type ChatToolArgs =
+  | { name: "get_portfolio_overview" }
+  | { name: "get_holdings"; account: string | null }
+  | { name: "get_rulebook_weights" }
+  | { name: "get_dividend_income"; year: number }
+  | {
+      name: "get_transactions";
+      ticker: string | null;
+      account: string | null;
+      action: "BUY" | "SELL" | "DIVIDEND" | null;
+      from: string | null;
+      to: string | null;
+      limit: number;
+    }
+  | { name: "run_what_if"; actions: WhatIfAction[] };
+
+/** One executed tool call as recorded in AiCallLog.toolCalls. */
+export interface AiToolCallRecord {
+  name: string;
+  /** Parsed arguments; the raw string when it was not valid JSON. */
+  arguments: unknown;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+  resultChars: number;
+}
+
+export interface ChatToolDefinition {
+  type: "function";
+  function: { name: ChatToolName; description: string; parameters: Record<string, unknown> };
+}
+
+const NO_PARAMS = { type: "object", properties: {}, additionalProperties: false };
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_portfolio_overview",
+      description:
+        "Totals in CAD (value, cost, gain, annual dividends), per-account value, FX rate, TFSA/RRSP contribution room, investor profile, regular contribution plan and items marked unverified.",
+      parameters: NO_PARAMS,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_holdings",
+      description:
+        "Holdings per account: shares, price, CAD value and cost, gain, weight vs target, dividend per share and yield. Optionally one account by name or type (TFSA, RRSP, FHSA, RESP, TAXABLE).",
+      parameters: {
+        type: "object",
+        properties: { account: { type: "string", description: "Account name or type; omit for all accounts." } },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_rulebook_weights",
+      description:
+        "Rulebook v4.4.2 state from computeRulebookWeights: core/total weights (QLD on core basis), trigger flags, targets, weekly QQQI/SGOV plan, core 70/30 allocation, hard-exit plan and constraints.",
+      parameters: NO_PARAMS,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_dividend_income",
+      description: "Dividends actually received in one calendar year from recorded transactions: CAD totals, withholding, by month and by ticker.",
+      parameters: {
+        type: "object",
+        properties: { year: { type: "integer", minimum: 2000, maximum: 2100 } },
+        required: ["year"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_transactions",
+      description: `Transaction history, newest first, at most ${CHAT_TOOL_TRANSACTION_LIMIT} rows. Filter by ticker, account, action and ISO date range.`,
+      parameters: {
+        type: "object",
+        properties: {
+          ticker: { type: "string" },
+          account: { type: "string", description: "Account name or type." },
+          action: { type: "string", enum: ["BUY", "SELL", "DIVIDEND"] },
+          from: { type: "string", description: "YYYY-MM-DD, inclusive." },
+          to: { type: "string", description: "YYYY-MM-DD, inclusive." },
+          limit: { type: "integer", minimum: 1, maximum: CHAT_TOOL_TRANSACTION_LIMIT },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "run_what_if",
+      description:
+        "Simulation only — nothing is traded or saved. Applies hypothetical CAD trades and % price shocks to the current book in order and returns rulebook weights before/after, flag changes and the plans the triggers would generate.",
+      parameters: {
+        type: "object",
+        properties: {
+          actions: {
+            type: "array",
+            maxItems: WHAT_IF_MAX_ACTIONS,
+            items: {
+              type: "object",
+              properties: {
+                kind: { type: "string", enum: ["trade", "shock"] },
+                ticker: { type: "string" },
+                side: { type: "string", enum: ["BUY", "SELL"], description: "trade only" },
+                amountCAD: { type: "number", description: "trade only, > 0" },
+                pct: { type: "number", description: "shock only, −100 to 1000" },
+              },
+              required: ["kind", "ticker"],
+            },
+          },
+        },
+        required: ["actions"],
+        additionalProperties: false,
+      },
+    },
+  },
+];
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function optionalString(value: unknown, max = 64): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, max) : null;
+}
+
+function optionalDate(value: unknown, field: string): string | null {
+  const text = optionalString(value);
+  if (text == null) return null;
+  if (!ISO_DATE_RE.test(text) || Number.isNaN(Date.parse(text))) throw new Error(`${field} must be YYYY-MM-DD`);
+  return text;
+}
+
+/**
+ * Validates the model's raw JSON arguments for one tool call. Throws an Error
+ * whose message goes back to the model as the tool result, so it can retry.
+ */
+export function parseChatToolArgs(name: string, rawArguments: string): ChatToolArgs {
+  let args: Record<string, unknown> = {};
+  if (rawArguments.trim()) {
+    const parsed: unknown = JSON.parse(rawArguments);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("arguments must be a JSON object");
+    args = parsed as Record<string, unknown>;
+  }
+
+  switch (name) {
+    case "get_portfolio_overview":
+    case "get_rulebook_weights":
+      return { name };
+    case "get_holdings":
+      return { name, account: optionalString(args.account) };
+    case "get_dividend_income": {
+      const year = Number(args.year);
+      if (!Number.isInteger(year) || year < 2000 || year > 2100) throw new Error("year must be an integer between 2000 and 2100");
+      return { name, year };
+    }
+    case "get_transactions": {
+      const action = args.action == null ? null : String(args.action).toUpperCase();
+      if (action != null && action !== "BUY" && action !== "SELL" && action !== "DIVIDEND") {
+        throw new Error("action must be BUY, SELL or DIVIDEND");
+      }
+      const limit = args.limit == null ? 20 : Number(args.limit);
+      if (!Number.isInteger(limit) || limit < 1) throw new Error("limit must be a positive integer");
+      const ticker = optionalString(args.ticker, 12);
+      return {
+        name,
+        ticker: ticker ? ticker.toUpperCase() : null,
+        account: optionalString(args.account),
+        action,
+        from: optionalDate(args.from, "from"),
+        to: optionalDate(args.to, "to"),
+        limit: Math.min(limit, CHAT_TOOL_TRANSACTION_LIMIT),
+      };
+    }
+    case "run_what_if": {
+      if (!Array.isArray(args.actions) || args.actions.length === 0 || args.actions.length > WHAT_IF_MAX_ACTIONS) {
+        throw new Error(`actions must be an array of 1 to ${WHAT_IF_MAX_ACTIONS} items`);
+      }
+      const actions = args.actions.map((raw, i) => {
+        const action = parseWhatIfAction(raw);
+        if (!action) throw new Error(`invalid action #${i + 1}`);
+        return action;
+      });
+      return { name, actions };
+    }
+    default:
+      throw new Error(`unknown tool: ${name}`);
+  }
+}
+
+/** True when `account` (name or type, case-insensitive) selects this account. */
+export function matchesAccount(filter: string | null, account: { name: string; type: string }): boolean {
+  if (!filter) return true;
+  const needle = filter.toUpperCase();
+  return account.type.toUpperCase() === needle || account.name.toUpperCase().includes(needle);
+}
+
+/** JSON for the `tool` message, cut to CHAT_TOOL_RESULT_MAX_CHARS. */
+export function serializeToolResult(result: unknown): string {
+  const json = JSON.stringify(result) ?? "null";
+  if (json.length <= CHAT_TOOL_RESULT_MAX_CHARS) return json;
+  return JSON.stringify({
+    truncated: true,
+    note: "Result too large; narrow the request (account, ticker, date range or limit).",
+    partial: json.slice(0, CHAT_TOOL_RESULT_MAX_CHARS - 200),
+  });
+}
+
+/** Stored form of the raw arguments: parsed JSON when possible. */
+export function toolArgumentsForLog(rawArguments: string): unknown {
+  try {
+    return rawArguments.trim() ? JSON.parse(rawArguments) : {};
+  } catch {
+    return rawArguments.slice(0, 500);
+  }
+}
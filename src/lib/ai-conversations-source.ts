@@ -0,0 +1,171 @@
+/**
+ * Prisma access for AI chat conversations. Every read and write is scoped by
+ * userId; a conversation id owned by someone else behaves as not found.
+ * Stored text goes through redactString(), as AiCallLog does.
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { redact, redactString } from "@/lib/audit/redact";
+import type { AiToolCallRecord } from "@/lib/ai-chat-tools";
+import type { Violation } from "@/lib/ai-validation/validateAiOutput";
+import {
+  AI_CHAT_HISTORY_MESSAGES,
+  AI_CONVERSATION_LIST_LIMIT,
+  chatHistoryForModel,
+  conversationTitleFrom,
+  searchSnippet,
+  type AiConversationDetail,
+  type AiConversationMessageView,
+  type AiConversationRole,
+  type AiConversationSummary,
+  type AiConversationValidationStatus,
+} from "@/lib/ai-conversations";
+
+export async function createAiConversation(userId: string, firstMessage: string, rulebookVersion: string): Promise<string> {
+  const row = await prisma.aiConversation.create({
+    data: { userId, title: redactString(conversationTitleFrom(firstMessage)), rulebookVersion },
+    select: { id: true },
+  });
+  return row.id;
+}
+
+/** History to replay to the model, or null when the conversation is not the user's. */
+export async function loadAiChatHistory(
+  userId: string,
+  conversationId: string,
+): Promise<{ role: AiConversationRole; content: string }[] | null> {
+  const conversation = await prisma.aiConversation.findFirst({
+    where: { id: conversationId, userId },
+    select: {
+      messages: {
+        select: { role: true, content: true, validationStatus: true },
+        orderBy: { createdAt: "desc" },
+        // Headroom for retracted replies and failed turns, which are skipped.
+        take: AI_CHAT_HISTORY_MESSAGES * 2,
+      },
+    },
+  });
+  if (!conversation) return null;
+  return chatHistoryForModel(conversation.messages.reverse());
+}
+
+export async function appendAiConversationMessage(
+  conversationId: string,
+  message: {
+    role: AiConversationRole;
+    content: string;
+    rulebookVersion: string;
+    userQueryHash?: string;
+    validationStatus?: AiConversationValidationStatus;
+    violations?: Pick<Violation, "code" | "section" | "reason">[];
+    toolCalls?: AiToolCallRecord[];
+  },
+): Promise<string> {
+  // Touch the parent in the same transaction so the list re-sorts by activity.
+  const [created] = await prisma.$transaction([
+    prisma.aiConversationMessage.create({
+      data: {
+        conversationId,
+        role: message.role,
+        content: redactString(message.content),
+        rulebookVersion: message.rulebookVersion,
+        userQueryHash: message.userQueryHash ?? null,
+        validationStatus: message.validationStatus ?? null,
+        violations: message.violations?.length
+          ? (message.violations.map(({ code, section, reason }) => ({ code, section, reason })) as Prisma.InputJsonValue)
+          : undefined,
+        toolCalls: message.toolCalls?.length
+          ? (redact(message.toolCalls) as unknown as Prisma.InputJsonValue)
+          : undefined,
+      },
+      select: { id: true },
+    }),
+    prisma.aiConversation.update({ where: { id: conversationId }, data: { updatedAt: new Date() }, select: { id: true } }),
+  ]);
+  return created.id;
+}
+
+/** Marks a user turn whose provider call failed; chatHistoryForModel skips it. */
+export async function markAiConversationTurnFailed(messageId: string): Promise<void> {
+  await prisma.aiConversationMessage.update({ where: { id: messageId }, data: { validationStatus: "error" } });
+}
+
+/** Most recently active first; with `query`, only conversations whose title or messages match. */
+export async function listAiConversations(
+  userId: string,
+  options: { query?: string | null; limit?: number } = {},
+): Promise<AiConversationSummary[]> {
+  const query = options.query ?? null;
+  const contains = query ? { contains: query, mode: "insensitive" as const } : null;
+  const rows = await prisma.aiConversation.findMany({
+    where: {
+      userId,
+      ...(contains ? { OR: [{ title: contains }, { messages: { some: { content: contains } } }] } : {}),
+    },
+    select: {
+      id: true,
+      title: true,
+      rulebookVersion: true,
+      createdAt: true,
+      updatedAt: true,
+      _count: { select: { messages: true } },
+      ...(contains
+        ? { messages: { where: { content: contains }, select: { content: true }, orderBy: { createdAt: "asc" as const }, take: 1 } }
+        : {}),
+    },
+    orderBy: { updatedAt: "desc" },
+    take: Math.min(options.limit ?? AI_CONVERSATION_LIST_LIMIT, AI_CONVERSATION_LIST_LIMIT),
+  });
+
+  return rows.map((row) => {
+    const matched = "messages" in row ? (row.messages as { content: string }[])[0] : undefined;
+    return {
+      id: row.id,
+      title: row.title,
+      rulebookVersion: row.rulebookVersion,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+      messageCount: row._count.messages,
+      snippet: query && matched ? searchSnippet(matched.content, query) : null,
+    };
+  });
+}
+
+export async function getAiConversation(userId: string, id: string): Promise<AiConversationDetail | null> {
+  const row = await prisma.aiConversation.findFirst({
+    where: { id, userId },
+    include: { messages: { orderBy: { createdAt: "asc" } } },
+  });
+  if (!row) return null;
+
+  const messages: AiConversationMessageView[] = row.messages.map((m) => ({
+    id: m.id,
+    role: m.role as AiConversationRole,
+    content: m.content,
+    rulebookVersion: m.rulebookVersion,
+    validationStatus: m.validationStatus as AiConversationValidationStatus | null,
+    violations: (m.violations ?? []) as AiConversationMessageView["violations"],
+    toolCalls: (m.toolCalls ?? []) as unknown as AiToolCallRecord[],
+    createdAt: m.createdAt.toISOString(),
+  }));
+  return {
+    id: row.id,
+    title: row.title,
+    rulebookVersion: row.rulebookVersion,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    messageCount: messages.length,
+    messages,
+  };
+}
+
+/** False when the conversation does not exist or is not the user's. */
+export async function renameAiConversation(userId: string, id: string, title: string): Promise<boolean> {
+  const { count } = await prisma.aiConversation.updateMany({ where: { id, userId }, data: { title: redactString(title) } });
+  return count > 0;
+}
+
+export async function deleteAiConversation(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.aiConversation.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
@@ -0,0 +1,63 @@
+/* Run: npx tsx src/lib/ai-conversations.test.ts */
+import { strict as assert } from "node:assert";
+import { createHash } from "node:crypto";
+import {
+  AI_CHAT_HISTORY_MESSAGES,
+  AI_CONVERSATION_TITLE_MAX,
+  chatHistoryForModel,
+  conversationTitleFrom,
+  parseConversationQuery,
+  parseConversationTitle,
+  searchSnippet,
+  userQueryHashOf,
+} from "./ai-conversations";
+
+// Same salted hash AiCallLog.userQueryHash has always used.
+assert.equal(userQueryHashOf("user1", "SCHD 비중?"), createHash("sha256").update("user1:SCHD 비중?").digest("hex"));
+assert.notEqual(userQueryHashOf("user1", "q"), userQueryHashOf("user2", "q"), "salted per user");
+
+// Titles: one line, cut at a word boundary.
+assert.equal(conversationTitleFrom("  QLD 비중이\n  높나요? "), "QLD 비중이 높나요?");
+assert.equal(conversationTitleFrom("   "), "New conversation");
+{
+  const long = "올해 12월 31일 리밸런싱 때 Case A 조건이 충족되면 QLD를 얼마나 팔아야 하고 SGOV는 어떻게 채우나요";
+  const title = conversationTitleFrom(long);
+  assert.ok(title.endsWith("…") && title.length <= 61);
+  assert.ok(long.startsWith(title.slice(0, -1)), "prefix of the message");
+}
+
+assert.equal(parseConversationTitle("  SGOV   floor  "), "SGOV floor");
+assert.equal(parseConversationTitle(""), null);
+assert.equal(parseConversationTitle(42), null);
+assert.equal(parseConversationTitle("x".repeat(AI_CONVERSATION_TITLE_MAX + 1)), null);
+
+assert.equal(parseConversationQuery(null), null);
+assert.equal(parseConversationQuery(" a "), null, "too short");
+assert.equal(parseConversationQuery(" schd "), "schd");
+
+// Snippets: case-insensitive, ellipses only where text was cut.
+assert.equal(searchSnippet("SCHD는 매도하지 않습니다", "schd", 40), "SCHD는 매도하지 않습니다");
+assert.equal(searchSnippet("a".repeat(50) + " QQQI cap " + "b".repeat(50), "qqqi", 5), "…aaaa QQQI cap…");
+assert.equal(searchSnippet("nothing here", "TQQQ"), null);
+
+// History: retracted replies and failed user turns are skipped, then the last N messages are kept.
+{
+  const stored = [
+    { role: "user", content: "q1", validationStatus: null },
+    { role: "assistant", content: "a1", validationStatus: "pass" },
+    { role: "user", content: "q2", validationStatus: null },
+    { role: "assistant", content: "SCHD 매도 권장", validationStatus: "retracted" },
+    { role: "user", content: "q3", validationStatus: null },
+    { role: "assistant", content: "a3", validationStatus: "violation" },
+    { role: "user", content: "q4 (upstream error)", validationStatus: "error" },
+  ];
+  const history = chatHistoryForModel(stored);
+  assert.deepEqual(history.map((m) => m.content), ["q1", "a1", "q2", "q3", "a3"]);
+
+  const many = Array.from({ length: 20 }, (_, i) => ({ role: i % 2 ? "assistant" : "user", content: `m${i}`, validationStatus: null }));
+  const kept = chatHistoryForModel(many);
+  assert.equal(kept.length, AI_CHAT_HISTORY_MESSAGES);
+  assert.equal(kept.at(-1)?.content, "m19");
+}
+
+console.log("ai conversations tests passed");
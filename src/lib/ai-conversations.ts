@@ -0,0 +1,110 @@
+/**
+ * Server-side AI chat conversations: shared rules for /api/ai/chat and
+ * /api/ai/conversations. Pure; storage lives in ./ai-conversations-source.
+ *
+ * User text handling: AiCallLog only ever sees userQueryHashOf(). The
+ * conversation store keeps the text itself — the user's own history, needed
+ * to resume and search — redacted the same way as sanitizedResponse, and
+ * records the same hash on each user turn so a turn can be matched to its
+ * audit row.
+ */
+import { createHash } from "node:crypto";
+import type { Violation } from "./ai-validation/validateAiOutput";
+import type { AiToolCallRecord } from "./ai-chat-tools";
+
+export const AI_CONVERSATION_TITLE_MAX = 80;
+/** Prior messages replayed to the model each turn. */
+export const AI_CHAT_HISTORY_MESSAGES = 6;
+export const AI_CONVERSATION_SEARCH_MIN_CHARS = 2;
+export const AI_CONVERSATION_LIST_LIMIT = 50;
+
+export type AiConversationRole = "user" | "assistant";
+/**
+ * "retracted": a mid-stream violation withdrew the reply from the user.
+ * "error": set on a user turn whose provider call failed, so it has no reply.
+ */
+export type AiConversationValidationStatus = "pass" | "violation" | "retracted" | "error";
+
+export interface AiConversationMessageView {
+  id: string;
+  role: AiConversationRole;
+  content: string;
+  rulebookVersion: string;
+  validationStatus: AiConversationValidationStatus | null;
+  violations: Pick<Violation, "code" | "section" | "reason">[];
+  toolCalls: AiToolCallRecord[];
+  createdAt: string;
+}
+
+export interface AiConversationSummary {
+  id: string;
+  title: string;
+  rulebookVersion: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  /** Search only: text around the first match in a message. */
+  snippet: string | null;
+}
+
+export interface AiConversationDetail extends Omit<AiConversationSummary, "snippet"> {
+  messages: AiConversationMessageView[];
+}
+
+/**
+ * Per-user salted hash of the user's chat message. The salt is the cuid in
+ * session.user.id, which is server-issued and unguessable — sufficient to
+ * prevent cross-user hash collisions and rainbow-table lookups while keeping
+ * the raw message out of the audit log.
+ */
+export function userQueryHashOf(userId: string, trimmedMessage: string): string {
+  return createHash("sha256").update(`${userId}:${trimmedMessage}`).digest("hex");
+}
+
+/** Default title: the first message on one line, cut at a word boundary. */
+export function conversationTitleFrom(message: string): string {
+  const line = message.replace(/\s+/g, " ").trim();
+  if (line.length <= 60) return line || "New conversation";
+  const cut = line.slice(0, 60);
+  const space = cut.lastIndexOf(" ");
+  return `${space > 30 ? cut.slice(0, space) : cut}…`;
+}
+
+/** Rename input: trimmed, single line, 1..AI_CONVERSATION_TITLE_MAX chars. */
+export function parseConversationTitle(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const title = raw.replace(/\s+/g, " ").trim();
+  if (!title || title.length > AI_CONVERSATION_TITLE_MAX) return null;
+  return title;
+}
+
+/** Search input: trimmed, at least AI_CONVERSATION_SEARCH_MIN_CHARS, capped at 100. */
+export function parseConversationQuery(raw: string | null): string | null {
+  const query = (raw ?? "").trim().slice(0, 100);
+  return query.length >= AI_CONVERSATION_SEARCH_MIN_CHARS ? query : null;
+}
+
+/** `…before match after…` around the first case-insensitive match, or null. */
+export function searchSnippet(text: string, query: string, radius = 40): string | null {
+  const at = text.toLowerCase().indexOf(query.toLowerCase());
+  if (at === -1) return null;
+  const start = Math.max(0, at - radius);
+  const end = Math.min(text.length, at + query.length + radius);
+  const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Messages replayed to the model: the last AI_CHAT_HISTORY_MESSAGES, minus
+ * retracted replies (the user never kept them, and the model should not build
+ * on them) and failed user turns (they would sit unanswered next to the new
+ * question).
+ */
+export function chatHistoryForModel(
+  messages: { role: string; content: string; validationStatus: string | null }[],
+): { role: AiConversationRole; content: string }[] {
+  return messages
+    .filter((m) => (m.role === "user" || m.role === "assistant") && m.validationStatus !== "retracted" && m.validationStatus !== "error")
+    .slice(-AI_CHAT_HISTORY_MESSAGES)
+    .map((m) => ({ role: m.role as AiConversationRole, content: m.content }));
+}
@@ -0,0 +1,222 @@
+/**
+ * Runs the guardrail corpus (./ai-eval) against the configured provider or
+ * the recorded replies, and stores / loads AiEvalRun rows for
+ * scripts/ai-eval.ts, /api/ai/eval and /v1/ai/eval.
+ *
+ * Live runs call the provider one case at a time and never touch AiCallLog
+ * or the AI cache: they are measurements, not user traffic.
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { callOpenAIWithMeta, resolveAiProviderConfig } from "@/lib/openai";
+import { RULEBOOK_PROMPT_VERSION } from "@/lib/ai-output-rules";
+import { redact } from "@/lib/audit/redact";
+import {
+  aiEvalCorpusHash,
+  aiEvalError,
+  aiEvalPromptHash,
+  buildAiEvalRequest,
+  diffAiEvalRuns,
+  scoreAiEvalReply,
+  scoreAiEvalRun,
+  type AiEvalCase,
+  type AiEvalCaseResult,
+  type AiEvalDiff,
+  type AiEvalProvider,
+  type AiEvalRun,
+  type AiEvalScore,
+} from "@/lib/ai-eval";
+
+const LIST_LIMIT = 50;
+
+export interface AiEvalRunSummary {
+  id: string;
+  rulebookVersion: string;
+  promptHash: string;
+  corpusHash: string;
+  provider: string;
+  model: string;
+  caseCount: number;
+  scoredCount: number;
+  violatingCount: number;
+  createdAt: string;
+}
+
+export interface AiEvalReportSide {
+  run: AiEvalRunSummary;
+  score: AiEvalScore;
+}
+
+export interface AiEvalReportChange {
+  id: string;
+  route: string;
+  added: string[];
+  removed: string[];
+  baselineResponse: string | null;
+  candidateResponse: string | null;
+}
+
+export interface AiEvalReport {
+  runs: AiEvalRunSummary[];
+  candidate: AiEvalReportSide | null;
+  baseline: AiEvalReportSide | null;
+  diff: (Omit<AiEvalDiff, "changes"> & { changes: AiEvalReportChange[] }) | null;
+}
+
+export async function runAiEval(
+  cases: AiEvalCase[],
+  provider: AiEvalProvider,
+  onProgress?: (done: number, total: number, result: AiEvalCaseResult) => void,
+): Promise<AiEvalRun> {
+  const today = new Date().toISOString().slice(0, 10);
+  const config = provider === "live" ? resolveAiProviderConfig() : null;
+  const results: AiEvalCaseResult[] = [];
+
+  for (const c of cases) {
+    let result: AiEvalCaseResult;
+    if (provider === "recorded") {
+      result = c.recorded === undefined
+        ? aiEvalError(c, "no recorded reply")
+        : scoreAiEvalReply(c, c.recorded, RULEBOOK_PROMPT_VERSION);
+    } else {
+      const { messages, maxTokens } = buildAiEvalRequest(c, today);
+      const reply = await callOpenAIWithMeta(messages, { maxTokens });
+      result = reply.ok
+        ? scoreAiEvalReply(c, reply.content, RULEBOOK_PROMPT_VERSION)
+        : aiEvalError(c, reply.error.message);
+    }
+    results.push(result);
+    onProgress?.(results.length, cases.length, result);
+  }
+
+  return {
+    rulebookVersion: RULEBOOK_PROMPT_VERSION,
+    promptHash: aiEvalPromptHash(),
+    provider: config?.provider ?? "recorded",
+    model: config?.model ?? "corpus",
+    corpusHash: aiEvalCorpusHash(cases),
+    createdAt: new Date().toISOString(),
+    results,
+  };
+}
+
+export async function saveAiEvalRun(run: AiEvalRun): Promise<string> {
+  const score = scoreAiEvalRun(run.results);
+  const row = await prisma.aiEvalRun.create({
+    data: {
+      rulebookVersion: run.rulebookVersion,
+      promptHash: run.promptHash,
+      corpusHash: run.corpusHash,
+      provider: run.provider,
+      model: run.model,
+      caseCount: score.cases,
+      scoredCount: score.scored,
+      violatingCount: score.violating,
+      results: redact(run.results) as unknown as Prisma.InputJsonValue,
+      createdAt: new Date(run.createdAt),
+    },
+    select: { id: true },
+  });
+  return row.id;
+}
+
+const SUMMARY_SELECT = {
+  id: true,
+  rulebookVersion: true,
+  promptHash: true,
+  corpusHash: true,
+  provider: true,
+  model: true,
+  caseCount: true,
+  scoredCount: true,
+  violatingCount: true,
+  createdAt: true,
+} satisfies Prisma.AiEvalRunSelect;
+
+function toSummary(row: Prisma.AiEvalRunGetPayload<{ select: typeof SUMMARY_SELECT }>): AiEvalRunSummary {
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+export async function loadAiEvalRun(id: string): Promise<(AiEvalRun & { id: string }) | null> {
+  const row = await prisma.aiEvalRun.findUnique({ where: { id } });
+  if (!row) return null;
+  return {
+    id: row.id,
+    rulebookVersion: row.rulebookVersion,
+    promptHash: row.promptHash,
+    provider: row.provider,
+    model: row.model,
+    corpusHash: row.corpusHash,
+    createdAt: row.createdAt.toISOString(),
+    results: row.results as unknown as AiEvalCaseResult[],
+  };
+}
+
+/** Latest saved run from a different rulebook version, created before `before`. */
+export async function findPreviousAiEvalRun(rulebookVersion: string, before = new Date()): Promise<string | null> {
+  const row = await prisma.aiEvalRun.findFirst({
+    where: { rulebookVersion: { not: rulebookVersion }, createdAt: { lt: before } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+  return row?.id ?? null;
+}
+
+/**
+ * Saved runs, newest first, plus the diff of `candidateId` (default: the
+ * newest run) against `baselineId` (default: the newest earlier run from
+ * another rulebook version, else the run just before the candidate).
+ */
+export async function loadAiEvalReport(options: { candidateId?: string | null; baselineId?: string | null } = {}): Promise<AiEvalReport> {
+  const rows = await prisma.aiEvalRun.findMany({ select: SUMMARY_SELECT, orderBy: { createdAt: "desc" }, take: LIST_LIMIT });
+  const runs = rows.map(toSummary);
+
+  const candidateId = options.candidateId ?? runs[0]?.id;
+  const candidate = candidateId ? await loadAiEvalRun(candidateId) : null;
+  if (!candidate) return { runs, candidate: null, baseline: null, diff: null };
+
+  const candidateAt = new Date(candidate.createdAt);
+  const baselineId =
+    options.baselineId ??
+    (await findPreviousAiEvalRun(candidate.rulebookVersion, candidateAt)) ??
+    runs.find((r) => new Date(r.createdAt) < candidateAt)?.id;
+  const baseline = baselineId ? await loadAiEvalRun(baselineId) : null;
+
+  const summaryOf = (run: AiEvalRun & { id: string }): AiEvalReportSide => {
+    const score = scoreAiEvalRun(run.results);
+    return {
+      run: {
+        id: run.id,
+        rulebookVersion: run.rulebookVersion,
+        promptHash: run.promptHash,
+        corpusHash: run.corpusHash,
+        provider: run.provider,
+        model: run.model,
+        caseCount: score.cases,
+        scoredCount: score.scored,
+        violatingCount: score.violating,
+        createdAt: run.createdAt,
+      },
+      score,
+    };
+  };
+
+  if (!baseline) return { runs, candidate: summaryOf(candidate), baseline: null, diff: null };
+
+  const diff = diffAiEvalRuns(baseline.results, candidate.results);
+  const before = new Map(baseline.results.map((r) => [r.id, r.response]));
+  const after = new Map(candidate.results.map((r) => [r.id, r.response]));
+  return {
+    runs,
+    candidate: summaryOf(candidate),
+    baseline: summaryOf(baseline),
+    diff: {
+      ...diff,
+      changes: diff.changes.map((c) => ({
+        ...c,
+        baselineResponse: before.get(c.id) ?? null,
+        candidateResponse: after.get(c.id) ?? null,
+      })),
+    },
+  };
+}
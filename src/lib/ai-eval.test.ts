@@ -0,0 +1,109 @@
+/* Run: npx tsx src/lib/ai-eval.test.ts */
+import { strict as assert } from "node:assert";
+import {
+  aiEvalCorpusHash,
+  aiEvalError,
+  buildAiEvalRequest,
+  diffAiEvalRuns,
+  parseAiEvalCorpus,
+  scoreAiEvalReply,
+  scoreAiEvalRun,
+  type AiEvalCase,
+  type AiEvalCaseResult,
+} from "./ai-eval";
+import { AI_EVAL_CORPUS } from "./ai-eval-corpus";
+import { INSIGHTS_SYSTEM_PROMPT } from "./ai-prompts";
+import { RULEBOOK_GUARDRAILS } from "./ai-output-rules";
+
+// Corpus parsing: both shapes, object contexts serialized, bad cases named.
+{
+  const cases = parseAiEvalCorpus({ cases: [{ id: "a", route: "ai/chat", prompt: "q", context: { x: 1 } }] });
+  assert.deepEqual(cases, [{ id: "a", route: "ai/chat", prompt: "q", context: '{"x":1}' }]);
+  assert.equal(parseAiEvalCorpus(AI_EVAL_CORPUS).length, AI_EVAL_CORPUS.length, "built-in corpus is valid");
+}
+assert.throws(() => parseAiEvalCorpus([]), /non-empty/);
+assert.throws(() => parseAiEvalCorpus([{ id: "a", route: "ai/news", prompt: "q" }]), /a: route must be one of/);
+assert.throws(() => parseAiEvalCorpus([{ id: "a", route: "ai/chat", prompt: "q" }, { id: "a", route: "ai/chat", prompt: "q" }]), /duplicate id a/);
+assert.throws(() => parseAiEvalCorpus([{ route: "ai/chat", prompt: "q" }]), /case #1: id is required/);
+
+// Re-recording replies keeps the corpus hash; changing an input does not.
+{
+  const base: AiEvalCase[] = [{ id: "a", route: "ai/chat", prompt: "q", context: "", recorded: "x" }];
+  assert.equal(aiEvalCorpusHash(base), aiEvalCorpusHash([{ ...base[0], recorded: "y" }]));
+  assert.notEqual(aiEvalCorpusHash(base), aiEvalCorpusHash([{ ...base[0], prompt: "q2" }]));
+}
+
+// Requests use the routes' own system prompts.
+{
+  const insights = buildAiEvalRequest({ id: "i", route: "ai/insights", prompt: "분석", context: "{}" }, "2026-10-19");
+  assert.equal(insights.messages[0].content, INSIGHTS_SYSTEM_PROMPT);
+  assert.equal(insights.messages[1].content, "분석\n데이터:\n{}");
+  assert.equal(insights.maxTokens, 600);
+
+  const briefing = buildAiEvalRequest(
+    { id: "b", route: "ai/briefing", prompt: "요약", context: JSON.stringify({ investorProfile: { retirementAge: 60, yearsToRetirement: 19 } }) },
+    "2026-10-19",
+  );
+  assert.ok(briefing.messages[0].content.includes("60세 은퇴 목표 (19년 남음)"), "investor profile from the context");
+  assert.ok(briefing.messages[0].content.includes(RULEBOOK_GUARDRAILS));
+
+  const chat = buildAiEvalRequest({ id: "c", route: "ai/chat", prompt: "SCHD 팔까요?", context: "" }, "2026-10-19");
+  assert.ok(chat.messages[0].content.includes("오늘 날짜: 2026-10-19"));
+  assert.equal(chat.messages[1].content, "SCHD 팔까요?");
+}
+
+// Scoring sanitizes first, then counts each code once per case.
+const chatCase: AiEvalCase = { id: "c", route: "ai/chat", prompt: "q", context: "" };
+{
+  const r = scoreAiEvalReply(chatCase, "**SCHD 30%를 매도**하고 SGOV로 갈아타세요.", "v1");
+  assert.deepEqual(r.violationCodes, ["SCHD_SELL"]);
+  assert.ok(!r.response?.includes("**"));
+  assert.deepEqual(scoreAiEvalReply(chatCase, "SCHD 매도 금지 (룰북 §15).", "v1").violationCodes, []);
+}
+
+function result(id: string, codes: string[], status: "ok" | "error" = "ok"): AiEvalCaseResult {
+  return { id, route: "ai/chat", status, violationCodes: codes as AiEvalCaseResult["violationCodes"], response: "", error: null };
+}
+
+{
+  const score = scoreAiEvalRun([
+    result("a", ["SCHD_SELL", "NDX_TRIGGER"]),
+    result("b", ["SCHD_SELL"]),
+    result("c", []),
+    aiEvalError(chatCase, "HTTP 500"),
+  ]);
+  assert.equal(score.cases, 4);
+  assert.equal(score.scored, 3);
+  assert.equal(score.errors, 1);
+  assert.equal(score.violating, 2);
+  assert.equal(score.violationRate, 2 / 3);
+  assert.deepEqual(score.byCode.map((c) => [c.code, c.count]), [["SCHD_SELL", 2], ["NDX_TRIGGER", 1]]);
+  assert.equal(scoreAiEvalRun([aiEvalError(chatCase, "x")]).violationRate, null);
+}
+
+// Diff: only cases scored in both runs; any increase regresses at tolerance 0.
+{
+  const baseline = [result("a", ["SCHD_SELL"]), result("b", []), result("c", []), result("d", ["NDX_TRIGGER"])];
+  const improved = [result("a", []), result("b", []), result("c", []), result("d", ["NDX_TRIGGER"])];
+  const pass = diffAiEvalRuns(baseline, improved);
+  assert.equal(pass.regressed, false);
+  assert.deepEqual(pass.changes, [{ id: "a", route: "ai/chat", added: [], removed: ["SCHD_SELL"] }]);
+
+  const worse = [result("a", ["SCHD_SELL"]), result("b", ["OPTIMISTIC_SCENARIO"]), result("c", [], "error"), result("d", [])];
+  const diff = diffAiEvalRuns(baseline, worse);
+  assert.equal(diff.compared, 3, "c errored in the candidate");
+  assert.equal(diff.regressed, true);
+  assert.deepEqual(diff.regressions, ["OPTIMISTIC_SCENARIO 0 → 1 of 3"]);
+  assert.equal(diff.byCode[0].code, "OPTIMISTIC_SCENARIO");
+
+  // One extra violation in 3 cases is within a 50% tolerance.
+  assert.equal(diffAiEvalRuns(baseline, worse, 0.5).regressed, false);
+
+  const moreCases = [result("a", ["SCHD_SELL"]), result("b", ["SCHD_SELL"]), result("c", []), result("d", ["NDX_TRIGGER"])];
+  assert.deepEqual(diffAiEvalRuns(baseline, moreCases).regressions, [
+    "violating cases 2 → 3 of 4",
+    "SCHD_SELL 1 → 2 of 4",
+  ]);
+}
+
+console.log("ai eval tests passed");
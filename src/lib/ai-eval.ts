@@ -0,0 +1,285 @@
+/**
+ * Guardrail regression evaluation: replay a corpus of prompts and portfolio
+ * contexts through the routes' system prompts (./ai-prompts), score every
+ * reply with validateAiOutput, and diff the violation rates of two runs —
+ * typically the same corpus before and after a RULEBOOK_PROMPT_VERSION bump.
+ * Pure; provider calls and storage live in ./ai-eval-source, the CLI in
+ * scripts/ai-eval.ts.
+ *
+ * A "recorded" run replays each case's stored reply instead of calling a
+ * provider. It is deterministic, so it isolates detector changes; prompt
+ * changes need a "live" run against the configured provider.
+ */
+import { createHash } from "node:crypto";
+import { sanitizeAiOutput } from "./ai-output-rules";
+import {
+  INSIGHTS_SYSTEM_PROMPT,
+  PROJECTION_SYSTEM_PROMPT,
+  buildBriefingSystemPrompt,
+  buildChatSystemPrompt,
+  type BriefingInvestorProfile,
+} from "./ai-prompts";
+import { validateAiOutput, type ViolationCode } from "./ai-validation/validateAiOutput";
+
+export const AI_EVAL_ROUTES = ["ai/briefing", "ai/insights", "ai/projection", "ai/chat"] as const;
+export type AiEvalRoute = (typeof AI_EVAL_ROUTES)[number];
+export type AiEvalProvider = "recorded" | "live";
+
+/** The routes' own completion budgets. */
+const MAX_TOKENS: Record<AiEvalRoute, number> = {
+  "ai/briefing": 600,
+  "ai/insights": 600,
+  "ai/projection": 700,
+  "ai/chat": 400,
+};
+
+export interface AiEvalCase {
+  id: string;
+  route: AiEvalRoute;
+  /** The user's request, without the data block. */
+  prompt: string;
+  /** Portfolio data sent with the prompt (buildPortfolioContext() JSON, or the projection data block). */
+  context: string;
+  /** Reply replayed by the recorded provider. */
+  recorded?: string;
+}
+
+export interface AiEvalCaseResult {
+  id: string;
+  route: AiEvalRoute;
+  status: "ok" | "error";
+  violationCodes: ViolationCode[];
+  /** Sanitized reply, kept so a new violation can be read in the report. */
+  response: string | null;
+  error: string | null;
+}
+
+export interface AiEvalRun {
+  rulebookVersion: string;
+  promptHash: string;
+  provider: string;
+  model: string;
+  corpusHash: string;
+  createdAt: string;
+  results: AiEvalCaseResult[];
+}
+
+export interface AiEvalCodeScore {
+  code: ViolationCode;
+  count: number;
+  /** Share of scored cases with this code. */
+  rate: number;
+}
+
+export interface AiEvalScore {
+  cases: number;
+  scored: number;
+  errors: number;
+  violating: number;
+  /** violating / scored; null when nothing was scored. */
+  violationRate: number | null;
+  byCode: AiEvalCodeScore[];
+}
+
+export interface AiEvalCodeDiff {
+  code: ViolationCode;
+  baselineCount: number;
+  candidateCount: number;
+  baselineRate: number;
+  candidateRate: number;
+}
+
+export interface AiEvalCaseChange {
+  id: string;
+  route: AiEvalRoute;
+  added: ViolationCode[];
+  removed: ViolationCode[];
+}
+
+export interface AiEvalDiff {
+  /** Cases scored in both runs; rates are over this set only. */
+  compared: number;
+  baselineViolating: number;
+  candidateViolating: number;
+  byCode: AiEvalCodeDiff[];
+  /** Cases whose violation codes changed between the runs. */
+  changes: AiEvalCaseChange[];
+  regressed: boolean;
+  /** One line per reason the candidate failed, empty when it passed. */
+  regressions: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Accepts `[case, ...]` or `{ cases: [...] }`; throws on the first invalid case. */
+export function parseAiEvalCorpus(raw: unknown): AiEvalCase[] {
+  const list = isRecord(raw) ? raw.cases : raw;
+  if (!Array.isArray(list) || list.length === 0) throw new Error("corpus must be a non-empty array of cases");
+  const seen = new Set<string>();
+  return list.map((item, i) => {
+    const label = `case #${i + 1}`;
+    if (!isRecord(item)) throw new Error(`${label}: must be an object`);
+    const { id, route, prompt, context, recorded } = item;
+    if (typeof id !== "string" || !id.trim()) throw new Error(`${label}: id is required`);
+    if (seen.has(id)) throw new Error(`${label}: duplicate id ${id}`);
+    seen.add(id);
+    if (!AI_EVAL_ROUTES.includes(route as AiEvalRoute)) {
+      throw new Error(`${id}: route must be one of ${AI_EVAL_ROUTES.join(", ")}`);
+    }
+    if (typeof prompt !== "string" || !prompt.trim()) throw new Error(`${id}: prompt is required`);
+    const contextText = typeof context === "string" ? context : context == null ? "" : JSON.stringify(context);
+    if (recorded !== undefined && typeof recorded !== "string") throw new Error(`${id}: recorded must be a string`);
+    return { id, route: route as AiEvalRoute, prompt, context: contextText, ...(recorded !== undefined ? { recorded } : {}) };
+  });
+}
+
+/** Identifies the inputs, not the recorded replies, so re-recording keeps runs comparable. */
+export function aiEvalCorpusHash(cases: AiEvalCase[]): string {
+  const inputs = cases.map(({ id, route, prompt, context }) => ({ id, route, prompt, context }));
+  return createHash("sha256").update(JSON.stringify(inputs)).digest("hex");
+}
+
+/**
+ * The routes' system prompts (chat with a fixed date), so two runs under the
+ * same RULEBOOK_PROMPT_VERSION can still be told apart after an unbumped edit.
+ */
+export function aiEvalPromptHash(): string {
+  const prompts = [
+    buildBriefingSystemPrompt(),
+    INSIGHTS_SYSTEM_PROMPT,
+    PROJECTION_SYSTEM_PROMPT,
+    buildChatSystemPrompt("YYYY-MM-DD"),
+  ];
+  return createHash("sha256").update(prompts.join("\n---ai-eval---\n")).digest("hex");
+}
+
+function investorProfileOf(context: string): BriefingInvestorProfile | undefined {
+  try {
+    const parsed = JSON.parse(context) as { investorProfile?: BriefingInvestorProfile };
+    return parsed.investorProfile;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The messages the route would send. Chat inlines the context in place of
+ * its read-only tools, so no database is needed.
+ */
+export function buildAiEvalRequest(c: AiEvalCase, today: string): { messages: { role: string; content: string }[]; maxTokens: number } {
+  const system =
+    c.route === "ai/briefing" ? buildBriefingSystemPrompt(investorProfileOf(c.context))
+    : c.route === "ai/insights" ? INSIGHTS_SYSTEM_PROMPT
+    : c.route === "ai/projection" ? PROJECTION_SYSTEM_PROMPT
+    : buildChatSystemPrompt(today);
+  const user = c.context
+    ? `${c.prompt}\n${c.route === "ai/chat" ? "도구 조회 결과" : "데이터"}:\n${c.context}`
+    : c.prompt;
+  return {
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: user },
+    ],
+    maxTokens: MAX_TOKENS[c.route],
+  };
+}
+
+/** Score one reply the way the route would: sanitize, then validate. */
+export function scoreAiEvalReply(c: AiEvalCase, raw: string, rulebookVersion: string): AiEvalCaseResult {
+  const sanitized = sanitizeAiOutput(raw);
+  const validation = validateAiOutput(c.route, raw, sanitized, { rulebookVersion });
+  return {
+    id: c.id,
+    route: c.route,
+    status: "ok",
+    violationCodes: validation.violations.map((v) => v.code),
+    response: sanitized,
+    error: null,
+  };
+}
+
+export function aiEvalError(c: AiEvalCase, message: string): AiEvalCaseResult {
+  return { id: c.id, route: c.route, status: "error", violationCodes: [], response: null, error: message };
+}
+
+function countCodes(results: AiEvalCaseResult[]): Map<ViolationCode, number> {
+  const counts = new Map<ViolationCode, number>();
+  for (const r of results) {
+    for (const code of new Set(r.violationCodes)) counts.set(code, (counts.get(code) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function scoreAiEvalRun(results: AiEvalCaseResult[]): AiEvalScore {
+  const scored = results.filter((r) => r.status === "ok");
+  const violating = scored.filter((r) => r.violationCodes.length > 0).length;
+  return {
+    cases: results.length,
+    scored: scored.length,
+    errors: results.length - scored.length,
+    violating,
+    violationRate: scored.length ? violating / scored.length : null,
+    byCode: [...countCodes(scored).entries()]
+      .map(([code, count]) => ({ code, count, rate: count / scored.length }))
+      .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code)),
+  };
+}
+
+/**
+ * Compare two runs over the cases both scored. The candidate regresses when
+ * any code, or the number of violating cases, rises by more than
+ * `tolerance` (a share of the compared cases; 0 = any increase). Live
+ * providers are not deterministic, so CI against them needs some tolerance.
+ */
+export function diffAiEvalRuns(baseline: AiEvalCaseResult[], candidate: AiEvalCaseResult[], tolerance = 0): AiEvalDiff {
+  const before = new Map(baseline.filter((r) => r.status === "ok").map((r) => [r.id, r]));
+  const pairs = candidate
+    .filter((r) => r.status === "ok" && before.has(r.id))
+    .map((after) => ({ before: before.get(after.id)!, after }));
+  const compared = pairs.length;
+  const baseCounts = countCodes(pairs.map((p) => p.before));
+  const candCounts = countCodes(pairs.map((p) => p.after));
+  const rate = (n: number) => (compared ? n / compared : 0);
+  const allowed = tolerance * compared;
+
+  const byCode = [...new Set([...baseCounts.keys(), ...candCounts.keys()])]
+    .map((code) => ({
+      code,
+      baselineCount: baseCounts.get(code) ?? 0,
+      candidateCount: candCounts.get(code) ?? 0,
+      baselineRate: rate(baseCounts.get(code) ?? 0),
+      candidateRate: rate(candCounts.get(code) ?? 0),
+    }))
+    .sort((a, b) => b.candidateCount - b.baselineCount - (a.candidateCount - a.baselineCount) || a.code.localeCompare(b.code));
+
+  const changes: AiEvalCaseChange[] = [];
+  for (const { before: b, after: a } of pairs) {
+    const added = a.violationCodes.filter((code) => !b.violationCodes.includes(code));
+    const removed = b.violationCodes.filter((code) => !a.violationCodes.includes(code));
+    if (added.length || removed.length) changes.push({ id: a.id, route: a.route, added, removed });
+  }
+
+  const baselineViolating = pairs.filter((p) => p.before.violationCodes.length > 0).length;
+  const candidateViolating = pairs.filter((p) => p.after.violationCodes.length > 0).length;
+  const regressions: string[] = [];
+  if (candidateViolating - baselineViolating > allowed) {
+    regressions.push(`violating cases ${baselineViolating} → ${candidateViolating} of ${compared}`);
+  }
+  for (const d of byCode) {
+    if (d.candidateCount - d.baselineCount > allowed) {
+      regressions.push(`${d.code} ${d.baselineCount} → ${d.candidateCount} of ${compared}`);
+    }
+  }
+
+  return {
+    compared,
+    baselineViolating,
+    candidateViolating,
+    byCode,
+    changes,
+    regressed: regressions.length > 0,
+    regressions,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Streams one upstream completion to the browser as server-sent events (see
+ * ./ai-stream for the event shapes) and hands the finished call to the route
+ * for auditing and caching.
+ *
+ * `onComplete` runs exactly once per request, after the upstream stream has
+ * ended — also when the browser disconnects mid-way, since the upstream is
+ * read to the end regardless — so the route records one AiCallLog row. It runs
+ * before the `done` event, so a reload right after `done` sees the cache.
+ *
+ * `call` is the upstream request — the routes pass streamOpenAIWithMeta with
+ * their prompt — and must hand every content delta to the given callback.
+ */
+import { log } from "@/lib/logger";
+import type { AiCallResult } from "@/lib/openai";
+import type { ValidationResult } from "@/lib/ai-validation/validateAiOutput";
+import { AI_STREAM_CONTENT_TYPE, createAiStreamGuard, encodeSseEvent } from "@/lib/ai-stream";
+
+export interface AiStreamOutcome {
+  result: AiCallResult;
+  durationMs: number;
+  /** Sanitized final text; null when the upstream call failed. */
+  sanitized: string | null;
+  /** Validation of the final text; null when the upstream call failed. */
+  validation: ValidationResult | null;
+  retracted: boolean;
+}
+
+export function createAiStreamResponse(options: {
+  route: string;
+  rulebookVersion: string;
+  call: (onDelta: (delta: string, textSoFar: string) => void) => Promise<AiCallResult>;
+  /** Field carrying the final text in the `done` event: `reply` (chat) or `result` (briefing). */
+  resultKey: "reply" | "result";
+  /** User-facing message for the `error` event. */
+  errorMessage: string;
+  onComplete: (outcome: AiStreamOutcome) => Promise<void> | void;
+}): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const guard = createAiStreamGuard(options.route, { rulebookVersion: options.rulebookVersion });
+      let retracted = false;
+      const retract = (violations: { code: string; section: string; reason: string }[]) => {
+        retracted = true;
+        send("retract", { violations: violations.map(({ code, section, reason }) => ({ code, section, reason })) });
+      };
+
+      const started = Date.now();
+      const result = await options.call((delta, textSoFar) => {
+        if (retracted) return;
+        send("delta", { text: delta });
+        const settled = guard.update(textSoFar);
+        if (settled.length > 0) retract(settled);
+      });
+      const durationMs = Date.now() - started;
+
+      let outcome: AiStreamOutcome;
+      if (!result.ok) {
+        outcome = { result, durationMs, sanitized: null, validation: null, retracted };
+      } else {
+        const final = guard.finish(result.rawResponse, result.content);
+        if (!retracted && final.violations.length > 0) retract(final.violations);
+        outcome = { result, durationMs, sanitized: final.sanitized, validation: final.validation, retracted };
+      }
+
+      try {
+        await options.onComplete(outcome);
+      } catch (err) {
+        log.warn({ event: "ai.stream.on_complete_failed", route: options.route, error: err instanceof Error ? err.message : String(err) });
+      }
+
+      if (!result.ok) {
+        send("error", { error: options.errorMessage });
+      } else {
+        send("done", {
+          [options.resultKey]: outcome.sanitized,
+          cached: false,
+          retracted,
+          violationCodes: outcome.validation?.violations.map((v) => v.code) ?? [],
+        });
+      }
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": `${AI_STREAM_CONTENT_TYPE}; charset=utf-8`,
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
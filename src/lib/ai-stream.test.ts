@@ -0,0 +1,184 @@
+/* Run: npx tsx src/lib/ai-stream.test.ts */
+import { strict as assert } from "node:assert";
+import {
+  STREAM_VIOLATION_SETTLE_CHARS,
+  createAiStreamGuard,
+  createSseParser,
+  encodeSseEvent,
+  readAiResponse,
+  readCompletionStream,
+} from "./ai-stream";
+import { createAiStreamResponse, type AiStreamOutcome } from "./ai-stream-response";
+
+function sseResponse(body: string, chunkSize = 7): Response {
+  const bytes = new TextEncoder().encode(body);
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) controller.enqueue(bytes.slice(i, i + chunkSize));
+      controller.close();
+    },
+  });
+  return new Response(stream, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+/** Upstream OpenAI-compatible stream: one chunk per delta, usage on the last. */
+function upstreamBody(deltas: string[]): string {
+  const frames = deltas.map((d) => `data: ${JSON.stringify({ choices: [{ delta: { content: d } }] })}\n\n`);
+  frames.push(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } })}\n\n`);
+  frames.push("data: [DONE]\n\n");
+  return frames.join("");
+}
+
+async function main() {
+  {
+    // Frames split across chunks, CRLF line endings, comments and multi-line data.
+    const parser = createSseParser();
+    const frames = [
+      ...parser.push(": keep-alive\r\nevent: del"),
+      ...parser.push("ta\r\ndata: {\"text\":\"a\"}\r\n\r\ndata: line1\n"),
+      ...parser.push("data: line2\n\ndata: tail"),
+      ...parser.flush(),
+    ];
+    assert.deepEqual(frames, [
+      { event: "delta", data: "{\"text\":\"a\"}" },
+      { event: "message", data: "line1\nline2" },
+      { event: "message", data: "tail" },
+    ]);
+    assert.equal(encodeSseEvent("done", { ok: 1 }), "event: done\ndata: {\"ok\":1}\n\n");
+  }
+
+  {
+    // A match is held until the text has grown past the negation window.
+    const guard = createAiStreamGuard("ai/test");
+    let text = "SCHD 매도";
+    assert.deepEqual(guard.update(text), [], "just matched: not settled yet");
+    text += " — 지금이 적기입니다.";
+    assert.deepEqual(guard.update(text), []);
+    text += "x".repeat(STREAM_VIOLATION_SETTLE_CHARS);
+    assert.deepEqual(guard.update(text).map((v) => v.code), ["SCHD_SELL"]);
+    assert.deepEqual(guard.update(text + "y"), [], "reported once");
+    assert.deepEqual(guard.finish(text, text).violations, [], "final pass does not repeat it");
+  }
+
+  {
+    // The negation arrives a few chunks later: never reported.
+    const guard = createAiStreamGuard("ai/test");
+    assert.deepEqual(guard.update("SCHD 매도"), []);
+    const text = "SCHD 매도 금지 (§15). QLD 코어 비중 30% (core 기준) 유지." + "z".repeat(STREAM_VIOLATION_SETTLE_CHARS);
+    assert.deepEqual(guard.update(text), []);
+    const final = guard.finish(text, text);
+    assert.equal(final.validation.ok, true);
+  }
+
+  {
+    // Client reader: JSON fallback (cache hit) and stream with a retraction.
+    const cached = await readAiResponse(Response.json({ result: "캐시된 브리핑", cached: true }));
+    assert.deepEqual(cached, { ok: true, text: "캐시된 브리핑", cached: true, retracted: false, error: null });
+
+    const seen: string[] = [];
+    const retracted: string[] = [];
+    const outcome = await readAiResponse(
+      sseResponse(
+        encodeSseEvent("delta", { text: "안녕" }) +
+        encodeSseEvent("delta", { text: "하세요" }) +
+        encodeSseEvent("retract", { violations: [{ code: "SCHD_SELL", section: "§15", reason: "r" }] }) +
+        encodeSseEvent("done", { result: "안녕하세요", cached: false, retracted: true, violationCodes: ["SCHD_SELL"] }),
+      ),
+      { onDelta: (text) => seen.push(text), onRetract: (v) => retracted.push(...v.map((x) => x.code)) },
+    );
+    assert.deepEqual(seen, ["안녕", "안녕하세요"]);
+    assert.deepEqual(retracted, ["SCHD_SELL"]);
+    assert.equal(outcome.retracted, true);
+    assert.equal(outcome.text, null);
+  }
+
+  {
+    // Upstream body: JSON fallback is a single delta.
+    const deltas: string[] = [];
+    const json = await readCompletionStream(
+      Response.json({ choices: [{ message: { content: "한 번에" } }], usage: { total_tokens: 3 } }),
+      (d) => deltas.push(d),
+    );
+    assert.deepEqual(json, { raw: "한 번에", usage: { total_tokens: 3 }, toolCalls: [] });
+    assert.deepEqual(deltas, ["한 번에"]);
+  }
+
+  {
+    // Streamed tool calls arrive as fragments keyed by index.
+    const frames = [
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_a", function: { name: "get_holdings", arguments: "" } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "{\"account\":" } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 1, id: "call_b", function: { name: "get_rulebook_weights", arguments: "{}" } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "\"TFSA\"}" } }] } }] },
+    ].map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("") + "data: [DONE]\n\n";
+    const streamed = await readCompletionStream(sseResponse(frames, 13), () => assert.fail("no content deltas"));
+    assert.equal(streamed.raw, "");
+    assert.deepEqual(streamed.toolCalls, [
+      { id: "call_a", name: "get_holdings", arguments: "{\"account\":\"TFSA\"}" },
+      { id: "call_b", name: "get_rulebook_weights", arguments: "{}" },
+    ]);
+
+    const json = await readCompletionStream(
+      Response.json({
+        choices: [{ message: { content: null, tool_calls: [{ id: "call_c", type: "function", function: { name: "get_dividend_income", arguments: "{\"year\":2025}" } }] } }],
+      }),
+      () => assert.fail("no content deltas"),
+    );
+    assert.deepEqual(json.toolCalls, [{ id: "call_c", name: "get_dividend_income", arguments: "{\"year\":2025}" }]);
+  }
+
+  {
+    // End to end against a mocked upstream: deltas forwarded, retraction on a
+    // mid-stream SCHD_SELL, exactly one onComplete with the full text and usage.
+    const outcomes: AiStreamOutcome[] = [];
+    const res = createAiStreamResponse({
+      route: "ai/test",
+      rulebookVersion: "test",
+      resultKey: "reply",
+      errorMessage: "failed",
+      call: async (onDelta) => {
+        const upstream = sseResponse(upstreamBody(["QLD 코어 비중은 정상입니다. ", "SCHD 매도", "를 권합니다. ", "x".repeat(40), " 끝."]), 11);
+        const { raw, usage } = await readCompletionStream(upstream, onDelta);
+        return {
+          ok: true,
+          content: raw.trim(),
+          rawResponse: raw,
+          meta: {
+            provider: "hermes",
+            model: "test",
+            endpoint: "http://upstream",
+            httpStatus: 200,
+            upstreamDurationMs: 1,
+            promptTokens: usage.prompt_tokens ?? null,
+            completionTokens: usage.completion_tokens ?? null,
+            totalTokens: usage.total_tokens ?? null,
+          },
+        };
+      },
+      onComplete: (outcome) => { outcomes.push(outcome); },
+    });
+    assert.ok(res.headers.get("content-type")?.startsWith("text/event-stream"));
+    const deltas: string[] = [];
+    const outcome = await readAiResponse(res, { onDelta: (t) => deltas.push(t) });
+
+    assert.equal(outcome.ok, true);
+    assert.equal(outcome.retracted, true);
+    assert.equal(outcome.text, null);
+    // The delta that settles the match is the last one forwarded.
+    assert.equal(deltas.length, 4);
+    assert.ok(!deltas[3].includes("끝"), "nothing forwarded after the retraction");
+    assert.equal(outcomes.length, 1, "one completion per request");
+    const [done] = outcomes;
+    assert.equal(done.retracted, true);
+    assert.equal(done.result.ok && done.result.meta.totalTokens, 15);
+    assert.ok(done.sanitized?.endsWith("끝."), "full text kept for the audit row");
+    assert.deepEqual(done.validation?.violations.map((v) => v.code), ["SCHD_SELL"]);
+  }
+
+  console.log("ai stream tests passed");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
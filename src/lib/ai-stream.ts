@@ -0,0 +1,285 @@
+/**
+ * Server-sent-event plumbing for the streaming AI routes (/api/ai/chat and
+ * /api/ai/briefing). Pure module shared by the server and ai-panel.tsx:
+ *
+ *  - createSseParser: incremental `event:` / `data:` frame parser, used for
+ *    both the upstream OpenAI-compatible stream and our own route stream.
+ *  - readCompletionStream: reads an upstream Chat Completions body into
+ *    content deltas, requested tool calls and the final usage block.
+ *  - createAiStreamGuard: runs sanitizeAiOutput + validateAiOutput over the
+ *    text streamed so far and reports violations once they are settled.
+ *  - readAiResponse: client-side reader that accepts either the SSE stream
+ *    or the plain JSON body (cache hits, throttling and errors stay JSON).
+ *
+ * Route stream events:
+ *   delta   { text }                         raw content chunk
+ *   retract { violations: [{ code, section, reason }] }
+ *   done    { reply | result, cached, retracted, violationCodes }
+ *   error   { error }
+ */
+import { sanitizeAiOutput } from "./ai-output-rules";
+import {
+  validateAiOutput,
+  type ValidationContext,
+  type ValidationResult,
+  type Violation,
+  type ViolationCode,
+} from "./ai-validation/validateAiOutput";
+
+/**
+ * Detectors suppress a match when a negation follows within 30 chars
+ * (hasNegationNearby). A mid-stream match is only trusted once the text has
+ * grown this far past the point it first appeared — "SCHD 매도" may still be
+ * followed by "금지".
+ */
+export const STREAM_VIOLATION_SETTLE_CHARS = 30;
+
+export const AI_STREAM_CONTENT_TYPE = "text/event-stream";
+
+export interface SseFrame {
+  event: string;
+  data: string;
+}
+
+/** Feed decoded text chunks; returns the frames completed by each chunk. */
+export function createSseParser(): { push(chunk: string): SseFrame[]; flush(): SseFrame[] } {
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+
+  const takeLine = (line: string, frames: SseFrame[]) => {
+    if (line === "") {
+      if (data.length > 0) frames.push({ event, data: data.join("\n") });
+      event = "message";
+      data = [];
+      return;
+    }
+    if (line.startsWith(":")) return;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const frames: SseFrame[] = [];
+      let newline: number;
+      while ((newline = buffer.search(/\r?\n/)) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === "\r" ? newline + 2 : newline + 1);
+        takeLine(line, frames);
+      }
+      return frames;
+    },
+    flush() {
+      const frames: SseFrame[] = [];
+      if (buffer) takeLine(buffer, frames);
+      buffer = "";
+      takeLine("", frames);
+      return frames;
+    },
+  };
+}
+
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.get("accept") ?? "").includes(AI_STREAM_CONTENT_TYPE);
+}
+
+export interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/** A function call requested by the model; `arguments` is the raw JSON string. */
+export interface CompletionToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+interface ToolCallChunk {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Reads an OpenAI-compatible Chat Completions body, streamed or not. Usage is
+ * taken from whichever chunk carries it (the last one, when the provider
+ * sends it at all). A provider that ignores `stream` and answers with a plain
+ * JSON body is handled as a single delta. Streamed tool calls arrive as
+ * fragments keyed by `index` and are stitched back together.
+ */
+export async function readCompletionStream(
+  res: Response,
+  onDelta: (delta: string, textSoFar: string) => void,
+): Promise<{ raw: string; usage: CompletionUsage; toolCalls: CompletionToolCall[] }> {
+  let raw = "";
+  let usage: CompletionUsage = {};
+  const toolCalls: CompletionToolCall[] = [];
+
+  if (!(res.headers.get("content-type") ?? "").includes(AI_STREAM_CONTENT_TYPE) || !res.body) {
+    const body = (await res.json()) as {
+      choices?: { message?: { content?: string | null; tool_calls?: ToolCallChunk[] } }[];
+      usage?: CompletionUsage;
+    };
+    const message = body.choices?.[0]?.message;
+    raw = message?.content ?? "";
+    if (raw) onDelta(raw, raw);
+    for (const [i, call] of (message?.tool_calls ?? []).entries()) {
+      toolCalls.push({ id: call.id ?? `call_${i}`, name: call.function?.name ?? "", arguments: call.function?.arguments ?? "" });
+    }
+    return { raw, usage: body.usage ?? {}, toolCalls };
+  }
+
+  const parser = createSseParser();
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  const take = (frames: SseFrame[]) => {
+    for (const frame of frames) {
+      if (frame.data === "[DONE]") continue;
+      let chunk: { choices?: { delta?: { content?: string | null; tool_calls?: ToolCallChunk[] } }[]; usage?: CompletionUsage | null };
+      try {
+        chunk = JSON.parse(frame.data);
+      } catch {
+        continue; // keep-alive or provider comment
+      }
+      if (chunk.usage) usage = chunk.usage;
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        raw += delta.content;
+        onDelta(delta.content, raw);
+      }
+      for (const fragment of delta?.tool_calls ?? []) {
+        const index = fragment.index ?? toolCalls.length;
+        const call = (toolCalls[index] ??= { id: "", name: "", arguments: "" });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    take(parser.push(decoder.decode(value, { stream: true })));
+  }
+  take(parser.flush());
+  return {
+    raw,
+    usage,
+    toolCalls: toolCalls.filter(Boolean).map((call, i) => ({ ...call, id: call.id || `call_${i}` })),
+  };
+}
+
+export interface AiStreamGuard {
+  /** Feed the full raw text so far; returns violations that settled with this update. */
+  update(raw: string): Violation[];
+  /**
+   * Final, authoritative pass over the completed response. `violations`
+   * are those not already reported by update().
+   */
+  finish(raw: string, content: string): { sanitized: string; validation: ValidationResult; violations: Violation[] };
+}
+
+export function createAiStreamGuard(route: string, context?: ValidationContext): AiStreamGuard {
+  const firstSeenAt = new Map<ViolationCode, number>();
+  const reported = new Set<ViolationCode>();
+
+  return {
+    update(raw) {
+      const sanitized = sanitizeAiOutput(raw);
+      const found = validateAiOutput(route, raw, sanitized, context).violations;
+      const codes = new Set(found.map((v) => v.code));
+      // A later negation cleared the match: start over if it reappears.
+      for (const code of firstSeenAt.keys()) {
+        if (!codes.has(code)) firstSeenAt.delete(code);
+      }
+      const settled: Violation[] = [];
+      for (const violation of found) {
+        if (reported.has(violation.code)) continue;
+        const seen = firstSeenAt.get(violation.code);
+        if (seen == null) {
+          firstSeenAt.set(violation.code, sanitized.length);
+        } else if (sanitized.length - seen >= STREAM_VIOLATION_SETTLE_CHARS) {
+          reported.add(violation.code);
+          settled.push(violation);
+        }
+      }
+      return settled;
+    },
+    finish(raw, content) {
+      const sanitized = sanitizeAiOutput(content);
+      const validation = validateAiOutput(route, raw, sanitized, context);
+      const violations = validation.violations.filter((v) => !reported.has(v.code));
+      for (const v of violations) reported.add(v.code);
+      return { sanitized, validation, violations };
+    },
+  };
+}
+
+export interface AiResponseHandlers {
+  onDelta?(textSoFar: string): void;
+  onRetract?(violations: Pick<Violation, "code" | "section" | "reason">[]): void;
+}
+
+export interface AiResponseOutcome {
+  ok: boolean;
+  /** Final sanitized text (`reply` for chat, `result` for briefing). Null when retracted or failed. */
+  text: string | null;
+  cached: boolean;
+  retracted: boolean;
+  error: string | null;
+}
+
+/** Client side: reads either the SSE stream or a JSON body from an AI route. */
+export async function readAiResponse(res: Response, handlers: AiResponseHandlers = {}): Promise<AiResponseOutcome> {
+  const contentType = res.headers.get("content-type") ?? "";
+  if (!contentType.includes(AI_STREAM_CONTENT_TYPE) || !res.body) {
+    const data = (await res.json()) as { reply?: string; result?: string; cached?: boolean; error?: string };
+    const text = data.reply ?? data.result ?? null;
+    const ok = res.ok && !data.error;
+    return { ok, text: ok ? text : null, cached: data.cached ?? false, retracted: false, error: ok ? null : data.error ?? "Failed" };
+  }
+
+  const parser = createSseParser();
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let streamed = "";
+  const outcome: AiResponseOutcome = { ok: false, text: null, cached: false, retracted: false, error: null };
+
+  const handle = (frame: SseFrame) => {
+    const data = JSON.parse(frame.data) as Record<string, unknown>;
+    if (frame.event === "delta" && !outcome.retracted) {
+      streamed += String(data.text ?? "");
+      handlers.onDelta?.(streamed);
+    } else if (frame.event === "retract") {
+      outcome.retracted = true;
+      handlers.onRetract?.((data.violations ?? []) as Pick<Violation, "code" | "section" | "reason">[]);
+    } else if (frame.event === "done") {
+      outcome.ok = true;
+      outcome.cached = data.cached === true;
+      outcome.retracted = outcome.retracted || data.retracted === true;
+      outcome.text = outcome.retracted ? null : String(data.reply ?? data.result ?? "");
+    } else if (frame.event === "error") {
+      outcome.error = String(data.error ?? "Failed");
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (const frame of parser.push(decoder.decode(value, { stream: true }))) handle(frame);
+  }
+  for (const frame of parser.flush()) handle(frame);
+  if (!outcome.ok && !outcome.error) outcome.error = "Stream ended early";
+  return outcome;
+}
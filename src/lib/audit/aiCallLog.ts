@@ -8,6 +8,7 @@
  *  - rawResponse  : only stored when env AI_AUDIT_STORE_RAW=true. Still passed
  *                   through redactString() defensively.
  *  - sanitizedResponse / errorMessage : always passed through redactString().
+ *  - toolCalls   : chat tool names + arguments, passed through redact().
  *  - userQuery raw text : NEVER accepted. Callers must hash with a user-
  *                         specific salt and pass userQueryHash (chat routes
  *                         only). Non-chat routes leave it null.
@@ -15,9 +16,11 @@
  * Audit-disabled (AI_AUDIT_ENABLED=false) and DB-failure paths return a
  * non-throwing result so callers never see audit errors.
  */
+import type { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/db";
 import { log } from "@/lib/logger";
-import { redactString } from "@/lib/audit/redact";
+import { redact, redactString } from "@/lib/audit/redact";
+import type { AiToolCallRecord } from "@/lib/ai-chat-tools";
 
 export type AiCallStatus =
   | "ok"
@@ -62,6 +65,8 @@ export interface RecordAiCallInput {
   validationStatus?: string | null;
   /** Array of detected ViolationCode strings. Empty when pass or not run. */
   violationCodes?: string[];
+  /** Tool calls the model made before answering (ai/chat). NULL when none. */
+  toolCalls?: AiToolCallRecord[] | null;
 }
 
 export interface RecordAiCallResult {
@@ -146,6 +151,9 @@ export async function recordAiCall(
         validatedAt: input.validatedAt ?? null,
         validationStatus: input.validationStatus ?? null,
         violationCodes: input.violationCodes ?? [],
+        toolCalls: input.toolCalls?.length
+          ? (redact(input.toolCalls) as unknown as Prisma.InputJsonValue)
+          : undefined,
       },
       select: { id: true },
     });
@@ -5,8 +5,8 @@
  * Idempotent on (userId, date) — repeat calls update existing snapshots in
  * place rather than creating duplicate rows.
  *
- * Phase 1: helper only. The cron writer that produces these snapshots will
- * be added in Phase 4.
+ * Written once per day by the cron trigger writer
+ * (src/lib/rulebook-triggers-source.ts).
  */
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/db";
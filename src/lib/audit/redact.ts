@@ -94,6 +94,8 @@ const SENSITIVE_FIELD_NAMES: ReadonlySet<string> = new Set([
   "databaseUrl",
   "TELEGRAM_BOT_TOKEN",
   "telegram_bot_token",
+  "SMTP_PASS",
+  "smtp_pass",
   "HERMES_API_KEY",
   "hermes_api_key",
   "HERMES_GATEWAY_TOKEN",
@@ -8,7 +8,8 @@
  *  - resolveTriggerEvent: when a previously-active trigger turns off, set
  *    resolvedAt on the most recent unresolved row. No-op if none.
  *
- * Phase 1: helper only. The cron writer is added in Phase 4.
+ * Called daily by the cron writer in src/lib/rulebook-triggers-source.ts;
+ * user approve / reject goes through /api/rulebook/triggers/[id].
  */
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/db";
@@ -24,6 +25,7 @@ export type TriggerKind =
   | "sgov_below_target"
   | "sgov_below_floor"
   | "iaum_at_cap"
+  | "qqqi_at_cap"
   | "cycle_armable"
   | "meltdown_phase"
   | (string & {});
@@ -0,0 +1,146 @@
+/**
+ * Reads and writes backup bundles (see backup.ts) through Prisma.
+ * Shared by /api/backup and `npm run backup`.
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { serializeForClient } from "@/lib/serialize";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  isBackupSettingKey,
+  planRestore,
+  type BackupBundle,
+  type BackupData,
+  type RestoreCounts,
+  type RestoreExisting,
+} from "@/lib/backup";
+
+export type RestoreMode = "empty" | "merge";
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  dryRun: boolean;
+  counts: RestoreCounts;
+}
+
+export async function exportBackup(userId: string): Promise<BackupBundle> {
+  const owned = { portfolio: { userId } };
+  const [portfolios, holdings, transactions, cashTransactions, externalDeposits, fxConversions, cashLedger, portfolioSnapshots, portfolioAccountSnapshots, assetWeightSnapshots, settings] = await Promise.all([
+    prisma.portfolio.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.holding.findMany({ where: owned, orderBy: { createdAt: "asc" } }),
+    prisma.transaction.findMany({ where: { holding: owned }, orderBy: [{ date: "asc" }, { createdAt: "asc" }] }),
+    prisma.cashTransaction.findMany({ where: owned, orderBy: [{ date: "asc" }, { createdAt: "asc" }] }),
+    prisma.externalDeposit.findMany({ where: owned, orderBy: [{ date: "asc" }, { createdAt: "asc" }] }),
+    prisma.fxConversion.findMany({ where: owned, orderBy: [{ date: "asc" }, { createdAt: "asc" }] }),
+    prisma.cashLedger.findMany({ where: owned, orderBy: [{ date: "asc" }, { createdAt: "asc" }] }),
+    prisma.portfolioSnapshot.findMany({ where: { userId }, orderBy: { date: "asc" } }),
+    prisma.portfolioAccountSnapshot.findMany({ where: owned, orderBy: [{ date: "asc" }, { portfolioId: "asc" }] }),
+    prisma.assetWeightSnapshot.findMany({ where: { userId }, orderBy: { date: "asc" } }),
+    prisma.setting.findMany({ where: { key: { startsWith: `${userId}:` } }, orderBy: { key: "asc" }, select: { key: true, value: true } }),
+  ]);
+
+  const data = serializeForClient({
+    portfolios,
+    holdings,
+    transactions,
+    cashTransactions,
+    externalDeposits,
+    fxConversions,
+    cashLedger,
+    portfolioSnapshots,
+    portfolioAccountSnapshots,
+    assetWeightSnapshots,
+    settings: settings.filter((s) => isBackupSettingKey(userId, s.key)),
+  }) as BackupData;
+
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), userId, data };
+}
+
+async function loadRestoreExisting(db: Prisma.TransactionClient, bundle: BackupBundle, userId: string): Promise<RestoreExisting> {
+  const ids = (rows: { id: string }[]) => rows.map((row) => row.id);
+  const { data } = bundle;
+  // Rows owned by the target user, plus any row whose id the bundle reuses (to catch collisions).
+  const scope = (bundleIds: string[]) => ({ OR: [{ portfolio: { userId } }, { id: { in: bundleIds } }] });
+  const owner = { portfolio: { select: { userId: true } } } as const;
+
+  const [portfolios, holdings, transactions, cashTransactions, externalDeposits, fxConversions, cashLedger, portfolioSnapshots, portfolioAccountSnapshots, assetWeightSnapshots, settings] = await Promise.all([
+    db.portfolio.findMany({
+      where: { OR: [{ userId }, { id: { in: ids(data.portfolios) } }] },
+      select: { id: true, userId: true, name: true, accountType: true },
+    }),
+    db.holding.findMany({ where: scope(ids(data.holdings)), select: { id: true, portfolioId: true, ticker: true, ...owner } }),
+    db.transaction.findMany({
+      where: { OR: [{ holding: { portfolio: { userId } } }, { id: { in: ids(data.transactions) } }] },
+      select: { id: true, holdingId: true, externalId: true, holding: { select: owner } },
+    }),
+    db.cashTransaction.findMany({
+      where: scope(ids(data.cashTransactions)),
+      select: { id: true, portfolioId: true, action: true, date: true, amount: true, currency: true, ...owner },
+    }),
+    db.externalDeposit.findMany({
+      where: scope(ids(data.externalDeposits)),
+      select: { id: true, portfolioId: true, date: true, amount: true, currency: true, source: true, ...owner },
+    }),
+    db.fxConversion.findMany({ where: scope(ids(data.fxConversions)), select: { id: true, ...owner } }),
+    db.cashLedger.findMany({
+      where: scope(ids(data.cashLedger)),
+      select: { id: true, eventType: true, currency: true, relatedTransactionId: true, relatedCashTransactionId: true, ...owner },
+    }),
+    db.portfolioSnapshot.findMany({ where: { userId }, select: { date: true } }),
+    db.portfolioAccountSnapshot.findMany({ where: { portfolio: { userId } }, select: { portfolioId: true, date: true } }),
+    db.assetWeightSnapshot.findMany({ where: { userId }, select: { date: true } }),
+    db.setting.findMany({ where: { key: { startsWith: `${userId}:` } }, select: { key: true } }),
+  ]);
+
+  return {
+    portfolios: portfolios.map((p) => ({ id: p.id, ownerId: p.userId, name: p.name, accountType: p.accountType })),
+    holdings: holdings.map((h) => ({ id: h.id, ownerId: h.portfolio.userId, portfolioId: h.portfolioId, ticker: h.ticker })),
+    transactions: transactions.map((t) => ({ id: t.id, ownerId: t.holding.portfolio.userId, holdingId: t.holdingId, externalId: t.externalId })),
+    cashTransactions: cashTransactions.map((c) => ({ ...c, ownerId: c.portfolio.userId, amount: c.amount.toString() })),
+    externalDeposits: externalDeposits.map((d) => ({ ...d, ownerId: d.portfolio.userId, amount: d.amount.toString() })),
+    fxConversions: fxConversions.map((f) => ({ id: f.id, ownerId: f.portfolio.userId })),
+    cashLedger: cashLedger.map((l) => ({ ...l, ownerId: l.portfolio.userId })),
+    portfolioSnapshotDates: portfolioSnapshots.map((s) => s.date),
+    portfolioAccountSnapshots,
+    assetWeightSnapshotDates: assetWeightSnapshots.map((s) => s.date),
+    settingKeys: settings.map((s) => s.key),
+  };
+}
+
+/**
+ * Restores a bundle for `userId` in one database transaction.
+ * "empty" refuses to run when the user already has portfolios; "merge" adds
+ * only rows that are not already present. dryRun returns the counts and
+ * rolls nothing forward.
+ */
+export async function restoreBackup(
+  bundle: BackupBundle,
+  userId: string,
+  options: { mode: RestoreMode; dryRun?: boolean },
+): Promise<RestoreResult> {
+  const dryRun = options.dryRun ?? false;
+  return prisma.$transaction(async (db) => {
+    if (options.mode === "empty" && (await db.portfolio.count({ where: { userId } })) > 0) {
+      throw new Error("Target already has portfolios; use merge mode");
+    }
+
+    const { create, counts } = planRestore(bundle, await loadRestoreExisting(db, bundle, userId), userId);
+    if (dryRun) return { mode: options.mode, dryRun, counts };
+
+    // Parents before children; parseBackupBundle left Decimal and DateTime columns as strings, which createMany takes.
+    await db.portfolio.createMany({ data: create.portfolios });
+    await db.holding.createMany({ data: create.holdings });
+    await db.transaction.createMany({ data: create.transactions });
+    await db.cashTransaction.createMany({ data: create.cashTransactions });
+    await db.externalDeposit.createMany({ data: create.externalDeposits });
+    await db.fxConversion.createMany({ data: create.fxConversions });
+    await db.cashLedger.createMany({ data: create.cashLedger });
+    await db.portfolioSnapshot.createMany({ data: create.portfolioSnapshots });
+    await db.portfolioAccountSnapshot.createMany({ data: create.portfolioAccountSnapshots });
+    await db.assetWeightSnapshot.createMany({ data: create.assetWeightSnapshots });
+    await db.setting.createMany({ data: create.settings });
+
+    return { mode: options.mode, dryRun, counts };
+  }, { timeout: 120_000 });
+}
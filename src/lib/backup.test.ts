@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  isBackupSettingKey,
+  parseBackupBundle,
+  planRestore,
+  type BackupBundle,
+  type RestoreExisting,
+} from "./backup";
+
+// As exported: JSON, before parseBackupBundle.
+function rawBundle() {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: "2026-10-01T00:00:00.000Z",
+    userId: "old-user",
+    data: {
+      portfolios: [{ id: "p1", name: "Main", accountType: "TFSA", userId: "old-user", cashCAD: "10", cashUSD: null }],
+      holdings: [{ id: "h1", portfolioId: "p1", ticker: "SCHD", currency: "USD" }],
+      transactions: [
+        { id: "t1", holdingId: "h1", action: "BUY", date: "2025-01-02T00:00:00.000Z", quantity: "10", price: "27.5", externalId: "qt:1" },
+        { id: "t2", holdingId: "h1", action: "DIVIDEND", date: "2025-03-31T00:00:00.000Z", quantity: "1", price: "2.55", externalId: null },
+      ],
+      cashTransactions: [{ id: "c1", portfolioId: "p1", action: "DEPOSIT", date: "2025-01-01T00:00:00.000Z", amount: "1000", currency: "CAD" }],
+      externalDeposits: [{ id: "d1", portfolioId: "p1", date: "2025-01-01T00:00:00.000Z", amount: "1000", currency: "CAD", source: "manual", cashTransactionId: "c1" }],
+      fxConversions: [],
+      cashLedger: [
+        { id: "l1", portfolioId: "p1", date: "2025-01-02T00:00:00.000Z", eventType: "BUY", currency: "USD", amount: "-275", relatedTransactionId: "t1", relatedCashTransactionId: null, externalDepositId: null, fxConversionId: null },
+        { id: "l2", portfolioId: "p1", date: "2025-01-01T00:00:00.000Z", eventType: "DEPOSIT", currency: "CAD", amount: "1000", relatedTransactionId: null, relatedCashTransactionId: "c1", externalDepositId: "d1", fxConversionId: null },
+      ],
+      portfolioSnapshots: [{ id: "s1", userId: "old-user", date: "2025-01-02T00:00:00.000Z", totalCAD: "1000", costBasisCAD: "990", cashCAD: "10" }],
+      portfolioAccountSnapshots: [
+        { id: "a1", userId: "old-user", portfolioId: "p1", accountType: "TFSA", date: "2025-01-02T00:00:00.000Z", totalCAD: "1000", costBasisCAD: "990", cashCAD: "10" },
+        { id: "a2", userId: "old-user", portfolioId: "p1", accountType: "TFSA", date: "2025-01-03T00:00:00.000Z", totalCAD: "1010", costBasisCAD: "990", cashCAD: "10" },
+      ],
+      assetWeightSnapshots: [],
+      settings: [
+        { key: "old-user:investment:goal", value: "500000" },
+        { key: "old-user:qt_refresh_token", value: "secret" },
+        { key: "old-user:ai_cache:ai_briefing_v4", value: "{}" },
+      ],
+    },
+  };
+}
+
+function bundle(): BackupBundle {
+  return parseBackupBundle(rawBundle());
+}
+
+function emptyExisting(): RestoreExisting {
+  return {
+    portfolios: [], holdings: [], transactions: [], cashTransactions: [], externalDeposits: [],
+    fxConversions: [], cashLedger: [], portfolioSnapshotDates: [], portfolioAccountSnapshots: [],
+    assetWeightSnapshotDates: [], settingKeys: [],
+  };
+}
+
+function testSecretsAndCachesAreExcluded() {
+  assert.equal(isBackupSettingKey("u", "u:investment:target:SCHD"), true);
+  assert.equal(isBackupSettingKey("u", "u:appearance"), true);
+  assert.equal(isBackupSettingKey("u", "u:qt_refresh_token"), false);
+  assert.equal(isBackupSettingKey("u", "u:openai_api_key"), false);
+  assert.equal(isBackupSettingKey("u", "u:ai_news_cache_ts"), false);
+  assert.equal(isBackupSettingKey("u", "other:investment:goal"), false);
+  assert.equal(isBackupSettingKey("u", "fx_rate_usd_cad"), false);
+}
+
+function testBundleValidation() {
+  assert.equal(parseBackupBundle(JSON.parse(JSON.stringify(bundle()))).userId, "old-user");
+  assert.throws(() => parseBackupBundle({ ...rawBundle(), format: "other" }), /Not a DividendTracker backup/);
+  assert.throws(() => parseBackupBundle({ ...rawBundle(), version: BACKUP_VERSION + 1 }), /Unsupported backup version/);
+  const missing = rawBundle() as { data: Record<string, unknown> };
+  delete missing.data.cashLedger;
+  assert.throws(() => parseBackupBundle(missing), /missing the cashLedger table/);
+
+  // Rows are checked column by column; unknown fields are dropped, bad values name the table and row.
+  const extra = rawBundle();
+  Object.assign(extra.data.holdings[0], { owner: "someone", quantity: 10 });
+  const parsed = parseBackupBundle(extra);
+  assert.ok(!("owner" in parsed.data.holdings[0]), "unknown columns are dropped");
+  assert.equal(parsed.data.holdings[0].quantity, "10", "decimals are kept as strings");
+  assert.equal(parsed.data.cashLedger[0].notes, null, "missing nullable columns default to null");
+
+  const badDate = rawBundle();
+  badDate.data.transactions[1].date = "last tuesday";
+  assert.throws(() => parseBackupBundle(badDate), /Backup transactions row 2 \(t2\): date: not a date/);
+  const badEnum = rawBundle();
+  badEnum.data.cashTransactions[0].action = "TRANSFER";
+  assert.throws(() => parseBackupBundle(badEnum), /Backup cashTransactions row 1 \(c1\): action:/);
+  const badAmount = rawBundle();
+  badAmount.data.externalDeposits[0].amount = "lots";
+  assert.throws(() => parseBackupBundle(badAmount), /Backup externalDeposits row 1 \(d1\): amount: not a number/);
+
+  // Version 1 bundles predate per-account snapshots.
+  const v1 = rawBundle() as { version: number; data: Record<string, unknown> };
+  v1.version = 1;
+  delete v1.data.portfolioAccountSnapshots;
+  assert.deepEqual(parseBackupBundle(v1).data.portfolioAccountSnapshots, []);
+  assert.throws(() => parseBackupBundle({ ...v1, version: BACKUP_VERSION }), /missing the portfolioAccountSnapshots table/);
+}
+
+function testRestoreIntoEmptyDatabaseKeepsIdsAndRemapsUser() {
+  const { create, counts } = planRestore(bundle(), emptyExisting(), "new-user");
+
+  assert.deepEqual(create.portfolios.map((p) => [p.id, p.userId]), [["p1", "new-user"]]);
+  assert.deepEqual(create.transactions.map((t) => t.id), ["t1", "t2"]);
+  assert.equal(create.cashLedger.length, 2);
+  assert.equal(create.portfolioSnapshots[0].userId, "new-user");
+  assert.deepEqual(create.portfolioAccountSnapshots.map((s) => [s.id, s.userId, s.portfolioId]), [["a1", "new-user", "p1"], ["a2", "new-user", "p1"]]);
+  assert.deepEqual(create.settings, [{ key: "new-user:investment:goal", value: "500000" }]);
+  assert.deepEqual(counts.transactions, { created: 2, matched: 0 });
+}
+
+function testMergeMatchesNaturalKeysAndRemapsReferences() {
+  const existing: RestoreExisting = {
+    ...emptyExisting(),
+    portfolios: [{ id: "live-p", ownerId: "me", name: "Main", accountType: "TFSA" }],
+    holdings: [{ id: "live-h", ownerId: "me", portfolioId: "live-p", ticker: "SCHD" }],
+    transactions: [{ id: "live-t", ownerId: "me", holdingId: "live-h", externalId: "qt:1" }],
+    cashTransactions: [{ id: "live-c", ownerId: "me", portfolioId: "live-p", action: "DEPOSIT", date: new Date("2025-01-01T00:00:00Z"), amount: "1000.00", currency: "CAD" }],
+    cashLedger: [{ id: "live-l", ownerId: "me", eventType: "BUY", currency: "USD", relatedTransactionId: "live-t", relatedCashTransactionId: null }],
+    portfolioSnapshotDates: [new Date("2025-01-02T00:00:00Z")],
+    portfolioAccountSnapshots: [{ portfolioId: "live-p", date: new Date("2025-01-02T00:00:00Z") }],
+    settingKeys: ["me:investment:goal"],
+  };
+
+  const { create, counts } = planRestore(bundle(), existing, "me");
+
+  assert.equal(create.portfolios.length, 0);
+  assert.equal(create.holdings.length, 0);
+  assert.deepEqual(create.transactions.map((t) => [t.id, t.holdingId]), [["t2", "live-h"]]);
+  assert.equal(create.cashTransactions.length, 0);
+  assert.deepEqual(create.externalDeposits.map((d) => [d.portfolioId, d.cashTransactionId]), [["live-p", "live-c"]]);
+  assert.deepEqual(create.cashLedger.map((l) => [l.id, l.relatedCashTransactionId, l.externalDepositId]), [["l2", "live-c", "d1"]]);
+  assert.equal(create.portfolioSnapshots.length, 0);
+  assert.deepEqual(create.portfolioAccountSnapshots.map((s) => [s.id, s.portfolioId]), [["a2", "live-p"]]);
+  assert.deepEqual(counts.portfolioAccountSnapshots, { created: 1, matched: 1 });
+  assert.equal(create.settings.length, 0);
+  assert.deepEqual(counts.cashLedger, { created: 1, matched: 1 });
+}
+
+function testForeignIdCollisionIsRejected() {
+  const existing: RestoreExisting = {
+    ...emptyExisting(),
+    portfolios: [{ id: "p1", ownerId: "someone-else", name: "Main", accountType: "TFSA" }],
+  };
+  assert.throws(() => planRestore(bundle(), existing, "me"), /portfolio id p1 belongs to another user/);
+}
+
+const tests = [
+  testSecretsAndCachesAreExcluded,
+  testBundleValidation,
+  testRestoreIntoEmptyDatabaseKeepsIdsAndRemapsUser,
+  testMergeMatchesNaturalKeysAndRemapsReferences,
+  testForeignIdCollisionIsRejected,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("backup bundle tests passed");
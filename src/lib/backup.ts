@@ -0,0 +1,517 @@
+/**
+ * Portfolio backup bundle: the versioned JSON shape, validation, and the
+ * restore planner. Pure functions; backup-source.ts reads and writes Prisma.
+ *
+ * A bundle holds everything one user owns: portfolios and their holdings,
+ * transactions, cash transactions, external deposits, FX conversions and
+ * cash ledger rows, plus portfolio, per-account and asset-weight snapshots
+ * and the user's `Setting` rows. Decimals and dates are stored as strings exactly as
+ * Prisma serializes them, so a round trip is lossless. parseBackupBundle
+ * checks every row against its table's columns before anything is planned,
+ * and names the first bad table and row.
+ *
+ * Settings exclude secrets (Questrade refresh token and its session keys,
+ * the OpenAI key) and caches or locks that are rebuilt on demand.
+ *
+ * Restore keeps the original ids so cross-references stay valid. Merging
+ * into a database that already has data matches rows by id, then by each
+ * table's natural key (portfolio name + account type, holding ticker,
+ * transaction externalId, the CashTransaction / ExternalDeposit / CashLedger
+ * unique keys, snapshot date, account snapshot portfolio + date, setting
+ * key). Matched rows are left as they
+ * are and references to them are remapped; only unmatched rows are created.
+ */
+
+import { z } from "zod";
+
+export const BACKUP_FORMAT = "dividendtracker.backup";
+/** 2 added portfolioAccountSnapshots; version 1 bundles restore without them. */
+export const BACKUP_VERSION = 2;
+
+// Row schemas: the columns each table restores, nothing else. Unknown fields
+// are dropped, dates are normalized to ISO strings and decimals to strings, so
+// planRestore's output can go straight into createMany.
+const id = z.string().min(1);
+const nullableString = z.string().nullable().default(null);
+const decimal = z.union([z.string(), z.number()])
+  .transform((value) => String(value).trim())
+  .refine((value) => value !== "" && Number.isFinite(Number(value)), "not a number");
+const nullableDecimal = decimal.nullable().default(null);
+const dateTime = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const time = typeof value === "number" ? value : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "not a date" });
+    return z.NEVER;
+  }
+  return new Date(time).toISOString();
+});
+const nullableDateTime = dateTime.nullable().default(null);
+const currency = z.enum(["CAD", "USD"]);
+const accountType = z.enum(["TFSA", "RRSP", "FHSA", "NON_REG", "CASH"]);
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+const jsonValue: z.ZodType<JsonValue> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(jsonValue), z.record(z.string(), jsonValue)]),
+);
+
+const portfolioRow = z.object({
+  id,
+  userId: nullableString,
+  name: z.string().min(1),
+  accountType: accountType.default("NON_REG"),
+  cashCAD: nullableDecimal,
+  cashUSD: nullableDecimal,
+  createdAt: dateTime.optional(),
+});
+
+const holdingRow = z.object({
+  id,
+  portfolioId: id,
+  ticker: z.string().min(1),
+  name: nullableString,
+  currency: currency.default("USD"),
+  quantity: nullableDecimal,
+  avgCost: nullableDecimal,
+  source: nullableString,
+  isActive: z.boolean().default(true),
+  createdAt: dateTime.optional(),
+});
+
+const transactionRow = z.object({
+  id,
+  holdingId: id,
+  action: z.enum(["BUY", "SELL", "DIVIDEND"]),
+  date: dateTime,
+  quantity: decimal,
+  price: decimal,
+  commission: decimal.default("0"),
+  fxRateCAD: nullableDecimal,
+  exDate: nullableDateTime,
+  payDate: nullableDateTime,
+  amountPerShare: nullableDecimal,
+  sharesAtRecord: nullableDecimal,
+  withholdingTax: nullableDecimal,
+  source: nullableString,
+  notes: nullableString,
+  externalId: nullableString,
+  createdAt: dateTime.optional(),
+});
+
+const cashTransactionRow = z.object({
+  id,
+  portfolioId: id,
+  action: z.enum(["DEPOSIT", "WITHDRAWAL"]),
+  date: dateTime,
+  amount: decimal,
+  currency: currency.default("CAD"),
+  notes: nullableString,
+  createdAt: dateTime.optional(),
+});
+
+const externalDepositRow = z.object({
+  id,
+  portfolioId: id,
+  date: dateTime,
+  amount: decimal,
+  currency,
+  source: nullableString,
+  notes: nullableString,
+  cashTransactionId: nullableString,
+  createdAt: dateTime.optional(),
+});
+
+const fxConversionRow = z.object({
+  id,
+  portfolioId: id,
+  date: dateTime,
+  fromCurrency: currency,
+  fromAmount: decimal,
+  toCurrency: currency,
+  toAmount: decimal,
+  fxRateCAD: nullableDecimal,
+  source: nullableString,
+  notes: nullableString,
+  createdAt: dateTime.optional(),
+});
+
+const cashLedgerRow = z.object({
+  id,
+  portfolioId: id,
+  date: dateTime,
+  currency,
+  amount: decimal,
+  eventType: z.enum(["DEPOSIT", "WITHDRAWAL", "BUY", "SELL", "DIVIDEND", "DRIP", "FX_CONVERT", "FEE", "ADJUSTMENT"]),
+  ticker: nullableString,
+  notes: nullableString,
+  source: nullableString,
+  relatedTransactionId: nullableString,
+  relatedCashTransactionId: nullableString,
+  externalDepositId: nullableString,
+  fxConversionId: nullableString,
+  createdAt: dateTime.optional(),
+});
+
+const portfolioSnapshotRow = z.object({
+  id,
+  userId: nullableString,
+  date: dateTime,
+  totalCAD: decimal,
+  costBasisCAD: decimal,
+  cashCAD: decimal,
+  driftPct: nullableDecimal,
+  engineValueCAD: nullableDecimal,
+  legacyValueCAD: nullableDecimal,
+  driftAlertSent: z.boolean().nullable().default(null),
+  createdAt: dateTime.optional(),
+});
+
+const portfolioAccountSnapshotRow = z.object({
+  id,
+  userId: nullableString,
+  portfolioId: id,
+  accountType,
+  date: dateTime,
+  totalCAD: decimal,
+  costBasisCAD: decimal,
+  cashCAD: decimal,
+  engineValueCAD: nullableDecimal,
+  createdAt: dateTime.optional(),
+});
+
+const assetWeightSnapshotRow = z.object({
+  id,
+  userId: z.string(),
+  date: dateTime,
+  totalCAD: decimal,
+  schdCAD: decimal,
+  qldCAD: decimal,
+  sgovCAD: decimal,
+  iaumCAD: decimal,
+  tqqqCAD: decimal,
+  otherCAD: decimal,
+  cashCAD: decimal,
+  qldCoreWeightPct: decimal,
+  schdCoreWeightPct: decimal,
+  growthBucketPct: decimal,
+  sgovTotalWeightPct: decimal,
+  iaumTotalWeightPct: decimal,
+  tqqqTotalWeightPct: decimal,
+  triggerFlags: z.record(z.string(), jsonValue),
+  fxRateCAD: decimal,
+  priceSource: z.string(),
+  unverifiedItems: z.array(z.string()).default([]),
+  rulebookVersion: z.string(),
+  createdAt: dateTime.optional(),
+});
+
+const settingRow = z.object({ key: z.string().min(1), value: z.string() });
+
+const ROW_SCHEMAS = {
+  portfolios: portfolioRow,
+  holdings: holdingRow,
+  transactions: transactionRow,
+  cashTransactions: cashTransactionRow,
+  externalDeposits: externalDepositRow,
+  fxConversions: fxConversionRow,
+  cashLedger: cashLedgerRow,
+  portfolioSnapshots: portfolioSnapshotRow,
+  portfolioAccountSnapshots: portfolioAccountSnapshotRow,
+  assetWeightSnapshots: assetWeightSnapshotRow,
+  settings: settingRow,
+} as const;
+
+export type BackupData = { [T in keyof typeof ROW_SCHEMAS]: z.output<(typeof ROW_SCHEMAS)[T]>[] };
+export type BackupPortfolio = BackupData["portfolios"][number];
+export type BackupHolding = BackupData["holdings"][number];
+export type BackupTransaction = BackupData["transactions"][number];
+export type BackupCashLedgerRow = BackupData["cashLedger"][number];
+export type BackupSetting = BackupData["settings"][number];
+
+export type BackupTable = keyof BackupData;
+
+export const BACKUP_TABLES: BackupTable[] = [
+  "portfolios",
+  "holdings",
+  "transactions",
+  "cashTransactions",
+  "externalDeposits",
+  "fxConversions",
+  "cashLedger",
+  "portfolioSnapshots",
+  "portfolioAccountSnapshots",
+  "assetWeightSnapshots",
+  "settings",
+];
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** User the bundle was exported from; setting keys carry this prefix. */
+  userId: string;
+  data: BackupData;
+}
+
+// Setting suffixes (after "<userId>:") that never leave the database.
+const EXCLUDED_SETTING_SUFFIXES = [
+  "qt_refresh_token",
+  "qt_api_server",
+  "qt_last_sync",
+  "qt_sync_lock",
+  "openai_api_key",
+  "notify:alert_log",
+];
+const EXCLUDED_SETTING_PREFIXES = ["ai_cache:", "ai_cache_ts:", "ai_news_cache", "ai_news_cache_ts"];
+
+/** True for `<userId>:...` keys that belong in a backup. */
+export function isBackupSettingKey(userId: string, key: string): boolean {
+  const prefix = `${userId}:`;
+  if (!key.startsWith(prefix)) return false;
+  const suffix = key.slice(prefix.length);
+  if (EXCLUDED_SETTING_SUFFIXES.includes(suffix)) return false;
+  return !EXCLUDED_SETTING_PREFIXES.some((p) => suffix.startsWith(p));
+}
+
+export function remapSettingKey(key: string, fromUserId: string, toUserId: string): string {
+  return key.startsWith(`${fromUserId}:`) ? `${toUserId}:${key.slice(fromUserId.length + 1)}` : key;
+}
+
+export function parseBackupBundle(value: unknown): BackupBundle {
+  if (!value || typeof value !== "object") throw new Error("Backup is not a JSON object");
+  const bundle = value as Partial<BackupBundle>;
+  if (bundle.format !== BACKUP_FORMAT) throw new Error("Not a DividendTracker backup");
+  if (typeof bundle.version !== "number" || bundle.version < 1 || bundle.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${String(bundle.version)} (this build reads up to ${BACKUP_VERSION})`);
+  }
+  if (typeof bundle.userId !== "string" || !bundle.userId) throw new Error("Backup is missing userId");
+  if (!bundle.data || typeof bundle.data !== "object") throw new Error("Backup is missing data");
+  const raw = bundle.data as Record<string, unknown>;
+  const data: Record<string, unknown[]> = {};
+  for (const table of BACKUP_TABLES) {
+    // Version 1 bundles predate per-account snapshots.
+    const rows = raw[table] ?? (table === "portfolioAccountSnapshots" && bundle.version < 2 ? [] : undefined);
+    if (!Array.isArray(rows)) throw new Error(`Backup is missing the ${table} table`);
+    data[table] = rows.map((row: unknown, index) => {
+      const parsed = ROW_SCHEMAS[table].safeParse(row);
+      if (parsed.success) return parsed.data;
+      const issue = parsed.error.issues[0];
+      const key = row && typeof row === "object" ? (row as { id?: unknown; key?: unknown }).id ?? (row as { key?: unknown }).key : undefined;
+      const label = typeof key === "string" ? ` (${key})` : "";
+      throw new Error(`Backup ${table} row ${index + 1}${label}: ${issue.path.join(".") || "row"}: ${issue.message}`);
+    });
+  }
+  return { ...bundle, data: data as BackupData } as BackupBundle;
+}
+
+// --- Restore planning --------------------------------------------------------
+
+/** Rows already in the target database; ownerId is the user owning the row (via its portfolio). */
+export interface RestoreExisting {
+  portfolios: { id: string; ownerId: string | null; name: string; accountType: string }[];
+  holdings: { id: string; ownerId: string | null; portfolioId: string; ticker: string }[];
+  transactions: { id: string; ownerId: string | null; holdingId: string; externalId: string | null }[];
+  cashTransactions: { id: string; ownerId: string | null; portfolioId: string; action: string; date: string | Date; amount: string | number; currency: string }[];
+  externalDeposits: { id: string; ownerId: string | null; portfolioId: string; date: string | Date; amount: string | number; currency: string; source: string | null }[];
+  fxConversions: { id: string; ownerId: string | null }[];
+  cashLedger: { id: string; ownerId: string | null; eventType: string; currency: string; relatedTransactionId: string | null; relatedCashTransactionId: string | null }[];
+  portfolioSnapshotDates: (string | Date)[];
+  portfolioAccountSnapshots: { portfolioId: string; date: string | Date }[];
+  assetWeightSnapshotDates: (string | Date)[];
+  settingKeys: string[];
+}
+
+export type RestoreCounts = Record<BackupTable, { created: number; matched: number }>;
+
+export interface RestorePlan {
+  create: BackupData;
+  counts: RestoreCounts;
+}
+
+function isoKey(value: string | Date): string {
+  return (value instanceof Date ? value : new Date(value)).toISOString();
+}
+
+function dayKey(value: string | Date): string {
+  return isoKey(value).slice(0, 10);
+}
+
+function moneyKey(value: string | number): string {
+  return Number(value).toFixed(2);
+}
+
+function claimId(
+  table: string,
+  id: string,
+  existing: Map<string, { ownerId: string | null }>,
+  userId: string,
+): boolean {
+  const row = existing.get(id);
+  if (!row) return false;
+  if (row.ownerId !== userId) throw new Error(`Backup ${table} id ${id} belongs to another user`);
+  return true;
+}
+
+function remap(map: Map<string, string>, id: string | null, table: string, ref: string): string | null {
+  if (id == null) return null;
+  const mapped = map.get(id);
+  if (!mapped) throw new Error(`Backup ${table} row references missing ${ref} ${id}`);
+  return mapped;
+}
+
+export function planRestore(bundle: BackupBundle, existing: RestoreExisting, userId: string): RestorePlan {
+  const { data } = bundle;
+  const create: BackupData = {
+    portfolios: [], holdings: [], transactions: [], cashTransactions: [], externalDeposits: [],
+    fxConversions: [], cashLedger: [], portfolioSnapshots: [], portfolioAccountSnapshots: [], assetWeightSnapshots: [],
+    settings: [],
+  };
+  const counts = Object.fromEntries(BACKUP_TABLES.map((t) => [t, { created: 0, matched: 0 }])) as RestoreCounts;
+  const tally = (table: BackupTable, created: boolean) => { counts[table][created ? "created" : "matched"]++; };
+
+  const portfolioIds = new Map<string, string>();
+  const existingPortfolios = new Map(existing.portfolios.map((p) => [p.id, p]));
+  const portfolioByName = new Map(existing.portfolios.filter((p) => p.ownerId === userId).map((p) => [`${p.name}:${p.accountType}`, p.id]));
+  for (const p of data.portfolios) {
+    const match = claimId("portfolio", p.id, existingPortfolios, userId) ? p.id : portfolioByName.get(`${p.name}:${p.accountType}`);
+    portfolioIds.set(p.id, match ?? p.id);
+    if (!match) create.portfolios.push({ ...p, userId });
+    tally("portfolios", !match);
+  }
+
+  const holdingIds = new Map<string, string>();
+  const existingHoldings = new Map(existing.holdings.map((h) => [h.id, h]));
+  const holdingByTicker = new Map(existing.holdings.filter((h) => h.ownerId === userId).map((h) => [`${h.portfolioId}:${h.ticker}`, h.id]));
+  for (const h of data.holdings) {
+    const portfolioId = remap(portfolioIds, h.portfolioId, "holdings", "portfolio")!;
+    const match = claimId("holding", h.id, existingHoldings, userId) ? h.id : holdingByTicker.get(`${portfolioId}:${h.ticker}`);
+    holdingIds.set(h.id, match ?? h.id);
+    if (!match) create.holdings.push({ ...h, portfolioId });
+    tally("holdings", !match);
+  }
+
+  const transactionIds = new Map<string, string>();
+  const existingTransactions = new Map(existing.transactions.map((t) => [t.id, t]));
+  const transactionByExternalId = new Map(
+    existing.transactions.filter((t) => t.ownerId === userId && t.externalId).map((t) => [`${t.holdingId}:${t.externalId}`, t.id]),
+  );
+  for (const t of data.transactions) {
+    const holdingId = remap(holdingIds, t.holdingId, "transactions", "holding")!;
+    const match = claimId("transaction", t.id, existingTransactions, userId)
+      ? t.id
+      : t.externalId ? transactionByExternalId.get(`${holdingId}:${t.externalId}`) : undefined;
+    transactionIds.set(t.id, match ?? t.id);
+    if (!match) create.transactions.push({ ...t, holdingId });
+    tally("transactions", !match);
+  }
+
+  const cashKey = (c: { portfolioId: string; action: string; date: string | Date; amount: string | number; currency: string }) =>
+    `${c.portfolioId}:${c.action}:${isoKey(c.date)}:${moneyKey(c.amount)}:${c.currency}`;
+  const cashIds = new Map<string, string>();
+  const existingCash = new Map(existing.cashTransactions.map((c) => [c.id, c]));
+  const cashByKey = new Map(existing.cashTransactions.map((c) => [cashKey(c), c.id]));
+  for (const c of data.cashTransactions) {
+    const portfolioId = remap(portfolioIds, c.portfolioId, "cashTransactions", "portfolio")!;
+    const key = cashKey({ ...c, portfolioId });
+    const match = claimId("cash transaction", c.id, existingCash, userId) ? c.id : cashByKey.get(key);
+    cashIds.set(c.id, match ?? c.id);
+    if (!match) {
+      create.cashTransactions.push({ ...c, portfolioId });
+      cashByKey.set(key, c.id);
+    }
+    tally("cashTransactions", !match);
+  }
+
+  const depositKey = (d: { portfolioId: string; date: string | Date; amount: string | number; currency: string; source: string | null }) =>
+    `${d.portfolioId}:${isoKey(d.date)}:${moneyKey(d.amount)}:${d.currency}:${d.source ?? ""}`;
+  const depositIds = new Map<string, string>();
+  const existingDeposits = new Map(existing.externalDeposits.map((d) => [d.id, d]));
+  const depositByKey = new Map(existing.externalDeposits.map((d) => [depositKey(d), d.id]));
+  for (const d of data.externalDeposits) {
+    const portfolioId = remap(portfolioIds, d.portfolioId, "externalDeposits", "portfolio")!;
+    const key = depositKey({ ...d, portfolioId });
+    const match = claimId("external deposit", d.id, existingDeposits, userId) ? d.id : depositByKey.get(key);
+    depositIds.set(d.id, match ?? d.id);
+    if (!match) {
+      create.externalDeposits.push({ ...d, portfolioId, cashTransactionId: remap(cashIds, d.cashTransactionId, "externalDeposits", "cash transaction") });
+      depositByKey.set(key, d.id);
+    }
+    tally("externalDeposits", !match);
+  }
+
+  const conversionIds = new Map<string, string>();
+  const existingConversions = new Map(existing.fxConversions.map((f) => [f.id, f]));
+  for (const f of data.fxConversions) {
+    const portfolioId = remap(portfolioIds, f.portfolioId, "fxConversions", "portfolio")!;
+    const match = claimId("FX conversion", f.id, existingConversions, userId);
+    conversionIds.set(f.id, f.id);
+    if (!match) create.fxConversions.push({ ...f, portfolioId });
+    tally("fxConversions", !match);
+  }
+
+  const existingLedger = new Map(existing.cashLedger.map((l) => [l.id, l]));
+  const ledgerKeys = new Set(existing.cashLedger.flatMap((l) => [
+    l.relatedTransactionId ? `tx:${l.eventType}:${l.relatedTransactionId}:${l.currency}` : null,
+    l.relatedCashTransactionId ? `cash:${l.eventType}:${l.relatedCashTransactionId}:${l.currency}` : null,
+  ].filter((key): key is string => key != null)));
+  for (const l of data.cashLedger) {
+    const row = {
+      ...l,
+      portfolioId: remap(portfolioIds, l.portfolioId, "cashLedger", "portfolio")!,
+      relatedTransactionId: remap(transactionIds, l.relatedTransactionId, "cashLedger", "transaction"),
+      relatedCashTransactionId: remap(cashIds, l.relatedCashTransactionId, "cashLedger", "cash transaction"),
+      externalDepositId: remap(depositIds, l.externalDepositId, "cashLedger", "external deposit"),
+      fxConversionId: remap(conversionIds, l.fxConversionId, "cashLedger", "FX conversion"),
+    };
+    const keys = [
+      row.relatedTransactionId ? `tx:${row.eventType}:${row.relatedTransactionId}:${row.currency}` : null,
+      row.relatedCashTransactionId ? `cash:${row.eventType}:${row.relatedCashTransactionId}:${row.currency}` : null,
+    ].filter((key): key is string => key != null);
+    const match = claimId("cash ledger", l.id, existingLedger, userId) || keys.some((key) => ledgerKeys.has(key));
+    if (!match) {
+      create.cashLedger.push(row);
+      keys.forEach((key) => ledgerKeys.add(key));
+    }
+    tally("cashLedger", !match);
+  }
+
+  // One snapshot per user and day.
+  const restoreByDate = <T extends { date: string }>(table: BackupTable, rows: T[], existingDates: (string | Date)[], push: (row: T) => void) => {
+    const dates = new Set(existingDates.map(dayKey));
+    for (const s of rows) {
+      const match = dates.has(dayKey(s.date));
+      if (!match) {
+        push(s);
+        dates.add(dayKey(s.date));
+      }
+      tally(table, !match);
+    }
+  };
+  restoreByDate("portfolioSnapshots", data.portfolioSnapshots, existing.portfolioSnapshotDates, (s) => create.portfolioSnapshots.push({ ...s, userId }));
+  restoreByDate("assetWeightSnapshots", data.assetWeightSnapshots, existing.assetWeightSnapshotDates, (s) => create.assetWeightSnapshots.push({ ...s, userId }));
+
+  const accountSnapshotKeys = new Set(existing.portfolioAccountSnapshots.map((s) => `${s.portfolioId}:${dayKey(s.date)}`));
+  for (const s of data.portfolioAccountSnapshots) {
+    const portfolioId = remap(portfolioIds, s.portfolioId, "portfolioAccountSnapshots", "portfolio")!;
+    const key = `${portfolioId}:${dayKey(s.date)}`;
+    const match = accountSnapshotKeys.has(key);
+    if (!match) {
+      create.portfolioAccountSnapshots.push({ ...s, userId, portfolioId });
+      accountSnapshotKeys.add(key);
+    }
+    tally("portfolioAccountSnapshots", !match);
+  }
+
+  const settingKeys = new Set(existing.settingKeys);
+  for (const s of data.settings) {
+    if (!isBackupSettingKey(bundle.userId, s.key)) continue;
+    const key = remapSettingKey(s.key, bundle.userId, userId);
+    const match = settingKeys.has(key);
+    if (!match) {
+      create.settings.push({ key, value: s.value });
+      settingKeys.add(key);
+    }
+    tally("settings", !match);
+  }
+
+  return { create, counts };
+}
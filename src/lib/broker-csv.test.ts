@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+
+import { cashTransactionKey, earliestImportDate, parseBrokerCsv, parseCsv, planImport, tradeKey } from "./broker-csv";
+
+function testTokenizerHandlesQuotesAndCrlf() {
+  assert.deepEqual(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n'), [
+    ["a", "b"],
+    ["x, y", 'say "hi"'],
+  ]);
+}
+
+function testQuestradeExportIsDetectedAndNormalized() {
+  const csv = [
+    "Transaction Date,Settlement Date,Action,Symbol,Description,Quantity,Price,Gross Amount,Commission,Net Amount,Currency,Account #,Activity Type,Account Type",
+    "2025-03-03 12:00:00 AM,2025-03-04 12:00:00 AM,Buy,SCHD,SCHWAB US DIVIDEND,10,27.50,-275.00,-4.95,-279.95,USD,123,Trades,Cash",
+    "2025-03-31 12:00:00 AM,2025-03-31 12:00:00 AM,DIV,SCHD,CASH DIV,0,0,0,0,2.55,USD,123,Dividends,Cash",
+    "2025-04-01 12:00:00 AM,2025-04-01 12:00:00 AM,CON,,CONTRIBUTION,0,0,0,0,\"1,000.00\",CAD,123,Deposits,Cash",
+    "2025-04-02 12:00:00 AM,2025-04-02 12:00:00 AM,FXT,,FX CONVERSION,0,0,0,0,-100,CAD,123,FX conversion,Cash",
+  ].join("\n");
+
+  const result = parseBrokerCsv(csv);
+
+  assert.equal(result.format, "questrade");
+  assert.deepEqual(result.rows.map((row) => [row.action, row.date, row.ticker, row.currency, row.quantity, row.price, row.commission, row.amount]), [
+    ["BUY", "2025-03-03", "SCHD", "USD", 10, 27.5, 4.95, 275],
+    ["DIVIDEND", "2025-03-31", "SCHD", "USD", 1, 2.55, 0, 2.55],
+    ["DEPOSIT", "2025-04-01", null, "CAD", 0, 0, 0, 1000],
+  ]);
+  assert.deepEqual(result.skipped, [{ line: 5, reason: 'Unsupported activity "FXT/FX conversion"' }]);
+  assert.equal(result.rows[0].externalId, "csv:questrade:2025-03-03:SCHD:BUY:10:275.00:USD");
+}
+
+function testCustomMappingAndRepeatedRowsGetDistinctIds() {
+  const csv = [
+    "When,What,Sym,Shares,Cost,Fee",
+    "2025/01/15,Bought,XEQT.TO,5,30,0",
+    "2025/01/15,Bought,XEQT.TO,5,30,0",
+    "not a date,Bought,XEQT.TO,5,30,0",
+  ].join("\n");
+
+  const result = parseBrokerCsv(csv, {
+    mapping: { date: "When", action: "What", ticker: "Sym", quantity: "Shares", price: "Cost", commission: "Fee" },
+  });
+
+  assert.equal(result.format, "custom");
+  assert.equal(result.rows.length, 2);
+  assert.equal(result.rows[0].currency, "CAD");
+  assert.notEqual(result.rows[0].externalId, result.rows[1].externalId);
+  assert.equal(result.rows[1].externalId, `${result.rows[0].externalId}#2`);
+  assert.deepEqual(result.skipped, [{ line: 4, reason: "Missing or unreadable date" }]);
+}
+
+function testPlanMarksDuplicatesAndRulebookBlocks() {
+  const csv = [
+    "transaction_date,settlement_date,account_id,account_type,activity_type,activity_sub_type,direction,symbol,name,currency,quantity,unit_price,commission,net_cash_amount",
+    "2025-02-03,2025-02-04,A1,TFSA,Trade,BUY,LONG,VFV.TO,Vanguard S&P 500,CAD,2,120,0,-240",
+    "2025-02-05,2025-02-06,A1,TFSA,Trade,BUY,LONG,JEPQ,JPMorgan,USD,1,55,0,-55",
+    "2025-02-01,2025-02-01,A1,TFSA,MoneyMovement,EFT,,,,CAD,,,,500",
+    "2025-02-01,2025-02-01,A1,TFSA,MoneyMovement,EFT,,,,CAD,,,,500",
+  ].join("\n");
+  const { format, rows } = parseBrokerCsv(csv);
+  assert.equal(format, "wealthsimple");
+
+  const preview = planImport(rows, {
+    externalIds: new Set([rows[0].externalId]),
+    cashKeys: new Set(),
+    syncedTradeKeys: [],
+  });
+
+  assert.deepEqual(preview.map((row) => row.status), ["duplicate", "blocked", "new", "duplicate"]);
+  assert.equal(cashTransactionKey({ action: "DEPOSIT", date: new Date("2025-02-01T00:00:00Z"), amount: 500, currency: "CAD" }), cashTransactionKey(rows[2]));
+}
+
+function testEarliestDateIgnoresFileOrder() {
+  const csv = [
+    "Transaction Date,Settlement Date,Action,Symbol,Description,Quantity,Price,Gross Amount,Commission,Net Amount,Currency,Account #,Activity Type,Account Type",
+    "2025-06-02 12:00:00 AM,2025-06-03 12:00:00 AM,Buy,SCHD,SCHWAB US DIVIDEND,5,27.00,-135.00,0,-135.00,USD,123,Trades,Cash",
+    "2025-01-06 12:00:00 AM,2025-01-07 12:00:00 AM,Buy,SCHD,SCHWAB US DIVIDEND,5,26.00,-130.00,0,-130.00,USD,123,Trades,Cash",
+    "2025-03-03 12:00:00 AM,2025-03-04 12:00:00 AM,Buy,SCHD,SCHWAB US DIVIDEND,5,27.50,-137.50,0,-137.50,USD,123,Trades,Cash",
+  ].join("\n");
+  const { rows } = parseBrokerCsv(csv);
+
+  // The FX lookup range must start at the oldest trade, not the first line.
+  assert.equal(rows[0].date, "2025-06-02");
+  assert.equal(earliestImportDate(rows), "2025-01-06");
+  assert.equal(earliestImportDate([]), null);
+}
+
+function testTradesAlreadySyncedFromQuestradeAreDuplicates() {
+  const csv = [
+    "Transaction Date,Settlement Date,Action,Symbol,Description,Quantity,Price,Gross Amount,Commission,Net Amount,Currency,Account #,Activity Type,Account Type",
+    "2025-03-03 12:00:00 AM,2025-03-04 12:00:00 AM,Buy,SCHD,SCHWAB US DIVIDEND,10,27.50,-275.00,-4.95,-279.95,USD,123,Trades,Cash",
+    "2025-03-03 12:00:00 AM,2025-03-04 12:00:00 AM,Buy,SCHD,SCHWAB US DIVIDEND,10,27.50,-275.00,-4.95,-279.95,USD,123,Trades,Cash",
+    "2025-03-31 12:00:00 AM,2025-03-31 12:00:00 AM,DIV,SCHD,CASH DIV,0,0,0,0,2.55,USD,123,Dividends,Cash",
+  ].join("\n");
+  const { rows } = parseBrokerCsv(csv);
+
+  // Sync rows: tradeDate at the account's midnight, dividends as quantity 1 at the net amount.
+  const preview = planImport(rows, {
+    externalIds: new Set(),
+    cashKeys: new Set(),
+    syncedTradeKeys: [
+      tradeKey({ date: new Date("2025-03-03T05:00:00Z"), ticker: "SCHD", action: "BUY", quantity: 10, price: 27.5 }),
+      tradeKey({ date: new Date("2025-03-31T04:00:00Z"), ticker: "SCHD", action: "DIVIDEND", quantity: 1, price: 2.55 }),
+    ],
+  });
+
+  // One synced fill covers one of the two equal CSV fills.
+  assert.deepEqual(preview.map((row) => row.status), ["duplicate", "new", "duplicate"]);
+  assert.equal(preview[0].reason, "Already synced from Questrade");
+}
+
+const tests = [
+  testTokenizerHandlesQuotesAndCrlf,
+  testQuestradeExportIsDetectedAndNormalized,
+  testCustomMappingAndRepeatedRowsGetDistinctIds,
+  testPlanMarksDuplicatesAndRulebookBlocks,
+  testEarliestDateIgnoresFileOrder,
+  testTradesAlreadySyncedFromQuestradeAreDuplicates,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("broker csv import tests passed");
@@ -0,0 +1,430 @@
+/**
+ * Broker CSV import: parse activity exports into normalized rows, then plan
+ * which rows are new versus already recorded. Pure functions; the route in
+ * /api/transactions/import does the database work.
+ *
+ * Supported formats:
+ *  - wealthsimple : activities export (activity_type / activity_sub_type)
+ *  - ibkr         : Flex query trades + cash transactions (Buy/Sell, Type)
+ *  - questrade    : account activity export (Action / Activity Type)
+ *  - custom       : caller-supplied column mapping
+ *
+ * Every parsed row gets a deterministic externalId ("csv:<format>:..."), so
+ * importing the same file twice is a no-op. Identical rows inside one file
+ * (two equal buys on the same day) get an occurrence suffix to stay distinct.
+ * Trades the Questrade API sync already wrote carry its own externalIds, so
+ * they are matched by tradeKey() instead.
+ */
+
+export type BrokerCsvFormat = "wealthsimple" | "ibkr" | "questrade" | "custom";
+export type ImportAction = "BUY" | "SELL" | "DIVIDEND" | "DEPOSIT" | "WITHDRAWAL";
+export type ImportCurrency = "CAD" | "USD";
+
+export const BROKER_CSV_FORMATS: BrokerCsvFormat[] = ["wealthsimple", "ibkr", "questrade", "custom"];
+
+/** Header names per field for the custom format. Only date, action and one of amount / quantity+price are required. */
+export interface CsvColumnMapping {
+  date: string;
+  action: string;
+  ticker?: string;
+  quantity?: string;
+  price?: string;
+  amount?: string;
+  commission?: string;
+  currency?: string;
+  description?: string;
+}
+
+export interface ParsedImportRow {
+  /** 1-based line number in the file (header is line 1). */
+  line: number;
+  action: ImportAction;
+  date: string;
+  ticker: string | null;
+  currency: ImportCurrency;
+  /** Trades: shares. DIVIDEND: 1 (the amount is the price, like broker sync rows). Cash: 0. */
+  quantity: number;
+  price: number;
+  commission: number;
+  /** Positive cash amount: trade gross, dividend received, deposit / withdrawal size. */
+  amount: number;
+  description: string | null;
+  externalId: string;
+}
+
+export interface ImportIssue {
+  line: number;
+  reason: string;
+}
+
+export interface ImportParseResult {
+  format: BrokerCsvFormat;
+  rows: ParsedImportRow[];
+  skipped: ImportIssue[];
+}
+
+export type ImportRowStatus = "new" | "duplicate" | "blocked";
+
+export interface ImportPreviewRow extends ParsedImportRow {
+  status: ImportRowStatus;
+  reason: string | null;
+}
+
+export interface ExistingImportKeys {
+  /** Transaction.externalId values already in the portfolio. */
+  externalIds: Set<string>;
+  /** cashTransactionKey() of CashTransaction rows already in the portfolio. */
+  cashKeys: Set<string>;
+  /** tradeKey() of API-synced transactions, once per row (two equal fills appear twice). */
+  syncedTradeKeys: string[];
+}
+
+// Rulebook v4.4.2: the income slot is QQQI only; manual entry rejects BUYs of the old ticker too.
+const LEGACY_INCOME_TICKER = ["JE", "PQ"].join("");
+
+// --- CSV tokenizer -----------------------------------------------------------
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// --- Field helpers -----------------------------------------------------------
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value == null) return null;
+  let s = value.trim();
+  if (!s) return null;
+  const negative = /^\(.*\)$/.test(s);
+  s = s.replace(/[()$,\s]/g, "").replace(/^(CAD|USD)/i, "");
+  const parsed = Number(s);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+export function parseImportDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const s = value.trim();
+  let match = s.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (!match) {
+    const compact = s.match(/^(\d{4})(\d{2})(\d{2})(?:$|[;,\sT])/);
+    if (compact) match = compact;
+  }
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const key = `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+  const date = new Date(`${key}T00:00:00Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== key ? null : key;
+}
+
+function parseCurrency(value: string | undefined, ticker: string | null): ImportCurrency {
+  const s = value?.trim().toUpperCase();
+  if (s === "CAD" || s === "USD") return s;
+  // Same heuristic as manual entry and broker sync: TSX listings are CAD.
+  return ticker && ticker.endsWith(".TO") ? "CAD" : ticker ? "USD" : "CAD";
+}
+
+export function normalizeImportAction(value: string | undefined): ImportAction | null {
+  const s = (value ?? "").trim().toUpperCase().replace(/[^A-Z]/g, "");
+  if (["BUY", "BOUGHT", "BOT", "PURCHASE"].includes(s)) return "BUY";
+  if (["SELL", "SOLD", "SLD", "SALE"].includes(s)) return "SELL";
+  if (["DIVIDEND", "DIVIDENDS", "DIV", "XDIV", "DIST", "DISTRIBUTION", "CASHDIVIDEND"].includes(s)) return "DIVIDEND";
+  if (["DEPOSIT", "DEPOSITS", "DEP", "CONTRIBUTION", "CON", "TRANSFERIN", "EFT"].includes(s)) return "DEPOSIT";
+  if (["WITHDRAWAL", "WITHDRAWALS", "WDR", "TRANSFEROUT"].includes(s)) return "WITHDRAWAL";
+  return null;
+}
+
+interface RawRow {
+  line: number;
+  action: ImportAction | null;
+  actionLabel: string;
+  date: string | null;
+  ticker: string | null;
+  quantity: number | null;
+  price: number | null;
+  amount: number | null;
+  commission: number | null;
+  currency: string | undefined;
+  description: string | null;
+}
+
+type Getter = (field: string) => string | undefined;
+
+function getterFor(headers: string[], values: string[]): Getter {
+  const index = new Map(headers.map((header, i) => [normalizeHeader(header), i]));
+  return (field) => {
+    const i = index.get(normalizeHeader(field));
+    return i == null ? undefined : values[i];
+  };
+}
+
+function firstOf(get: Getter, ...fields: string[]): string | undefined {
+  for (const field of fields) {
+    const value = get(field);
+    if (value != null && value.trim() !== "") return value;
+  }
+  return undefined;
+}
+
+function cleanTicker(value: string | undefined): string | null {
+  const s = value?.trim().toUpperCase();
+  return s ? s : null;
+}
+
+function readWealthsimple(get: Getter, line: number): RawRow {
+  const type = (get("activity_type") ?? "").trim();
+  const subType = (get("activity_sub_type") ?? "").trim();
+  const action = type.toLowerCase() === "trade" ? normalizeImportAction(subType)
+    : type.toLowerCase() === "moneymovement" ? normalizeImportAction(subType)
+      : normalizeImportAction(type);
+  return {
+    line,
+    action,
+    actionLabel: [type, subType].filter(Boolean).join("/"),
+    date: parseImportDate(firstOf(get, "transaction_date", "date")),
+    ticker: cleanTicker(get("symbol")),
+    quantity: parseNumber(get("quantity")),
+    price: parseNumber(get("unit_price")),
+    amount: parseNumber(get("net_cash_amount")),
+    commission: parseNumber(get("commission")),
+    currency: get("currency"),
+    description: get("name")?.trim() || null,
+  };
+}
+
+function readIbkr(get: Getter, line: number): RawRow {
+  const side = get("Buy/Sell");
+  const type = get("Type");
+  return {
+    line,
+    action: side ? normalizeImportAction(side) : normalizeImportAction(type),
+    actionLabel: side ?? type ?? "",
+    date: parseImportDate(firstOf(get, "TradeDate", "Date/Time", "SettleDate", "ReportDate")),
+    ticker: cleanTicker(get("Symbol")),
+    quantity: parseNumber(get("Quantity")),
+    price: parseNumber(get("TradePrice")),
+    amount: parseNumber(firstOf(get, "Amount", "NetCash", "Proceeds")),
+    commission: parseNumber(get("IBCommission")),
+    currency: firstOf(get, "CurrencyPrimary", "Currency"),
+    description: get("Description")?.trim() || null,
+  };
+}
+
+function readQuestrade(get: Getter, line: number): RawRow {
+  const actionCode = get("Action");
+  const activityType = get("Activity Type");
+  return {
+    line,
+    action: normalizeImportAction(actionCode) ?? normalizeImportAction(activityType),
+    actionLabel: [actionCode, activityType].filter(Boolean).join("/"),
+    date: parseImportDate(firstOf(get, "Transaction Date", "Settlement Date")),
+    ticker: cleanTicker(get("Symbol")),
+    quantity: parseNumber(get("Quantity")),
+    price: parseNumber(get("Price")),
+    amount: parseNumber(firstOf(get, "Net Amount", "Gross Amount")),
+    commission: parseNumber(get("Commission")),
+    currency: get("Currency"),
+    description: get("Description")?.trim() || null,
+  };
+}
+
+function readCustom(mapping: CsvColumnMapping): (get: Getter, line: number) => RawRow {
+  return (get, line) => {
+    const pick = (field: string | undefined) => (field ? get(field) : undefined);
+    const actionLabel = pick(mapping.action) ?? "";
+    return {
+      line,
+      action: normalizeImportAction(actionLabel),
+      actionLabel,
+      date: parseImportDate(pick(mapping.date)),
+      ticker: cleanTicker(pick(mapping.ticker)),
+      quantity: parseNumber(pick(mapping.quantity)),
+      price: parseNumber(pick(mapping.price)),
+      amount: parseNumber(pick(mapping.amount)),
+      commission: parseNumber(pick(mapping.commission)),
+      currency: pick(mapping.currency),
+      description: pick(mapping.description)?.trim() || null,
+    };
+  };
+}
+
+export function detectBrokerCsvFormat(headers: string[]): BrokerCsvFormat | null {
+  const set = new Set(headers.map(normalizeHeader));
+  if (set.has("activitytype") && set.has("activitysubtype")) return "wealthsimple";
+  if (set.has("buysell") || set.has("tradeprice") || set.has("ibcommission")) return "ibkr";
+  if (set.has("action") && set.has("netamount") && (set.has("transactiondate") || set.has("settlementdate"))) return "questrade";
+  return null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+function normalizeRow(raw: RawRow): ParsedImportRow | ImportIssue {
+  if (!raw.action) return { line: raw.line, reason: `Unsupported activity "${raw.actionLabel || "(blank)"}"` };
+  if (!raw.date) return { line: raw.line, reason: "Missing or unreadable date" };
+
+  const currency = parseCurrency(raw.currency, raw.ticker);
+  const commission = Math.abs(raw.commission ?? 0);
+  const base = { line: raw.line, action: raw.action, date: raw.date, currency, description: raw.description };
+
+  if (raw.action === "BUY" || raw.action === "SELL") {
+    if (!raw.ticker) return { line: raw.line, reason: "Trade without a symbol" };
+    const quantity = Math.abs(raw.quantity ?? 0);
+    let price = Math.abs(raw.price ?? 0);
+    // Some exports only carry the cash amount; back out the price from it.
+    if (price <= 0 && quantity > 0 && raw.amount != null) {
+      const gross = Math.abs(raw.amount) + (raw.action === "BUY" ? -commission : commission);
+      price = gross / quantity;
+    }
+    if (quantity <= 0 || price <= 0) return { line: raw.line, reason: "Trade without quantity or price" };
+    return {
+      ...base,
+      ticker: raw.ticker,
+      quantity: round(quantity, 6),
+      price: round(price, 4),
+      commission: round(commission, 4),
+      amount: round(quantity * price, 2),
+      externalId: "",
+    };
+  }
+
+  const amount = Math.abs(raw.amount ?? (raw.quantity ?? 0) * (raw.price ?? 0));
+  if (!(amount > 0)) return { line: raw.line, reason: "Cash row without an amount" };
+
+  if (raw.action === "DIVIDEND") {
+    if (!raw.ticker) return { line: raw.line, reason: "Dividend without a symbol" };
+    // A negative dividend line is a reversal or withholding adjustment; not imported.
+    if ((raw.amount ?? 0) < 0) return { line: raw.line, reason: "Negative dividend (reversal / withholding) skipped" };
+    return { ...base, ticker: raw.ticker, quantity: 1, price: round(amount, 4), commission: 0, amount: round(amount, 2), externalId: "" };
+  }
+
+  return { ...base, ticker: null, quantity: 0, price: 0, commission: 0, amount: round(amount, 2), externalId: "" };
+}
+
+function baseExternalId(format: BrokerCsvFormat, row: ParsedImportRow): string {
+  return `csv:${format}:${row.date}:${row.ticker ?? "CASH"}:${row.action}:${row.quantity}:${row.amount.toFixed(2)}:${row.currency}`;
+}
+
+export function parseBrokerCsv(
+  text: string,
+  options: { format?: BrokerCsvFormat | "auto"; mapping?: CsvColumnMapping } = {},
+): ImportParseResult {
+  const table = parseCsv(text);
+  if (table.length < 2) throw new Error("CSV has no data rows");
+  const [headers, ...body] = table;
+
+  const requested = options.format && options.format !== "auto" ? options.format : null;
+  const format = requested ?? (options.mapping ? "custom" : detectBrokerCsvFormat(headers));
+  if (!format) throw new Error("Unrecognized CSV layout; choose a format or map the columns");
+  if (format === "custom" && (!options.mapping?.date || !options.mapping?.action)) {
+    throw new Error("Custom format needs at least the date and action columns");
+  }
+
+  const reader = format === "wealthsimple" ? readWealthsimple
+    : format === "ibkr" ? readIbkr
+      : format === "questrade" ? readQuestrade
+        : readCustom(options.mapping!);
+
+  const rows: ParsedImportRow[] = [];
+  const skipped: ImportIssue[] = [];
+  const occurrences = new Map<string, number>();
+
+  body.forEach((values, index) => {
+    const result = normalizeRow(reader(getterFor(headers, values), index + 2));
+    if ("reason" in result) {
+      skipped.push(result);
+      return;
+    }
+    const id = baseExternalId(format, result);
+    const seen = (occurrences.get(id) ?? 0) + 1;
+    occurrences.set(id, seen);
+    rows.push({ ...result, externalId: seen > 1 ? `${id}#${seen}` : id });
+  });
+
+  return { format, rows, skipped };
+}
+
+/** Date, ticker, action, quantity and gross amount: how a synced trade is recognized in a CSV. */
+export function tradeKey(row: { date: string | Date; ticker: string; action: string; quantity: number; price: number }): string {
+  const date = row.date instanceof Date ? row.date.toISOString().slice(0, 10) : row.date.slice(0, 10);
+  return `${date}:${row.ticker.toUpperCase()}:${row.action}:${round(row.quantity, 6)}:${(row.quantity * row.price).toFixed(2)}`;
+}
+
+/** Earliest row date; exports are often newest-first, so file order says nothing. */
+export function earliestImportDate(rows: { date: string }[]): string | null {
+  return rows.reduce<string | null>((min, row) => (min == null || row.date < min ? row.date : min), null);
+}
+
+/** Mirrors the CashTransaction unique key (portfolioId is implied by the caller). */
+export function cashTransactionKey(row: { action: string; date: string | Date; amount: number; currency: string }): string {
+  const date = row.date instanceof Date ? row.date.toISOString().slice(0, 10) : row.date.slice(0, 10);
+  return `${row.action}:${date}:${row.amount.toFixed(2)}:${row.currency}`;
+}
+
+export function planImport(rows: ParsedImportRow[], existing: ExistingImportKeys): ImportPreviewRow[] {
+  const cashKeys = new Set(existing.cashKeys);
+  const synced = new Map<string, number>();
+  for (const key of existing.syncedTradeKeys) synced.set(key, (synced.get(key) ?? 0) + 1);
+  return rows.map((row) => {
+    if (row.action === "DEPOSIT" || row.action === "WITHDRAWAL") {
+      const key = cashTransactionKey(row);
+      if (cashKeys.has(key)) return { ...row, status: "duplicate", reason: "Cash transaction already recorded" };
+      cashKeys.add(key);
+      return { ...row, status: "new", reason: null };
+    }
+    if (existing.externalIds.has(row.externalId)) {
+      return { ...row, status: "duplicate", reason: "Already imported" };
+    }
+    const key = row.ticker ? tradeKey({ ...row, ticker: row.ticker }) : null;
+    if (key && (synced.get(key) ?? 0) > 0) {
+      synced.set(key, synced.get(key)! - 1);
+      return { ...row, status: "duplicate", reason: "Already synced from Questrade" };
+    }
+    if (row.action === "BUY" && row.ticker === LEGACY_INCOME_TICKER) {
+      return { ...row, status: "blocked", reason: "Rulebook v4.4.2 violation: income slot ticker is QQQI only" };
+    }
+    return { ...row, status: "new", reason: null };
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Starting point for ./decumulation from stored data: the latest
+ * PortfolioAccountSnapshot of each portfolio rolled up by account type, the
+ * SCHD slice of the RRSP at the live price, the investor profile's birth year
+ * and the income goal as the default spending target. Used by
+ * /api/v2/decumulation and the /v2/retirement page.
+ *
+ * FHSA is counted with the RRSP (tax-free transfer in) and CASH accounts with
+ * NON_REG.
+ */
+import { prisma } from "@/lib/db";
+import {
+  planDecumulation,
+  type DecumulationBalances,
+  type DecumulationInput,
+  type DecumulationPlan,
+} from "@/lib/decumulation";
+import { getFxRate, getPrice } from "@/lib/price";
+
+export interface DecumulationDefaults {
+  birthYear: number | null;
+  currentAge: number | null;
+  balances: DecumulationBalances;
+  /** Income goal from Settings in CAD; 0 when unset. */
+  spendingTargetCAD: number;
+  /** Latest snapshot date used for balances, YYYY-MM-DD. */
+  asOf: string | null;
+}
+
+export type DecumulationOverrides = Partial<Omit<DecumulationInput, "startYear" | "balances">>;
+
+export interface DecumulationReport {
+  defaults: DecumulationDefaults;
+  input: DecumulationInput;
+  plan: DecumulationPlan;
+}
+
+function decimalToNumber(value: { toString(): string } | null | undefined): number {
+  const parsed = parseFloat(value?.toString() ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function parseSetting<T>(value: string | undefined): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadDecumulationDefaults(userId: string): Promise<DecumulationDefaults> {
+  const [snapshots, rrspSchd, settings] = await Promise.all([
+    prisma.portfolioAccountSnapshot.findMany({
+      where: { userId },
+      orderBy: { date: "desc" },
+      distinct: ["portfolioId"],
+      select: { accountType: true, date: true, totalCAD: true, costBasisCAD: true },
+    }),
+    prisma.holding.findMany({
+      where: { ticker: "SCHD", isActive: true, portfolio: { userId, accountType: { in: ["RRSP", "FHSA"] } } },
+      select: { quantity: true, currency: true },
+    }),
+    prisma.setting.findMany({
+      where: { key: { in: [`${userId}:investment:investor_profile`, `${userId}:investment:income_goal`] } },
+    }),
+  ]);
+
+  let nonRegCAD = 0;
+  let nonRegCostBasisCAD = 0;
+  let tfsaCAD = 0;
+  let rrspCAD = 0;
+  let asOf: string | null = null;
+  for (const s of snapshots) {
+    const total = decimalToNumber(s.totalCAD);
+    const date = s.date.toISOString().slice(0, 10);
+    if (!asOf || date > asOf) asOf = date;
+    if (s.accountType === "TFSA") tfsaCAD += total;
+    else if (s.accountType === "RRSP" || s.accountType === "FHSA") rrspCAD += total;
+    else {
+      nonRegCAD += total;
+      nonRegCostBasisCAD += decimalToNumber(s.costBasisCAD);
+    }
+  }
+
+  let rrspSchdCAD = 0;
+  const schdShares = rrspSchd.reduce((sum, h) => sum + decimalToNumber(h.quantity), 0);
+  if (schdShares > 0) {
+    const [quote, fx] = await Promise.all([getPrice("SCHD").catch(() => null), getFxRate()]);
+    const usd = rrspSchd.some((h) => h.currency === "USD");
+    if (quote) rrspSchdCAD = Math.min(rrspCAD, schdShares * quote.price * (usd ? fx.rate : 1));
+  }
+
+  const byKey = new Map(settings.map((s) => [s.key, s.value]));
+  const profile = parseSetting<{ birthYear?: number }>(byKey.get(`${userId}:investment:investor_profile`));
+  const goal = parseSetting<{ annualTarget?: number; currency?: string }>(byKey.get(`${userId}:investment:income_goal`));
+  let spendingTargetCAD = goal?.annualTarget ?? 0;
+  if (spendingTargetCAD > 0 && goal?.currency === "USD") spendingTargetCAD *= (await getFxRate()).rate;
+
+  const birthYear = profile?.birthYear ?? null;
+  return {
+    birthYear,
+    currentAge: birthYear ? new Date().getFullYear() - birthYear : null,
+    balances: {
+      nonRegCAD,
+      nonRegCostBasisCAD,
+      tfsaCAD,
+      rrspSchdCAD,
+      rrspOtherCAD: Math.max(0, rrspCAD - rrspSchdCAD),
+    },
+    spendingTargetCAD: Math.round(spendingTargetCAD),
+    asOf,
+  };
+}
+
+/** Null when no age is known — neither the profile nor the overrides give one. */
+export async function loadDecumulationReport(
+  userId: string,
+  overrides: DecumulationOverrides = {},
+): Promise<DecumulationReport | null> {
+  const defaults = await loadDecumulationDefaults(userId);
+  const currentAge = overrides.currentAge ?? defaults.currentAge;
+  if (currentAge == null) return null;
+  const input: DecumulationInput = {
+    province: "ON",
+    spendingTargetCAD: defaults.spendingTargetCAD,
+    ...overrides,
+    currentAge,
+    startYear: new Date().getFullYear(),
+    balances: defaults.balances,
+  };
+  return { defaults, input, plan: planDecumulation(input) };
+}
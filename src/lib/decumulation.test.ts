@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import {
+  computePersonalTax,
+  planDecumulation,
+  rrifMinimumPct,
+  type DecumulationInput,
+} from "./decumulation";
+
+const empty = { nonRegCAD: 0, nonRegCostBasisCAD: 0, tfsaCAD: 0, rrspSchdCAD: 0, rrspOtherCAD: 0 };
+
+function plan(overrides: Partial<DecumulationInput>) {
+  return planDecumulation({
+    startYear: 2026,
+    currentAge: 50,
+    endAge: 50,
+    province: "ON",
+    balances: empty,
+    spendingTargetCAD: 0,
+    realReturnPct: 0,
+    nonRegYieldPct: 0,
+    pensionAnnualCAD: 0,
+    ...overrides,
+  });
+}
+
+{
+  // 50,000 in Ontario: 14 % / 5.05 % on income above each basic personal amount.
+  const tax = computePersonalTax(50_000, "ON");
+  assert.ok(Math.abs(tax.federalTaxCAD - ((50_000 - 16_452) * 0.14)) < 1e-6, "federal");
+  assert.ok(Math.abs(tax.provincialTaxCAD - ((50_000 - 12_989) * 0.0505)) < 1e-6, "Ontario");
+  assert.equal(tax.oasClawbackCAD, 0);
+  assert.ok(Math.abs((computePersonalTax(100_000, "ON").federalTaxCAD) - (58_523 * 0.14 + 41_477 * 0.205 - 16_452 * 0.14)) < 1e-6, "second bracket");
+  assert.equal(computePersonalTax(10_000, "AB").provincialTaxCAD, 0, "below the basic personal amount");
+  // OAS recovery: 15 % above the threshold, capped at the OAS received.
+  assert.ok(Math.abs((computePersonalTax(105_323, "ON", 8_880).oasClawbackCAD) - 1_500) < 1e-6, "clawback");
+  assert.ok(Math.abs((computePersonalTax(500_000, "ON", 8_880).oasClawbackCAD) - 8_880) < 1e-6, "clawback cap");
+}
+
+{
+  assert.equal(rrifMinimumPct(71), 0, "no RRIF minimum through 71");
+  assert.equal(rrifMinimumPct(72), 5.4);
+  assert.equal(rrifMinimumPct(100), 20);
+}
+
+{
+  // TFSA only: tax-free, drawn until empty; the shortfall year marks depletion.
+  const result = plan({ balances: { ...empty, tfsaCAD: 100_000 }, spendingTargetCAD: 40_000, endAge: 52 });
+  assert.deepEqual(result.years.map((y) => y.withdrawals.TFSA), [40_000, 40_000, 20_000]);
+  assert.deepEqual(result.years.map((y) => y.totalTaxCAD), [0, 0, 0]);
+  assert.equal(result.years[2].shortfallCAD, 20_000);
+  assert.equal(result.depletedAtAge, 52);
+}
+
+{
+  // NON_REG goes first: half the withdrawal is gain, half of that is taxable — under the BPA here.
+  const result = plan({
+    balances: { ...empty, nonRegCAD: 100_000, nonRegCostBasisCAD: 50_000, tfsaCAD: 100_000 },
+    spendingTargetCAD: 10_000,
+  });
+  const year = result.years[0];
+  assert.equal(year.withdrawals.NON_REG, 10_000);
+  assert.equal(year.withdrawals.TFSA, 0);
+  assert.equal(year.taxableIncomeCAD, 2_500);
+  assert.equal(year.endBalances.nonRegCAD, 90_000);
+}
+
+{
+  // RRSP withdrawals are grossed up until the after-tax amount meets the target.
+  const result = plan({ balances: { ...empty, rrspOtherCAD: 500_000 }, spendingTargetCAD: 30_000 });
+  const year = result.years[0];
+  assert.ok(year.withdrawals.RRSP > 30_000);
+  assert.ok(Math.abs(year.afterTaxIncomeCAD - 30_000) <= 1, `after tax ${year.afterTaxIncomeCAD}`);
+  assert.equal(year.totalTaxCAD, year.withdrawals.RRSP - year.afterTaxIncomeCAD);
+}
+
+{
+  // §11 meltdown at 60 with nothing to spend: 40,000 out of the RRSP SCHD first,
+  // after-tax surplus to TFSA up to the room, the rest to NON_REG at cost.
+  const result = plan({
+    currentAge: 60,
+    endAge: 60,
+    balances: { ...empty, rrspSchdCAD: 100_000, rrspOtherCAD: 400_000 },
+  });
+  const year = result.years[0];
+  const tax = computePersonalTax(40_000, "ON");
+  const afterTax = 40_000 - tax.federalTaxCAD - tax.provincialTaxCAD;
+  assert.equal(year.mandatoryRrspCAD, 40_000);
+  assert.equal(year.withdrawals.RRSP, 40_000);
+  assert.equal(year.surplusToTfsaCAD, 7_000);
+  assert.equal(year.endBalances.tfsaCAD, 7_000);
+  assert.equal(year.endBalances.nonRegCAD, Math.round(afterTax - 7_000));
+  assert.equal(year.endBalances.rrspCAD, 460_000);
+}
+
+{
+  // From 72 the RRIF minimum replaces the meltdown amount.
+  const result = plan({ currentAge: 71, endAge: 72, balances: { ...empty, rrspOtherCAD: 1_000_000 } });
+  assert.equal(result.years[0].mandatoryRrspCAD, 40_000, "71: last meltdown year");
+  assert.equal(result.years[1].rrifMinimumCAD, 51_840, "72: 5.40 % of the Jan 1 balance");
+  assert.equal(result.years[1].mandatoryRrspCAD, 51_840);
+}
+
+{
+  // Household of two from 65: CPP/OAS per person, the other pension fills the rulebook total,
+  // and income is taxed as two equal halves.
+  const result = plan({ currentAge: 65, endAge: 65, people: 2, pensionAnnualCAD: undefined });
+  const year = result.years[0];
+  assert.equal(year.cppCAD, 24_000);
+  assert.equal(year.oasCAD, 17_760);
+  assert.equal(year.cppCAD + year.oasCAD + year.pensionCAD, 7_781 * 12);
+  const half = computePersonalTax(7_781 * 6, "ON", 8_880);
+  assert.equal(year.totalTaxCAD, Math.round(2 * (half.federalTaxCAD + half.provincialTaxCAD)));
+  assert.equal(year.oasClawbackCAD, 0);
+}
+
+console.log("decumulation tests passed");
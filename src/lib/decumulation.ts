@@ -0,0 +1,382 @@
+/**
+ * Year-by-year retirement withdrawal planner. Pure functions.
+ *
+ * Each year, in order:
+ *  1. mandatory RRSP/RRIF outflow — the §11 meltdown amount from
+ *     RRSP_MELTDOWN_START_AGE to RRSP_MELTDOWN_END_AGE, then the RRIF minimum
+ *     from 72 — drawn SCHD-first through computeMeltdownAllocation
+ *  2. CPP, OAS and other pension; non-registered dividends (spent from
+ *     DIVIDEND_CONSUMPTION_AGE, reinvested before that but taxed either way)
+ *  3. the remaining after-tax spending gap is filled from the accounts in
+ *     `withdrawalOrder` (default NON_REG → TFSA → RRSP), each grossed up for
+ *     the tax it adds
+ *  4. any after-tax surplus (meltdown years) goes to TFSA up to the annual
+ *     room, the rest to NON_REG
+ *  5. balances grow at the real return
+ *
+ * Everything is in today's dollars with a real return, so brackets, CPP/OAS
+ * and the spending target stay flat. Tax is 2026 federal + provincial with
+ * the basic personal amount as the only credit; income is split evenly across
+ * `people` (pension splitting). Foreign (US ETF) dividends get no dividend
+ * tax credit; non-registered sales realise gains pro rata to ACB at 50 %
+ * inclusion.
+ */
+import { computeMeltdownAllocation, RULEBOOK_TARGETS } from "@/lib/rulebook";
+
+export const DECUMULATION_PROVINCES = ["ON", "BC", "AB"] as const;
+export type DecumulationProvince = (typeof DECUMULATION_PROVINCES)[number];
+
+export const DECUMULATION_ACCOUNTS = ["NON_REG", "TFSA", "RRSP"] as const;
+export type DecumulationAccount = (typeof DECUMULATION_ACCOUNTS)[number];
+
+interface TaxSchedule {
+  /** Ascending; the last bracket's upTo is Infinity. */
+  brackets: Array<{ upTo: number; rate: number }>;
+  basicPersonalAmount: number;
+}
+
+export const FEDERAL_TAX_2026: TaxSchedule = {
+  brackets: [
+    { upTo: 58_523, rate: 0.14 },
+    { upTo: 117_045, rate: 0.205 },
+    { upTo: 181_440, rate: 0.26 },
+    { upTo: 258_482, rate: 0.29 },
+    { upTo: Infinity, rate: 0.33 },
+  ],
+  basicPersonalAmount: 16_452,
+};
+
+export const PROVINCIAL_TAX_2026: Record<DecumulationProvince, TaxSchedule> = {
+  ON: {
+    brackets: [
+      { upTo: 53_891, rate: 0.0505 },
+      { upTo: 107_785, rate: 0.0915 },
+      { upTo: 150_000, rate: 0.1116 },
+      { upTo: 220_000, rate: 0.1216 },
+      { upTo: Infinity, rate: 0.1316 },
+    ],
+    basicPersonalAmount: 12_989,
+  },
+  BC: {
+    brackets: [
+      { upTo: 50_363, rate: 0.0506 },
+      { upTo: 100_728, rate: 0.077 },
+      { upTo: 115_648, rate: 0.105 },
+      { upTo: 140_430, rate: 0.1229 },
+      { upTo: 190_405, rate: 0.147 },
+      { upTo: 265_545, rate: 0.168 },
+      { upTo: Infinity, rate: 0.205 },
+    ],
+    basicPersonalAmount: 12_932,
+  },
+  AB: {
+    brackets: [
+      { upTo: 61_200, rate: 0.08 },
+      { upTo: 154_259, rate: 0.1 },
+      { upTo: 185_111, rate: 0.12 },
+      { upTo: 246_813, rate: 0.13 },
+      { upTo: 370_220, rate: 0.14 },
+      { upTo: Infinity, rate: 0.15 },
+    ],
+    basicPersonalAmount: 22_769,
+  },
+};
+
+export const OAS_CLAWBACK_THRESHOLD_CAD = 95_323;
+export const OAS_CLAWBACK_RATE = 0.15;
+export const CAPITAL_GAINS_INCLUSION = 0.5;
+
+// RRIF minimum withdrawal factors by age at Jan 1 (Income Tax Regulations 7308);
+// 95 and over is 20 %.
+const RRIF_MINIMUM_PCT: Record<number, number> = {
+  72: 5.4, 73: 5.53, 74: 5.67, 75: 5.82, 76: 5.98, 77: 6.17, 78: 6.36, 79: 6.58,
+  80: 6.82, 81: 7.08, 82: 7.38, 83: 7.71, 84: 8.08, 85: 8.51, 86: 8.99, 87: 9.55,
+  88: 10.21, 89: 10.99, 90: 11.92, 91: 13.06, 92: 14.49, 93: 16.34, 94: 18.79,
+};
+
+/** RRIF minimum as a percent of the Jan 1 balance; 0 until the RRSP converts after 71. */
+export function rrifMinimumPct(age: number): number {
+  if (age <= RULEBOOK_TARGETS.RRSP_MELTDOWN_END_AGE) return 0;
+  return age >= 95 ? 20 : RRIF_MINIMUM_PCT[age] ?? 0;
+}
+
+function scheduleTax(income: number, schedule: TaxSchedule): number {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of schedule.brackets) {
+    if (income <= lower) break;
+    tax += (Math.min(income, bracket.upTo) - lower) * bracket.rate;
+    lower = bracket.upTo;
+  }
+  return Math.max(0, tax - schedule.basicPersonalAmount * schedule.brackets[0].rate);
+}
+
+export interface PersonalTax {
+  federalTaxCAD: number;
+  provincialTaxCAD: number;
+  oasClawbackCAD: number;
+}
+
+/** One person's income tax and OAS recovery tax on `taxableIncomeCAD`, which includes OAS received. */
+export function computePersonalTax(
+  taxableIncomeCAD: number,
+  province: DecumulationProvince,
+  oasReceivedCAD = 0,
+): PersonalTax {
+  const income = Math.max(0, taxableIncomeCAD);
+  return {
+    federalTaxCAD: scheduleTax(income, FEDERAL_TAX_2026),
+    provincialTaxCAD: scheduleTax(income, PROVINCIAL_TAX_2026[province]),
+    oasClawbackCAD: Math.min(
+      Math.max(0, oasReceivedCAD),
+      Math.max(0, (income - OAS_CLAWBACK_THRESHOLD_CAD) * OAS_CLAWBACK_RATE),
+    ),
+  };
+}
+
+export interface DecumulationBalances {
+  nonRegCAD: number;
+  /** Adjusted cost base of the non-registered account. */
+  nonRegCostBasisCAD: number;
+  tfsaCAD: number;
+  /** RRSP/RRIF SCHD position, drawn first by computeMeltdownAllocation. */
+  rrspSchdCAD: number;
+  /** Everything else in the RRSP/RRIF (QLD, SGOV, cash). */
+  rrspOtherCAD: number;
+}
+
+export interface DecumulationInput {
+  startYear: number;
+  currentAge: number;
+  /** Last age planned, inclusive. Default 95. */
+  endAge?: number;
+  province: DecumulationProvince;
+  /** 2 = household of two with income split evenly. Default 1. */
+  people?: 1 | 2;
+  balances: DecumulationBalances;
+  /** After-tax household spending target per year. */
+  spendingTargetCAD: number;
+  /** Real (after-inflation) total return, %. Default 4. */
+  realReturnPct?: number;
+  /** Distribution yield of the non-registered account, %. Default 3.5 (SCHD). */
+  nonRegYieldPct?: number;
+  /** Per person. Defaults 12,000 CPP and 8,880 OAS from 65. */
+  cppAnnualCAD?: number;
+  cppStartAge?: number;
+  oasAnnualCAD?: number;
+  oasStartAge?: number;
+  /**
+   * Other household pension from PENSION_START_AGE. Defaults to whatever keeps
+   * CPP + OAS + pension at the rulebook's PENSION_MONTHLY_CAD household total.
+   */
+  pensionAnnualCAD?: number;
+  meltdownAnnualCAD?: number;
+  withdrawalOrder?: DecumulationAccount[];
+  /** New TFSA room per person per year. Default 7,000. */
+  tfsaAnnualRoomCAD?: number;
+}
+
+export interface DecumulationYear {
+  year: number;
+  age: number;
+  /** Meltdown amount or RRIF minimum, whichever applies (requested, before balance limits). */
+  mandatoryRrspCAD: number;
+  rrifMinimumCAD: number;
+  withdrawals: Record<DecumulationAccount, number>;
+  cppCAD: number;
+  oasCAD: number;
+  pensionCAD: number;
+  dividendsCAD: number;
+  taxableIncomeCAD: number;
+  federalTaxCAD: number;
+  provincialTaxCAD: number;
+  oasClawbackCAD: number;
+  totalTaxCAD: number;
+  /** Cash in (pensions, spent dividends, withdrawals) minus all tax and clawback. */
+  afterTaxIncomeCAD: number;
+  shortfallCAD: number;
+  /** After-tax cash beyond the target, recontributed; surplusToTfsaCAD of it went to the TFSA. */
+  surplusCAD: number;
+  surplusToTfsaCAD: number;
+  endBalances: { nonRegCAD: number; tfsaCAD: number; rrspCAD: number; totalCAD: number };
+}
+
+export interface DecumulationPlan {
+  years: DecumulationYear[];
+  /** First age with a shortfall after every account is empty; null if never. */
+  depletedAtAge: number | null;
+  lifetimeTaxCAD: number;
+  lifetimeAfterTaxIncomeCAD: number;
+  /** Tax ÷ (tax + after-tax income) over the plan, %. */
+  averageTaxRatePct: number;
+}
+
+const DEFAULT_CPP_ANNUAL_CAD = 12_000;
+const DEFAULT_OAS_ANNUAL_CAD = 8_880;
+const DEFAULT_TFSA_ROOM_CAD = 7_000;
+
+function roundMoney(value: number): number {
+  return Math.round(value) || 0;
+}
+
+/** Smallest w in [0, max] with f(w) ≥ target, f non-decreasing; max if none. */
+function solveWithdrawal(max: number, target: number, f: (w: number) => number): number {
+  if (max <= 0 || f(max) <= target) return Math.max(0, max);
+  let lo = 0;
+  let hi = max;
+  for (let i = 0; i < 50 && hi - lo > 0.01; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) >= target) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+export function planDecumulation(input: DecumulationInput): DecumulationPlan {
+  const people = input.people ?? 1;
+  const endAge = input.endAge ?? 95;
+  const realReturn = (input.realReturnPct ?? 4) / 100;
+  const nonRegYield = (input.nonRegYieldPct ?? 3.5) / 100;
+  const cppPerPerson = input.cppAnnualCAD ?? DEFAULT_CPP_ANNUAL_CAD;
+  const oasPerPerson = input.oasAnnualCAD ?? DEFAULT_OAS_ANNUAL_CAD;
+  const cppStartAge = input.cppStartAge ?? 65;
+  const oasStartAge = input.oasStartAge ?? 65;
+  const pensionAnnual = input.pensionAnnualCAD
+    ?? Math.max(0, RULEBOOK_TARGETS.PENSION_MONTHLY_CAD * 12 - people * (cppPerPerson + oasPerPerson));
+  const meltdownAnnual = input.meltdownAnnualCAD ?? RULEBOOK_TARGETS.RRSP_MELTDOWN_ANNUAL_CAD;
+  const order = input.withdrawalOrder ?? [...DECUMULATION_ACCOUNTS];
+  const tfsaRoom = (input.tfsaAnnualRoomCAD ?? DEFAULT_TFSA_ROOM_CAD) * people;
+  const target = Math.max(0, input.spendingTargetCAD);
+
+  let nonReg = Math.max(0, input.balances.nonRegCAD);
+  let nonRegAcb = Math.min(nonReg, Math.max(0, input.balances.nonRegCostBasisCAD));
+  let tfsa = Math.max(0, input.balances.tfsaCAD);
+  let rrspSchd = Math.max(0, input.balances.rrspSchdCAD);
+  let rrspOther = Math.max(0, input.balances.rrspOtherCAD);
+
+  const years: DecumulationYear[] = [];
+  let depletedAtAge: number | null = null;
+
+  for (let age = input.currentAge; age <= endAge; age++) {
+    // (1) Mandatory RRSP/RRIF outflow, SCHD first.
+    const inMeltdown = age >= RULEBOOK_TARGETS.RRSP_MELTDOWN_START_AGE && age <= RULEBOOK_TARGETS.RRSP_MELTDOWN_END_AGE;
+    const rrifMinimum = (rrspSchd + rrspOther) * rrifMinimumPct(age) / 100;
+    const mandatory = computeMeltdownAllocation(rrspSchd, rrspOther, inMeltdown ? meltdownAnnual : 0, { minimumCAD: rrifMinimum });
+    rrspSchd -= mandatory.fromSchd;
+    rrspOther -= mandatory.fromQld;
+
+    // (2) Pensions and non-registered dividends.
+    const cpp = age >= cppStartAge ? cppPerPerson * people : 0;
+    const oas = age >= oasStartAge ? oasPerPerson * people : 0;
+    const pension = age >= RULEBOOK_TARGETS.PENSION_START_AGE ? pensionAnnual : 0;
+    const dividends = nonReg * nonRegYield;
+    const dividendsSpent = age >= RULEBOOK_TARGETS.DIVIDEND_CONSUMPTION_AGE ? dividends : 0;
+    const baseTaxable = mandatory.totalWithdrawn + cpp + oas + pension + dividends;
+    const baseCash = mandatory.totalWithdrawn + cpp + oas + pension + dividendsSpent;
+    const gainRatio = nonReg > 0 ? 1 - nonRegAcb / nonReg : 0;
+
+    const withdrawals: Record<DecumulationAccount, number> = { NON_REG: 0, TFSA: 0, RRSP: mandatory.totalWithdrawn };
+    const extra = { NON_REG: 0, TFSA: 0, RRSP: 0 };
+    const taxFor = (w: typeof extra) => {
+      const householdTaxable = baseTaxable + w.RRSP + w.NON_REG * gainRatio * CAPITAL_GAINS_INCLUSION;
+      const perPerson = computePersonalTax(householdTaxable / people, input.province, oas / people);
+      return {
+        taxable: householdTaxable,
+        federal: perPerson.federalTaxCAD * people,
+        provincial: perPerson.provincialTaxCAD * people,
+        clawback: perPerson.oasClawbackCAD * people,
+      };
+    };
+    const spendable = (w: typeof extra) => {
+      const tax = taxFor(w);
+      return baseCash + w.NON_REG + w.TFSA + w.RRSP - tax.federal - tax.provincial - tax.clawback;
+    };
+
+    // (3) Fill the after-tax gap in the configured order.
+    for (const account of order) {
+      if (spendable(extra) >= target) break;
+      const available = account === "NON_REG" ? nonReg : account === "TFSA" ? tfsa : rrspSchd + rrspOther;
+      extra[account] = solveWithdrawal(available, target, (w) => spendable({ ...extra, [account]: w }));
+    }
+    if (extra.NON_REG > 0) {
+      nonRegAcb -= nonReg > 0 ? nonRegAcb * (extra.NON_REG / nonReg) : 0;
+      nonReg -= extra.NON_REG;
+    }
+    tfsa -= extra.TFSA;
+    if (extra.RRSP > 0) {
+      const more = computeMeltdownAllocation(rrspSchd, rrspOther, extra.RRSP);
+      rrspSchd -= more.fromSchd;
+      rrspOther -= more.fromQld;
+    }
+    withdrawals.NON_REG = extra.NON_REG;
+    withdrawals.TFSA = extra.TFSA;
+    withdrawals.RRSP += extra.RRSP;
+
+    const tax = taxFor(extra);
+    const totalTax = tax.federal + tax.provincial + tax.clawback;
+    const afterTax = spendable(extra);
+
+    // (4) Surplus: TFSA first, then NON_REG (new money is all ACB).
+    const surplus = Math.max(0, afterTax - target);
+    const toTfsa = Math.min(surplus, tfsaRoom);
+    tfsa += toTfsa;
+    nonReg += surplus - toTfsa;
+    nonRegAcb += surplus - toTfsa;
+
+    // (5) Growth. Non-registered price return excludes the yield paid out above;
+    //     reinvested dividends buy new units at cost.
+    const reinvested = dividends - dividendsSpent;
+    nonReg = nonReg * (1 + realReturn - nonRegYield) + reinvested;
+    nonRegAcb += reinvested;
+    tfsa *= 1 + realReturn;
+    rrspSchd *= 1 + realReturn;
+    rrspOther *= 1 + realReturn;
+
+    const shortfall = Math.max(0, target - afterTax);
+    const rrsp = rrspSchd + rrspOther;
+    if (depletedAtAge == null && shortfall > 0.5 && nonReg + tfsa + rrsp < 1) depletedAtAge = age;
+
+    years.push({
+      year: input.startYear + (age - input.currentAge),
+      age,
+      mandatoryRrspCAD: roundMoney(mandatory.requestedCAD),
+      rrifMinimumCAD: roundMoney(rrifMinimum),
+      withdrawals: {
+        NON_REG: roundMoney(withdrawals.NON_REG),
+        TFSA: roundMoney(withdrawals.TFSA),
+        RRSP: roundMoney(withdrawals.RRSP),
+      },
+      cppCAD: roundMoney(cpp),
+      oasCAD: roundMoney(oas),
+      pensionCAD: roundMoney(pension),
+      dividendsCAD: roundMoney(dividends),
+      taxableIncomeCAD: roundMoney(tax.taxable),
+      federalTaxCAD: roundMoney(tax.federal),
+      provincialTaxCAD: roundMoney(tax.provincial),
+      oasClawbackCAD: roundMoney(tax.clawback),
+      totalTaxCAD: roundMoney(totalTax),
+      afterTaxIncomeCAD: roundMoney(afterTax),
+      shortfallCAD: roundMoney(shortfall),
+      surplusCAD: roundMoney(surplus),
+      surplusToTfsaCAD: roundMoney(toTfsa),
+      endBalances: {
+        nonRegCAD: roundMoney(nonReg),
+        tfsaCAD: roundMoney(tfsa),
+        rrspCAD: roundMoney(rrsp),
+        totalCAD: roundMoney(nonReg + tfsa + rrsp),
+      },
+    });
+  }
+
+  const lifetimeTax = years.reduce((sum, y) => sum + y.totalTaxCAD, 0);
+  const lifetimeAfterTax = years.reduce((sum, y) => sum + y.afterTaxIncomeCAD, 0);
+  return {
+    years,
+    depletedAtAge,
+    lifetimeTaxCAD: lifetimeTax,
+    lifetimeAfterTaxIncomeCAD: lifetimeAfterTax,
+    averageTaxRatePct: lifetimeTax + lifetimeAfterTax > 0
+      ? Math.round((lifetimeTax / (lifetimeTax + lifetimeAfterTax)) * 1000) / 10
+      : 0,
+  };
+}
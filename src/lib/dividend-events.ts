@@ -0,0 +1,42 @@
+/** Yahoo dividend events (ex-date + per-share amount), cached for an hour per ticker and range. */
+import { yahooFinance } from "@/lib/price";
+
+export interface DividendEvent {
+  date: string; // ex-dividend date, YYYY-MM-DD
+  amount: number;
+}
+
+export interface DividendEventHistory {
+  currency: string;
+  events: DividendEvent[];
+}
+
+const historyCache = new Map<string, { data: DividendEventHistory; fetchedAt: number }>();
+const TTL = 60 * 60 * 1000;
+
+export async function getDividendEvents(
+  ticker: string,
+  range: { from: string; to?: string },
+): Promise<DividendEventHistory> {
+  const cacheKey = `${ticker}:${range.from}:${range.to ?? ""}`;
+  const cached = historyCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < TTL) return cached.data;
+
+  const chart = await yahooFinance.chart(ticker, {
+    period1: range.from,
+    ...(range.to ? { period2: range.to } : {}),
+    interval: "1mo",
+  });
+
+  const dividendMap = chart.events?.dividends ?? {};
+  const events = Object.values(dividendMap)
+    .map((d) => {
+      const item = d as { date: Date | number | string; amount: number };
+      return { date: new Date(item.date).toISOString().slice(0, 10), amount: item.amount };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const data = { currency: chart.meta?.currency ?? "USD", events };
+  historyCache.set(cacheKey, { data, fetchedAt: Date.now() });
+  return data;
+}
@@ -0,0 +1,131 @@
+/**
+ * Loads active holdings, the past year's BUY/SELL flow and seven years of
+ * Yahoo dividend events, and runs ./dividend-growth over each ticker. Used by
+ * /api/dividends/growth (holding detail panel and calendar summary).
+ *
+ * Shares a year ago are today's shares minus the net shares bought since, so
+ * holdings imported without their early transactions still split correctly.
+ */
+import { prisma } from "@/lib/db";
+import { getFxRate } from "@/lib/price";
+import { getDividendEvents } from "@/lib/dividend-events";
+import {
+  analyzeDividendHistory,
+  computeIncomeRaise,
+  summarizeIncomeRaise,
+  type DividendGrowthAnalysis,
+  type IncomeRaiseLine,
+  type IncomeRaiseSummary,
+} from "@/lib/dividend-growth";
+
+const HISTORY_YEARS = 7;
+
+export interface DividendGrowthHolding {
+  ticker: string;
+  currency: string;
+  shares: number;
+  avgCost: number;
+  analysis: DividendGrowthAnalysis;
+  incomeRaise: IncomeRaiseLine;
+}
+
+export interface DividendGrowthReport {
+  asOf: string;
+  fxRate: number;
+  holdings: DividendGrowthHolding[];
+  summary: IncomeRaiseSummary;
+  /** Tickers whose dividend history could not be fetched. */
+  failedTickers: string[];
+}
+
+function decimalToNumber(value: { toString(): string } | null | undefined): number {
+  const parsed = parseFloat(value?.toString() ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export async function loadDividendGrowthReport(
+  userId: string,
+  scope: { ticker?: string } = {},
+): Promise<DividendGrowthReport> {
+  const now = new Date();
+  const asOf = now.toISOString().slice(0, 10);
+  const yearAgo = new Date(now);
+  yearAgo.setUTCFullYear(yearAgo.getUTCFullYear() - 1);
+  const historyFrom = new Date(now);
+  historyFrom.setUTCFullYear(historyFrom.getUTCFullYear() - HISTORY_YEARS);
+
+  const [rows, fx] = await Promise.all([
+    prisma.holding.findMany({
+      where: {
+        isActive: true,
+        quantity: { gt: 0 },
+        portfolio: { userId },
+        ...(scope.ticker ? { ticker: scope.ticker } : {}),
+      },
+      select: {
+        ticker: true,
+        currency: true,
+        quantity: true,
+        avgCost: true,
+        transactions: {
+          where: { action: { in: ["BUY", "SELL"] }, date: { gt: yearAgo } },
+          select: { action: true, quantity: true },
+        },
+      },
+    }),
+    getFxRate(),
+  ]);
+
+  const byTicker = new Map<string, { currency: string; shares: number; cost: number; netBought: number }>();
+  for (const row of rows) {
+    const qty = decimalToNumber(row.quantity);
+    const entry = byTicker.get(row.ticker) ?? { currency: row.currency, shares: 0, cost: 0, netBought: 0 };
+    entry.shares += qty;
+    entry.cost += qty * decimalToNumber(row.avgCost);
+    for (const txn of row.transactions) {
+      const q = decimalToNumber(txn.quantity);
+      entry.netBought += txn.action === "BUY" ? q : -q;
+    }
+    byTicker.set(row.ticker, entry);
+  }
+
+  const failedTickers: string[] = [];
+  const holdings: DividendGrowthHolding[] = [];
+  await Promise.all(
+    [...byTicker.entries()].map(async ([ticker, entry]) => {
+      let events;
+      try {
+        ({ events } = await getDividendEvents(ticker, { from: historyFrom.toISOString().slice(0, 10) }));
+      } catch {
+        failedTickers.push(ticker);
+        return;
+      }
+      if (events.length === 0) return;
+      const avgCost = entry.shares > 0 ? entry.cost / entry.shares : 0;
+      holdings.push({
+        ticker,
+        currency: entry.currency,
+        shares: entry.shares,
+        avgCost,
+        analysis: analyzeDividendHistory(events, { asOf, avgCost }),
+        incomeRaise: computeIncomeRaise({
+          ticker,
+          currency: entry.currency,
+          events,
+          asOf,
+          sharesNow: entry.shares,
+          sharesYearAgo: Math.max(0, entry.shares - entry.netBought),
+        }),
+      });
+    }),
+  );
+
+  holdings.sort((a, b) => a.ticker.localeCompare(b.ticker));
+  return {
+    asOf,
+    fxRate: fx.rate,
+    holdings,
+    summary: summarizeIncomeRaise(holdings.map((h) => h.incomeRaise), fx.rate),
+    failedTickers: failedTickers.sort(),
+  };
+}
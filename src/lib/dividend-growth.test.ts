@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import {
+  analyzeDividendHistory,
+  computeIncomeRaise,
+  detectDividendCuts,
+  summarizeIncomeRaise,
+  trailingTwelveMonths,
+} from "./dividend-growth";
+import type { DividendEvent } from "./dividend-events";
+
+/** Quarterly payer raising 10 % every January, 2019 → `lastYear`. */
+function quarterly(lastYear: number, base = 0.5): DividendEvent[] {
+  const events: DividendEvent[] = [];
+  for (let year = 2019; year <= lastYear; year++) {
+    const amount = base * Math.pow(1.1, year - 2019);
+    for (const month of ["03", "06", "09", "12"]) events.push({ date: `${year}-${month}-15`, amount });
+  }
+  return events;
+}
+
+{
+  // Steady raiser: 10 % CAGR over 1, 3 and 5 years; yield on cost from the forward rate.
+  const events = quarterly(2025);
+  assert.ok(Math.abs((trailingTwelveMonths(events, "2025-12-31")) - (4 * 0.5 * Math.pow(1.1, 6))) < 1e-6, "TTM");
+  const analysis = analyzeDividendHistory(events, { asOf: "2025-12-31", avgCost: 40 });
+  assert.equal(analysis.frequency, 4);
+  assert.ok(Math.abs((analysis.cagr.y1 ?? NaN) - 10) < 1e-6, "1y CAGR");
+  assert.ok(Math.abs((analysis.cagr.y3 ?? NaN) - 10) < 1e-6, "3y CAGR");
+  assert.ok(Math.abs((analysis.cagr.y5 ?? NaN) - 10) < 1e-6, "5y CAGR");
+  assert.ok(Math.abs(analysis.forwardAnnualPerShare - (4 * 0.5 * Math.pow(1.1, 6))) < 1e-6, "forward");
+  assert.ok(Math.abs((analysis.yieldOnCostPct ?? NaN) - ((4 * 0.5 * Math.pow(1.1, 6) / 40) * 100)) < 1e-6, "yield on cost");
+  assert.deepEqual(analysis.cuts, []);
+  assert.equal(analysis.status, "growing");
+}
+
+{
+  // Two years of history: no 3y / 5y figure, and events after asOf are ignored.
+  const analysis = analyzeDividendHistory(quarterly(2025).filter((e) => e.date >= "2024-01-01"), { asOf: "2025-06-30" });
+  assert.equal(analysis.cagr.y3, null);
+  assert.equal(analysis.cagr.y5, null);
+  assert.equal(analysis.lastEventDate, "2025-06-15");
+  assert.equal(analysis.yieldOnCostPct, null, "no cost basis");
+}
+
+{
+  // A 30 % cut in the last year is flagged against the same quarter a year back.
+  const events = quarterly(2025);
+  events[events.length - 1] = { date: "2025-12-15", amount: events[events.length - 5].amount * 0.7 };
+  const cuts = detectDividendCuts(events, 4);
+  assert.equal(cuts.length, 1);
+  assert.equal(cuts[0].date, "2025-12-15");
+  assert.ok(Math.abs(cuts[0].changePct + 30) < 1e-6, "cut size");
+  assert.equal(analyzeDividendHistory(events, { asOf: "2025-12-31" }).status, "cut");
+}
+
+{
+  // Quarterly payer silent since June: suspended, forward rate zero.
+  const analysis = analyzeDividendHistory(quarterly(2025).filter((e) => e.date <= "2025-06-15"), { asOf: "2025-12-31", avgCost: 40 });
+  assert.equal(analysis.suspended, true);
+  assert.equal(analysis.status, "suspended");
+  assert.equal(analysis.forwardAnnualPerShare, 0);
+  assert.equal(analysis.yieldOnCostPct, null);
+}
+
+{
+  // 100 → 120 shares while the rate went 2.00 → 2.20: +20 from raises, +44 from new shares.
+  const events: DividendEvent[] = [
+    { date: "2024-09-15", amount: 0.5 },
+    { date: "2024-12-15", amount: 0.5 },
+    { date: "2025-03-15", amount: 0.55 },
+    { date: "2025-06-15", amount: 0.55 },
+    { date: "2025-09-15", amount: 0.55 },
+    { date: "2025-12-15", amount: 0.55 },
+  ];
+  const line = computeIncomeRaise({ ticker: "SCHD", currency: "USD", events, asOf: "2025-12-31", sharesNow: 120, sharesYearAgo: 100 });
+  assert.ok(Math.abs(line.rateYearAgo - 2) < 1e-6, "rate a year ago");
+  assert.ok(Math.abs(line.rateNow - 2.2) < 1e-6, "rate now");
+  assert.ok(Math.abs(line.fromRaises - 20) < 1e-6, "from raises");
+  assert.ok(Math.abs(line.fromNewShares - 44) < 1e-6, "from new shares");
+  assert.ok(Math.abs((line.incomeNow - line.incomeYearAgo) - (line.fromRaises + line.fromNewShares)) < 1e-6, "decomposition adds up");
+
+  const summary = summarizeIncomeRaise([line, { ...line, ticker: "XEI.TO", currency: "CAD" }], 1.4);
+  assert.ok(Math.abs(summary.fromRaisesCAD - (20 * 1.4 + 20)) < 1e-6, "raises in CAD");
+  assert.ok(Math.abs(summary.fromNewSharesCAD - (44 * 1.4 + 44)) < 1e-6, "new shares in CAD");
+  assert.ok(Math.abs((summary.organicGrowthPct ?? NaN) - 10) < 1e-6, "organic growth");
+}
+
+console.log("dividend growth tests passed");
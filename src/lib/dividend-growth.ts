@@ -0,0 +1,231 @@
+/**
+ * Per-ticker dividend growth analytics from ex-dividend events: trailing
+ * 1/3/5-year CAGR of the trailing-twelve-month total, yield on cost against
+ * the average cost, cuts and suspensions judged against the detected payment
+ * frequency, and the "income raise" split of forward-income growth into
+ * distribution increases vs new shares. Pure; dividend-growth-source.ts loads
+ * the events and holdings.
+ *
+ * Amounts stay in the security's own currency; only the income-raise summary
+ * converts to CAD.
+ */
+import { detectFrequency } from "./dividend-utils";
+import type { DividendEvent } from "./dividend-events";
+
+/** A payment at least this far below the same payment a year earlier is a cut. */
+export const DIVIDEND_CUT_THRESHOLD_PCT = 10;
+/** No payment for this many expected intervals reads as a suspension. */
+export const DIVIDEND_SUSPENSION_INTERVALS = 1.5;
+/** TTM growth inside ±this band is "flat". */
+const FLAT_BAND_PCT = 1;
+
+const DAY_MS = 86_400_000;
+
+export type DividendGrowthStatus = "growing" | "flat" | "declining" | "cut" | "suspended" | "insufficient_history";
+
+export interface DividendCut {
+  date: string;
+  amount: number;
+  priorAmount: number;
+  changePct: number;
+}
+
+export interface DividendGrowthAnalysis {
+  frequency: number;
+  eventCount: number;
+  firstEventDate: string | null;
+  lastEventDate: string | null;
+  latestAmount: number | null;
+  /** Latest payment × frequency; 0 once suspended. */
+  forwardAnnualPerShare: number;
+  trailing12PerShare: number;
+  /** Percent per year; null without a full window of history. */
+  cagr: { y1: number | null; y3: number | null; y5: number | null };
+  yieldOnCostPct: number | null;
+  cuts: DividendCut[];
+  suspended: boolean;
+  status: DividendGrowthStatus;
+}
+
+export interface IncomeRaiseLine {
+  ticker: string;
+  currency: string;
+  sharesNow: number;
+  sharesYearAgo: number;
+  rateNow: number;
+  rateYearAgo: number;
+  incomeNow: number;
+  incomeYearAgo: number;
+  /** Year-ago shares × the change in the forward rate. */
+  fromRaises: number;
+  /** Shares added over the year × today's forward rate. */
+  fromNewShares: number;
+}
+
+export interface IncomeRaiseSummary {
+  incomeNowCAD: number;
+  incomeYearAgoCAD: number;
+  fromRaisesCAD: number;
+  fromNewSharesCAD: number;
+  /** Organic growth: fromRaises / income a year ago, percent. */
+  organicGrowthPct: number | null;
+}
+
+function toTime(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getTime();
+}
+
+function shiftYears(date: string, years: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCFullYear(d.getUTCFullYear() + years);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Sum of payments with ex-date in (end − 1 year, end]. */
+export function trailingTwelveMonths(events: DividendEvent[], end: string): number {
+  const start = shiftYears(end, -1);
+  return events
+    .filter((e) => e.date > start && e.date <= end)
+    .reduce((sum, e) => sum + e.amount, 0);
+}
+
+/** Frequency from the last two years of payments, so an old schedule change doesn't skew it. */
+export function recentFrequency(events: DividendEvent[], asOf: string): number {
+  const since = shiftYears(asOf, -2);
+  const recent = events.filter((e) => e.date > since && e.date <= asOf);
+  return detectFrequency(recent.length >= 2 ? recent : events.filter((e) => e.date <= asOf));
+}
+
+/** Forward annual rate as of `date`: the last payment on or before it × frequency. */
+export function forwardRateAt(events: DividendEvent[], date: string, frequency: number): number {
+  const last = [...events].reverse().find((e) => e.date <= date);
+  return last ? last.amount * frequency : 0;
+}
+
+export function isSuspended(events: DividendEvent[], asOf: string, frequency: number): boolean {
+  const last = [...events].reverse().find((e) => e.date <= asOf);
+  if (!last) return false;
+  const intervalDays = 365 / frequency;
+  return (toTime(asOf) - toTime(last.date)) / DAY_MS > intervalDays * DIVIDEND_SUSPENSION_INTERVALS;
+}
+
+/**
+ * Each payment against the one `frequency` payments earlier (same slot a year
+ * back), so seasonal ETF distributions aren't read as cuts.
+ */
+export function detectDividendCuts(events: DividendEvent[], frequency: number): DividendCut[] {
+  const cuts: DividendCut[] = [];
+  for (let i = frequency; i < events.length; i++) {
+    const prior = events[i - frequency].amount;
+    if (prior <= 0) continue;
+    const changePct = (events[i].amount / prior - 1) * 100;
+    if (changePct <= -DIVIDEND_CUT_THRESHOLD_PCT) {
+      cuts.push({ date: events[i].date, amount: events[i].amount, priorAmount: prior, changePct });
+    }
+  }
+  return cuts;
+}
+
+function cagrPct(events: DividendEvent[], asOf: string, years: number, frequency: number): number | null {
+  const thenEnd = shiftYears(asOf, -years);
+  const thenStart = shiftYears(thenEnd, -1);
+  const first = events[0];
+  // The earlier window must be covered from its first payment slot on.
+  if (!first || toTime(first.date) > toTime(thenStart) + (365 / frequency) * DAY_MS) return null;
+  const then = trailingTwelveMonths(events, thenEnd);
+  if (then <= 0) return null;
+  const now = trailingTwelveMonths(events, asOf);
+  return (Math.pow(now / then, 1 / years) - 1) * 100;
+}
+
+export function analyzeDividendHistory(
+  allEvents: DividendEvent[],
+  options: { asOf: string; avgCost?: number | null },
+): DividendGrowthAnalysis {
+  const events = allEvents
+    .filter((e) => e.date <= options.asOf && e.amount > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const frequency = recentFrequency(events, options.asOf);
+  const last = events.at(-1) ?? null;
+  const suspended = isSuspended(events, options.asOf, frequency);
+  const forwardAnnualPerShare = suspended ? 0 : forwardRateAt(events, options.asOf, frequency);
+  const cuts = detectDividendCuts(events, frequency);
+  const cagr = {
+    y1: cagrPct(events, options.asOf, 1, frequency),
+    y3: cagrPct(events, options.asOf, 3, frequency),
+    y5: cagrPct(events, options.asOf, 5, frequency),
+  };
+
+  const yearAgo = shiftYears(options.asOf, -1);
+  let status: DividendGrowthStatus;
+  if (suspended) status = "suspended";
+  else if (cuts.some((c) => c.date > yearAgo)) status = "cut";
+  else if (cagr.y1 == null) status = "insufficient_history";
+  else if (cagr.y1 > FLAT_BAND_PCT) status = "growing";
+  else if (cagr.y1 < -FLAT_BAND_PCT) status = "declining";
+  else status = "flat";
+
+  const avgCost = options.avgCost ?? 0;
+  return {
+    frequency,
+    eventCount: events.length,
+    firstEventDate: events[0]?.date ?? null,
+    lastEventDate: last?.date ?? null,
+    latestAmount: last?.amount ?? null,
+    forwardAnnualPerShare,
+    trailing12PerShare: trailingTwelveMonths(events, options.asOf),
+    cagr,
+    yieldOnCostPct: avgCost > 0 && forwardAnnualPerShare > 0 ? (forwardAnnualPerShare / avgCost) * 100 : null,
+    cuts,
+    suspended,
+    status,
+  };
+}
+
+/**
+ * Splits the change in forward annual income over the past year:
+ *   incomeNow − incomeYearAgo = sharesYearAgo·(rateNow − rateYearAgo)   ← raises
+ *                             + (sharesNow − sharesYearAgo)·rateNow     ← new shares
+ */
+export function computeIncomeRaise(input: {
+  ticker: string;
+  currency: string;
+  events: DividendEvent[];
+  asOf: string;
+  sharesNow: number;
+  sharesYearAgo: number;
+}): IncomeRaiseLine {
+  const events = input.events.filter((e) => e.amount > 0).sort((a, b) => a.date.localeCompare(b.date));
+  const yearAgo = shiftYears(input.asOf, -1);
+  const frequencyNow = recentFrequency(events, input.asOf);
+  const frequencyThen = recentFrequency(events, yearAgo);
+  const rateNow = isSuspended(events, input.asOf, frequencyNow) ? 0 : forwardRateAt(events, input.asOf, frequencyNow);
+  const rateYearAgo = isSuspended(events, yearAgo, frequencyThen) ? 0 : forwardRateAt(events, yearAgo, frequencyThen);
+  return {
+    ticker: input.ticker,
+    currency: input.currency,
+    sharesNow: input.sharesNow,
+    sharesYearAgo: input.sharesYearAgo,
+    rateNow,
+    rateYearAgo,
+    incomeNow: input.sharesNow * rateNow,
+    incomeYearAgo: input.sharesYearAgo * rateYearAgo,
+    fromRaises: input.sharesYearAgo * (rateNow - rateYearAgo),
+    fromNewShares: (input.sharesNow - input.sharesYearAgo) * rateNow,
+  };
+}
+
+export function summarizeIncomeRaise(lines: IncomeRaiseLine[], usdCadRate: number): IncomeRaiseSummary {
+  const toCad = (line: IncomeRaiseLine, value: number) => (line.currency === "USD" ? value * usdCadRate : value);
+  const sum = (pick: (line: IncomeRaiseLine) => number) =>
+    lines.reduce((total, line) => total + toCad(line, pick(line)), 0);
+  const incomeYearAgoCAD = sum((l) => l.incomeYearAgo);
+  const fromRaisesCAD = sum((l) => l.fromRaises);
+  return {
+    incomeNowCAD: sum((l) => l.incomeNow),
+    incomeYearAgoCAD,
+    fromRaisesCAD,
+    fromNewSharesCAD: sum((l) => l.fromNewShares),
+    organicGrowthPct: incomeYearAgoCAD > 0 ? (fromRaisesCAD / incomeYearAgoCAD) * 100 : null,
+  };
+}
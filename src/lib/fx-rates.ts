@@ -0,0 +1,175 @@
+/**
+ * Daily USD/CAD rates persisted in FxRateDaily.
+ *
+ *  - ingestFxRates     : fetch a date range (Bank of Canada Valet, Yahoo
+ *    USDCAD=X daily closes as fallback) and upsert one row per day.
+ *    Used by the daily cron and by `npm run fx:backfill`.
+ *  - getFxRateOn       : single-date lookup for request handlers.
+ *  - loadFxRateResolver: one query for a whole range, then synchronous
+ *    lookups; for reports that convert many rows at once.
+ *
+ * Weekends and holidays have no published rate, so lookups take the latest
+ * row on or before the date, up to FX_MAX_STALE_DAYS back. Anything older
+ * falls back to the live quote (recent dates) or defaultUsdCad().
+ */
+import { prisma } from "@/lib/db";
+import { getFxRate, yahooFinance } from "@/lib/price";
+import { log } from "@/lib/logger";
+
+export const USD_CAD_PAIR = "USDCAD";
+export const FX_MAX_STALE_DAYS = 7;
+
+const BOC_SERIES = "FXUSDCAD";
+const BOC_URL = `https://www.bankofcanada.ca/valet/observations/${BOC_SERIES}/json`;
+
+export type FxRateSource = "boc" | "yahoo" | "live" | "default";
+
+export interface FxRateObservation {
+  date: string;
+  rate: number;
+  source: FxRateSource;
+}
+
+export interface FxRateOnResult {
+  rate: number;
+  /** Date of the row used; null when no stored row was close enough. */
+  rateDate: string | null;
+  source: FxRateSource;
+  fallback: boolean;
+}
+
+function dateKey(value: string | Date): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return value.slice(0, 10);
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** USD/CAD when no stored or live rate is available: DEFAULT_FX_RATE, else 1.35. */
+export function defaultUsdCad(): number {
+  const parsed = parseFloat(process.env.DEFAULT_FX_RATE ?? "1.35");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1.35;
+}
+
+async function fetchBankOfCanada(from: string, to: string): Promise<FxRateObservation[]> {
+  const res = await fetch(`${BOC_URL}?start_date=${from}&end_date=${to}`, {
+    headers: { accept: "application/json" },
+  });
+  if (!res.ok) throw new Error(`Bank of Canada Valet HTTP ${res.status}`);
+  const data = await res.json() as { observations?: Array<{ d?: string } & Record<string, { v?: string } | string | undefined>> };
+  return (data.observations ?? []).flatMap((observation) => {
+    const value = observation[BOC_SERIES];
+    const rate = typeof value === "object" ? parseFloat(value?.v ?? "") : NaN;
+    if (!observation.d || !Number.isFinite(rate) || rate <= 0) return [];
+    return [{ date: observation.d, rate, source: "boc" as const }];
+  });
+}
+
+async function fetchYahoo(from: string, to: string): Promise<FxRateObservation[]> {
+  const chart = await yahooFinance.chart("USDCAD=X", {
+    period1: from,
+    period2: shiftDays(to, 1),
+    interval: "1d",
+  });
+  return (chart.quotes ?? [])
+    .filter((q) => q.close != null && q.close > 0)
+    .map((q) => ({ date: dateKey(new Date(q.date)), rate: Math.round(q.close! * 1_000_000) / 1_000_000, source: "yahoo" as const }));
+}
+
+/** Fetch and upsert daily rates for [from, to]. Returns the rows written. */
+export async function ingestFxRates(from: string, to: string): Promise<FxRateObservation[]> {
+  let observations: FxRateObservation[] = [];
+  try {
+    observations = await fetchBankOfCanada(from, to);
+  } catch (error) {
+    log.warn({ event: "fx.ingest.bocFailed", from, to, error: String(error) });
+  }
+
+  // Valet only publishes from 2017 onward and skips days it has not fixed yet;
+  // fill the gaps from Yahoo without overriding Bank of Canada rows.
+  const covered = new Set(observations.map((o) => o.date));
+  try {
+    const yahoo = await fetchYahoo(from, to);
+    observations = observations.concat(yahoo.filter((o) => !covered.has(o.date)));
+  } catch (error) {
+    log.warn({ event: "fx.ingest.yahooFailed", from, to, error: String(error) });
+  }
+
+  for (const observation of observations) {
+    const date = new Date(`${observation.date}T00:00:00Z`);
+    const existing = await prisma.fxRateDaily.findUnique({
+      where: { date_pair: { date, pair: USD_CAD_PAIR } },
+      select: { source: true },
+    });
+    // A later Bank of Canada fix replaces a provisional quote, never the reverse.
+    if (existing?.source === "boc" && observation.source !== "boc") continue;
+    await prisma.fxRateDaily.upsert({
+      where: { date_pair: { date, pair: USD_CAD_PAIR } },
+      create: { date, pair: USD_CAD_PAIR, rate: observation.rate, source: observation.source },
+      update: { rate: observation.rate, source: observation.source },
+    });
+  }
+
+  return observations.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Latest observation on or before `date`, no more than FX_MAX_STALE_DAYS old. */
+export function rateOnOrBefore(observations: FxRateObservation[], date: string): FxRateObservation | null {
+  const floor = shiftDays(date, -FX_MAX_STALE_DAYS);
+  let best: FxRateObservation | null = null;
+  for (const observation of observations) {
+    if (observation.date > date || observation.date < floor) continue;
+    if (!best || observation.date > best.date) best = observation;
+  }
+  return best;
+}
+
+async function loadObservations(from: string, to: string): Promise<FxRateObservation[]> {
+  const rows = await prisma.fxRateDaily.findMany({
+    where: {
+      pair: USD_CAD_PAIR,
+      date: { gte: new Date(`${shiftDays(from, -FX_MAX_STALE_DAYS)}T00:00:00Z`), lte: new Date(`${to}T00:00:00Z`) },
+    },
+    orderBy: { date: "asc" },
+    select: { date: true, rate: true, source: true },
+  });
+  return rows.map((row) => ({
+    date: dateKey(row.date),
+    rate: parseFloat(row.rate.toString()),
+    source: row.source as FxRateSource,
+  }));
+}
+
+/**
+ * Loads every stored rate for [from, to] once and returns a synchronous lookup.
+ * The lookup returns null when no row is close enough; callers pick their own fallback.
+ */
+export async function loadFxRateResolver(
+  from: string | Date,
+  to: string | Date,
+): Promise<(date: string | Date) => number | null> {
+  const observations = await loadObservations(dateKey(from), dateKey(to));
+  return (date) => rateOnOrBefore(observations, dateKey(date))?.rate ?? null;
+}
+
+export async function getFxRateOn(date: string | Date): Promise<FxRateOnResult> {
+  const key = dateKey(date);
+  try {
+    const match = rateOnOrBefore(await loadObservations(key, key), key);
+    if (match) return { rate: match.rate, rateDate: match.date, source: match.source, fallback: false };
+  } catch (error) {
+    log.warn({ event: "fx.lookup.failed", date: key, error: String(error) });
+  }
+
+  // No stored row: a recent date can use the live quote; older dates need a backfill.
+  const today = dateKey(new Date());
+  if (key >= shiftDays(today, -FX_MAX_STALE_DAYS)) {
+    const live = await getFxRate();
+    return { rate: live.rate, rateDate: null, source: live.fallback ? "default" : "live", fallback: live.fallback };
+  }
+  return { rate: defaultUsdCad(), rateDate: null, source: "default", fallback: true };
+}
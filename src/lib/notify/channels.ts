@@ -0,0 +1,103 @@
+// Notifier transports. Telegram and SMTP credentials are deployment-wide env
+// values; the per-user setting only holds the recipient (chat id / address).
+// createMemoryChannel is the local stand-in used by tests and dev runs.
+import nodemailer from "nodemailer";
+import type { NotifyChannel, NotifyChannelName, NotifyChannelRegistry, NotifyMessage } from "./notifier";
+
+const TELEGRAM_API = "https://api.telegram.org";
+const TELEGRAM_MAX_TEXT = 4096;
+
+type FetchLike = (url: string, init: RequestInit) => Promise<Pick<Response, "ok" | "status" | "text">>;
+
+export function createTelegramChannel(options: { botToken: string; fetchImpl?: FetchLike }): NotifyChannel {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    name: "telegram",
+    async send(chatId: string, message: NotifyMessage) {
+      const res = await fetchImpl(`${TELEGRAM_API}/bot${options.botToken}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text: message.text.slice(0, TELEGRAM_MAX_TEXT),
+          disable_web_page_preview: true,
+        }),
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (!res.ok) {
+        // Telegram error bodies never echo the token, but keep them short.
+        throw new Error(`Telegram sendMessage failed (${res.status}): ${(await res.text()).slice(0, 200)}`);
+      }
+    },
+  };
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export function createEmailChannel(config: SmtpConfig): NotifyChannel {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass ?? "" } : undefined,
+  });
+  return {
+    name: "email",
+    async send(to: string, message: NotifyMessage) {
+      await transport.sendMail({ from: config.from, to, subject: message.subject, text: message.text });
+    },
+  };
+}
+
+export interface MemoryChannel extends NotifyChannel {
+  sent: Array<{ target: string; message: NotifyMessage }>;
+}
+
+/** Records messages instead of sending them. `failWith` makes every send throw. */
+export function createMemoryChannel(name: NotifyChannelName, options: { failWith?: string } = {}): MemoryChannel {
+  const sent: MemoryChannel["sent"] = [];
+  return {
+    name,
+    sent,
+    async send(target: string, message: NotifyMessage) {
+      if (options.failWith) throw new Error(options.failWith);
+      sent.push({ target, message });
+    },
+  };
+}
+
+/**
+ * Transports configured in this deployment:
+ *  - telegram: TELEGRAM_BOT_TOKEN
+ *  - email   : SMTP_HOST, SMTP_FROM (+ SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+ * NOTIFY_TRANSPORT=memory swaps both for memory channels, for local runs
+ * without real credentials (messages are only logged by the caller).
+ */
+export function channelsFromEnv(env: NodeJS.ProcessEnv = process.env): NotifyChannelRegistry {
+  if (env.NOTIFY_TRANSPORT === "memory") {
+    return { telegram: createMemoryChannel("telegram"), email: createMemoryChannel("email") };
+  }
+  const registry: NotifyChannelRegistry = {};
+  if (env.TELEGRAM_BOT_TOKEN) {
+    registry.telegram = createTelegramChannel({ botToken: env.TELEGRAM_BOT_TOKEN });
+  }
+  if (env.SMTP_HOST && env.SMTP_FROM) {
+    const port = Number(env.SMTP_PORT ?? 587);
+    registry.email = createEmailChannel({
+      host: env.SMTP_HOST,
+      port: Number.isFinite(port) ? port : 587,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+      from: env.SMTP_FROM,
+    });
+  }
+  return registry;
+}
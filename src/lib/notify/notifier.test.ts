@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+
+import { channelsFromEnv, createMemoryChannel, createTelegramChannel } from "./channels";
+import {
+  ALERT_RENOTIFY_MS,
+  activeTargets,
+  alertsToNotify,
+  deliver,
+  formatTriggerMessage,
+  notifyChannelValue,
+  parseNotifySettings,
+  triggerEventsToNotify,
+  updateAlertSendLog,
+  type NotifiableTriggerEvent,
+} from "./notifier";
+
+const event = (overrides: Partial<NotifiableTriggerEvent>): NotifiableTriggerEvent => ({
+  id: "e1",
+  triggerKind: "hard_exit",
+  severity: "action_required",
+  detectedAt: new Date("2026-04-02T06:30:00Z"),
+  resolvedAt: null,
+  notifiedAt: null,
+  computedPlan: null,
+  ...overrides,
+});
+
+async function testDeliversToEnabledChannelsAndSurvivesFailures() {
+  const telegram = createMemoryChannel("telegram");
+  const email = createMemoryChannel("email", { failWith: "SMTP 550" });
+  const settings = parseNotifySettings(JSON.stringify({
+    telegram: { enabled: true, chatId: " 12345 " },
+    email: { enabled: true, to: "me@example.com" },
+    minSeverity: "warn",
+  }));
+
+  const targets = activeTargets(settings, { telegram, email });
+  assert.deepEqual(targets.map((t) => t.target), ["12345", "me@example.com"]);
+  // No transport configured for a channel → it is skipped, not failed.
+  assert.deepEqual(activeTargets(settings, { telegram }).map((t) => t.channel.name), ["telegram"]);
+
+  const message = formatTriggerMessage(
+    event({ computedPlan: { active: true, tqqqSellCAD: 4200.4, qldBuyCAD: 0 } }),
+    "§10 Emergency cap (growth ≥ 38%)",
+    "2026-04-01",
+  );
+  const result = await deliver(targets, message);
+  assert.deepEqual(result.sent, ["telegram"]);
+  assert.deepEqual(result.failed, [{ channel: "email", error: "SMTP 550" }]);
+  assert.equal(telegram.sent.length, 1);
+  assert.match(telegram.sent[0].message.text, /ACTION REQUIRED\] §10 Emergency cap/);
+  assert.match(telegram.sent[0].message.text, /tqqqSell: \$4,200/);
+  assert.doesNotMatch(telegram.sent[0].message.text, /qldBuy/);
+  assert.equal(notifyChannelValue(result.sent), "telegram");
+  assert.equal(notifyChannelValue(["email", "telegram"]), "telegram,email");
+  assert.equal(notifyChannelValue([]), null);
+}
+
+function testTriggerDedupeAndSeverityFloor() {
+  const events = [
+    event({ id: "new" }),
+    event({ id: "notified", notifiedAt: new Date("2026-04-01T06:31:00Z") }),
+    event({ id: "resolved", resolvedAt: new Date("2026-04-01T15:00:00Z") }),
+    event({ id: "info", triggerKind: "sgov_below_target", severity: "info" }),
+    event({ id: "warn", triggerKind: "qqqi_at_cap", severity: "warn" }),
+  ];
+  assert.deepEqual(triggerEventsToNotify(events, "warn").map((e) => e.id), ["new", "warn"]);
+  assert.deepEqual(triggerEventsToNotify(events, "info").map((e) => e.id), ["new", "info", "warn"]);
+  assert.deepEqual(triggerEventsToNotify(events, "action_required").map((e) => e.id), ["new"]);
+
+  // Unknown or malformed stored settings fall back to everything disabled.
+  assert.equal(parseNotifySettings("{not json").telegram.enabled, false);
+  assert.equal(parseNotifySettings(JSON.stringify({ minSeverity: "loud" })).minSeverity, "warn");
+}
+
+function testAlertSendLogDedupe() {
+  const now = new Date("2026-04-10T06:30:00Z");
+  const drift = { type: "ENGINE_LEGACY_DRIFT", message: "drift", details: { driftPct: 0.8 } };
+  const jepqA = { type: "JEPQ_AUTO_BUY_VIOLATION", message: "jepq", details: { buyTransactionId: "tx-a" } };
+  const jepqB = { type: "JEPQ_AUTO_BUY_VIOLATION", message: "jepq", details: { buyTransactionId: "tx-b" } };
+
+  const first = alertsToNotify([drift, jepqA, jepqA], {}, now);
+  assert.deepEqual(first, [drift, jepqA]);
+
+  const sendLog = updateAlertSendLog({}, first, now);
+  const nextDay = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  assert.deepEqual(alertsToNotify([drift, jepqA, jepqB], sendLog, nextDay), [jepqB]);
+
+  const later = new Date(now.getTime() + ALERT_RENOTIFY_MS);
+  assert.deepEqual(alertsToNotify([drift], sendLog, later), [drift]);
+  // Expired entries are pruned when the log is rewritten.
+  assert.deepEqual(Object.keys(updateAlertSendLog(sendLog, [], later)), []);
+}
+
+async function testTelegramChannelRequest() {
+  const calls: Array<{ url: string; body: unknown }> = [];
+  const telegram = createTelegramChannel({
+    botToken: "123:abc",
+    fetchImpl: async (url, init) => {
+      calls.push({ url, body: JSON.parse(String(init.body)) });
+      return calls.length === 1
+        ? { ok: true, status: 200, text: async () => "{}" }
+        : { ok: false, status: 400, text: async () => '{"description":"chat not found"}' };
+    },
+  });
+  await telegram.send("42", { subject: "s", text: "hello", severity: "info" });
+  assert.equal(calls[0].url, "https://api.telegram.org/bot123:abc/sendMessage");
+  assert.deepEqual(calls[0].body, { chat_id: "42", text: "hello", disable_web_page_preview: true });
+  await assert.rejects(() => telegram.send("42", { subject: "s", text: "x", severity: "info" }), /400.*chat not found/);
+
+  assert.deepEqual(Object.keys(channelsFromEnv({ NODE_ENV: "test" })), []);
+  assert.deepEqual(Object.keys(channelsFromEnv({ NODE_ENV: "test", NOTIFY_TRANSPORT: "memory" })), ["telegram", "email"]);
+  assert.deepEqual(Object.keys(channelsFromEnv({ NODE_ENV: "test", TELEGRAM_BOT_TOKEN: "t", SMTP_HOST: "smtp.test" })), ["telegram"]);
+}
+
+const tests = [
+  testDeliversToEnabledChannelsAndSurvivesFailures,
+  testTriggerDedupeAndSeverityFloor,
+  testAlertSendLogDedupe,
+  testTelegramChannelRequest,
+];
+
+async function main() {
+  for (const run of tests) {
+    await run();
+  }
+  console.log("notifier tests passed");
+}
+
+void main();
@@ -0,0 +1,222 @@
+// Notification delivery for the daily cron: rulebook trigger events and
+// cron alert payloads (engine drift, JEPQ auto-buy). Pure core — channels are
+// injected, so tests run against the memory channel and the cron wires the
+// Telegram / SMTP channels from env (see channels.ts, notify-source.ts).
+//
+// Dedupe:
+//  - Trigger events are notified once per RulebookTriggerEvent row. A trigger
+//    that stays active keeps the same row (upsertTriggerEvent refreshes it),
+//    so notifiedAt is the dedupe marker. A new row only appears after the
+//    condition cleared or the user resolved the previous event.
+//  - Alert payloads carry no row of their own; a fingerprint log in Setting
+//    keeps the same alert from re-sending within ALERT_RENOTIFY_MS.
+
+export type NotifyChannelName = "telegram" | "email";
+export type NotifySeverity = "info" | "warn" | "action_required";
+
+export const NOTIFY_CHANNELS: NotifyChannelName[] = ["telegram", "email"];
+const SEVERITY_RANK: Record<NotifySeverity, number> = { info: 0, warn: 1, action_required: 2 };
+
+export const ALERT_RENOTIFY_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface NotifySettings {
+  telegram: { enabled: boolean; chatId: string };
+  email: { enabled: boolean; to: string };
+  /** Trigger events below this severity are not sent. Alerts always count as "warn". */
+  minSeverity: NotifySeverity;
+}
+
+export const DEFAULT_NOTIFY_SETTINGS: NotifySettings = {
+  telegram: { enabled: false, chatId: "" },
+  email: { enabled: false, to: "" },
+  minSeverity: "warn",
+};
+
+export interface NotifyMessage {
+  subject: string;
+  text: string;
+  severity: NotifySeverity;
+}
+
+/** Recipient for one channel: a Telegram chat id or an email address. */
+export interface NotifyChannel {
+  name: NotifyChannelName;
+  send(target: string, message: NotifyMessage): Promise<void>;
+}
+
+export type NotifyChannelRegistry = Partial<Record<NotifyChannelName, NotifyChannel>>;
+
+export interface DeliveryResult {
+  /** Channels that accepted the message. */
+  sent: NotifyChannelName[];
+  failed: Array<{ channel: NotifyChannelName; error: string }>;
+}
+
+export function parseNotifySettings(raw: string | null | undefined): NotifySettings {
+  if (!raw) return DEFAULT_NOTIFY_SETTINGS;
+  try {
+    const parsed = JSON.parse(raw) as Partial<NotifySettings>;
+    return {
+      telegram: {
+        enabled: parsed.telegram?.enabled === true,
+        chatId: typeof parsed.telegram?.chatId === "string" ? parsed.telegram.chatId : "",
+      },
+      email: {
+        enabled: parsed.email?.enabled === true,
+        to: typeof parsed.email?.to === "string" ? parsed.email.to : "",
+      },
+      minSeverity: parsed.minSeverity && parsed.minSeverity in SEVERITY_RANK ? parsed.minSeverity : DEFAULT_NOTIFY_SETTINGS.minSeverity,
+    };
+  } catch {
+    return DEFAULT_NOTIFY_SETTINGS;
+  }
+}
+
+/** Enabled channels that have both a recipient and a configured transport. */
+export function activeTargets(
+  settings: NotifySettings,
+  registry: NotifyChannelRegistry,
+): Array<{ channel: NotifyChannel; target: string }> {
+  const targets: Array<{ channel: NotifyChannel; target: string }> = [];
+  const telegram = registry.telegram;
+  if (settings.telegram.enabled && settings.telegram.chatId.trim() && telegram) {
+    targets.push({ channel: telegram, target: settings.telegram.chatId.trim() });
+  }
+  const email = registry.email;
+  if (settings.email.enabled && settings.email.to.trim() && email) {
+    targets.push({ channel: email, target: settings.email.to.trim() });
+  }
+  return targets;
+}
+
+export function meetsSeverity(severity: string, minSeverity: NotifySeverity): boolean {
+  const rank = SEVERITY_RANK[severity as NotifySeverity] ?? SEVERITY_RANK.info;
+  return rank >= SEVERITY_RANK[minSeverity];
+}
+
+/** Sends to every target; one failing channel does not stop the others. */
+export async function deliver(
+  targets: Array<{ channel: NotifyChannel; target: string }>,
+  message: NotifyMessage,
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = { sent: [], failed: [] };
+  for (const { channel, target } of targets) {
+    try {
+      await channel.send(target, message);
+      result.sent.push(channel.name);
+    } catch (error) {
+      result.failed.push({ channel: channel.name, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+}
+
+// ── Trigger events ──────────────────────────────────────────────────────────
+
+export interface NotifiableTriggerEvent {
+  id: string;
+  triggerKind: string;
+  severity: string;
+  detectedAt: Date;
+  resolvedAt: Date | null;
+  notifiedAt: Date | null;
+  computedPlan: unknown;
+}
+
+/** Open, not yet notified, and at or above the user's severity floor. */
+export function triggerEventsToNotify<T extends NotifiableTriggerEvent>(events: T[], minSeverity: NotifySeverity): T[] {
+  return events.filter((event) =>
+    event.resolvedAt == null && event.notifiedAt == null && meetsSeverity(event.severity, minSeverity),
+  );
+}
+
+function planLines(plan: unknown): string[] {
+  if (!plan || typeof plan !== "object" || (plan as { active?: unknown }).active === false) return [];
+  return Object.entries(plan as Record<string, unknown>)
+    .filter(([key, value]) => key.endsWith("CAD") && typeof value === "number" && value > 0)
+    .map(([key, value]) => `  ${key.replace(/CAD$/, "")}: $${Math.round(value as number).toLocaleString("en-CA")}`);
+}
+
+export function formatTriggerMessage(
+  event: NotifiableTriggerEvent,
+  label: string,
+  closeDate: string | null,
+): NotifyMessage {
+  const lines = [
+    `[${event.severity.toUpperCase().replace("_", " ")}] ${label}`,
+    closeDate ? `Close: ${closeDate}` : `Detected: ${event.detectedAt.toISOString().slice(0, 10)}`,
+  ];
+  const plan = planLines(event.computedPlan);
+  if (plan.length > 0) lines.push("Plan:", ...plan);
+  lines.push("Approve or reject on the AI page.");
+  return {
+    subject: `DividendTracker rulebook: ${label}`,
+    text: lines.join("\n"),
+    severity: SEVERITY_RANK[event.severity as NotifySeverity] != null ? event.severity as NotifySeverity : "info",
+  };
+}
+
+// ── Cron alert payloads ─────────────────────────────────────────────────────
+
+export interface NotifiableAlert {
+  type: string;
+  message: string;
+  details: Record<string, string | number | boolean | null>;
+}
+
+/** Stable identity of an alert across runs: JEPQ alerts are keyed by the BUY, drift by type alone. */
+export function alertFingerprint(alert: NotifiableAlert): string {
+  const buyId = alert.details.buyTransactionId;
+  return typeof buyId === "string" ? `${alert.type}:${buyId}` : alert.type;
+}
+
+/** Fingerprint → ISO time of the last send. */
+export type AlertSendLog = Record<string, string>;
+
+export function parseAlertSendLog(raw: string | null | undefined): AlertSendLog {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as AlertSendLog : {};
+  } catch {
+    return {};
+  }
+}
+
+export function alertsToNotify<T extends NotifiableAlert>(alerts: T[], sendLog: AlertSendLog, now: Date): T[] {
+  const seen = new Set<string>();
+  return alerts.filter((alert) => {
+    const fingerprint = alertFingerprint(alert);
+    if (seen.has(fingerprint)) return false;
+    seen.add(fingerprint);
+    const last = sendLog[fingerprint] ? Date.parse(sendLog[fingerprint]) : NaN;
+    return !Number.isFinite(last) || now.getTime() - last >= ALERT_RENOTIFY_MS;
+  });
+}
+
+/** Records sends and drops entries old enough to re-notify anyway. */
+export function updateAlertSendLog(sendLog: AlertSendLog, sent: NotifiableAlert[], now: Date): AlertSendLog {
+  const next: AlertSendLog = {};
+  for (const [fingerprint, at] of Object.entries(sendLog)) {
+    const time = Date.parse(at);
+    if (Number.isFinite(time) && now.getTime() - time < ALERT_RENOTIFY_MS) next[fingerprint] = at;
+  }
+  for (const alert of sent) next[alertFingerprint(alert)] = now.toISOString();
+  return next;
+}
+
+export function formatAlertMessage(alert: NotifiableAlert): NotifyMessage {
+  const details = Object.entries(alert.details)
+    .filter(([, value]) => value != null)
+    .map(([key, value]) => `  ${key}: ${value}`);
+  return {
+    subject: `DividendTracker alert: ${alert.type}`,
+    text: [`[WARN] ${alert.type}`, alert.message, ...details].join("\n"),
+    severity: "warn",
+  };
+}
+
+/** Value stored in RulebookTriggerEvent.notifyChannel ("telegram" | "email" | "telegram,email"). */
+export function notifyChannelValue(sent: NotifyChannelName[]): string | null {
+  return sent.length > 0 ? NOTIFY_CHANNELS.filter((name) => sent.includes(name)).join(",") : null;
+}
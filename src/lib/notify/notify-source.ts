@@ -0,0 +1,109 @@
+/**
+ * Cron-side notification delivery, called from /api/cron/snapshot after the
+ * rulebook trigger writer has run.
+ *
+ * Sends every open RulebookTriggerEvent that has not been notified yet and
+ * stamps notifiedAt / notifyChannel on success, then sends the run's alert
+ * payloads that are not in the user's recent send log. A failed send leaves
+ * the event un-notified so the next run retries it.
+ */
+import { prisma } from "@/lib/db";
+import { log } from "@/lib/logger";
+import { gateStateForRun, triggerSpec } from "@/lib/rulebook-triggers";
+import {
+  activeTargets,
+  alertsToNotify,
+  deliver,
+  formatAlertMessage,
+  formatTriggerMessage,
+  notifyChannelValue,
+  parseAlertSendLog,
+  parseNotifySettings,
+  triggerEventsToNotify,
+  updateAlertSendLog,
+  type NotifiableAlert,
+  type NotifyChannelRegistry,
+  type NotifySettings,
+} from "./notifier";
+
+export const NOTIFY_SETTINGS_SUFFIX = "notify:settings";
+export const NOTIFY_ALERT_LOG_SUFFIX = "notify:alert_log";
+
+export interface NotificationRunResult {
+  channels: string[];
+  triggersSent: string[];
+  alertsSent: number;
+  failures: number;
+}
+
+export async function loadNotifySettings(userId: string): Promise<NotifySettings> {
+  const row = await prisma.setting.findUnique({ where: { key: `${userId}:${NOTIFY_SETTINGS_SUFFIX}` } });
+  return parseNotifySettings(row?.value);
+}
+
+export async function sendCronNotifications(input: {
+  userId: string;
+  runDate: Date;
+  alerts: NotifiableAlert[];
+  registry: NotifyChannelRegistry;
+}): Promise<NotificationRunResult> {
+  const settings = await loadNotifySettings(input.userId);
+  const targets = activeTargets(settings, input.registry);
+  const result: NotificationRunResult = {
+    channels: targets.map((t) => t.channel.name), triggersSent: [], alertsSent: 0, failures: 0,
+  };
+  if (targets.length === 0) return result;
+
+  const { closeDate } = gateStateForRun(input.runDate);
+  const openEvents = await prisma.rulebookTriggerEvent.findMany({
+    where: { userId: input.userId, resolvedAt: null, notifiedAt: null },
+    orderBy: { detectedAt: "asc" },
+    select: { id: true, triggerKind: true, severity: true, detectedAt: true, resolvedAt: true, notifiedAt: true, computedPlan: true },
+  });
+  for (const event of triggerEventsToNotify(openEvents, settings.minSeverity)) {
+    const label = triggerSpec(event.triggerKind)?.label ?? event.triggerKind;
+    const delivery = await deliver(targets, formatTriggerMessage(event, label, closeDate));
+    result.failures += delivery.failed.length;
+    if (delivery.failed.length > 0) {
+      log.warn({ event: "notify.trigger.failed", userId: input.userId, triggerKind: event.triggerKind, failed: delivery.failed });
+    }
+    if (delivery.sent.length === 0) continue;
+    await prisma.rulebookTriggerEvent.update({
+      where: { id: event.id },
+      data: { notifiedAt: new Date(), notifyChannel: notifyChannelValue(delivery.sent) },
+    });
+    result.triggersSent.push(event.triggerKind);
+  }
+
+  if (input.alerts.length > 0) {
+    const logKey = `${input.userId}:${NOTIFY_ALERT_LOG_SUFFIX}`;
+    const logRow = await prisma.setting.findUnique({ where: { key: logKey } });
+    const sendLog = parseAlertSendLog(logRow?.value);
+    const now = new Date();
+    const sent: NotifiableAlert[] = [];
+    for (const alert of alertsToNotify(input.alerts, sendLog, now)) {
+      const delivery = await deliver(targets, formatAlertMessage(alert));
+      result.failures += delivery.failed.length;
+      if (delivery.failed.length > 0) {
+        log.warn({ event: "notify.alert.failed", userId: input.userId, alertType: alert.type, failed: delivery.failed });
+      }
+      if (delivery.sent.length > 0) sent.push(alert);
+    }
+    if (sent.length > 0) {
+      const value = JSON.stringify(updateAlertSendLog(sendLog, sent, now));
+      await prisma.setting.upsert({ where: { key: logKey }, update: { value }, create: { key: logKey, value } });
+    }
+    result.alertsSent = sent.length;
+  }
+
+  if (result.triggersSent.length > 0 || result.alertsSent > 0) {
+    log.info({
+      event: "notify.sent",
+      userId: input.userId,
+      channels: result.channels,
+      triggers: result.triggersSent,
+      alerts: result.alertsSent,
+    });
+  }
+  return result;
+}
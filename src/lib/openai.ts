@@ -1,6 +1,15 @@
 import { prisma } from "@/lib/db";
+import { defaultUsdCad } from "@/lib/fx-rates";
 import { getPrice, getFxRate } from "@/lib/price";
 import { decrypt, isEncrypted } from "@/lib/crypto";
+import { readCompletionStream, type CompletionUsage } from "@/lib/ai-stream";
+import {
+  CHAT_TOOL_MAX_ROUNDS,
+  serializeToolResult,
+  toolArgumentsForLog,
+  type AiToolCallRecord,
+  type ChatToolDefinition,
+} from "@/lib/ai-chat-tools";
 import {
   computeRulebookWeights,
   computeStaticCoreAllocation,
@@ -10,7 +19,6 @@ import {
 } from "@/lib/rulebook";
 
 const AI_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const DEFAULT_FX_RATE = parseFloat(process.env.DEFAULT_FX_RATE ?? "1.35");
 
 // ── AI provider call ─────────────────────────────────────────────────────────
 
@@ -69,23 +77,29 @@ export function resolveAiProviderConfig(): AiProviderConfig {
   throw new Error("No AI provider configured. Set OPENROUTER_API_KEY, OPENAI_API_KEY, or GITHUB_TOKEN.");
 }
 
-export async function callOpenAI(
-  _apiKey: string,
-  messages: { role: string; content: string }[],
-  maxTokens = 400
-): Promise<string> {
+/** Provider config plus the request headers every chat completion call sends. */
+function resolveProvider(): { config: AiProviderConfig; headers: Record<string, string> } {
   const config = resolveAiProviderConfig();
-
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-  if (config.token) {
-    headers["Authorization"] = `Bearer ${config.token}`;
-  }
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.token) headers["Authorization"] = `Bearer ${config.token}`;
   if (config.provider === "openrouter") {
     headers["HTTP-Referer"] = process.env.NEXTAUTH_URL ?? "https://dividend.buildwith.work";
     headers["X-Title"] = "DividendTracker";
   }
+  return { config, headers };
+}
+
+async function upstreamErrorMessage(config: AiProviderConfig, res: Response): Promise<string> {
+  const errText = await res.text().catch(() => "<no body>");
+  return `${config.provider} AI API error ${res.status}: ${errText}`;
+}
+
+export async function callOpenAI(
+  _apiKey: string,
+  messages: { role: string; content: string }[],
+  maxTokens = 400
+): Promise<string> {
+  const { config, headers } = resolveProvider();
 
   const res = await fetch(config.endpoint, {
     method: "POST",
@@ -97,10 +111,7 @@ export async function callOpenAI(
     }),
   });
 
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`${config.provider} AI API error ${res.status}: ${err}`);
-  }
+  if (!res.ok) throw new Error(await upstreamErrorMessage(config, res));
 
   const data = await res.json() as { choices: { message: { content: string } }[] };
   return data.choices[0]?.message?.content?.trim() ?? "";
@@ -142,6 +153,8 @@ export interface AiCallMeta {
   promptTokens: number | null;
   completionTokens: number | null;
   totalTokens: number | null;
+  /** Tool calls executed before the final answer (callOpenAIWithTools only). */
+  toolCalls?: AiToolCallRecord[];
 }
 
 export interface AiCallSuccess {
@@ -166,6 +179,50 @@ export interface AiCallFailure {
 
 export type AiCallResult = AiCallSuccess | AiCallFailure;
 
+type UsageMeta = Pick<AiCallMeta, "promptTokens" | "completionTokens" | "totalTokens">;
+
+const NO_USAGE: UsageMeta = { promptTokens: null, completionTokens: null, totalTokens: null };
+
+function usageMeta(usage: CompletionUsage): UsageMeta {
+  return {
+    promptTokens: usage.prompt_tokens ?? null,
+    completionTokens: usage.completion_tokens ?? null,
+    totalTokens: usage.total_tokens ?? null,
+  };
+}
+
+/** Call metadata as of now; `started` is the Date.now() taken before the first fetch. */
+function buildMeta(
+  config: AiProviderConfig,
+  httpStatus: number,
+  started: number,
+  usage: UsageMeta = NO_USAGE,
+  toolCalls?: AiToolCallRecord[],
+): AiCallMeta {
+  return {
+    provider: config.provider,
+    model: config.model,
+    endpoint: config.endpoint,
+    httpStatus,
+    upstreamDurationMs: Date.now() - started,
+    ...usage,
+    ...(toolCalls ? { toolCalls } : {}),
+  };
+}
+
+function toCallError(config: AiProviderConfig, err: unknown, meta: AiCallMeta): AiCallFailure {
+  return {
+    ok: false,
+    error: {
+      message: err instanceof Error ? err.message : String(err),
+      httpStatus: meta.httpStatus || null,
+      provider: config.provider,
+      model: config.model,
+    },
+    meta,
+  };
+}
+
 /**
  * Issue an OpenAI-compatible Chat Completions call against the configured
  * provider and return a discriminated union of success/failure with full
@@ -176,21 +233,7 @@ export async function callOpenAIWithMeta(
   options: { maxTokens?: number } = {},
 ): Promise<AiCallResult> {
   const maxTokens = options.maxTokens ?? 400;
-  const config = resolveAiProviderConfig();
-
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (config.token) headers["Authorization"] = `Bearer ${config.token}`;
-  if (config.provider === "openrouter") {
-    headers["HTTP-Referer"] =
-      process.env.NEXTAUTH_URL ?? "https://dividend.buildwith.work";
-    headers["X-Title"] = "DividendTracker";
-  }
-
-  const baseMeta = {
-    provider: config.provider,
-    model: config.model,
-    endpoint: config.endpoint,
-  };
+  const { config, headers } = resolveProvider();
 
   const started = Date.now();
   let httpStatus = 0;
@@ -205,72 +248,181 @@ export async function callOpenAIWithMeta(
       }),
     });
     httpStatus = res.status;
-    const upstreamDurationMs = Date.now() - started;
 
     if (!res.ok) {
-      const errText = await res.text().catch(() => "<no body>");
-      return {
-        ok: false,
-        error: {
-          message: `${config.provider} AI API error ${res.status}: ${errText}`,
-          httpStatus: res.status,
-          provider: config.provider,
-          model: config.model,
-        },
-        meta: {
-          ...baseMeta,
-          httpStatus,
-          upstreamDurationMs,
-          promptTokens: null,
-          completionTokens: null,
-          totalTokens: null,
-        },
-      };
+      const meta = buildMeta(config, httpStatus, started);
+      return toCallError(config, await upstreamErrorMessage(config, res), meta);
     }
 
     const body = (await res.json()) as {
       choices?: { message?: { content?: string } }[];
-      usage?: {
-        prompt_tokens?: number;
-        completion_tokens?: number;
-        total_tokens?: number;
-      };
+      usage?: CompletionUsage;
     };
     const rawContent = body.choices?.[0]?.message?.content ?? "";
-    const content = rawContent.trim();
-    const usage = body.usage ?? {};
     return {
       ok: true,
-      content,
+      content: rawContent.trim(),
       rawResponse: rawContent,
-      meta: {
-        ...baseMeta,
-        httpStatus,
-        upstreamDurationMs,
-        promptTokens: usage.prompt_tokens ?? null,
-        completionTokens: usage.completion_tokens ?? null,
-        totalTokens: usage.total_tokens ?? null,
-      },
+      meta: buildMeta(config, httpStatus, started, usageMeta(body.usage ?? {})),
     };
   } catch (err) {
-    const upstreamDurationMs = Date.now() - started;
-    return {
-      ok: false,
-      error: {
-        message: err instanceof Error ? err.message : String(err),
-        httpStatus: httpStatus || null,
-        provider: config.provider,
+    return toCallError(config, err, buildMeta(config, httpStatus, started));
+  }
+}
+
+// ── Streaming call ───────────────────────────────────────────────────────────
+// Same contract as callOpenAIWithMeta, but requests `stream: true` and hands
+// each content delta to `onDelta` as it arrives. The resolved AiCallResult
+// carries the full text, so audit and validation run on the final output
+// exactly as in the non-streaming path. upstreamDurationMs spans the whole
+// stream. Body parsing lives in readCompletionStream (./ai-stream).
+
+export async function streamOpenAIWithMeta(
+  messages: { role: string; content: string }[],
+  options: { maxTokens?: number; onDelta: (delta: string, textSoFar: string) => void },
+): Promise<AiCallResult> {
+  const maxTokens = options.maxTokens ?? 400;
+  const { config, headers } = resolveProvider();
+
+  const started = Date.now();
+  let httpStatus = 0;
+  try {
+    const res = await fetch(config.endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
         model: config.model,
-      },
-      meta: {
-        ...baseMeta,
-        httpStatus,
-        upstreamDurationMs,
-        promptTokens: null,
-        completionTokens: null,
-        totalTokens: null,
-      },
+        messages,
+        max_tokens: maxTokens,
+        stream: true,
+        // Usage on the final chunk; OpenAI needs the opt-in, OpenRouter sends it regardless.
+        ...(config.provider === "openai" ? { stream_options: { include_usage: true } } : {}),
+      }),
+    });
+    httpStatus = res.status;
+
+    if (!res.ok || !res.body) {
+      const meta = buildMeta(config, httpStatus, started);
+      return toCallError(config, await upstreamErrorMessage(config, res), meta);
+    }
+
+    const { raw, usage } = await readCompletionStream(res, options.onDelta);
+    return {
+      ok: true,
+      content: raw.trim(),
+      rawResponse: raw,
+      meta: buildMeta(config, httpStatus, started, usageMeta(usage)),
+    };
+  } catch (err) {
+    return toCallError(config, err, buildMeta(config, httpStatus, started));
+  }
+}
+
+// ── Tool-calling call ────────────────────────────────────────────────────────
+// Chat with read-only tools (./ai-chat-tools). Each round is one upstream
+// request; while the model asks for tools, their results go back as `tool`
+// messages and the conversation is sent again. After CHAT_TOOL_MAX_ROUNDS
+// rounds the next request sets tool_choice "none" so the model has to answer.
+// Content from every round is concatenated — it is what a streaming client
+// already saw — and usage is summed across rounds. Streams when `onDelta` is
+// given, otherwise asks for a plain JSON body. upstreamDurationMs spans all
+// rounds, tool execution included.
+
+export interface AiToolset {
+  definitions: ChatToolDefinition[];
+  /** Runs one call with the model's raw JSON arguments; a throw goes back to the model as `{ error }`. */
+  execute(name: string, rawArguments: string): Promise<unknown>;
+}
+
+export async function callOpenAIWithTools(
+  messages: { role: string; content: string }[],
+  options: { maxTokens?: number; tools: AiToolset; onDelta?: (delta: string, textSoFar: string) => void },
+): Promise<AiCallResult> {
+  const maxTokens = options.maxTokens ?? 400;
+  const { config, headers } = resolveProvider();
+  const stream = options.onDelta != null;
+  const conversation: Record<string, unknown>[] = [...messages];
+  const toolCalls: AiToolCallRecord[] = [];
+  const usage: Required<CompletionUsage> = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let usageReported = false;
+  const meta = () => buildMeta(config, httpStatus, started, usageReported ? usageMeta(usage) : NO_USAGE, toolCalls);
+
+  const started = Date.now();
+  let httpStatus = 0;
+  let raw = "";
+  try {
+    for (let round = 0; ; round++) {
+      const res = await fetch(config.endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages: conversation,
+          max_tokens: maxTokens,
+          tools: options.tools.definitions,
+          tool_choice: round < CHAT_TOOL_MAX_ROUNDS ? "auto" : "none",
+          ...(stream ? { stream: true } : {}),
+          ...(stream && config.provider === "openai" ? { stream_options: { include_usage: true } } : {}),
+        }),
+      });
+      httpStatus = res.status;
+
+      if (!res.ok || !res.body) {
+        const failedMeta = meta();
+        return toCallError(config, await upstreamErrorMessage(config, res), failedMeta);
+      }
+
+      const reply = await readCompletionStream(res, (delta) => {
+        raw += delta;
+        options.onDelta?.(delta, raw);
+      });
+      if (reply.usage.prompt_tokens != null || reply.usage.total_tokens != null) {
+        usageReported = true;
+        usage.prompt_tokens += reply.usage.prompt_tokens ?? 0;
+        usage.completion_tokens += reply.usage.completion_tokens ?? 0;
+        usage.total_tokens += reply.usage.total_tokens ?? 0;
+      }
+      if (reply.toolCalls.length === 0 || round >= CHAT_TOOL_MAX_ROUNDS) break;
+
+      conversation.push({
+        role: "assistant",
+        content: reply.raw || null,
+        tool_calls: reply.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      });
+      for (const call of reply.toolCalls) {
+        const callStarted = Date.now();
+        let content: string;
+        let error: string | undefined;
+        try {
+          content = serializeToolResult(await options.tools.execute(call.name, call.arguments));
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err);
+          content = JSON.stringify({ error });
+        }
+        toolCalls.push({
+          name: call.name,
+          arguments: toolArgumentsForLog(call.arguments),
+          ok: error == null,
+          ...(error != null ? { error } : {}),
+          durationMs: Date.now() - callStarted,
+          resultChars: content.length,
+        });
+        conversation.push({ role: "tool", tool_call_id: call.id, content });
+      }
+    }
+
+    return {
+      ok: true,
+      content: raw.trim(),
+      rawResponse: raw,
+      meta: meta(),
     };
+  } catch (err) {
+    return toCallError(config, err, meta());
   }
 }
 
@@ -384,7 +536,7 @@ export async function buildPortfolioContext(userId: string): Promise<string> {
 
   // FX rate (track whether we ended up using a fallback to flag for the AI)
   const fxRateFromDB = fxSetting ? parseFloat(fxSetting.value) : null;
-  let fxRate = fxRateFromDB && fxRateFromDB > 0 ? fxRateFromDB : DEFAULT_FX_RATE;
+  let fxRate = fxRateFromDB && fxRateFromDB > 0 ? fxRateFromDB : defaultUsdCad();
   let fxFallbackInUse = !(fxRateFromDB && fxRateFromDB > 0);
   try {
     const live = await getFxRate();
@@ -1,4 +1,5 @@
 import { computeXIRR, type XirrCashflow } from "./performance-shadow";
+import { computeTimeWeightedReturn } from "./performance-twr";
 
 export type PerformanceMetricRange = "3m" | "6m" | "1y" | "3y" | "5y" | "all";
 
@@ -14,6 +15,8 @@ export interface PerformanceContributionEventCAD {
 
 export interface PerformanceMetrics {
   xirr: number | null;
+  /** Daily-linked time-weighted return over the visible snapshots, decimal. */
+  twr: number | null;
   mdd: number | null;
   valueChange: number | null;
 }
@@ -82,7 +85,7 @@ export function computePerformanceMetrics(
   range: PerformanceMetricRange,
   contributionEventsCAD: PerformanceContributionEventCAD[] = [],
 ): PerformanceMetrics {
-  if (snapshots.length < 2) return { xirr: null, mdd: null, valueChange: null };
+  if (snapshots.length < 2) return { xirr: null, twr: null, mdd: null, valueChange: null };
 
   const last = snapshots[snapshots.length - 1];
   const totalContribCAD = totalContributionsThrough(contributionEventsCAD, last.date);
@@ -91,7 +94,11 @@ export function computePerformanceMetrics(
     : null;
   void range;
   const xirr = computeXIRR(buildPortfolioXirrCashflows(snapshots, contributionEventsCAD), Number(last.totalCAD), last.date);
+  const twr = computeTimeWeightedReturn(
+    snapshots.map((snapshot) => ({ date: snapshot.date, valueCAD: snapshot.totalCAD })),
+    contributionEventsCAD,
+  )?.twr ?? null;
   const mdd = computeMDD(snapshots.map((snapshot) => snapshot.totalCAD));
 
-  return { xirr, mdd, valueChange };
+  return { xirr, twr, mdd, valueChange };
 }
@@ -0,0 +1,154 @@
+/**
+ * Loads the snapshot series, external flows and SPY/QLD/QQQ closes for a
+ * range and scope and runs ./performance-risk. Used by /api/v2/risk.
+ *
+ * The risk-free rate is, in order: the caller's override, RISK_FREE_RATE
+ * (annual decimal), the trailing distribution yield of RISK_FREE_PROXY
+ * (default SGOV), or zero when none of those resolve.
+ */
+import { prisma } from "@/lib/db";
+import { defaultUsdCad, loadFxRateResolver } from "@/lib/fx-rates";
+import { SUPPORTED_BENCHMARKS } from "@/lib/performance-benchmark";
+import { computeRiskMetrics, type RiskMetrics } from "@/lib/performance-risk";
+import type { TwrCashflow } from "@/lib/performance-twr";
+import { getHistory, getPrice } from "@/lib/price";
+import { rollUpAccountSnapshots, type SnapshotScope } from "@/lib/snapshot-scope";
+
+export const RISK_RANGES = ["1m", "3m", "6m", "1y", "all"] as const;
+export type RiskRange = typeof RISK_RANGES[number];
+
+export type RiskFreeSource = "override" | "env" | "proxy" | "none";
+
+export interface RiskReport extends RiskMetrics {
+  range: RiskRange;
+  scope: SnapshotScope;
+  riskFreeSource: RiskFreeSource;
+  /** Ticker whose yield was used when riskFreeSource is "proxy". */
+  riskFreeProxy: string | null;
+}
+
+function dateKey(value: Date | string): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value.slice(0, 10);
+}
+
+function decimalToNumber(value: { toString(): string } | null | undefined): number {
+  const parsed = parseFloat(value?.toString() ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function shiftDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+function rangeSince(range: RiskRange, now: Date): Date | undefined {
+  if (range === "all") return undefined;
+  const since = new Date(now);
+  if (range === "1m") since.setMonth(since.getMonth() - 1);
+  else if (range === "3m") since.setMonth(since.getMonth() - 3);
+  else if (range === "6m") since.setMonth(since.getMonth() - 6);
+  else since.setFullYear(since.getFullYear() - 1);
+  return since;
+}
+
+export async function resolveRiskFreeRate(
+  override: number | null = null,
+): Promise<{ rate: number; source: RiskFreeSource; proxy: string | null }> {
+  if (override != null && Number.isFinite(override)) return { rate: override, source: "override", proxy: null };
+  const fromEnv = parseFloat(process.env.RISK_FREE_RATE ?? "");
+  if (Number.isFinite(fromEnv)) return { rate: fromEnv, source: "env", proxy: null };
+
+  const proxy = (process.env.RISK_FREE_PROXY ?? "SGOV").toUpperCase();
+  const quote = await getPrice(proxy).catch(() => null);
+  const annualRate = quote?.trailingAnnualDividendRate ?? quote?.dividendRate ?? null;
+  if (quote && annualRate != null && quote.price > 0) {
+    return { rate: annualRate / quote.price, source: "proxy", proxy };
+  }
+  return { rate: 0, source: "none", proxy: null };
+}
+
+export async function loadRiskReport(
+  userId: string,
+  range: RiskRange,
+  scope: SnapshotScope = { kind: "all" },
+  riskFreeOverride: number | null = null,
+): Promise<RiskReport> {
+  const since = rangeSince(range, new Date());
+  const dateFilter = since ? { date: { gte: since } } : {};
+  const portfolioFilter = scope.kind === "portfolio"
+    ? { portfolioId: scope.portfolioId, portfolio: { userId } }
+    : scope.kind === "accountType"
+      ? { portfolio: { userId, accountType: scope.accountType } }
+      : { portfolio: { userId } };
+  const select = { date: true, totalCAD: true, costBasisCAD: true, cashCAD: true } as const;
+
+  const [rows, cashTxns, externalDeposits, riskFree] = await Promise.all([
+    scope.kind === "all"
+      ? prisma.portfolioSnapshot.findMany({ where: { userId, ...dateFilter }, orderBy: { date: "asc" }, select })
+      : prisma.portfolioAccountSnapshot.findMany({
+        where: {
+          userId,
+          ...(scope.kind === "portfolio" ? { portfolioId: scope.portfolioId } : { accountType: scope.accountType }),
+          ...dateFilter,
+        },
+        orderBy: { date: "asc" },
+        select,
+      }),
+    prisma.cashTransaction.findMany({
+      where: { ...portfolioFilter, ...dateFilter },
+      select: { date: true, action: true, amount: true, currency: true },
+    }),
+    prisma.externalDeposit.findMany({
+      where: { ...portfolioFilter, cashTransactionId: null, ...dateFilter },
+      select: { date: true, amount: true, currency: true },
+    }),
+    resolveRiskFreeRate(riskFreeOverride),
+  ]);
+
+  const series = rollUpAccountSnapshots(rows.map((row) => ({
+    date: row.date,
+    totalCAD: decimalToNumber(row.totalCAD),
+    costBasisCAD: decimalToNumber(row.costBasisCAD),
+    cashCAD: decimalToNumber(row.cashCAD),
+  })));
+  const base = { range, scope, riskFreeSource: riskFree.source, riskFreeProxy: riskFree.proxy };
+  if (series.length < 2) return { ...base, ...computeRiskMetrics({ points: [], riskFreeRate: riskFree.rate }) };
+
+  const from = series[0].date;
+  const to = series[series.length - 1].date;
+  const [fxRateOn, benchmarkHistories] = await Promise.all([
+    loadFxRateResolver(shiftDays(from, -7), to),
+    Promise.all(SUPPORTED_BENCHMARKS.map(async ({ ticker }) => ({
+      ticker,
+      points: await getHistory(ticker, "all", shiftDays(from, -7), { interval: "1d", to }).catch(() => []),
+    }))),
+  ]);
+  const fallbackUsdCad = defaultUsdCad();
+  const usdCadOn = (date: string) => fxRateOn(date) ?? fallbackUsdCad;
+
+  const cashflows: TwrCashflow[] = [
+    ...cashTxns.map((cashTxn) => {
+      const day = dateKey(cashTxn.date);
+      const sign = cashTxn.action === "WITHDRAWAL" ? -1 : 1;
+      const amount = sign * decimalToNumber(cashTxn.amount);
+      return { date: day, amountCAD: cashTxn.currency === "USD" ? amount * usdCadOn(day) : amount };
+    }),
+    ...externalDeposits.map((deposit) => {
+      const day = dateKey(deposit.date);
+      const amount = decimalToNumber(deposit.amount);
+      return { date: day, amountCAD: deposit.currency === "USD" ? amount * usdCadOn(day) : amount };
+    }),
+  ];
+
+  const metrics = computeRiskMetrics({
+    points: series.map((point) => ({ date: point.date, valueCAD: point.totalCAD })),
+    cashflows,
+    benchmarks: benchmarkHistories.map(({ ticker, points }) => ({
+      ticker,
+      points: points.map((point) => ({ date: point.date, valueCAD: point.close * usdCadOn(point.date) })),
+    })),
+    riskFreeRate: riskFree.rate,
+  });
+  return { ...base, ...metrics };
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { computeDrawdownEpisodes, computeRiskMetrics } from "./performance-risk";
+import { computePeriodReturns } from "./performance-twr";
+
+function day(offset: number): string {
+  return new Date(Date.UTC(2025, 0, 1 + offset)).toISOString().slice(0, 10);
+}
+
+{
+  // 100 → 110 peak, 99 trough (−10%), back above the peak at 121.
+  const returns = computePeriodReturns([100, 110, 99, 121, 121].map((valueCAD, i) => ({ date: day(i * 2), valueCAD })));
+  const episodes = computeDrawdownEpisodes(returns);
+  assert.equal(episodes.length, 1);
+  assert.deepEqual(
+    { ...episodes[0], depth: Math.round(episodes[0].depth * 1e6) / 1e6 },
+    { peakDate: day(2), troughDate: day(4), recoveryDate: day(6), depth: -0.1, recoveryDays: 2 },
+  );
+}
+
+{
+  // A withdrawal drops the value but is not a drawdown; an unrecovered dip stays open.
+  const metrics = computeRiskMetrics({
+    points: [
+      { date: day(0), valueCAD: 2000 },
+      { date: day(1), valueCAD: 1000 },
+      { date: day(2), valueCAD: 950 },
+    ],
+    cashflows: [{ date: day(1), amountCAD: -1000 }],
+  });
+  assert.equal(metrics.drawdowns.length, 1);
+  assert.equal(metrics.drawdowns[0].peakDate, day(1));
+  assert.equal(metrics.drawdowns[0].recoveryDate, null);
+  assert.ok(Math.abs(metrics.drawdowns[0].depth + 0.05) < 1e-9, "depth is measured on the flow-neutral index");
+}
+
+{
+  // Daily ±1%: volatility annualizes by the sampling rate, zero mean excess gives Sharpe ≈ 0.
+  const values = [1000];
+  for (let i = 1; i <= 20; i++) values.push(values[i - 1] * (i % 2 ? 1.01 : 1 / 1.01));
+  const metrics = computeRiskMetrics({ points: values.map((valueCAD, i) => ({ date: day(i), valueCAD })) });
+  const returns = computePeriodReturns(values.map((valueCAD, i) => ({ date: day(i), valueCAD })));
+  const m = returns.reduce((sum, r) => sum + r.return, 0) / returns.length;
+  const sd = Math.sqrt(returns.reduce((sum, r) => sum + (r.return - m) ** 2, 0) / (returns.length - 1));
+  assert.ok(Math.abs((metrics.volatility ?? NaN) - (sd * Math.sqrt(365.25))) < 1e-6, "volatility uses observed periods per year");
+  assert.ok(metrics.sharpe != null && Math.abs(metrics.sharpe) < 0.5);
+  assert.ok(metrics.sortino != null && metrics.downsideDeviation != null && metrics.downsideDeviation > 0);
+
+  const withRiskFree = computeRiskMetrics({ points: values.map((valueCAD, i) => ({ date: day(i), valueCAD })), riskFreeRate: 0.05 });
+  assert.ok(withRiskFree.sharpe! < metrics.sharpe!, "a higher risk-free rate lowers Sharpe");
+  assert.equal(withRiskFree.riskFreeRate, 0.05);
+}
+
+{
+  // Portfolio moves exactly twice the benchmark each period: beta 2, correlation 1.
+  const benchmark = [100, 101, 99, 102, 100.5, 103];
+  const values = [1000];
+  for (let i = 1; i < benchmark.length; i++) values.push(values[i - 1] * (1 + 2 * (benchmark[i] / benchmark[i - 1] - 1)));
+  const metrics = computeRiskMetrics({
+    points: values.map((valueCAD, i) => ({ date: day(i), valueCAD })),
+    benchmarks: [
+      { ticker: "SPY", points: benchmark.map((valueCAD, i) => ({ date: day(i), valueCAD })).reverse() },
+      { ticker: "QQQ", points: [] },
+    ],
+  });
+  assert.ok(Math.abs((metrics.benchmarks[0].beta ?? NaN) - 2) < 1e-9, "beta");
+  assert.ok(Math.abs((metrics.benchmarks[0].correlation ?? NaN) - 1) < 1e-9, "correlation");
+  assert.deepEqual(metrics.benchmarks[1], { ticker: "QQQ", beta: null, correlation: null });
+}
+
+{
+  const metrics = computeRiskMetrics({ points: [{ date: day(0), valueCAD: 100 }], benchmarks: [{ ticker: "SPY", points: [] }] });
+  assert.equal(metrics.volatility, null);
+  assert.equal(metrics.periods, 0);
+  assert.deepEqual(metrics.benchmarks, [{ ticker: "SPY", beta: null, correlation: null }]);
+}
+
+console.log("performance-risk tests passed");
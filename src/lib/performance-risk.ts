@@ -0,0 +1,208 @@
+// Risk statistics over a snapshot series, from the flow-neutralized
+// sub-period returns of ./performance-twr (deposits are not volatility).
+//
+// Snapshots are not strictly one per trading day, so annualization uses the
+// observed sampling rate (periods per year over the series' span) rather than
+// a fixed 252. With per-period returns r and per-period risk-free rf:
+//
+//   volatility        = stdev(r) · √N
+//   downside dev.     = √(mean(min(r − rf, 0)²)) · √N
+//   Sharpe / Sortino  = mean(r − rf) · N / volatility | downside deviation
+//   beta              = cov(r, b) / var(b),  b = benchmark return over the same dates
+//
+// Drawdown episodes run on the growth index Π(1 + r), not on raw values, so a
+// withdrawal is not a drawdown and a deposit does not end one.
+
+import {
+  computePeriodReturns,
+  type TwrCashflow,
+  type TwrPeriodReturn,
+  type TwrValuePoint,
+} from "./performance-twr";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+
+export interface RiskBenchmarkSeries {
+  ticker: string;
+  /** Closes in CAD, any order. */
+  points: TwrValuePoint[];
+}
+
+export interface BenchmarkRisk {
+  ticker: string;
+  beta: number | null;
+  correlation: number | null;
+}
+
+export interface DrawdownEpisode {
+  peakDate: string;
+  troughDate: string;
+  /** First date back at the peak; null while still under water. */
+  recoveryDate: string | null;
+  /** Decimal, negative. */
+  depth: number;
+  /** Calendar days from trough to recovery. */
+  recoveryDays: number | null;
+}
+
+export interface RiskMetrics {
+  startDate: string | null;
+  endDate: string | null;
+  periods: number;
+  /** Annual decimal rate the excess returns were measured against. */
+  riskFreeRate: number;
+  volatility: number | null;
+  downsideDeviation: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  benchmarks: BenchmarkRisk[];
+  drawdowns: DrawdownEpisode[];
+}
+
+export interface RiskMetricsInput {
+  points: TwrValuePoint[];
+  cashflows?: TwrCashflow[];
+  benchmarks?: RiskBenchmarkSeries[];
+  riskFreeRate?: number;
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / MS_PER_DAY);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Sample standard deviation; null below two observations. */
+function stdev(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1));
+}
+
+function latestOnOrBefore(points: TwrValuePoint[], date: string): number | null {
+  let lo = 0;
+  let hi = points.length - 1;
+  let best: number | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].date <= date) {
+      best = points[mid].valueCAD;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return best;
+}
+
+/** Beta and correlation of `returns` against the benchmark's returns over the same sub-periods. */
+export function computeBenchmarkRisk(returns: TwrPeriodReturn[], benchmark: RiskBenchmarkSeries): BenchmarkRisk {
+  const points = benchmark.points
+    .map((point) => ({ date: point.date.slice(0, 10), valueCAD: point.valueCAD }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const pairs: Array<[number, number]> = [];
+  for (const period of returns) {
+    const start = latestOnOrBefore(points, period.startDate);
+    const end = latestOnOrBefore(points, period.endDate);
+    if (start == null || end == null || start <= 0) continue;
+    pairs.push([period.return, end / start - 1]);
+  }
+  if (pairs.length < 2) return { ticker: benchmark.ticker, beta: null, correlation: null };
+
+  const meanR = mean(pairs.map(([r]) => r));
+  const meanB = mean(pairs.map(([, b]) => b));
+  let covariance = 0;
+  let varR = 0;
+  let varB = 0;
+  for (const [r, b] of pairs) {
+    covariance += (r - meanR) * (b - meanB);
+    varR += (r - meanR) ** 2;
+    varB += (b - meanB) ** 2;
+  }
+  return {
+    ticker: benchmark.ticker,
+    beta: varB > 0 ? covariance / varB : null,
+    correlation: varR > 0 && varB > 0 ? covariance / Math.sqrt(varR * varB) : null,
+  };
+}
+
+/** Peak-to-trough episodes of the growth index, deepest first. */
+export function computeDrawdownEpisodes(returns: TwrPeriodReturn[]): DrawdownEpisode[] {
+  if (returns.length === 0) return [];
+  const episodes: DrawdownEpisode[] = [];
+  let index = 1;
+  let peak = 1;
+  let peakDate = returns[0].startDate;
+  let open: DrawdownEpisode | null = null;
+  let troughIndex = 1;
+
+  for (const period of returns) {
+    index *= 1 + period.return;
+    if (index >= peak) {
+      if (open) {
+        open.recoveryDate = period.endDate;
+        open.recoveryDays = daysBetween(open.troughDate, period.endDate);
+        episodes.push(open);
+        open = null;
+      }
+      peak = index;
+      peakDate = period.endDate;
+      continue;
+    }
+    if (!open) {
+      open = { peakDate, troughDate: period.endDate, recoveryDate: null, depth: index / peak - 1, recoveryDays: null };
+      troughIndex = index;
+    } else if (index < troughIndex) {
+      open.troughDate = period.endDate;
+      open.depth = index / peak - 1;
+      troughIndex = index;
+    }
+  }
+  if (open) episodes.push(open);
+  return episodes.sort((a, b) => a.depth - b.depth);
+}
+
+export function computeRiskMetrics(input: RiskMetricsInput): RiskMetrics {
+  const riskFreeRate = input.riskFreeRate ?? 0;
+  const returns = computePeriodReturns(input.points, input.cashflows ?? []);
+  const empty: RiskMetrics = {
+    startDate: null,
+    endDate: null,
+    periods: 0,
+    riskFreeRate,
+    volatility: null,
+    downsideDeviation: null,
+    sharpe: null,
+    sortino: null,
+    benchmarks: (input.benchmarks ?? []).map((b) => ({ ticker: b.ticker, beta: null, correlation: null })),
+    drawdowns: [],
+  };
+  if (returns.length === 0) return empty;
+
+  const startDate = returns[0].startDate;
+  const endDate = returns[returns.length - 1].endDate;
+  const years = daysBetween(startDate, endDate) / DAYS_PER_YEAR;
+  const drawdowns = computeDrawdownEpisodes(returns);
+  const result = { ...empty, startDate, endDate, periods: returns.length, drawdowns };
+  if (returns.length < 2 || years <= 0) return result;
+
+  const periodsPerYear = returns.length / years;
+  const riskFreePerPeriod = Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1;
+  const excess = returns.map((period) => period.return - riskFreePerPeriod);
+  const periodStdev = stdev(returns.map((period) => period.return));
+  const volatility = periodStdev != null ? periodStdev * Math.sqrt(periodsPerYear) : null;
+  const downsideDeviation = Math.sqrt(mean(excess.map((r) => Math.min(r, 0) ** 2))) * Math.sqrt(periodsPerYear);
+  const annualExcess = mean(excess) * periodsPerYear;
+
+  return {
+    ...result,
+    volatility,
+    downsideDeviation,
+    sharpe: volatility ? annualExcess / volatility : null,
+    sortino: downsideDeviation > 0 ? annualExcess / downsideDeviation : null,
+    benchmarks: (input.benchmarks ?? []).map((benchmark) => computeBenchmarkRisk(returns, benchmark)),
+  };
+}
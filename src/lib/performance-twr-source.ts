@@ -0,0 +1,217 @@
+/**
+ * Loads what the time-weighted return report needs and runs ./performance-twr
+ * per portfolio, per account type and for the whole user, next to the
+ * SPY/QLD/QQQ benchmarks over the same windows. Used by /api/performance/returns.
+ *
+ * Each portfolio is valued on every trading day through the portfolio engine
+ * (planSnapshotBackfill with only that portfolio's history); account types and
+ * the total are the sums of those daily values. External flows are
+ * CashTransaction deposits/withdrawals plus ExternalDeposit rows that are not
+ * linked to a CashTransaction, converted at the stored USD/CAD rate of the day.
+ * Benchmarks are price-return series converted to CAD at the same rates.
+ */
+import { prisma } from "@/lib/db";
+import { defaultUsdCad, loadFxRateResolver } from "@/lib/fx-rates";
+import { getHistory } from "@/lib/price";
+import { SUPPORTED_BENCHMARKS, type BenchmarkTicker } from "@/lib/performance-benchmark";
+import type { PerformanceMetricRange } from "@/lib/performance-metrics";
+import {
+  computeSeriesReturn,
+  summarizeReturns,
+  type ReturnSummary,
+  type TwrCashflow,
+  type TwrValuePoint,
+} from "@/lib/performance-twr";
+import {
+  loadBackfillTransactions,
+  loadLedgerRows,
+  loadTickerCloses,
+} from "@/lib/portfolio/snapshot-backfill-source";
+import { firstActivityDate, planSnapshotBackfill, type BackfillGap } from "@/lib/portfolio/snapshot-backfill";
+
+export interface BenchmarkComparison {
+  ticker: BenchmarkTicker;
+  twr: number | null;
+  /** Group TWR minus benchmark TWR over the group's window. */
+  excess: number | null;
+}
+
+export interface GroupReturns extends ReturnSummary {
+  key: string;
+  label: string;
+  benchmarks: BenchmarkComparison[];
+}
+
+export interface PerformanceReturnsReport {
+  range: PerformanceMetricRange;
+  from: string | null;
+  to: string;
+  total: GroupReturns | null;
+  portfolios: GroupReturns[];
+  accountTypes: GroupReturns[];
+  gaps: BackfillGap[];
+  failedTickers: string[];
+}
+
+function dateKey(value: Date | string): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value.slice(0, 10);
+}
+
+function decimalToNumber(value: { toString(): string } | null | undefined): number {
+  const parsed = parseFloat(value?.toString() ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function shiftDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+function rangeStart(range: PerformanceMetricRange, today: string): string | null {
+  if (range === "all") return null;
+  const d = new Date(`${today}T00:00:00Z`);
+  if (range === "3m") d.setUTCMonth(d.getUTCMonth() - 3);
+  else if (range === "6m") d.setUTCMonth(d.getUTCMonth() - 6);
+  else if (range === "1y") d.setUTCFullYear(d.getUTCFullYear() - 1);
+  else if (range === "3y") d.setUTCFullYear(d.getUTCFullYear() - 3);
+  else if (range === "5y") d.setUTCFullYear(d.getUTCFullYear() - 5);
+  return dateKey(d);
+}
+
+function sumSeries(series: TwrValuePoint[][]): TwrValuePoint[] {
+  const byDate = new Map<string, number>();
+  for (const points of series) {
+    for (const point of points) byDate.set(point.date, (byDate.get(point.date) ?? 0) + point.valueCAD);
+  }
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, valueCAD]) => ({ date, valueCAD }));
+}
+
+function groupReturns(
+  key: string,
+  label: string,
+  points: TwrValuePoint[],
+  cashflows: TwrCashflow[],
+  benchmarkSeries: Array<{ ticker: BenchmarkTicker; points: TwrValuePoint[] }>,
+): GroupReturns {
+  const summary = summarizeReturns(points, cashflows);
+  const benchmarks = benchmarkSeries.map(({ ticker, points: benchmarkPoints }) => {
+    const result = summary.startDate && summary.endDate
+      ? computeSeriesReturn(benchmarkPoints, summary.startDate, summary.endDate)
+      : null;
+    const twr = result?.twr ?? null;
+    return { ticker, twr, excess: twr != null && summary.twr != null ? summary.twr - twr : null };
+  });
+  return { key, label, ...summary, benchmarks };
+}
+
+export async function loadPerformanceReturns(
+  userId: string,
+  range: PerformanceMetricRange,
+): Promise<PerformanceReturnsReport> {
+  const to = dateKey(new Date());
+  const [portfolios, transactions, cashTxns, externalDeposits] = await Promise.all([
+    prisma.portfolio.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, name: true, accountType: true },
+    }),
+    loadBackfillTransactions(userId),
+    prisma.cashTransaction.findMany({
+      where: { portfolio: { userId } },
+      select: { portfolioId: true, date: true, action: true, amount: true, currency: true },
+    }),
+    prisma.externalDeposit.findMany({
+      where: { portfolio: { userId }, cashTransactionId: null },
+      select: { portfolioId: true, date: true, amount: true, currency: true },
+    }),
+  ]);
+  const ledger = await loadLedgerRows(userId, transactions);
+
+  const firstActivity = firstActivityDate(transactions, ledger.rows);
+  const since = rangeStart(range, to);
+  const from = firstActivity && since && since > firstActivity ? since : firstActivity;
+  const empty: PerformanceReturnsReport = {
+    range, from, to, total: null, portfolios: [], accountTypes: [], gaps: [], failedTickers: [],
+  };
+  if (!from || from > to || portfolios.length === 0) return empty;
+
+  const [{ closes, failedTickers }, fxRateOn, benchmarkHistories] = await Promise.all([
+    loadTickerCloses(transactions, from, to),
+    loadFxRateResolver(shiftDays(from, -7), to),
+    Promise.all(SUPPORTED_BENCHMARKS.map(async ({ ticker }) => ({
+      ticker,
+      points: await getHistory(ticker, "all", shiftDays(from, -7), { interval: "1d", to }).catch(() => []),
+    }))),
+  ]);
+  const fallbackUsdCad = defaultUsdCad();
+  const usdCadOn = (date: string) => fxRateOn(date) ?? fallbackUsdCad;
+
+  const benchmarkSeries = benchmarkHistories.map(({ ticker, points }) => ({
+    ticker,
+    points: points
+      .map((point) => ({ date: point.date, valueCAD: point.close * usdCadOn(point.date) }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  }));
+
+  const flowsByPortfolio = new Map<string, TwrCashflow[]>();
+  const addFlow = (portfolioId: string, date: Date, amount: number, currency: string) => {
+    const day = dateKey(date);
+    const amountCAD = currency === "USD" ? amount * usdCadOn(day) : amount;
+    flowsByPortfolio.set(portfolioId, [...(flowsByPortfolio.get(portfolioId) ?? []), { date: day, amountCAD }]);
+  };
+  for (const cashTxn of cashTxns) {
+    const sign = cashTxn.action === "WITHDRAWAL" ? -1 : 1;
+    addFlow(cashTxn.portfolioId, cashTxn.date, sign * decimalToNumber(cashTxn.amount), cashTxn.currency);
+  }
+  for (const deposit of externalDeposits) {
+    addFlow(deposit.portfolioId, deposit.date, decimalToNumber(deposit.amount), deposit.currency);
+  }
+
+  // One engine pass per portfolio with only its own history keeps the daily
+  // valuation linear in that portfolio's transactions.
+  const gaps: BackfillGap[] = [];
+  const valuesByPortfolio = new Map<string, TwrValuePoint[]>();
+  for (const portfolio of portfolios) {
+    const plan = planSnapshotBackfill({
+      from,
+      to,
+      portfolioIds: [portfolio.id],
+      transactions: transactions.filter((t) => t.portfolioId === portfolio.id),
+      ledgerRows: ledger.rows.filter((row) => row.portfolioId === portfolio.id),
+      closes,
+      fxRateOn: (date) => fxRateOn(date),
+      fallbackUsdCad,
+      existingDates: new Set(),
+      overwrite: true,
+    });
+    for (const gap of plan.gaps) {
+      if (!gaps.some((g) => g.kind === gap.kind && g.ticker === gap.ticker)) gaps.push(gap);
+    }
+    valuesByPortfolio.set(portfolio.id, plan.rows.map((row) => ({ date: row.date, valueCAD: row.engineValueCAD })));
+  }
+
+  const groupOf = (ids: string[], key: string, label: string) => groupReturns(
+    key,
+    label,
+    sumSeries(ids.map((id) => valuesByPortfolio.get(id) ?? [])),
+    ids.flatMap((id) => flowsByPortfolio.get(id) ?? []),
+    benchmarkSeries,
+  );
+
+  const accountTypes = Array.from(new Set(portfolios.map((p) => p.accountType)));
+  return {
+    ...empty,
+    total: groupOf(portfolios.map((p) => p.id), "total", "TOTAL"),
+    portfolios: portfolios.map((p) => groupOf([p.id], p.id, p.name)),
+    accountTypes: accountTypes.map((type) => groupOf(
+      portfolios.filter((p) => p.accountType === type).map((p) => p.id),
+      type,
+      type.replace("_", "-"),
+    )),
+    gaps,
+    failedTickers,
+  };
+}
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { computePerformanceMetrics } from "./performance-metrics";
+import {
+  annualizeReturn,
+  computeSeriesReturn,
+  computeTimeWeightedReturn,
+  computeWindowXIRR,
+  summarizeReturns,
+} from "./performance-twr";
+
+{
+  // +10% then a 1000 deposit, then +10% again: TWR is 1.1 * 1.1 - 1 regardless of the deposit.
+  const result = computeTimeWeightedReturn(
+    [
+      { date: "2025-01-01", valueCAD: 1000 },
+      { date: "2025-01-02", valueCAD: 1100 },
+      { date: "2025-01-03", valueCAD: 2310 },
+    ],
+    [{ date: "2025-01-03", amountCAD: 1000 }],
+  );
+  assert.ok(Math.abs((result?.twr ?? NaN) - 0.21) < 1e-6, "deposits must not move TWR");
+  assert.equal(result?.periods, 2);
+  assert.equal(result?.annualized, null, "spans under a year are not annualized");
+}
+
+{
+  // Withdrawal mid-way: 2000 → 2200 (+10%), withdraw 1200, 1000 → 900 (-10%).
+  const result = computeTimeWeightedReturn(
+    [
+      { date: "2025-01-01", valueCAD: 2000 },
+      { date: "2025-01-02", valueCAD: 2200 },
+      { date: "2025-01-03", valueCAD: 900 },
+    ],
+    [{ date: "2025-01-03", amountCAD: -1200 }],
+  );
+  assert.ok(Math.abs((result?.twr ?? NaN) - (1.1 * 0.9 - 1)) < 1e-6, "withdrawals are neutralized");
+}
+
+{
+  // Leading empty days are dropped and the first deposit is already in the first funded value.
+  const result = computeTimeWeightedReturn(
+    [
+      { date: "2025-01-01", valueCAD: 0 },
+      { date: "2025-01-02", valueCAD: 500 },
+      { date: "2025-01-03", valueCAD: 550 },
+    ],
+    [{ date: "2025-01-02", amountCAD: 500 }],
+  );
+  assert.equal(result?.startDate, "2025-01-02");
+  assert.ok(Math.abs(result?.twr - 0.1) < 1e-6, "first funded day starts the series");
+}
+
+{
+  assert.equal(computeTimeWeightedReturn([{ date: "2025-01-01", valueCAD: 100 }]), null);
+  assert.equal(computeTimeWeightedReturn([{ date: "2025-01-01", valueCAD: 0 }, { date: "2025-01-02", valueCAD: 0 }]), null);
+}
+
+{
+  assert.ok(Math.abs((annualizeReturn(0.21, "2024-01-01", "2026-01-01") ?? NaN) - 0.1) < 1e-3, "two-year 21% annualizes to about 10%");
+  assert.equal(annualizeReturn(0.05, "2025-01-01", "2025-06-01"), null);
+}
+
+{
+  // Good timing: a big deposit right before the gain lifts XIRR above TWR.
+  const points = [
+    { date: "2024-01-01", valueCAD: 1000 },
+    { date: "2024-06-28", valueCAD: 900 },
+    { date: "2024-07-01", valueCAD: 9900 },
+    { date: "2025-01-01", valueCAD: 10890 },
+  ];
+  const flows = [{ date: "2024-07-01", amountCAD: 9000 }];
+  const summary = summarizeReturns(points, flows);
+  assert.ok(Math.abs((summary.twr ?? NaN) - (0.9 * 1.1 - 1)) < 1e-6, "TWR links the two halves");
+  assert.ok(summary.xirr !== null && summary.twr !== null && summary.xirr > summary.twr, "XIRR rewards well-timed contributions");
+  assert.equal(computeWindowXIRR(points.slice(0, 1), flows), null);
+}
+
+{
+  const prices = [
+    { date: "2024-12-30", valueCAD: 100 },
+    { date: "2025-01-03", valueCAD: 110 },
+    { date: "2025-02-03", valueCAD: 121 },
+  ];
+  const result = computeSeriesReturn(prices, "2025-01-01", "2025-02-03");
+  assert.ok(Math.abs((result?.twr ?? NaN) - 0.21) < 1e-6, "benchmark return uses the last close on or before the window start");
+  assert.equal(result?.startDate, "2025-01-01");
+}
+
+{
+  const metrics = computePerformanceMetrics(
+    [
+      { date: "2025-01-01", totalCAD: 1000 },
+      { date: "2025-01-02", totalCAD: 1100 },
+      { date: "2025-01-03", totalCAD: 2310 },
+    ],
+    "3m",
+    [
+      { date: "2025-01-01", amountCAD: 1000 },
+      { date: "2025-01-03", amountCAD: 1000 },
+    ],
+  );
+  assert.ok(Math.abs((metrics.twr ?? NaN) - 0.21) < 1e-6, "performance metrics expose TWR next to XIRR");
+}
+
+console.log("performance-twr tests passed");
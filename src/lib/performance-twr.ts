@@ -0,0 +1,161 @@
+// Time-weighted return (TWR), daily-linked.
+//
+// Each pair of consecutive valuation points is one sub-period. External cash
+// flows (deposits positive, withdrawals negative) dated after the previous
+// point and on or before the current one are treated as arriving at the start
+// of the sub-period:
+//
+//   r_i = V_i / (V_{i-1} + F_i) - 1,   TWR = Π(1 + r_i) - 1
+//
+// so contributions and their timing do not move the result; XIRR
+// (./performance-shadow) is the money-weighted counterpart. Leading points
+// with no value (before the first deposit) are dropped, and a sub-period whose
+// opening capital is not positive cannot be measured and is skipped.
+
+import { computeXIRR, type XirrCashflow } from "./performance-shadow";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+
+export interface TwrValuePoint {
+  date: string;
+  valueCAD: number;
+}
+
+export interface TwrCashflow {
+  date: string;
+  amountCAD: number;
+}
+
+export interface TwrResult {
+  /** Cumulative decimal return over [startDate, endDate]. */
+  twr: number;
+  /** Null for spans shorter than a year; short returns are not annualized. */
+  annualized: number | null;
+  startDate: string;
+  endDate: string;
+  /** Sub-periods linked; skipped ones are not counted. */
+  periods: number;
+}
+
+export interface TwrPeriodReturn {
+  startDate: string;
+  endDate: string;
+  /** Decimal return of the sub-period, flows neutralized. */
+  return: number;
+}
+
+export interface ReturnSummary {
+  twr: number | null;
+  twrAnnualized: number | null;
+  xirr: number | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+function dateKey(value: string): string {
+  return value.slice(0, 10);
+}
+
+function yearsBetween(startDate: string, endDate: string): number {
+  return (Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / MS_PER_DAY / DAYS_PER_YEAR;
+}
+
+function normalizedPoints(points: TwrValuePoint[]): TwrValuePoint[] {
+  const sorted = points
+    .map((point) => ({ date: dateKey(point.date), valueCAD: Number(point.valueCAD) }))
+    .filter((point) => /^\d{4}-\d{2}-\d{2}$/.test(point.date) && Number.isFinite(point.valueCAD))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const firstFunded = sorted.findIndex((point) => point.valueCAD > 0);
+  return firstFunded < 0 ? [] : sorted.slice(firstFunded);
+}
+
+function normalizedCashflows(cashflows: TwrCashflow[]): TwrCashflow[] {
+  return cashflows
+    .map((cashflow) => ({ date: dateKey(cashflow.date), amountCAD: Number(cashflow.amountCAD) }))
+    .filter((cashflow) => Number.isFinite(cashflow.amountCAD) && cashflow.amountCAD !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function annualizeReturn(cumulative: number, startDate: string, endDate: string): number | null {
+  const years = yearsBetween(startDate, endDate);
+  if (!Number.isFinite(years) || years < 1 || cumulative <= -1) return null;
+  return Math.pow(1 + cumulative, 1 / years) - 1;
+}
+
+/** One linked sub-period per pair of consecutive points; skipped sub-periods are left out. */
+export function computePeriodReturns(points: TwrValuePoint[], cashflows: TwrCashflow[] = []): TwrPeriodReturn[] {
+  const series = normalizedPoints(points);
+  if (series.length < 2) return [];
+
+  const flows = normalizedCashflows(cashflows);
+  let flowIndex = 0;
+  while (flowIndex < flows.length && flows[flowIndex].date <= series[0].date) flowIndex += 1;
+
+  const periods: TwrPeriodReturn[] = [];
+  for (let i = 1; i < series.length; i++) {
+    let flowCAD = 0;
+    while (flowIndex < flows.length && flows[flowIndex].date <= series[i].date) {
+      flowCAD += flows[flowIndex].amountCAD;
+      flowIndex += 1;
+    }
+    const openingCAD = series[i - 1].valueCAD + flowCAD;
+    if (openingCAD <= 0) continue;
+    periods.push({ startDate: series[i - 1].date, endDate: series[i].date, return: series[i].valueCAD / openingCAD - 1 });
+  }
+  return periods;
+}
+
+export function computeTimeWeightedReturn(
+  points: TwrValuePoint[],
+  cashflows: TwrCashflow[] = [],
+): TwrResult | null {
+  const series = normalizedPoints(points);
+  const periods = computePeriodReturns(series, cashflows);
+  if (periods.length === 0) return null;
+
+  const startDate = series[0].date;
+  const endDate = series[series.length - 1].date;
+  const twr = periods.reduce((growth, period) => growth * (1 + period.return), 1) - 1;
+  return { twr, annualized: annualizeReturn(twr, startDate, endDate), startDate, endDate, periods: periods.length };
+}
+
+/**
+ * Money-weighted return for the same window: the opening value is the first
+ * outflow, flows inside the window follow, the closing value is the inflow.
+ */
+export function computeWindowXIRR(points: TwrValuePoint[], cashflows: TwrCashflow[] = []): number | null {
+  const series = normalizedPoints(points);
+  if (series.length < 2) return null;
+  const start = series[0];
+  const end = series[series.length - 1];
+  const xirrCashflows: XirrCashflow[] = [
+    { date: start.date, amount: -start.valueCAD },
+    ...normalizedCashflows(cashflows)
+      .filter((cashflow) => cashflow.date > start.date && cashflow.date <= end.date)
+      .map((cashflow) => ({ date: cashflow.date, amount: -cashflow.amountCAD })),
+  ];
+  return computeXIRR(xirrCashflows, end.valueCAD, end.date);
+}
+
+export function summarizeReturns(points: TwrValuePoint[], cashflows: TwrCashflow[] = []): ReturnSummary {
+  const result = computeTimeWeightedReturn(points, cashflows);
+  return {
+    twr: result?.twr ?? null,
+    twrAnnualized: result?.annualized ?? null,
+    xirr: computeWindowXIRR(points, cashflows),
+    startDate: result?.startDate ?? null,
+    endDate: result?.endDate ?? null,
+  };
+}
+
+/** Buy-and-hold return of a price series over [startDate, endDate]; a benchmark has no flows, so this is its TWR. */
+export function computeSeriesReturn(points: TwrValuePoint[], startDate: string, endDate: string): TwrResult | null {
+  const inWindow = points.filter((point) => dateKey(point.date) <= endDate);
+  const opening = inWindow.filter((point) => dateKey(point.date) <= startDate).pop();
+  const window = [
+    ...(opening ? [{ date: startDate, valueCAD: opening.valueCAD }] : []),
+    ...inWindow.filter((point) => dateKey(point.date) > startDate),
+  ];
+  return computeTimeWeightedReturn(window);
+}
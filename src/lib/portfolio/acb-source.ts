@@ -0,0 +1,129 @@
+/**
+ * Loads BUY/SELL history from Prisma and builds the taxable-account ACB
+ * ledgers with superficial losses applied. Shared by /api/acb and the
+ * capital-gains mode of /api/tax-report so both report the same numbers.
+ *
+ * Superficial loss detection needs purchases from every account (TFSA /
+ * RRSP / FHSA included), so the query always spans all of the user's
+ * portfolios for the tickers in scope; only the ledgers are restricted.
+ */
+import { prisma } from "@/lib/db";
+import { defaultUsdCad, loadFxRateResolver } from "@/lib/fx-rates";
+import { computeAcbLedgers, type AcbLedger } from "./acb";
+import type { EngineCurrency } from "./engine";
+import {
+  detectSuperficialLosses,
+  isTaxableAccountType,
+  type SuperficialLossFinding,
+  type SuperficialLossTransaction,
+} from "./superficial-loss";
+
+export interface AcbSourceLedger extends AcbLedger {
+  portfolioName: string | null;
+  accountType: string;
+}
+
+export interface AcbSourceResult {
+  ledgers: AcbSourceLedger[];
+  /** Daily rate lookup used for the ledgers, for callers converting other rows on the same basis. */
+  fxRateOn?: (date: string) => number | null;
+  superficialLosses: (SuperficialLossFinding & { portfolioName: string | null })[];
+  fallbackUsdCad: number;
+}
+
+export async function loadAcbLedgers(
+  userId: string,
+  scope: { holdingIds?: string[] } = {},
+): Promise<AcbSourceResult> {
+  const requestedHoldings = scope.holdingIds
+    ? await prisma.holding.findMany({
+        where: { id: { in: scope.holdingIds }, portfolio: { userId } },
+        select: { id: true, ticker: true },
+      })
+    : null;
+  const tickers = requestedHoldings ? Array.from(new Set(requestedHoldings.map((h) => h.ticker))) : null;
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      action: { in: ["BUY", "SELL"] },
+      holding: {
+        ...(tickers ? { ticker: { in: tickers } } : {}),
+        portfolio: { userId },
+      },
+    },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    select: {
+      id: true,
+      holdingId: true,
+      action: true,
+      date: true,
+      quantity: true,
+      price: true,
+      commission: true,
+      fxRateCAD: true,
+      holding: {
+        select: {
+          ticker: true,
+          currency: true,
+          portfolioId: true,
+          portfolio: { select: { name: true, accountType: true } },
+        },
+      },
+    },
+  });
+
+  const fallbackUsdCad = defaultUsdCad();
+  const allTransactions: SuperficialLossTransaction[] = transactions.map((t) => ({
+    id: t.id,
+    portfolioId: t.holding.portfolioId,
+    accountType: t.holding.portfolio.accountType,
+    ticker: t.holding.ticker,
+    currency: t.holding.currency as EngineCurrency,
+    action: t.action,
+    date: t.date,
+    quantity: parseFloat(t.quantity.toString()),
+    price: parseFloat(t.price.toString()),
+    commission: parseFloat(t.commission.toString()),
+    fxRateCAD: t.fxRateCAD ? parseFloat(t.fxRateCAD.toString()) : null,
+  }));
+
+  // USD trades captured without fxRateCAD use the stored daily rate for their date.
+  const fxRateOn = transactions.length > 0
+    ? await loadFxRateResolver(transactions[0].date, new Date()).catch(() => undefined)
+    : undefined;
+
+  const superficial = detectSuperficialLosses(allTransactions, { fallbackUsdCad, fxRateOn });
+
+  const requestedIdSet = requestedHoldings ? new Set(requestedHoldings.map((h) => h.id)) : null;
+  const ledgerTransactions = allTransactions.filter(
+    (t, index) =>
+      isTaxableAccountType(t.accountType) &&
+      (!requestedIdSet || requestedIdSet.has(transactions[index].holdingId)),
+  );
+
+  const portfolios = new Map(transactions.map((t) => [t.holding.portfolioId, t.holding.portfolio]));
+  const ledgers = computeAcbLedgers(ledgerTransactions, {
+    fallbackUsdCad,
+    fxRateOn,
+    deniedLossBySellId: superficial.deniedLossBySellId,
+    acbAdjustments: superficial.acbAdjustments,
+  }).map((ledger) => ({
+    ...ledger,
+    portfolioName: portfolios.get(ledger.portfolioId)?.name ?? null,
+    accountType: portfolios.get(ledger.portfolioId)?.accountType ?? "NON_REG",
+  }));
+
+  const ledgerKeys = new Set(ledgers.map((ledger) => `${ledger.portfolioId}:${ledger.ticker}`));
+  const superficialLosses = superficial.findings
+    .filter((finding) => ledgerKeys.has(`${finding.portfolioId}:${finding.ticker}`))
+    .map((finding) => ({
+      ...finding,
+      portfolioName: portfolios.get(finding.portfolioId)?.name ?? null,
+      substitutes: finding.substitutes.map((substitute) => ({
+        ...substitute,
+        portfolioName: portfolios.get(substitute.portfolioId)?.name ?? null,
+      })),
+    }));
+
+  return { ledgers, superficialLosses, fallbackUsdCad, fxRateOn };
+}
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+
+import { computeAcbLedger, computeAcbLedgers, type AcbTransaction } from "./acb";
+
+const portfolioId = "non-reg";
+const options = { fallbackUsdCad: 1.35 };
+
+function tx(overrides: Partial<AcbTransaction> = {}): AcbTransaction {
+  return {
+    id: "tx-default",
+    portfolioId,
+    ticker: "SCHD",
+    currency: "CAD",
+    action: "BUY",
+    date: "2026-01-02",
+    quantity: 0,
+    price: 0,
+    commission: 0,
+    fxRateCAD: null,
+    ...overrides,
+  };
+}
+
+function testCadAverageCostWithCommissions() {
+  const ledger = computeAcbLedger(
+    [
+      tx({ id: "buy1", date: "2026-01-02", quantity: 100, price: 10, commission: 10 }),
+      tx({ id: "buy2", date: "2026-02-02", quantity: 50, price: 13, commission: 5 }),
+      tx({ id: "sell1", date: "2026-03-02", action: "SELL", quantity: 60, price: 15, commission: 9 }),
+    ],
+    portfolioId,
+    "SCHD",
+    options,
+  );
+
+  // ACB after buys: 1010 + 655 = 1665 over 150 shares → 11.10/share
+  const sell = ledger.events[2];
+  assert.equal(sell.acbOfSoldCAD, 666);
+  assert.equal(sell.amountCAD, 900);
+  assert.equal(sell.realizedGainCAD, 225);
+  assert.equal(ledger.shares, 90);
+  assert.equal(ledger.acbCAD, 999);
+  assert.equal(ledger.acbPerShareCAD, 11.1);
+  assert.equal(ledger.realizedGainCAD, 225);
+}
+
+function testUsdTradesUseEachTradesOwnFxRate() {
+  const ledger = computeAcbLedger(
+    [
+      tx({ id: "buy", ticker: "QLD", currency: "USD", quantity: 10, price: 100, commission: 0, fxRateCAD: 1.3 }),
+      tx({ id: "sell", ticker: "QLD", currency: "USD", action: "SELL", date: "2026-06-01", quantity: 10, price: 100, commission: 1, fxRateCAD: 1.4 }),
+    ],
+    portfolioId,
+    "QLD",
+    options,
+  );
+
+  // Flat USD price but CAD weakened: 1400 proceeds − 1300 ACB − 1.40 outlay.
+  assert.equal(ledger.events[1].realizedGainCAD, 98.6);
+  assert.equal(ledger.shares, 0);
+  assert.equal(ledger.acbCAD, 0);
+}
+
+function testMissingUsdRateFallsBackAndIsFlagged() {
+  const ledger = computeAcbLedger(
+    [tx({ id: "buy", currency: "USD", quantity: 1, price: 100, fxRateCAD: null })],
+    portfolioId,
+    "SCHD",
+    options,
+  );
+
+  assert.equal(ledger.events[0].fxRateSource, "fallback");
+  assert.equal(ledger.events[0].amountCAD, 135);
+}
+
+function testMissingUsdRateUsesDailyRateForTradeDate() {
+  const dailyRates: Record<string, number> = { "2026-01-02": 1.42 };
+  const ledger = computeAcbLedger(
+    [
+      tx({ id: "buy", currency: "USD", date: "2026-01-02", quantity: 1, price: 100, fxRateCAD: null }),
+      tx({ id: "buy2", currency: "USD", date: "2026-01-05", quantity: 1, price: 100, fxRateCAD: 1.3 }),
+    ],
+    portfolioId,
+    "SCHD",
+    { ...options, fxRateOn: (date) => dailyRates[date] ?? null },
+  );
+
+  assert.equal(ledger.events[0].fxRateSource, "daily");
+  assert.equal(ledger.events[0].amountCAD, 142);
+  // A rate captured on the transaction still wins over the daily table.
+  assert.equal(ledger.events[1].fxRateSource, "transaction");
+}
+
+function testOversellIsReportedAndLedgerClampsToZero() {
+  const ledger = computeAcbLedger(
+    [
+      tx({ id: "buy", quantity: 5, price: 10 }),
+      tx({ id: "sell", action: "SELL", date: "2026-02-01", quantity: 8, price: 12 }),
+    ],
+    portfolioId,
+    "SCHD",
+    options,
+  );
+
+  assert.equal(ledger.events[1].oversoldQuantity, 3);
+  assert.equal(ledger.events[1].acbOfSoldCAD, 50);
+  assert.equal(ledger.shares, 0);
+  assert.equal(ledger.acbCAD, 0);
+}
+
+function testDividendsIgnoredAndLedgersSplitByPortfolio() {
+  const ledgers = computeAcbLedgers(
+    [
+      tx({ id: "a-buy", portfolioId: "a", quantity: 1, price: 10 }),
+      tx({ id: "a-div", portfolioId: "a", action: "DIVIDEND", quantity: 1, price: 0.5 }),
+      tx({ id: "b-buy", portfolioId: "b", quantity: 2, price: 20 }),
+    ],
+    options,
+  );
+
+  assert.deepEqual(
+    ledgers.map((ledger) => ({ portfolioId: ledger.portfolioId, events: ledger.events.length, acbCAD: ledger.acbCAD })),
+    [
+      { portfolioId: "a", events: 1, acbCAD: 10 },
+      { portfolioId: "b", events: 1, acbCAD: 40 },
+    ],
+  );
+}
+
+const tests = [
+  testCadAverageCostWithCommissions,
+  testUsdTradesUseEachTradesOwnFxRate,
+  testMissingUsdRateFallsBackAndIsFlagged,
+  testMissingUsdRateUsesDailyRateForTradeDate,
+  testOversellIsReportedAndLedgerClampsToZero,
+  testDividendsIgnoredAndLedgersSplitByPortfolio,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("acb engine tests passed");
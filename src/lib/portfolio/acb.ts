@@ -0,0 +1,255 @@
+// Adjusted cost base (ACB) engine for non-registered accounts.
+// Pure functions; CRA average-cost method per (portfolio, ticker):
+//  - BUY  : ACB += (quantity × price + commission) × fxRateCAD
+//  - SELL : ACB of shares sold = ACB / shares × quantity; ACB -= that amount
+//           gain = proceeds − ACB of shares sold − outlays (commission)
+//  - DIVIDEND rows never touch ACB (return-of-capital is not modelled).
+//  - Superficial losses (see ./superficial-loss) arrive as options: the denied
+//    part of a SELL loss is added back to its gain, and the matching ACB bump
+//    is applied to the pool as an ADJUST event after that day's trades.
+// Each trade is converted at its own fxRateCAD; CAD trades use 1. A USD trade
+// captured without a rate uses the stored daily rate for its date (fxRateOn),
+// and only then the fallbackUsdCad constant.
+
+import type { EngineCurrency, EngineTransaction } from "./engine";
+
+export interface AcbTransaction extends EngineTransaction {
+  /** CAD per USD on the trade date. Null when the row was captured without a rate. */
+  fxRateCAD: number | null;
+}
+
+export type AcbFxRateSource = "native" | "transaction" | "daily" | "fallback";
+
+export interface AcbEvent {
+  transactionId: string;
+  date: string;
+  action: "BUY" | "SELL" | "ADJUST";
+  quantity: number;
+  price: number;
+  commission: number;
+  fxRateCAD: number;
+  fxRateSource: AcbFxRateSource;
+  /** BUY: cost including commission. SELL: gross proceeds before outlays. */
+  amountCAD: number;
+  commissionCAD: number;
+  sharesBefore: number;
+  sharesAfter: number;
+  acbBeforeCAD: number;
+  acbAfterCAD: number;
+  acbPerShareAfterCAD: number;
+  /** SELL only: ACB attributed to the disposed shares. */
+  acbOfSoldCAD: number | null;
+  /** SELL only: proceeds − ACB of sold shares − outlays, after any denied loss. */
+  realizedGainCAD: number | null;
+  /** SELL only: superficial loss added back to the gain (positive CAD). */
+  deniedLossCAD: number | null;
+  /** Set when a SELL disposes of more shares than the ledger holds. */
+  oversoldQuantity: number | null;
+}
+
+export interface AcbLedger {
+  portfolioId: string;
+  ticker: string;
+  currency: EngineCurrency;
+  events: AcbEvent[];
+  shares: number;
+  acbCAD: number;
+  acbPerShareCAD: number;
+  realizedGainCAD: number;
+}
+
+/** ACB increase from a superficial loss, added to the pool on `date`. */
+export interface AcbAdjustment {
+  portfolioId: string;
+  ticker: string;
+  date: string;
+  acbBumpCAD: number;
+  /** The SELL whose denied loss produced this bump. */
+  sourceTransactionId: string;
+}
+
+export interface AcbOptions {
+  /** CAD per USD used when a USD trade has no fxRateCAD. */
+  fallbackUsdCad: number;
+  /** CAD per USD published for a date (FxRateDaily); null when none is stored. */
+  fxRateOn?: (date: string) => number | null;
+  /** Superficial loss per SELL transaction id (positive CAD), added back to that sale's gain. */
+  deniedLossBySellId?: Map<string, number>;
+  acbAdjustments?: AcbAdjustment[];
+}
+
+function dateKey(value: string | Date): string {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return value.slice(0, 10);
+}
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round((value + Number.EPSILON) * 1_000_000) / 1_000_000;
+}
+
+function resolveFxRate(
+  transaction: AcbTransaction,
+  options: AcbOptions,
+): { rate: number; source: AcbFxRateSource } {
+  if (transaction.currency === "CAD") return { rate: 1, source: "native" };
+  if (transaction.fxRateCAD != null && Number.isFinite(transaction.fxRateCAD) && transaction.fxRateCAD > 0) {
+    return { rate: transaction.fxRateCAD, source: "transaction" };
+  }
+  const daily = options.fxRateOn?.(dateKey(transaction.date));
+  if (daily != null && Number.isFinite(daily) && daily > 0) return { rate: daily, source: "daily" };
+  return { rate: options.fallbackUsdCad, source: "fallback" };
+}
+
+/** Trade-date order; same-day rows keep their input order (stable sort). */
+function sortTrades(transactions: AcbTransaction[]): AcbTransaction[] {
+  return transactions
+    .filter((transaction) => transaction.action === "BUY" || transaction.action === "SELL")
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => dateKey(a.transaction.date).localeCompare(dateKey(b.transaction.date)) || a.index - b.index)
+    .map(({ transaction }) => transaction);
+}
+
+export function computeAcbLedger(
+  transactions: AcbTransaction[],
+  portfolioId: string,
+  ticker: string,
+  options: AcbOptions,
+): AcbLedger {
+  const normalizedTicker = ticker.toUpperCase();
+  const trades = sortTrades(
+    transactions.filter(
+      (transaction) =>
+        transaction.portfolioId === portfolioId && transaction.ticker.toUpperCase() === normalizedTicker,
+    ),
+  );
+
+  const adjustments = (options.acbAdjustments ?? [])
+    .filter((adjustment) => adjustment.portfolioId === portfolioId && adjustment.ticker.toUpperCase() === normalizedTicker)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let shares = 0;
+  let acbCAD = 0;
+  let realizedGainCAD = 0;
+  const events: AcbEvent[] = [];
+
+  const applyAdjustmentsThrough = (cutoff: string | null) => {
+    while (adjustments.length > 0 && (cutoff === null || adjustments[0].date < cutoff)) {
+      const adjustment = adjustments.shift()!;
+      const acbBeforeCAD = acbCAD;
+      acbCAD += adjustment.acbBumpCAD;
+      events.push({
+        transactionId: `superficial:${adjustment.sourceTransactionId}:${adjustment.date}`,
+        date: adjustment.date,
+        action: "ADJUST",
+        quantity: 0,
+        price: 0,
+        commission: 0,
+        fxRateCAD: 1,
+        fxRateSource: "native",
+        amountCAD: roundMoney(adjustment.acbBumpCAD),
+        commissionCAD: 0,
+        sharesBefore: shares,
+        sharesAfter: shares,
+        acbBeforeCAD: roundMoney(acbBeforeCAD),
+        acbAfterCAD: roundMoney(acbCAD),
+        acbPerShareAfterCAD: shares > 0 ? Math.round((acbCAD / shares) * 10_000) / 10_000 : 0,
+        acbOfSoldCAD: null,
+        realizedGainCAD: null,
+        deniedLossCAD: null,
+        oversoldQuantity: null,
+      });
+    }
+  };
+
+  for (const trade of trades) {
+    applyAdjustmentsThrough(dateKey(trade.date));
+    const fx = resolveFxRate(trade, options);
+    const grossCAD = trade.quantity * trade.price * fx.rate;
+    const commissionCAD = (trade.commission || 0) * fx.rate;
+    const sharesBefore = shares;
+    const acbBeforeCAD = acbCAD;
+
+    let acbOfSoldCAD: number | null = null;
+    let gainCAD: number | null = null;
+    let deniedLossCAD: number | null = null;
+    let oversoldQuantity: number | null = null;
+    let amountCAD: number;
+
+    if (trade.action === "BUY") {
+      amountCAD = grossCAD + commissionCAD;
+      shares = roundQuantity(shares + trade.quantity);
+      acbCAD += amountCAD;
+    } else {
+      amountCAD = grossCAD;
+      const disposed = Math.min(trade.quantity, Math.max(0, shares));
+      if (trade.quantity - disposed > 0.000001) {
+        oversoldQuantity = roundQuantity(trade.quantity - disposed);
+      }
+      const perShare = shares > 0 ? acbCAD / shares : 0;
+      acbOfSoldCAD = perShare * disposed;
+      gainCAD = grossCAD - acbOfSoldCAD - commissionCAD;
+      const denied = options.deniedLossBySellId?.get(trade.id) ?? 0;
+      if (denied > 0 && gainCAD < 0) {
+        deniedLossCAD = Math.min(denied, -gainCAD);
+        gainCAD += deniedLossCAD;
+      }
+      realizedGainCAD += gainCAD;
+      shares = roundQuantity(Math.max(0, shares - trade.quantity));
+      acbCAD = shares > 0 ? acbCAD - acbOfSoldCAD : 0;
+    }
+
+    events.push({
+      transactionId: trade.id,
+      date: dateKey(trade.date),
+      action: trade.action as "BUY" | "SELL",
+      quantity: trade.quantity,
+      price: trade.price,
+      commission: trade.commission || 0,
+      fxRateCAD: fx.rate,
+      fxRateSource: fx.source,
+      amountCAD: roundMoney(amountCAD),
+      commissionCAD: roundMoney(commissionCAD),
+      sharesBefore,
+      sharesAfter: shares,
+      acbBeforeCAD: roundMoney(acbBeforeCAD),
+      acbAfterCAD: roundMoney(acbCAD),
+      acbPerShareAfterCAD: shares > 0 ? Math.round((acbCAD / shares) * 10_000) / 10_000 : 0,
+      acbOfSoldCAD: acbOfSoldCAD == null ? null : roundMoney(acbOfSoldCAD),
+      realizedGainCAD: gainCAD == null ? null : roundMoney(gainCAD),
+      deniedLossCAD: deniedLossCAD == null ? null : roundMoney(deniedLossCAD),
+      oversoldQuantity,
+    });
+  }
+  applyAdjustmentsThrough(null);
+
+  return {
+    portfolioId,
+    ticker: normalizedTicker,
+    currency: trades[0]?.currency ?? "CAD",
+    events,
+    shares,
+    acbCAD: roundMoney(acbCAD),
+    acbPerShareCAD: shares > 0 ? Math.round((acbCAD / shares) * 10_000) / 10_000 : 0,
+    realizedGainCAD: roundMoney(realizedGainCAD),
+  };
+}
+
+/** One ledger per (portfolio, ticker) present in the input, sorted by portfolio then ticker. */
+export function computeAcbLedgers(transactions: AcbTransaction[], options: AcbOptions): AcbLedger[] {
+  const keys = new Map<string, { portfolioId: string; ticker: string }>();
+  for (const transaction of transactions) {
+    if (transaction.action !== "BUY" && transaction.action !== "SELL") continue;
+    const ticker = transaction.ticker.toUpperCase();
+    keys.set(`${transaction.portfolioId}:${ticker}`, { portfolioId: transaction.portfolioId, ticker });
+  }
+
+  return Array.from(keys.values())
+    .sort((a, b) => a.portfolioId.localeCompare(b.portfolioId) || a.ticker.localeCompare(b.ticker))
+    .map(({ portfolioId, ticker }) => computeAcbLedger(transactions, portfolioId, ticker, options));
+}
@@ -0,0 +1,63 @@
+/**
+ * Loads transactions, the cash ledger, daily closes and USD/CAD rates for a
+ * window and runs ./attribution over the portfolios in scope. Used by
+ * /api/attribution.
+ */
+import { prisma } from "@/lib/db";
+import { defaultUsdCad, loadFxRateResolver } from "@/lib/fx-rates";
+import type { SnapshotScope } from "@/lib/snapshot-scope";
+import { computeReturnAttribution, type ReturnAttribution } from "./attribution";
+import { loadBackfillTransactions, loadLedgerRows, loadTickerCloses } from "./snapshot-backfill-source";
+
+export interface ReturnAttributionReport extends ReturnAttribution {
+  scope: SnapshotScope;
+  failedTickers: string[];
+}
+
+function dateKey(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value.slice(0, 10);
+}
+
+function shiftDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export async function loadReturnAttribution(
+  userId: string,
+  from: string,
+  to: string,
+  scope: SnapshotScope = { kind: "all" },
+): Promise<ReturnAttributionReport> {
+  const portfolios = await prisma.portfolio.findMany({
+    where: {
+      userId,
+      ...(scope.kind === "portfolio" ? { id: scope.portfolioId } : {}),
+      ...(scope.kind === "accountType" ? { accountType: scope.accountType } : {}),
+    },
+    select: { id: true },
+  });
+  const portfolioIds = portfolios.map((p) => p.id);
+  const portfolioIdSet = new Set(portfolioIds);
+
+  const transactions = (await loadBackfillTransactions(userId)).filter((t) => portfolioIdSet.has(t.portfolioId));
+  const ledger = await loadLedgerRows(userId, transactions);
+  // Tickers first traded after the window have nothing to attribute.
+  const [{ closes, failedTickers }, fxRateOn] = await Promise.all([
+    loadTickerCloses(transactions.filter((t) => dateKey(t.date) <= to), from, to),
+    loadFxRateResolver(shiftDays(from, -7), to),
+  ]);
+  const fallbackUsdCad = defaultUsdCad();
+
+  const attribution = computeReturnAttribution({
+    from,
+    to,
+    portfolioIds,
+    transactions,
+    ledgerRows: ledger.rows,
+    closes,
+    usdCadOn: (date) => fxRateOn(date) ?? fallbackUsdCad,
+  });
+  return { ...attribution, scope, failedTickers };
+}
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+
+import {
+  attributionPresetWindow,
+  computeReturnAttribution,
+  rulebookBucket,
+  type AttributionInput,
+} from "./attribution";
+import type { EngineCashLedgerRow, EngineTransaction } from "./engine";
+
+const trade = (id: string, ticker: string, date: string, quantity: number, price: number, commission = 0): EngineTransaction => ({
+  id, portfolioId: "p1", ticker, currency: "USD", action: "BUY", date, quantity, price, commission,
+});
+
+const ledger = (
+  id: string,
+  date: string,
+  amount: number,
+  eventType: EngineCashLedgerRow["eventType"],
+  currency: "CAD" | "USD" = "USD",
+  ticker: string | null = null,
+): EngineCashLedgerRow => ({ id, portfolioId: "p1", date, currency, amount, eventType, ticker });
+
+function baseInput(overrides: Partial<AttributionInput> = {}): AttributionInput {
+  return {
+    from: "2026-01-05",
+    to: "2026-01-16",
+    portfolioIds: ["p1"],
+    transactions: [trade("t1", "QLD", "2026-01-02", 10, 100)],
+    ledgerRows: [
+      ledger("d1", "2026-01-02", 1000, "DEPOSIT"),
+      ledger("b1", "2026-01-02", -1000, "BUY", "USD", "QLD"),
+      ledger("d2", "2026-01-14", 1000, "DEPOSIT", "CAD"),
+      ledger("v1", "2026-01-15", 5, "DIVIDEND", "USD", "QLD"),
+    ],
+    closes: [{
+      ticker: "QLD",
+      currency: "USD",
+      points: [
+        { date: "2026-01-05", close: 100 },
+        { date: "2026-01-12", close: 110 },
+        { date: "2026-01-16", close: 110 },
+      ],
+    }],
+    usdCadOn: (date) => (date >= "2026-01-10" ? 1.4 : 1.3),
+    ...overrides,
+  };
+}
+
+{
+  assert.equal(rulebookBucket("schd"), "CORE");
+  assert.equal(rulebookBucket("QLD"), "CORE");
+  assert.equal(rulebookBucket("SGOV"), "SATELLITE");
+  assert.equal(rulebookBucket("QQQI"), "SATELLITE");
+  assert.equal(rulebookBucket("TQQQ"), "OVERLAY");
+  assert.equal(rulebookBucket("VFV.TO"), "OTHER");
+}
+
+{
+  // QLD +10 USD at 1.30, then USD/CAD 1.30 → 1.40 on the 110 close; a 5 USD dividend and a 1000 CAD deposit.
+  const result = computeReturnAttribution(baseInput());
+  const qld = result.byTicker.find((line) => line.key === "QLD");
+  assert.equal(qld?.priceCAD, 130, "price effect is measured at the opening FX rate");
+  assert.equal(qld?.fxCAD, 110, "FX effect revalues the closing price");
+  assert.equal(qld?.dividendCAD, 7);
+  assert.equal(result.contributionsCAD, 1000);
+  assert.equal(result.startValueCAD, 1300);
+  assert.equal(result.endValueCAD, 2547);
+  assert.equal(result.otherCAD, 0, "price + FX + dividends + contributions reconcile to the engine values");
+}
+
+{
+  // A buy below the close is a price gain on the day; commissions count against it.
+  const input = baseInput();
+  const result = computeReturnAttribution({
+    ...input,
+    transactions: [...input.transactions, trade("t2", "SGOV", "2026-01-12", 5, 50, 1)],
+    ledgerRows: [
+      ...input.ledgerRows,
+      ledger("d3", "2026-01-12", 300, "DEPOSIT"),
+      ledger("b2", "2026-01-12", -251, "BUY", "USD", "SGOV"),
+    ],
+    closes: [
+      ...input.closes,
+      { ticker: "SGOV", currency: "USD", points: [{ date: "2026-01-12", close: 51 }, { date: "2026-01-16", close: 52 }] },
+    ],
+  });
+  const sgov = result.byTicker.find((line) => line.key === "SGOV");
+  assert.equal(sgov?.priceCAD, 12.6);
+  assert.equal(sgov?.bucket, "SATELLITE");
+  assert.equal(result.contributionsCAD, 1420);
+  assert.equal(result.otherCAD, 0);
+
+  const buckets = Object.fromEntries(result.byBucket.map((line) => [line.key, line]));
+  assert.deepEqual(Object.keys(buckets), ["CORE", "SATELLITE", "CASH"]);
+  assert.equal(buckets.CORE.totalCAD, 247);
+  assert.equal(buckets.SATELLITE.totalCAD, 12.6);
+}
+
+{
+  // USD cash alone carries an FX effect.
+  const result = computeReturnAttribution(baseInput({
+    transactions: [],
+    ledgerRows: [ledger("d1", "2026-01-02", 1000, "DEPOSIT")],
+    closes: [],
+  }));
+  assert.equal(result.fxCAD, 100);
+  assert.equal(result.byBucket[0]?.key, "CASH");
+  assert.equal(result.otherCAD, 0);
+}
+
+{
+  assert.deepEqual(attributionPresetWindow("qtd", "2026-10-19"), { from: "2026-09-30", to: "2026-10-19" });
+  assert.deepEqual(attributionPresetWindow("lastq", "2026-10-19"), { from: "2026-06-30", to: "2026-09-30" });
+  assert.deepEqual(attributionPresetWindow("lastq", "2026-02-10"), { from: "2025-09-30", to: "2025-12-31" });
+  assert.deepEqual(attributionPresetWindow("ytd", "2026-10-19"), { from: "2025-12-31", to: "2026-10-19" });
+  assert.deepEqual(attributionPresetWindow("1y", "2026-10-19"), { from: "2025-10-19", to: "2026-10-19" });
+}
+
+console.log("return attribution tests passed");
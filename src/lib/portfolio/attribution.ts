@@ -0,0 +1,286 @@
+// CAD P&L attribution over [from, to]. Pure; the Prisma / Yahoo loader is
+// ./attribution-source.ts.
+//
+// The window is walked step by step over every close and event date. For a
+// ticker held q shares from d0 to d1 (close P, USD/CAD X, X = 1 for CAD
+// listings):
+//
+//   price = q · (P1 − P0) · X0        fx = q · P1 · (X1 − X0)
+//
+// Trades inside a step are marked against that day's close (a buy below the
+// close is a price gain, commissions are a price cost). Dividend income is the
+// DIVIDEND cash ledger rows, contributions are DEPOSIT / WITHDRAWAL rows, and
+// the USD cash balance carries its own FX effect. Whatever the engine's start
+// and end values leave unexplained (fees, FX conversion spreads, adjustments)
+// is reported as `other`, so the parts always add up to the value change.
+
+import { RULEBOOK_TICKERS } from "@/lib/rulebook";
+import {
+  computeCashBalance,
+  computePortfolioValueCAD,
+  computePosition,
+  type EngineCashLedgerRow,
+  type EngineCurrency,
+  type EngineTransaction,
+  type MarketPricePoint,
+} from "./engine";
+import type { ClosePoint, TickerCloseSeries } from "./snapshot-backfill";
+
+export type AttributionBucket = "CORE" | "SATELLITE" | "OVERLAY" | "OTHER" | "CASH";
+
+export const ATTRIBUTION_BUCKET_LABELS: Record<AttributionBucket, string> = {
+  CORE: "Core (SCHD/QLD)",
+  SATELLITE: "Satellite (SGOV/QQQI)",
+  OVERLAY: "Overlay (TQQQ)",
+  OTHER: "Other holdings",
+  CASH: "Cash",
+};
+
+export interface AttributionInput {
+  from: string;
+  to: string;
+  portfolioIds: string[];
+  transactions: EngineTransaction[];
+  ledgerRows: EngineCashLedgerRow[];
+  closes: TickerCloseSeries[];
+  /** USD/CAD for a date; the caller applies its own fallback. */
+  usdCadOn: (date: string) => number;
+}
+
+export interface AttributionLine {
+  key: string;
+  bucket: AttributionBucket;
+  startValueCAD: number;
+  endValueCAD: number;
+  priceCAD: number;
+  dividendCAD: number;
+  fxCAD: number;
+  /** price + dividend + fx. */
+  totalCAD: number;
+}
+
+export interface ReturnAttribution {
+  from: string;
+  to: string;
+  startValueCAD: number;
+  endValueCAD: number;
+  changeCAD: number;
+  contributionsCAD: number;
+  priceCAD: number;
+  dividendCAD: number;
+  fxCAD: number;
+  otherCAD: number;
+  byTicker: AttributionLine[];
+  byBucket: AttributionLine[];
+}
+
+function dateKey(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value.slice(0, 10);
+}
+
+function roundMoney(value: number): number {
+  // `|| 0` folds -0 from float residue back to 0.
+  return Math.round((value + Number.EPSILON) * 100) / 100 || 0;
+}
+
+export function rulebookBucket(ticker: string): AttributionBucket {
+  const t = ticker.toUpperCase();
+  if ((RULEBOOK_TICKERS.CORE as readonly string[]).includes(t)) return "CORE";
+  if ((RULEBOOK_TICKERS.RESERVE as readonly string[]).includes(t)) return "SATELLITE";
+  if ((RULEBOOK_TICKERS.OVERLAY as readonly string[]).includes(t)) return "OVERLAY";
+  return "OTHER";
+}
+
+function latestOnOrBefore(points: ClosePoint[], date: string): number | null {
+  let lo = 0;
+  let hi = points.length - 1;
+  let best: number | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].date <= date) {
+      best = points[mid].close;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return best;
+}
+
+function emptyLine(key: string, bucket: AttributionBucket): AttributionLine {
+  return { key, bucket, startValueCAD: 0, endValueCAD: 0, priceCAD: 0, dividendCAD: 0, fxCAD: 0, totalCAD: 0 };
+}
+
+function roundLine(line: AttributionLine): AttributionLine {
+  return {
+    ...line,
+    startValueCAD: roundMoney(line.startValueCAD),
+    endValueCAD: roundMoney(line.endValueCAD),
+    priceCAD: roundMoney(line.priceCAD),
+    dividendCAD: roundMoney(line.dividendCAD),
+    fxCAD: roundMoney(line.fxCAD),
+    totalCAD: roundMoney(line.priceCAD + line.dividendCAD + line.fxCAD),
+  };
+}
+
+export function computeReturnAttribution(input: AttributionInput): ReturnAttribution {
+  const { from, to, portfolioIds } = input;
+  const portfolioIdSet = new Set(portfolioIds);
+  const transactions = input.transactions.filter((t) => portfolioIdSet.has(t.portfolioId));
+  const ledgerRows = input.ledgerRows.filter((row) => portfolioIdSet.has(row.portfolioId));
+  const series = new Map(input.closes.map((s) => [s.ticker.toUpperCase(), s.points]));
+  const currencyOf = new Map<string, EngineCurrency>();
+  for (const t of transactions) currencyOf.set(t.ticker.toUpperCase(), t.currency);
+  for (const s of input.closes) currencyOf.set(s.ticker.toUpperCase(), s.currency);
+  const tickers = Array.from(new Set(transactions.filter((t) => t.action !== "DIVIDEND").map((t) => t.ticker.toUpperCase()))).sort();
+
+  // Close on or before the date; the last trade price stands in for tickers with no history.
+  const priceOn = (ticker: string, date: string): number | null => {
+    const close = latestOnOrBefore(series.get(ticker) ?? [], date);
+    if (close != null) return close;
+    let tradePrice: number | null = null;
+    for (const t of transactions) {
+      if (t.action !== "DIVIDEND" && t.ticker.toUpperCase() === ticker && dateKey(t.date) <= date) tradePrice = t.price;
+    }
+    return tradePrice;
+  };
+  const fxOf = (ticker: string, date: string) => (currencyOf.get(ticker) === "USD" ? input.usdCadOn(date) : 1);
+  const quantityOn = (ticker: string, date: string) =>
+    portfolioIds.reduce((sum, id) => sum + computePosition(transactions, id, ticker, date), 0);
+  const usdCashOn = (date: string) =>
+    portfolioIds.reduce((sum, id) => sum + computeCashBalance(ledgerRows, id, "USD", date), 0);
+  const valueOn = (date: string) => computePortfolioValueCAD({
+    date,
+    portfolioIds,
+    transactions,
+    ledgerRows,
+    prices: tickers.flatMap((ticker): MarketPricePoint[] => {
+      const close = priceOn(ticker, date);
+      return close == null ? [] : [{ date, ticker, close, currency: currencyOf.get(ticker) ?? "USD" }];
+    }),
+    fxRates: [{ date, usdCad: input.usdCadOn(date) }],
+  }).totalCAD;
+
+  const steps = Array.from(new Set([
+    ...input.closes.flatMap((s) => s.points.map((p) => p.date)),
+    ...transactions.map((t) => dateKey(t.date)),
+    ...ledgerRows.map((row) => dateKey(row.date)),
+    to,
+  ])).filter((date) => date > from && date <= to).sort();
+
+  const lines = new Map<string, AttributionLine>(tickers.map((ticker) => [ticker, emptyLine(ticker, rulebookBucket(ticker))]));
+  const cashLine = emptyLine("CASH", "CASH");
+  let contributionsCAD = 0;
+
+  for (const ticker of tickers) {
+    const line = lines.get(ticker)!;
+    line.startValueCAD = quantityOn(ticker, from) * (priceOn(ticker, from) ?? 0) * fxOf(ticker, from);
+    line.endValueCAD = quantityOn(ticker, to) * (priceOn(ticker, to) ?? 0) * fxOf(ticker, to);
+  }
+
+  let previous = from;
+  for (const date of steps) {
+    const usdCad0 = input.usdCadOn(previous);
+    const usdCad1 = input.usdCadOn(date);
+    cashLine.fxCAD += usdCashOn(previous) * (usdCad1 - usdCad0);
+
+    for (const ticker of tickers) {
+      const line = lines.get(ticker)!;
+      const quantity = quantityOn(ticker, previous);
+      const p0 = priceOn(ticker, previous);
+      const p1 = priceOn(ticker, date);
+      const x0 = fxOf(ticker, previous);
+      const x1 = fxOf(ticker, date);
+      if (quantity !== 0 && p0 != null && p1 != null) {
+        line.priceCAD += quantity * (p1 - p0) * x0;
+        line.fxCAD += quantity * p1 * (x1 - x0);
+      }
+      if (p1 == null) continue;
+      for (const t of transactions) {
+        if (t.ticker.toUpperCase() !== ticker) continue;
+        const tDate = dateKey(t.date);
+        if (tDate <= previous || tDate > date) continue;
+        if (t.action === "BUY") line.priceCAD += (t.quantity * (p1 - t.price) - t.commission) * x1;
+        else if (t.action === "SELL") line.priceCAD += (t.quantity * (t.price - p1) - t.commission) * x1;
+      }
+    }
+
+    for (const row of ledgerRows) {
+      const rowDate = dateKey(row.date);
+      if (rowDate <= previous || rowDate > date) continue;
+      const amountCAD = row.amount * (row.currency === "USD" ? usdCad1 : 1);
+      if (row.eventType === "DEPOSIT" || row.eventType === "WITHDRAWAL") {
+        contributionsCAD += amountCAD;
+      } else if (row.eventType === "DIVIDEND") {
+        const ticker = row.ticker?.toUpperCase();
+        if (!ticker) {
+          cashLine.dividendCAD += amountCAD;
+          continue;
+        }
+        if (!lines.has(ticker)) lines.set(ticker, emptyLine(ticker, rulebookBucket(ticker)));
+        lines.get(ticker)!.dividendCAD += amountCAD;
+      }
+    }
+    previous = date;
+  }
+
+  const startValueCAD = valueOn(from);
+  const endValueCAD = valueOn(to);
+  cashLine.startValueCAD = startValueCAD - Array.from(lines.values()).reduce((sum, line) => sum + line.startValueCAD, 0);
+  cashLine.endValueCAD = endValueCAD - Array.from(lines.values()).reduce((sum, line) => sum + line.endValueCAD, 0);
+
+  const byTicker = [...Array.from(lines.values()), cashLine]
+    .map(roundLine)
+    .filter((line) => line.startValueCAD !== 0 || line.endValueCAD !== 0 || line.totalCAD !== 0);
+  const buckets = new Map<AttributionBucket, AttributionLine>();
+  for (const line of byTicker) {
+    const bucket = buckets.get(line.bucket) ?? emptyLine(line.bucket, line.bucket);
+    bucket.startValueCAD += line.startValueCAD;
+    bucket.endValueCAD += line.endValueCAD;
+    bucket.priceCAD += line.priceCAD;
+    bucket.dividendCAD += line.dividendCAD;
+    bucket.fxCAD += line.fxCAD;
+    buckets.set(line.bucket, bucket);
+  }
+  const bucketOrder: AttributionBucket[] = ["CORE", "SATELLITE", "OVERLAY", "OTHER", "CASH"];
+  const byBucket = bucketOrder.flatMap((bucket) => (buckets.has(bucket) ? [roundLine(buckets.get(bucket)!)] : []));
+
+  const priceCAD = byTicker.reduce((sum, line) => sum + line.priceCAD, 0);
+  const dividendCAD = byTicker.reduce((sum, line) => sum + line.dividendCAD, 0);
+  const fxCAD = byTicker.reduce((sum, line) => sum + line.fxCAD, 0);
+  const changeCAD = endValueCAD - startValueCAD;
+  return {
+    from,
+    to,
+    startValueCAD: roundMoney(startValueCAD),
+    endValueCAD: roundMoney(endValueCAD),
+    changeCAD: roundMoney(changeCAD),
+    contributionsCAD: roundMoney(contributionsCAD),
+    priceCAD: roundMoney(priceCAD),
+    dividendCAD: roundMoney(dividendCAD),
+    fxCAD: roundMoney(fxCAD),
+    otherCAD: roundMoney(changeCAD - contributionsCAD - priceCAD - dividendCAD - fxCAD),
+    byTicker: byTicker.sort((a, b) => Math.abs(b.totalCAD) - Math.abs(a.totalCAD)),
+    byBucket,
+  };
+}
+
+export const ATTRIBUTION_PRESETS = ["qtd", "lastq", "ytd", "1y"] as const;
+export type AttributionPreset = typeof ATTRIBUTION_PRESETS[number];
+
+/** [from, to] for a preset relative to `today` (YYYY-MM-DD, UTC calendar). */
+export function attributionPresetWindow(preset: AttributionPreset, today: string): { from: string; to: string } {
+  const year = Number(today.slice(0, 4));
+  const quarterStartMonth = Math.floor((Number(today.slice(5, 7)) - 1) / 3) * 3;
+  const iso = (d: Date) => d.toISOString().slice(0, 10);
+  // Windows start on the last day of the previous period so its close is the opening value.
+  if (preset === "qtd") return { from: iso(new Date(Date.UTC(year, quarterStartMonth, 0))), to: today };
+  if (preset === "lastq") {
+    return {
+      from: iso(new Date(Date.UTC(year, quarterStartMonth - 3, 0))),
+      to: iso(new Date(Date.UTC(year, quarterStartMonth, 0))),
+    };
+  }
+  if (preset === "ytd") return { from: `${year - 1}-12-31`, to: today };
+  return { from: `${year - 1}${today.slice(4)}`, to: today };
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+
+import { computeAcbLedger, type AcbTransaction } from "./acb";
+import { buildCapitalGainsDispositions, summarizeSchedule3, type CapitalGainsLedger } from "./capital-gains";
+
+const options = { fallbackUsdCad: 1.35 };
+
+function tx(overrides: Partial<AcbTransaction> = {}): AcbTransaction {
+  return {
+    id: "tx-default",
+    portfolioId: "non-reg",
+    ticker: "SCHD",
+    currency: "CAD",
+    action: "BUY",
+    date: "2025-01-02",
+    quantity: 0,
+    price: 0,
+    commission: 0,
+    fxRateCAD: null,
+    ...overrides,
+  };
+}
+
+function ledgerOf(
+  transactions: AcbTransaction[],
+  portfolioId: string,
+  ticker: string,
+  accountType = "NON_REG",
+): CapitalGainsLedger {
+  return {
+    ...computeAcbLedger(transactions, portfolioId, ticker, options),
+    portfolioName: portfolioId,
+    accountType,
+  };
+}
+
+function testDispositionCarriesAcquiredRangeAndOutlays() {
+  const ledger = ledgerOf(
+    [
+      tx({ id: "buy1", date: "2025-01-02", quantity: 100, price: 10, commission: 10 }),
+      tx({ id: "buy2", date: "2025-02-02", quantity: 50, price: 13, commission: 5 }),
+      tx({ id: "sell1", action: "SELL", date: "2025-03-02", quantity: 60, price: 15, commission: 9 }),
+    ],
+    "non-reg",
+    "SCHD",
+  );
+
+  const [disposition] = buildCapitalGainsDispositions([ledger]);
+  assert.equal(disposition.acquiredFrom, "2025-01-02");
+  assert.equal(disposition.acquiredTo, "2025-02-02");
+  assert.equal(disposition.dateSold, "2025-03-02");
+  assert.equal(disposition.proceedsCAD, 900);
+  assert.equal(disposition.acbCAD, 666);
+  assert.equal(disposition.outlaysCAD, 9);
+  assert.equal(disposition.gainCAD, 225);
+  assert.equal(disposition.year, 2025);
+}
+
+function testAcquiredRangeResetsWhenPoolEmpties() {
+  const ledger = ledgerOf(
+    [
+      tx({ id: "buy1", date: "2024-01-02", quantity: 10, price: 10 }),
+      tx({ id: "sell1", action: "SELL", date: "2024-06-03", quantity: 10, price: 12 }),
+      tx({ id: "buy2", date: "2025-01-06", quantity: 10, price: 11 }),
+      tx({ id: "sell2", action: "SELL", date: "2025-05-05", quantity: 5, price: 9 }),
+    ],
+    "non-reg",
+    "SCHD",
+  );
+
+  const dispositions = buildCapitalGainsDispositions([ledger]);
+  assert.equal(dispositions.length, 2);
+  assert.equal(dispositions[1].acquiredFrom, "2025-01-06");
+  assert.equal(dispositions[1].acquiredTo, "2025-01-06");
+  assert.equal(dispositions[1].gainCAD, -10);
+}
+
+function testSchedule3GroupsByYearAndAccountType() {
+  const nonReg = ledgerOf(
+    [
+      tx({ id: "nr-buy", date: "2024-01-02", quantity: 20, price: 10 }),
+      tx({ id: "nr-sell1", action: "SELL", date: "2024-06-03", quantity: 10, price: 12 }),
+      tx({ id: "nr-sell2", action: "SELL", date: "2025-02-03", quantity: 10, price: 8 }),
+    ],
+    "non-reg",
+    "SCHD",
+  );
+  const cash = ledgerOf(
+    [
+      tx({ id: "c-buy", portfolioId: "cash", ticker: "QLD", date: "2025-01-02", quantity: 5, price: 100 }),
+      tx({ id: "c-sell", portfolioId: "cash", ticker: "QLD", action: "SELL", date: "2025-03-03", quantity: 5, price: 110, commission: 5 }),
+    ],
+    "cash",
+    "QLD",
+    "CASH",
+  );
+
+  const summary = summarizeSchedule3(buildCapitalGainsDispositions([nonReg, cash]));
+  assert.deepEqual(
+    summary.map((row) => [row.year, row.accountType, row.dispositions, row.gainCAD]),
+    [
+      [2024, "NON_REG", 1, 20],
+      [2025, "CASH", 1, 45],
+      [2025, "NON_REG", 1, -20],
+    ],
+  );
+  assert.equal(summary[1].proceedsCAD, 550);
+  assert.equal(summary[1].outlaysCAD, 5);
+}
+
+const tests = [
+  testDispositionCarriesAcquiredRangeAndOutlays,
+  testAcquiredRangeResetsWhenPoolEmpties,
+  testSchedule3GroupsByYearAndAccountType,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("capital gains tests passed");
@@ -0,0 +1,123 @@
+// Capital gains dispositions (T5008 / Schedule 3) from ACB ledgers.
+// Pure functions. One disposition per SELL event; the acquired range is the
+// first BUY since the pool was last empty through the last BUY before the
+// sale (average-cost pools do not track individual lots).
+
+import type { AcbLedger } from "./acb";
+
+export interface CapitalGainsLedger extends AcbLedger {
+  portfolioName: string | null;
+  accountType: string;
+}
+
+export interface CapitalGainsDisposition {
+  transactionId: string;
+  year: number;
+  portfolioId: string;
+  portfolioName: string | null;
+  accountType: string;
+  ticker: string;
+  acquiredFrom: string | null;
+  acquiredTo: string | null;
+  dateSold: string;
+  quantity: number;
+  proceedsCAD: number;
+  acbCAD: number;
+  outlaysCAD: number;
+  gainCAD: number;
+  deniedLossCAD: number;
+  oversoldQuantity: number | null;
+}
+
+export interface Schedule3Summary {
+  year: number;
+  accountType: string;
+  dispositions: number;
+  proceedsCAD: number;
+  acbCAD: number;
+  outlaysCAD: number;
+  gainCAD: number;
+  deniedLossCAD: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function buildCapitalGainsDispositions(ledgers: CapitalGainsLedger[]): CapitalGainsDisposition[] {
+  const dispositions: CapitalGainsDisposition[] = [];
+
+  for (const ledger of ledgers) {
+    let acquiredFrom: string | null = null;
+    let acquiredTo: string | null = null;
+
+    for (const event of ledger.events) {
+      if (event.action === "BUY") {
+        if (event.sharesBefore <= 0 || acquiredFrom == null) acquiredFrom = event.date;
+        acquiredTo = event.date;
+        continue;
+      }
+      if (event.action !== "SELL") continue;
+
+      dispositions.push({
+        transactionId: event.transactionId,
+        year: Number(event.date.slice(0, 4)),
+        portfolioId: ledger.portfolioId,
+        portfolioName: ledger.portfolioName,
+        accountType: ledger.accountType,
+        ticker: ledger.ticker,
+        acquiredFrom,
+        acquiredTo,
+        dateSold: event.date,
+        quantity: event.quantity,
+        proceedsCAD: event.amountCAD,
+        acbCAD: event.acbOfSoldCAD ?? 0,
+        outlaysCAD: event.commissionCAD,
+        gainCAD: event.realizedGainCAD ?? 0,
+        deniedLossCAD: event.deniedLossCAD ?? 0,
+        oversoldQuantity: event.oversoldQuantity,
+      });
+
+      if (event.sharesAfter <= 0) {
+        acquiredFrom = null;
+        acquiredTo = null;
+      }
+    }
+  }
+
+  return dispositions.sort(
+    (a, b) =>
+      a.dateSold.localeCompare(b.dateSold) ||
+      a.ticker.localeCompare(b.ticker) ||
+      a.transactionId.localeCompare(b.transactionId),
+  );
+}
+
+/** Schedule 3 totals per (year, account type), sorted by year then account type. */
+export function summarizeSchedule3(dispositions: CapitalGainsDisposition[]): Schedule3Summary[] {
+  const byKey = new Map<string, Schedule3Summary>();
+  for (const d of dispositions) {
+    const key = `${d.year}:${d.accountType}`;
+    const summary = byKey.get(key) ?? {
+      year: d.year,
+      accountType: d.accountType,
+      dispositions: 0,
+      proceedsCAD: 0,
+      acbCAD: 0,
+      outlaysCAD: 0,
+      gainCAD: 0,
+      deniedLossCAD: 0,
+    };
+    summary.dispositions += 1;
+    summary.proceedsCAD = roundMoney(summary.proceedsCAD + d.proceedsCAD);
+    summary.acbCAD = roundMoney(summary.acbCAD + d.acbCAD);
+    summary.outlaysCAD = roundMoney(summary.outlaysCAD + d.outlaysCAD);
+    summary.gainCAD = roundMoney(summary.gainCAD + d.gainCAD);
+    summary.deniedLossCAD = roundMoney(summary.deniedLossCAD + d.deniedLossCAD);
+    byKey.set(key, summary);
+  }
+
+  return Array.from(byKey.values()).sort(
+    (a, b) => a.year - b.year || a.accountType.localeCompare(b.accountType),
+  );
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+
+import { computeAcbLedger, type AcbTransaction } from "./acb";
+import { computeT1135Report, t1135Method, type ForeignPropertyLedger } from "./foreign-property";
+
+const options = { fallbackUsdCad: 1.35 };
+
+function tx(overrides: Partial<AcbTransaction> = {}): AcbTransaction {
+  return {
+    id: "tx-default",
+    portfolioId: "non-reg",
+    ticker: "QLD",
+    currency: "USD",
+    action: "BUY",
+    date: "2025-01-02",
+    quantity: 0,
+    price: 0,
+    commission: 0,
+    fxRateCAD: 1.4,
+    ...overrides,
+  };
+}
+
+function ledger(transactions: AcbTransaction[], ticker: string, portfolioId = "non-reg"): ForeignPropertyLedger {
+  return computeAcbLedger(transactions, portfolioId, ticker, options);
+}
+
+function testMaxCostIsPeakDuringYearNotYearEnd() {
+  const qld = ledger(
+    [
+      tx({ id: "b1", date: "2025-02-03", quantity: 500, price: 100 }),
+      tx({ id: "s1", action: "SELL", date: "2025-09-02", quantity: 400, price: 110 }),
+    ],
+    "QLD",
+  );
+
+  const report = computeT1135Report([qld], [], 2025);
+  // 500 × 100 × 1.4 = 70,000 peak; 100 shares left at year end.
+  assert.equal(report.maxCostCAD, 70000);
+  assert.equal(report.maxCostDate, "2025-02-03");
+  assert.equal(report.yearEndCostCAD, 14000);
+  assert.equal(report.exceedsThreshold, false);
+  assert.equal(report.method, "none");
+  assert.equal(report.properties[0].gainCAD, 5600);
+}
+
+function testCostCarriedInAndSummedAcrossTickersAndAccounts() {
+  const schd = ledger([tx({ id: "schd", ticker: "SCHD", date: "2024-06-03", quantity: 1000, price: 30 })], "SCHD");
+  const qldA = ledger([tx({ id: "qa", date: "2025-03-03", quantity: 300, price: 100 })], "QLD");
+  const qldB = ledger([tx({ id: "qb", portfolioId: "cash", date: "2025-03-03", quantity: 100, price: 100 })], "QLD", "cash");
+  const cadLedger = ledger(
+    [tx({ id: "cad", ticker: "XEQT", currency: "CAD", date: "2025-01-10", quantity: 5000, price: 30 })],
+    "XEQT",
+  );
+
+  const report = computeT1135Report(
+    [schd, qldA, qldB, cadLedger],
+    [
+      { ticker: "SCHD", date: "2025-03-25", amountCAD: 400 },
+      { ticker: "SCHD", date: "2024-12-20", amountCAD: 999 },
+    ],
+    2025,
+  );
+
+  // 42,000 carried in + 56,000 of QLD bought on one day = 98,000 → under threshold.
+  assert.equal(report.maxCostCAD, 98000);
+  assert.equal(report.maxCostDate, "2025-03-03");
+  assert.equal(report.exceedsThreshold, false);
+  assert.deepEqual(
+    report.properties.map((p) => [p.ticker, p.maxCostCAD, p.incomeCAD]),
+    [
+      ["QLD", 56000, 0],
+      ["SCHD", 42000, 400],
+    ],
+  );
+  assert.equal(report.categories.length, 1);
+  assert.equal(report.categories[0].country, "USA");
+  assert.equal(report.categories[0].incomeCAD, 400);
+}
+
+function testMethodThresholds() {
+  assert.equal(t1135Method(100000), "none");
+  assert.equal(t1135Method(100000.01), "simplified");
+  assert.equal(t1135Method(249999.99), "simplified");
+  assert.equal(t1135Method(250000), "detailed");
+
+  const big = ledger([tx({ id: "big", date: "2025-05-01", quantity: 800, price: 100 })], "QLD");
+  const report = computeT1135Report([big], [], 2025);
+  assert.equal(report.maxCostCAD, 112000);
+  assert.equal(report.exceedsThreshold, true);
+  assert.equal(report.method, "simplified");
+}
+
+const tests = [
+  testMaxCostIsPeakDuringYearNotYearEnd,
+  testCostCarriedInAndSummedAcrossTickersAndAccounts,
+  testMethodThresholds,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("foreign property tests passed");
@@ -0,0 +1,304 @@
+// Snapshot backfill, database side.
+//
+// Loads a user's transaction / cash ledger history, daily closes and stored
+// FX rates, plans the PortfolioSnapshot backfill (./snapshot-backfill) and
+// writes it. Each portfolio also gets one PortfolioAccountSnapshot row per
+// day, planned with only its own history, as the cron does.
+//
+// The ledger is the CashLedger table when it has rows. Otherwise it is derived
+// from Transaction + CashTransaction, the same way /api/snapshots does.
+// Existing rows are skipped unless `overwrite` is set: per user for
+// PortfolioSnapshot, per portfolio for the account rows. The cron's own row
+// for today is never touched because `to` defaults to yesterday.
+//
+// Used by scripts/backfill-snapshots.ts. The loaders are shared with the
+// time-weighted return report (@/lib/performance-twr-source).
+
+import { prisma } from "@/lib/db";
+import { defaultUsdCad, loadFxRateResolver } from "@/lib/fx-rates";
+import { getHistory } from "@/lib/price";
+import {
+  deriveCashLedgerRowsFromExistingRecords,
+  type EngineCashLedgerRow,
+  type EngineCurrency,
+} from "./engine";
+import {
+  firstActivityDate,
+  planSnapshotBackfill,
+  STALE_PRICE_DAYS,
+  type BackfillTransaction,
+  type SnapshotBackfillPlan,
+  type TickerCloseSeries,
+} from "./snapshot-backfill";
+
+const WRITE_CHUNK = 500;
+
+export interface SnapshotBackfillOptions {
+  from?: string;
+  to?: string;
+  overwrite?: boolean;
+  dryRun?: boolean;
+  onProgress?: (message: string) => void;
+}
+
+export interface SnapshotBackfillReport extends Omit<SnapshotBackfillPlan, "rows"> {
+  from: string | null;
+  to: string;
+  ledgerSource: "cash_ledger" | "derived";
+  /** Tickers whose history request failed outright (delisted or renamed symbols). */
+  failedTickers: string[];
+  planned: number;
+  written: number;
+  /** PortfolioAccountSnapshot rows, over all portfolios. */
+  accountRows: { planned: number; written: number; skippedExisting: number };
+  dryRun: boolean;
+}
+
+function decimalToNumber(value: { toString(): string } | null | undefined): number {
+  const parsed = parseFloat(value?.toString() ?? "0");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function shiftDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/** CashLedger rows when the table has any, otherwise the ledger derived from Transaction + CashTransaction. */
+export async function loadLedgerRows(
+  userId: string,
+  transactions: BackfillTransaction[],
+): Promise<{ rows: EngineCashLedgerRow[]; source: SnapshotBackfillReport["ledgerSource"] }> {
+  const ledgerRows = await prisma.cashLedger.findMany({
+    where: { portfolio: { userId } },
+    orderBy: { date: "asc" },
+    select: { id: true, portfolioId: true, date: true, currency: true, amount: true, eventType: true, ticker: true },
+  });
+  if (ledgerRows.length > 0) {
+    return {
+      source: "cash_ledger",
+      rows: ledgerRows.map((row) => ({
+        id: row.id,
+        portfolioId: row.portfolioId,
+        date: row.date,
+        currency: row.currency as EngineCurrency,
+        amount: decimalToNumber(row.amount),
+        eventType: row.eventType,
+        ticker: row.ticker,
+      })),
+    };
+  }
+
+  const cashTxns = await prisma.cashTransaction.findMany({
+    where: { portfolio: { userId } },
+    orderBy: { date: "asc" },
+    select: { id: true, portfolioId: true, date: true, action: true, amount: true, currency: true },
+  });
+  return {
+    source: "derived",
+    rows: deriveCashLedgerRowsFromExistingRecords({
+      cashTransactions: cashTxns.map((cashTxn) => ({
+        id: cashTxn.id,
+        portfolioId: cashTxn.portfolioId,
+        date: cashTxn.date,
+        currency: cashTxn.currency as EngineCurrency,
+        action: cashTxn.action as "DEPOSIT" | "WITHDRAWAL",
+        amount: decimalToNumber(cashTxn.amount),
+      })),
+      transactions,
+    }),
+  };
+}
+
+export async function loadBackfillTransactions(userId: string): Promise<BackfillTransaction[]> {
+  const transactions = await prisma.transaction.findMany({
+    where: { holding: { portfolio: { userId } } },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    select: {
+      id: true,
+      action: true,
+      date: true,
+      quantity: true,
+      price: true,
+      commission: true,
+      fxRateCAD: true,
+      holding: { select: { ticker: true, currency: true, portfolioId: true } },
+    },
+  });
+  return transactions.map((t) => ({
+    id: t.id,
+    portfolioId: t.holding.portfolioId,
+    ticker: t.holding.ticker,
+    currency: t.holding.currency as EngineCurrency,
+    action: t.action,
+    date: t.date,
+    quantity: decimalToNumber(t.quantity),
+    price: decimalToNumber(t.price),
+    commission: decimalToNumber(t.commission),
+    fxRateCAD: t.fxRateCAD != null ? decimalToNumber(t.fxRateCAD) : null,
+  }));
+}
+
+/**
+ * Daily closes for every traded ticker over [from, to]. Series start a little
+ * before `from` so the first days carry a prior close; tickers whose history
+ * request fails (delisted or renamed symbols) are returned in failedTickers.
+ */
+export async function loadTickerCloses(
+  transactions: BackfillTransaction[],
+  from: string,
+  to: string,
+  progress: (message: string) => void = () => {},
+): Promise<{ closes: TickerCloseSeries[]; failedTickers: string[] }> {
+  const tickers = Array.from(new Map(transactions
+    .filter((t) => t.action !== "DIVIDEND")
+    .map((t) => [t.ticker.toUpperCase(), t.currency])).entries());
+  const closes: TickerCloseSeries[] = [];
+  const failedTickers: string[] = [];
+  for (const [ticker, currency] of tickers) {
+    try {
+      const points = await getHistory(ticker, "all", shiftDays(from, -STALE_PRICE_DAYS), { interval: "1d", to });
+      closes.push({ ticker, currency, points: points.sort((a, b) => a.date.localeCompare(b.date)) });
+      progress(`  ${ticker.padEnd(10)} ${points.length} closes`);
+    } catch (error) {
+      failedTickers.push(ticker);
+      progress(`  ${ticker.padEnd(10)} history unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { closes, failedTickers };
+}
+
+export async function backfillSnapshots(userId: string, options: SnapshotBackfillOptions = {}): Promise<SnapshotBackfillReport> {
+  const progress = options.onProgress ?? (() => {});
+  const dryRun = options.dryRun ?? false;
+  const to = options.to ?? shiftDays(new Date().toISOString().slice(0, 10), -1);
+
+  const [portfolios, engineTransactions] = await Promise.all([
+    prisma.portfolio.findMany({ where: { userId }, select: { id: true, accountType: true } }),
+    loadBackfillTransactions(userId),
+  ]);
+  const ledger = await loadLedgerRows(userId, engineTransactions);
+
+  const from = options.from ?? firstActivityDate(engineTransactions, ledger.rows);
+  const empty: SnapshotBackfillReport = {
+    from, to, ledgerSource: ledger.source, failedTickers: [], tradingDays: 0, skippedExisting: 0, gaps: [],
+    planned: 0, written: 0, accountRows: { planned: 0, written: 0, skippedExisting: 0 }, dryRun,
+  };
+  if (!from || from > to || portfolios.length === 0) return empty;
+  progress(`History ${from} → ${to}: ${engineTransactions.length} transactions, ${ledger.rows.length} ledger rows (${ledger.source})`);
+
+  const { closes, failedTickers } = await loadTickerCloses(engineTransactions, from, to, progress);
+
+  const range = { gte: new Date(`${from}T00:00:00Z`), lte: new Date(`${to}T00:00:00Z`) };
+  const [fxRateOn, existing, existingAccount] = await Promise.all([
+    loadFxRateResolver(from, to),
+    prisma.portfolioSnapshot.findMany({ where: { userId, date: range }, select: { date: true } }),
+    prisma.portfolioAccountSnapshot.findMany({
+      where: { portfolioId: { in: portfolios.map((p) => p.id) }, date: range },
+      select: { portfolioId: true, date: true },
+    }),
+  ]);
+  const fallbackUsdCad = defaultUsdCad();
+  const plan = planSnapshotBackfill({
+    from,
+    to,
+    portfolioIds: portfolios.map((p) => p.id),
+    transactions: engineTransactions,
+    ledgerRows: ledger.rows,
+    closes,
+    fxRateOn: (date) => fxRateOn(date),
+    fallbackUsdCad,
+    existingDates: new Set(existing.map((row) => row.date.toISOString().slice(0, 10))),
+    overwrite: options.overwrite ?? false,
+  });
+  progress(`Planned ${plan.rows.length} of ${plan.tradingDays} trading days (${plan.skippedExisting} already present)`);
+
+  // Gaps are the same tickers and days as the total plan's, so only the rows are kept.
+  const accountPlans = portfolios.map((portfolio) => ({
+    portfolio,
+    plan: planSnapshotBackfill({
+      from,
+      to,
+      portfolioIds: [portfolio.id],
+      transactions: engineTransactions.filter((t) => t.portfolioId === portfolio.id),
+      ledgerRows: ledger.rows.filter((row) => row.portfolioId === portfolio.id),
+      closes,
+      fxRateOn: (date) => fxRateOn(date),
+      fallbackUsdCad,
+      existingDates: new Set(existingAccount
+        .filter((row) => row.portfolioId === portfolio.id)
+        .map((row) => row.date.toISOString().slice(0, 10))),
+      overwrite: options.overwrite ?? false,
+    }),
+  }));
+  const accountRows = {
+    planned: accountPlans.reduce((sum, p) => sum + p.plan.rows.length, 0),
+    written: 0,
+    skippedExisting: accountPlans.reduce((sum, p) => sum + p.plan.skippedExisting, 0),
+  };
+  progress(`Planned ${accountRows.planned} per-account rows for ${portfolios.length} portfolios (${accountRows.skippedExisting} already present)`);
+
+  let written = 0;
+  if (!dryRun) {
+    for (let start = 0; start < plan.rows.length; start += WRITE_CHUNK) {
+      const chunk = plan.rows.slice(start, start + WRITE_CHUNK);
+      if (options.overwrite) {
+        await prisma.$transaction(chunk.map((row) => {
+          const date = new Date(`${row.date}T00:00:00Z`);
+          const values = { totalCAD: row.totalCAD, costBasisCAD: row.costBasisCAD, cashCAD: row.cashCAD, engineValueCAD: row.engineValueCAD };
+          return prisma.portfolioSnapshot.upsert({
+            where: { userId_date: { userId, date } },
+            update: values,
+            create: { userId, date, ...values },
+          });
+        }));
+        written += chunk.length;
+      } else {
+        const created = await prisma.portfolioSnapshot.createMany({
+          data: chunk.map((row) => ({ ...row, userId, date: new Date(`${row.date}T00:00:00Z`) })),
+          skipDuplicates: true,
+        });
+        written += created.count;
+      }
+      progress(`  wrote ${written} / ${plan.rows.length}`);
+    }
+
+    for (const { portfolio, plan: accountPlan } of accountPlans) {
+      const owner = { userId, portfolioId: portfolio.id, accountType: portfolio.accountType };
+      for (let start = 0; start < accountPlan.rows.length; start += WRITE_CHUNK) {
+        const chunk = accountPlan.rows.slice(start, start + WRITE_CHUNK);
+        if (options.overwrite) {
+          await prisma.$transaction(chunk.map((row) => {
+            const date = new Date(`${row.date}T00:00:00Z`);
+            const values = { totalCAD: row.totalCAD, costBasisCAD: row.costBasisCAD, cashCAD: row.cashCAD, engineValueCAD: row.engineValueCAD };
+            return prisma.portfolioAccountSnapshot.upsert({
+              where: { portfolioId_date: { portfolioId: portfolio.id, date } },
+              update: { accountType: portfolio.accountType, ...values },
+              create: { ...owner, date, ...values },
+            });
+          }));
+          accountRows.written += chunk.length;
+        } else {
+          const created = await prisma.portfolioAccountSnapshot.createMany({
+            data: chunk.map((row) => ({ ...row, ...owner, date: new Date(`${row.date}T00:00:00Z`) })),
+            skipDuplicates: true,
+          });
+          accountRows.written += created.count;
+        }
+      }
+    }
+    progress(`  wrote ${accountRows.written} / ${accountRows.planned} per-account rows`);
+  }
+
+  return {
+    ...empty,
+    failedTickers,
+    tradingDays: plan.tradingDays,
+    skippedExisting: plan.skippedExisting,
+    gaps: plan.gaps,
+    planned: plan.rows.length,
+    written,
+    accountRows,
+  };
+}
@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+
+import type { EngineCashLedgerRow } from "./engine";
+import {
+  backfillTradingDays,
+  firstActivityDate,
+  planSnapshotBackfill,
+  weekdaysBetween,
+  type BackfillTransaction,
+  type SnapshotBackfillInput,
+} from "./snapshot-backfill";
+
+const buy = (id: string, ticker: string, date: string, quantity: number, price: number, currency: "CAD" | "USD" = "USD"): BackfillTransaction => ({
+  id, portfolioId: "p1", ticker, currency, action: "BUY", date, quantity, price, commission: 0,
+});
+
+const deposit = (id: string, date: string, amount: number, currency: "CAD" | "USD" = "USD"): EngineCashLedgerRow => ({
+  id, portfolioId: "p1", date, currency, amount, eventType: "DEPOSIT", ticker: null,
+});
+
+function baseInput(overrides: Partial<SnapshotBackfillInput> = {}): SnapshotBackfillInput {
+  const transactions = [buy("t1", "SCHD", "2026-03-02", 10, 25)];
+  return {
+    from: "2026-03-02",
+    to: "2026-03-06",
+    portfolioIds: ["p1"],
+    transactions,
+    ledgerRows: [deposit("d1", "2026-03-02", 300), { ...deposit("b1", "2026-03-02", -250), eventType: "BUY", ticker: "SCHD" }],
+    closes: [{
+      ticker: "SCHD",
+      currency: "USD",
+      points: [
+        { date: "2026-02-27", close: 24.5 },
+        { date: "2026-03-02", close: 25 },
+        { date: "2026-03-03", close: 26 },
+        { date: "2026-03-05", close: 27 },
+        { date: "2026-03-06", close: 28 },
+      ],
+    }],
+    fxRateOn: (date) => (date >= "2026-03-04" ? 1.4 : 1.35),
+    fallbackUsdCad: 1.36,
+    existingDates: new Set(),
+    overwrite: false,
+    ...overrides,
+  };
+}
+
+function testTradingDaysFollowCloseSeries() {
+  // 2026-03-04 has no bar (treated as a market holiday); weekends never appear.
+  assert.deepEqual(backfillTradingDays(baseInput().closes, "2026-03-02", "2026-03-06"), ["2026-03-02", "2026-03-03", "2026-03-05", "2026-03-06"]);
+  assert.deepEqual(backfillTradingDays([], "2026-03-06", "2026-03-09"), ["2026-03-06", "2026-03-09"]);
+  assert.deepEqual(weekdaysBetween("2026-03-07", "2026-03-08"), []);
+  assert.equal(firstActivityDate(baseInput().transactions, [deposit("d0", "2026-01-15", 100)]), "2026-01-15");
+}
+
+function testValuesEachDayWithDailyCloseAndFx() {
+  const plan = planSnapshotBackfill(baseInput());
+  assert.equal(plan.tradingDays, 4);
+  assert.deepEqual(plan.rows.map((r) => r.date), ["2026-03-02", "2026-03-03", "2026-03-05", "2026-03-06"]);
+
+  const [first, second, , last] = plan.rows;
+  // 10 × 25 USD + 50 USD cash at 1.35.
+  assert.equal(first.totalCAD, 405);
+  assert.equal(first.cashCAD, 67.5);
+  assert.equal(first.costBasisCAD, 337.5);
+  assert.equal(first.engineValueCAD, first.totalCAD);
+  assert.equal(second.totalCAD, 418.5);
+  // 10 × 28 + 50 at the 1.4 rate stored from 03-04 on; cost basis stays at the trade-date rate.
+  assert.equal(last.totalCAD, 462);
+  assert.equal(last.costBasisCAD, 337.5);
+  assert.deepEqual(plan.gaps, []);
+}
+
+function testKeepsExistingRowsUnlessOverwrite() {
+  const existingDates = new Set(["2026-03-03", "2026-03-05"]);
+  const kept = planSnapshotBackfill(baseInput({ existingDates }));
+  assert.equal(kept.skippedExisting, 2);
+  assert.deepEqual(kept.rows.map((r) => r.date), ["2026-03-02", "2026-03-06"]);
+
+  const overwritten = planSnapshotBackfill(baseInput({ existingDates, overwrite: true }));
+  assert.equal(overwritten.skippedExisting, 0);
+  assert.equal(overwritten.rows.length, 4);
+}
+
+function testReportsMissingStaleAndFxGaps() {
+  const transactions = [
+    buy("t1", "SCHD", "2026-03-02", 10, 25),
+    buy("t2", "OLDCO", "2026-03-02", 5, 10, "CAD"),
+    buy("t3", "NEWCO", "2026-03-03", 2, 50),
+  ];
+  const plan = planSnapshotBackfill(baseInput({
+    from: "2026-03-02",
+    to: "2026-03-13",
+    transactions,
+    closes: [
+      {
+        ticker: "SCHD",
+        currency: "USD",
+        points: ["02", "03", "04", "05", "06", "09", "10", "11", "12", "13"].map((d) => ({ date: `2026-03-${d}`, close: 25 })),
+      },
+      // Delisted after 03-03: the last close is carried forward.
+      { ticker: "OLDCO", currency: "CAD", points: [{ date: "2026-03-02", close: 11 }, { date: "2026-03-03", close: 12 }] },
+    ],
+    fxRateOn: (date) => (date <= "2026-03-10" ? 1.35 : null),
+  }));
+
+  const byKind = Object.fromEntries(plan.gaps.map((g) => [`${g.kind}:${g.ticker ?? ""}`, g]));
+  assert.deepEqual(byKind["missing_price:NEWCO"], { kind: "missing_price", ticker: "NEWCO", from: "2026-03-03", to: "2026-03-13", days: 9 });
+  assert.equal(byKind["stale_price:OLDCO"].from, "2026-03-11");
+  assert.equal(byKind["stale_price:OLDCO"].lastCloseDate, "2026-03-03");
+  assert.equal(byKind["missing_fx:"].days, 3);
+
+  // NEWCO falls back to its trade price, OLDCO to its last close; missing FX uses the fallback rate.
+  const last = plan.rows[plan.rows.length - 1];
+  assert.equal(last.totalCAD, Math.round(((10 * 25 + 50 + 2 * 50) * 1.36 + 5 * 12) * 100) / 100);
+}
+
+const tests = [
+  testTradingDaysFollowCloseSeries,
+  testValuesEachDayWithDailyCloseAndFx,
+  testKeepsExistingRowsUnlessOverwrite,
+  testReportsMissingStaleAndFxGaps,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("snapshot backfill tests passed");
@@ -0,0 +1,241 @@
+// Historical PortfolioSnapshot backfill. Pure functions; the Prisma / Yahoo
+// loader is ./snapshot-backfill-source.ts and the CLI is scripts/backfill-snapshots.ts.
+//
+// Each trading day in [from, to] is valued by computePortfolioValueCAD() from
+// the transaction + cash ledger history, that day's close per ticker and the
+// stored USD/CAD rate for the date. Trading days are the dates any fetched
+// close series has a bar on; without any series the weekdays are used.
+//
+// Gaps are reported, never silently zeroed:
+//  - missing_price : no close on or before the day; valued at the last trade price
+//                    (nothing at all before the first trade of a ticker with no history).
+//  - stale_price   : newest close is older than STALE_PRICE_DAYS, e.g. a delisted
+//                    ticker still held in the ledger; valued at that close.
+//  - missing_fx    : no stored rate within FX_MAX_STALE_DAYS; fallbackUsdCad used.
+
+import { computePortfolioValueCAD, type EngineCashLedgerRow, type EngineCurrency, type EngineTransaction } from "./engine";
+
+export const STALE_PRICE_DAYS = 7;
+
+export interface ClosePoint {
+  date: string;
+  close: number;
+}
+
+export interface TickerCloseSeries {
+  ticker: string;
+  currency: EngineCurrency;
+  /** Ascending by date. */
+  points: ClosePoint[];
+}
+
+export interface BackfillTransaction extends EngineTransaction {
+  /** CAD per USD captured with the trade, when known. */
+  fxRateCAD?: number | null;
+}
+
+export interface SnapshotBackfillInput {
+  from: string;
+  to: string;
+  portfolioIds: string[];
+  transactions: BackfillTransaction[];
+  ledgerRows: EngineCashLedgerRow[];
+  closes: TickerCloseSeries[];
+  fxRateOn: (date: string) => number | null;
+  fallbackUsdCad: number;
+  /** Dates that already have a PortfolioSnapshot row. */
+  existingDates: Set<string>;
+  overwrite: boolean;
+}
+
+export interface BackfilledSnapshot {
+  date: string;
+  totalCAD: number;
+  costBasisCAD: number;
+  cashCAD: number;
+  engineValueCAD: number;
+}
+
+export type BackfillGapKind = "missing_price" | "stale_price" | "missing_fx";
+
+export interface BackfillGap {
+  kind: BackfillGapKind;
+  /** Null for missing_fx. */
+  ticker: string | null;
+  from: string;
+  to: string;
+  days: number;
+  /** stale_price: date of the last close that was carried forward. */
+  lastCloseDate?: string;
+}
+
+export interface SnapshotBackfillPlan {
+  tradingDays: number;
+  rows: BackfilledSnapshot[];
+  skippedExisting: number;
+  gaps: BackfillGap[];
+}
+
+function dateKey(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value.slice(0, 10);
+}
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+export function weekdaysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (cursor <= end) {
+    const day = cursor.getUTCDay();
+    if (day !== 0 && day !== 6) days.push(dateKey(cursor));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+export function backfillTradingDays(closes: TickerCloseSeries[], from: string, to: string): string[] {
+  const days = new Set<string>();
+  for (const series of closes) {
+    for (const point of series.points) {
+      if (point.date >= from && point.date <= to) days.add(point.date);
+    }
+  }
+  return days.size > 0 ? Array.from(days).sort() : weekdaysBetween(from, to);
+}
+
+/** First date with a transaction or cash ledger row; the natural backfill start. */
+export function firstActivityDate(transactions: EngineTransaction[], ledgerRows: EngineCashLedgerRow[]): string | null {
+  const dates = [...transactions.map((t) => dateKey(t.date)), ...ledgerRows.map((r) => dateKey(r.date))].sort();
+  return dates[0] ?? null;
+}
+
+function latestOnOrBefore(points: ClosePoint[], date: string): ClosePoint | null {
+  let lo = 0;
+  let hi = points.length - 1;
+  let best: ClosePoint | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].date <= date) {
+      best = points[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return best;
+}
+
+function heldTickers(transactions: EngineTransaction[], date: string): Set<string> {
+  const quantities = new Map<string, number>();
+  for (const transaction of transactions) {
+    if (dateKey(transaction.date) > date) continue;
+    const sign = transaction.action === "BUY" ? 1 : transaction.action === "SELL" ? -1 : 0;
+    if (sign === 0) continue;
+    const ticker = transaction.ticker.toUpperCase();
+    quantities.set(ticker, (quantities.get(ticker) ?? 0) + sign * transaction.quantity);
+  }
+  return new Set(Array.from(quantities.entries()).filter(([, quantity]) => Math.abs(quantity) > 1e-6).map(([ticker]) => ticker));
+}
+
+/** Average-cost basis in CAD, each USD trade at its own rate. */
+function costBasisCAD(transactions: BackfillTransaction[], date: string, fxFor: (date: string) => number): number {
+  const positions = new Map<string, { quantity: number; costCAD: number }>();
+  for (const transaction of transactions) {
+    const txDate = dateKey(transaction.date);
+    if (txDate > date) continue;
+    const key = `${transaction.portfolioId}:${transaction.ticker.toUpperCase()}`;
+    const current = positions.get(key) ?? { quantity: 0, costCAD: 0 };
+    const rate = transaction.currency === "USD" ? transaction.fxRateCAD ?? fxFor(txDate) : 1;
+    if (transaction.action === "BUY") {
+      current.quantity += transaction.quantity;
+      current.costCAD += (transaction.quantity * transaction.price + transaction.commission) * rate;
+    } else if (transaction.action === "SELL" && current.quantity > 0) {
+      const sold = Math.min(transaction.quantity, current.quantity);
+      current.costCAD -= (current.costCAD / current.quantity) * sold;
+      current.quantity -= sold;
+    }
+    if (current.quantity <= 0.000001) positions.delete(key);
+    else positions.set(key, current);
+  }
+  return roundMoney(Array.from(positions.values()).reduce((sum, position) => sum + position.costCAD, 0));
+}
+
+function lastTradePrice(transactions: EngineTransaction[], ticker: string, date: string): number | null {
+  let price: number | null = null;
+  for (const transaction of transactions) {
+    if (transaction.action === "DIVIDEND" || transaction.ticker.toUpperCase() !== ticker) continue;
+    if (dateKey(transaction.date) <= date) price = transaction.price;
+  }
+  return price;
+}
+
+function addGap(gaps: Map<string, BackfillGap>, kind: BackfillGapKind, ticker: string | null, date: string, lastCloseDate?: string) {
+  const key = `${kind}:${ticker ?? ""}`;
+  const gap = gaps.get(key);
+  if (gap) {
+    gap.to = date;
+    gap.days += 1;
+    if (lastCloseDate) gap.lastCloseDate = lastCloseDate;
+  } else {
+    gaps.set(key, { kind, ticker, from: date, to: date, days: 1, ...(lastCloseDate ? { lastCloseDate } : {}) });
+  }
+}
+
+export function planSnapshotBackfill(input: SnapshotBackfillInput): SnapshotBackfillPlan {
+  const days = backfillTradingDays(input.closes, input.from, input.to);
+  const series = new Map(input.closes.map((s) => [s.ticker.toUpperCase(), s]));
+  const currencyOf = new Map(input.transactions.map((t) => [t.ticker.toUpperCase(), t.currency]));
+  const gaps = new Map<string, BackfillGap>();
+  const fxFor = (date: string) => input.fxRateOn(date) ?? input.fallbackUsdCad;
+  const rows: BackfilledSnapshot[] = [];
+  let skippedExisting = 0;
+
+  for (const day of days) {
+    if (input.existingDates.has(day) && !input.overwrite) {
+      skippedExisting += 1;
+      continue;
+    }
+
+    const prices = Array.from(heldTickers(input.transactions, day)).flatMap((ticker) => {
+      const currency = series.get(ticker)?.currency ?? currencyOf.get(ticker) ?? "USD";
+      const close = latestOnOrBefore(series.get(ticker)?.points ?? [], day);
+      if (!close) {
+        addGap(gaps, "missing_price", ticker, day);
+        const tradePrice = lastTradePrice(input.transactions, ticker, day);
+        return tradePrice != null ? [{ date: day, ticker, close: tradePrice, currency }] : [];
+      }
+      if (daysBetween(close.date, day) > STALE_PRICE_DAYS) addGap(gaps, "stale_price", ticker, day, close.date);
+      return [{ date: close.date, ticker, close: close.close, currency }];
+    });
+
+    const rate = input.fxRateOn(day);
+    if (rate == null) addGap(gaps, "missing_fx", null, day);
+
+    const point = computePortfolioValueCAD({
+      date: day,
+      portfolioIds: input.portfolioIds,
+      transactions: input.transactions,
+      ledgerRows: input.ledgerRows,
+      prices,
+      fxRates: [{ date: day, usdCad: rate ?? input.fallbackUsdCad }],
+    });
+    rows.push({
+      date: day,
+      totalCAD: point.totalCAD,
+      costBasisCAD: costBasisCAD(input.transactions, day, fxFor),
+      cashCAD: point.cashCAD,
+      engineValueCAD: point.totalCAD,
+    });
+  }
+
+  const gapList = Array.from(gaps.values())
+    .sort((a, b) => a.kind.localeCompare(b.kind) || (a.ticker ?? "").localeCompare(b.ticker ?? ""));
+  return { tradingDays: days.length, rows, skippedExisting, gaps: gapList };
+}
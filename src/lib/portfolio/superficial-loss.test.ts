@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+
+import { computeAcbLedger } from "./acb";
+import { detectSuperficialLosses, type SuperficialLossTransaction } from "./superficial-loss";
+
+const options = { fallbackUsdCad: 1.35 };
+
+function tx(overrides: Partial<SuperficialLossTransaction> = {}): SuperficialLossTransaction {
+  return {
+    id: "tx-default",
+    portfolioId: "non-reg",
+    accountType: "NON_REG",
+    ticker: "SCHD",
+    currency: "CAD",
+    action: "BUY",
+    date: "2026-01-02",
+    quantity: 0,
+    price: 0,
+    commission: 0,
+    fxRateCAD: null,
+    ...overrides,
+  };
+}
+
+function testRepurchaseInSameAccountBumpsAcb() {
+  const transactions = [
+    tx({ id: "buy", date: "2026-01-02", quantity: 100, price: 30 }),
+    tx({ id: "sell", action: "SELL", date: "2026-03-02", quantity: 100, price: 25 }),
+    tx({ id: "rebuy", date: "2026-03-20", quantity: 100, price: 26 }),
+  ];
+
+  const result = detectSuperficialLosses(transactions, options);
+  assert.equal(result.findings.length, 1);
+  const finding = result.findings[0];
+  assert.equal(finding.lossCAD, 500);
+  assert.equal(finding.deniedLossCAD, 500);
+  assert.equal(finding.acbBumpCAD, 500);
+  assert.equal(finding.permanentlyDeniedCAD, 0);
+
+  const ledger = computeAcbLedger(transactions, "non-reg", "SCHD", { ...options, ...result });
+  assert.equal(ledger.events[1].realizedGainCAD, 0);
+  assert.equal(ledger.events[1].deniedLossCAD, 500);
+  assert.equal(ledger.acbCAD, 3100);
+  assert.deepEqual(
+    ledger.events.map((event) => event.action),
+    ["BUY", "SELL", "BUY", "ADJUST"],
+  );
+}
+
+function testTfsaWeeklyBuyPermanentlyDeniesPartOfTheLoss() {
+  const transactions = [
+    tx({ id: "nr-buy", date: "2026-01-02", quantity: 100, price: 30 }),
+    tx({ id: "nr-sell", action: "SELL", date: "2026-03-02", quantity: 100, price: 25 }),
+    tx({ id: "tfsa-buy", portfolioId: "tfsa", accountType: "TFSA", date: "2026-03-09", quantity: 10, price: 25 }),
+  ];
+
+  const result = detectSuperficialLosses(transactions, options);
+  const finding = result.findings[0];
+  // min(S=100, P=10, B=10) / 100 of a 500 loss.
+  assert.equal(finding.deniedLossCAD, 50);
+  assert.equal(finding.allowedLossCAD, 450);
+  assert.equal(finding.acbBumpCAD, 0);
+  assert.equal(finding.permanentlyDeniedCAD, 50);
+  assert.deepEqual(result.acbAdjustments, []);
+}
+
+function testPurchaseOutsideWindowOrSoldBeforeWindowEndIsIgnored() {
+  const outsideWindow = detectSuperficialLosses(
+    [
+      tx({ id: "buy", date: "2026-01-02", quantity: 100, price: 30 }),
+      tx({ id: "sell", action: "SELL", date: "2026-03-02", quantity: 100, price: 25 }),
+      tx({ id: "late-buy", date: "2026-04-02", quantity: 100, price: 26 }),
+    ],
+    options,
+  );
+  assert.equal(outsideWindow.findings.length, 0);
+
+  const notHeld = detectSuperficialLosses(
+    [
+      tx({ id: "buy", date: "2026-01-02", quantity: 100, price: 30 }),
+      tx({ id: "sell", action: "SELL", date: "2026-03-02", quantity: 100, price: 25 }),
+      tx({ id: "rebuy", date: "2026-03-05", quantity: 100, price: 26 }),
+      tx({ id: "resell", action: "SELL", date: "2026-03-10", quantity: 100, price: 27 }),
+    ],
+    options,
+  );
+  assert.equal(notHeld.findings.length, 0);
+}
+
+function testGainsAreNeverFlagged() {
+  const result = detectSuperficialLosses(
+    [
+      tx({ id: "buy", date: "2026-01-02", quantity: 10, price: 20 }),
+      tx({ id: "sell", action: "SELL", date: "2026-03-02", quantity: 10, price: 25 }),
+      tx({ id: "rebuy", date: "2026-03-03", quantity: 10, price: 25 }),
+    ],
+    options,
+  );
+  assert.equal(result.findings.length, 0);
+}
+
+const tests = [
+  testRepurchaseInSameAccountBumpsAcb,
+  testTfsaWeeklyBuyPermanentlyDeniesPartOfTheLoss,
+  testPurchaseOutsideWindowOrSoldBeforeWindowEndIsIgnored,
+  testGainsAreNeverFlagged,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("superficial loss tests passed");
@@ -0,0 +1,208 @@
+// Superficial loss detection (ITA s.54) for taxable (NON_REG / CASH) sells at a loss.
+// Pure functions. A loss is superficial when the same ticker is acquired in
+// ANY of the user's accounts (TFSA / RRSP / FHSA included) during the window
+// from 30 days before to 30 days after the sale, and is still held at the end
+// of that window. Denied portion follows the CRA proration:
+//   denied = loss × min(S, P, B) / S
+//   S = shares sold, P = shares acquired in the window, B = shares held at window end
+// The denied amount is added to the ACB of the substitute shares. A substitute
+// held in a registered account has no ACB, so that share of the loss is lost
+// for good (permanentlyDeniedCAD).
+//
+// Detection runs on the unadjusted ledgers, so a bump from one superficial loss
+// does not feed back into the loss measured on a later sale of the same pool.
+
+import {
+  computeAcbLedger,
+  type AcbAdjustment,
+  type AcbLedger,
+  type AcbOptions,
+  type AcbTransaction,
+} from "./acb";
+import { computePosition } from "./engine";
+
+export const SUPERFICIAL_LOSS_WINDOW_DAYS = 30;
+
+export interface SuperficialLossTransaction extends AcbTransaction {
+  accountType: string;
+}
+
+export interface SuperficialLossSubstitute {
+  transactionId: string;
+  portfolioId: string;
+  accountType: string;
+  date: string;
+  quantity: number;
+  /** Denied loss attributed to this purchase (pro-rata by quantity). */
+  deniedLossCAD: number;
+  /** True when the attribution becomes an ACB bump (taxable account). */
+  acbBump: boolean;
+}
+
+export interface SuperficialLossFinding {
+  sellTransactionId: string;
+  portfolioId: string;
+  ticker: string;
+  date: string;
+  windowStart: string;
+  windowEnd: string;
+  quantitySold: number;
+  acquiredInWindow: number;
+  heldAtWindowEnd: number;
+  /** Loss before the rule, as a positive CAD amount. */
+  lossCAD: number;
+  deniedLossCAD: number;
+  allowedLossCAD: number;
+  acbBumpCAD: number;
+  permanentlyDeniedCAD: number;
+  substitutes: SuperficialLossSubstitute[];
+}
+
+export interface SuperficialLossResult {
+  findings: SuperficialLossFinding[];
+  /** Ready to spread into computeAcbLedger options. */
+  deniedLossBySellId: Map<string, number>;
+  acbAdjustments: AcbAdjustment[];
+}
+
+// Questrade "Cash" accounts are non-registered too; TFSA / RRSP / FHSA never are.
+const TAXABLE_ACCOUNT_TYPES = new Set(["NON_REG", "CASH"]);
+
+function dateKey(value: string | Date): string {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return value.slice(0, 10);
+}
+
+function shiftDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isTaxableAccountType(accountType: string): boolean {
+  return TAXABLE_ACCOUNT_TYPES.has(accountType);
+}
+
+export function detectSuperficialLosses(
+  transactions: SuperficialLossTransaction[],
+  options: Pick<AcbOptions, "fallbackUsdCad" | "fxRateOn">,
+): SuperficialLossResult {
+  const accountTypeByPortfolio = new Map(transactions.map((t) => [t.portfolioId, t.accountType]));
+  const ledgerKeys = new Map<string, { portfolioId: string; ticker: string }>();
+  for (const transaction of transactions) {
+    if (transaction.action !== "SELL" || !isTaxableAccountType(transaction.accountType)) continue;
+    const ticker = transaction.ticker.toUpperCase();
+    ledgerKeys.set(`${transaction.portfolioId}:${ticker}`, { portfolioId: transaction.portfolioId, ticker });
+  }
+
+  const ledgers: AcbLedger[] = Array.from(ledgerKeys.values()).map(({ portfolioId, ticker }) =>
+    computeAcbLedger(transactions, portfolioId, ticker, options),
+  );
+
+  const findings: SuperficialLossFinding[] = [];
+  for (const ledger of ledgers) {
+    const portfolioIdsHoldingTicker = Array.from(
+      new Set(
+        transactions
+          .filter((t) => t.ticker.toUpperCase() === ledger.ticker)
+          .map((t) => t.portfolioId),
+      ),
+    );
+
+    for (const event of ledger.events) {
+      if (event.action !== "SELL" || event.realizedGainCAD == null || event.realizedGainCAD >= 0) continue;
+
+      const windowStart = shiftDays(event.date, -SUPERFICIAL_LOSS_WINDOW_DAYS);
+      const windowEnd = shiftDays(event.date, SUPERFICIAL_LOSS_WINDOW_DAYS);
+      const purchases = transactions.filter(
+        (t) =>
+          t.action === "BUY" &&
+          t.ticker.toUpperCase() === ledger.ticker &&
+          dateKey(t.date) >= windowStart &&
+          dateKey(t.date) <= windowEnd,
+      );
+      const acquiredInWindow = purchases.reduce((sum, t) => sum + t.quantity, 0);
+      if (acquiredInWindow <= 0) continue;
+
+      const heldAtWindowEnd = Math.max(
+        0,
+        portfolioIdsHoldingTicker.reduce(
+          (sum, portfolioId) => sum + computePosition(transactions, portfolioId, ledger.ticker, windowEnd),
+          0,
+        ),
+      );
+      const matched = Math.min(event.quantity, acquiredInWindow, heldAtWindowEnd);
+      if (matched <= 0) continue;
+
+      const lossCAD = -event.realizedGainCAD;
+      const deniedLossCAD = lossCAD * (matched / event.quantity);
+      const substitutes: SuperficialLossSubstitute[] = purchases.map((t) => {
+        const accountType = accountTypeByPortfolio.get(t.portfolioId) ?? t.accountType;
+        return {
+          transactionId: t.id,
+          portfolioId: t.portfolioId,
+          accountType,
+          date: dateKey(t.date),
+          quantity: t.quantity,
+          deniedLossCAD: roundMoney(deniedLossCAD * (t.quantity / acquiredInWindow)),
+          acbBump: isTaxableAccountType(accountType),
+        };
+      });
+      const acbBumpCAD = substitutes
+        .filter((s) => s.acbBump)
+        .reduce((sum, s) => sum + deniedLossCAD * (s.quantity / acquiredInWindow), 0);
+
+      findings.push({
+        sellTransactionId: event.transactionId,
+        portfolioId: ledger.portfolioId,
+        ticker: ledger.ticker,
+        date: event.date,
+        windowStart,
+        windowEnd,
+        quantitySold: event.quantity,
+        acquiredInWindow,
+        heldAtWindowEnd,
+        lossCAD: roundMoney(lossCAD),
+        deniedLossCAD: roundMoney(deniedLossCAD),
+        allowedLossCAD: roundMoney(lossCAD - deniedLossCAD),
+        acbBumpCAD: roundMoney(acbBumpCAD),
+        permanentlyDeniedCAD: roundMoney(deniedLossCAD - acbBumpCAD),
+        substitutes,
+      });
+    }
+  }
+
+  findings.sort((a, b) => a.date.localeCompare(b.date) || a.sellTransactionId.localeCompare(b.sellTransactionId));
+
+  const deniedLossBySellId = new Map(findings.map((f) => [f.sellTransactionId, f.deniedLossCAD]));
+  const adjustmentsByKey = new Map<string, AcbAdjustment>();
+  for (const finding of findings) {
+    for (const substitute of finding.substitutes) {
+      if (!substitute.acbBump) continue;
+      // A substitute bought before the sale only absorbs the bump once the loss exists.
+      const date = substitute.date > finding.date ? substitute.date : finding.date;
+      const key = `${substitute.portfolioId}:${date}:${finding.sellTransactionId}`;
+      const existing = adjustmentsByKey.get(key);
+      if (existing) {
+        existing.acbBumpCAD = roundMoney(existing.acbBumpCAD + substitute.deniedLossCAD);
+      } else {
+        adjustmentsByKey.set(key, {
+          portfolioId: substitute.portfolioId,
+          ticker: finding.ticker,
+          date,
+          acbBumpCAD: substitute.deniedLossCAD,
+          sourceTransactionId: finding.sellTransactionId,
+        });
+      }
+    }
+  }
+  const acbAdjustments = Array.from(adjustmentsByKey.values());
+
+  return { findings, deniedLossBySellId, acbAdjustments };
+}
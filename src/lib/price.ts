@@ -1,4 +1,5 @@
 import YahooFinance from "yahoo-finance2";
+import { defaultUsdCad } from "@/lib/fx-rates";
 
 export const yahooFinance = new YahooFinance();
 
@@ -143,7 +144,7 @@ export async function getFxRate(): Promise<{ rate: number; fallback: boolean }>
     // fall through to fallback
   }
 
-  const fallbackRate = fxCache?.rate ?? parseFloat(process.env.DEFAULT_FX_RATE ?? "1.35");
+  const fallbackRate = fxCache?.rate ?? defaultUsdCad();
   return { rate: fallbackRate, fallback: true };
 }
 
@@ -159,9 +160,10 @@ export async function getCompanyName(ticker: string): Promise<string> {
 export async function getHistory(
   ticker: string,
   range: string,
-  from?: string
+  from?: string,
+  options: { interval?: "1d" | "1wk"; to?: string } = {}
 ): Promise<{ date: string; close: number }[]> {
-  const cacheKey = `${ticker}-${range}-${from ?? ""}`;
+  const cacheKey = `${ticker}-${range}-${from ?? ""}-${options.interval ?? ""}-${options.to ?? ""}`;
   const cached = historyCache.get(cacheKey);
   if (cached && Date.now() - cached.fetchedAt < HISTORY_TTL) return cached.data;
 
@@ -188,9 +190,13 @@ export async function getHistory(
     }
   }
 
+  if (options.interval) interval = options.interval;
+  // period2 is exclusive; one extra day keeps `to` itself in the series.
+  const period2 = options.to ? new Date(new Date(`${options.to}T00:00:00Z`).getTime() + 86400000) : now;
+
   const result = await yahooFinance.chart(ticker, {
     period1,
-    period2: now,
+    period2: period2 < now ? period2 : now,
     interval,
   });
 
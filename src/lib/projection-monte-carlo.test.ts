@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { simulateRulebookPath, type ProjectionInputV2 } from "./rulebook";
+import {
+  MONTE_CARLO_DEFAULT_ASSUMPTIONS,
+  drawYearReturns,
+  percentile,
+  projectMonteCarloRulebook,
+} from "./projection-monte-carlo";
+
+const input: ProjectionInputV2 = {
+  start: {
+    schdCAD: 70_000, qldCAD: 30_000, sgovCAD: 8_000, jepqCAD: 2_000, tqqqCAD: 0,
+    schdYieldPct: 3.5, qldYieldPct: 0.5, sgovYieldPct: 4.5, jepqYieldPct: 8,
+  },
+  coreWeeklyCAD: 350,
+  sgovWeeklyCAD: 50,
+  jepqWeeklyCAD: 25,
+  tfsaRoomExists: true,
+  currentAge: 45,
+  divGrowthPct: 5,
+  yearPoints: [],
+  maxYears: 25,
+};
+
+{
+  assert.ok(Math.abs((percentile([1, 2, 3, 4], 0.5)) - 2.5) < 1e-9, "median interpolates");
+  assert.ok(Math.abs((percentile([10, 20], 0.1)) - 11) < 1e-9, "P10 interpolates");
+  assert.equal(percentile([], 0.5), 0);
+}
+
+{
+  // At the median draw the leveraged funds lose (L² − L)·σ²/2 to daily rebalancing.
+  const a = MONTE_CARLO_DEFAULT_ASSUMPTIONS;
+  const r = drawYearReturns(a, 0, 0, 0);
+  assert.ok(Math.abs(r.schd - 0.06) < 1e-9, "SCHD median");
+  assert.ok(Math.abs(r.sgov - 0.04) < 1e-9, "SGOV median");
+  assert.ok(Math.abs(r.qld - (Math.exp(2 * Math.log(1.08) - 0.0484 - a.leveragedExpenseRatio) - 1)) < 1e-9, "QLD decays");
+  assert.ok(Math.abs(r.tqqq - (Math.exp(3 * Math.log(1.08) - 3 * 0.0484 - a.leveragedExpenseRatio) - 1)) < 1e-9, "TQQQ decays harder");
+  assert.ok(r.qld < 1.08 ** 2 - 1);
+  assert.ok(Math.abs(r.jepq - r.schd) < 1e-9, "QQQI follows SCHD");
+}
+
+{
+  // Zero volatility collapses the fan onto the single rulebook path with median returns.
+  const flat = { schdVolatility: 0, nasdaqVolatility: 0, sgovVolatility: 0 };
+  const mc = projectMonteCarloRulebook({ ...input, paths: 5, incomeGoalCAD: null, assumptions: flat });
+  const returns = drawYearReturns({ ...MONTE_CARLO_DEFAULT_ASSUMPTIONS, ...flat }, 0, 0, 0);
+  const path = simulateRulebookPath(input, () => returns);
+  assert.equal(mc.bands.length, 25);
+  mc.bands.forEach((band, i) => {
+    assert.equal(band.totalP10, path.points[i].totalCAD);
+    assert.equal(band.totalP90, path.points[i].totalCAD);
+    assert.equal(band.incomeP50, path.points[i].annualDivCAD);
+  });
+  assert.equal(mc.goal, null);
+}
+
+{
+  // Seeded: same seed, same bands; the fan widens with time and stays ordered.
+  const a = projectMonteCarloRulebook({ ...input, paths: 200, seed: 7, incomeGoalCAD: null });
+  const b = projectMonteCarloRulebook({ ...input, paths: 200, seed: 7, incomeGoalCAD: null });
+  const c = projectMonteCarloRulebook({ ...input, paths: 200, seed: 8, incomeGoalCAD: null });
+  assert.deepEqual(a.bands, b.bands);
+  assert.notDeepEqual(a.bands, c.bands);
+  for (const band of a.bands) {
+    assert.ok(band.totalP10 <= band.totalP50 && band.totalP50 <= band.totalP90);
+    assert.ok(band.incomeP10 <= band.incomeP50 && band.incomeP50 <= band.incomeP90);
+  }
+  const first = a.bands[0];
+  const last = a.bands[a.bands.length - 1];
+  assert.ok(last.totalP90 / last.totalP10 > first.totalP90 / first.totalP10);
+  assert.ok(a.depletionProbability < 0.05, "a contributing 45-year-old rarely runs dry by 70");
+}
+
+{
+  // Goal probability is checked at the given year: a trivial target always hits, an absurd one never does.
+  const easy = projectMonteCarloRulebook({ ...input, paths: 100, incomeGoalCAD: 1, goalYearsFromNow: 10 });
+  const hard = projectMonteCarloRulebook({ ...input, paths: 100, incomeGoalCAD: 1e9, goalYearsFromNow: 10 });
+  assert.equal(easy.goal?.probability, 1);
+  assert.equal(easy.goal?.yearsFromNow, 10);
+  assert.equal(easy.goal?.year, easy.bands[9].year);
+  assert.equal(hard.goal?.probability, 0);
+  // A zero or negative target is no goal, not a certain hit.
+  assert.equal(projectMonteCarloRulebook({ ...input, paths: 10, incomeGoalCAD: 0 }).goal, null);
+  assert.equal(projectMonteCarloRulebook({ ...input, paths: 10, incomeGoalCAD: -100 }).goal, null);
+}
+
+{
+  // §11 meltdown at 60 on a small, unfunded portfolio cannot be met: every path depletes in year 1.
+  const mc = projectMonteCarloRulebook({
+    ...input,
+    start: { ...input.start, schdCAD: 10_000, qldCAD: 5_000, sgovCAD: 0, jepqCAD: 0 },
+    coreWeeklyCAD: 0,
+    sgovWeeklyCAD: 0,
+    jepqWeeklyCAD: 0,
+    currentAge: 59,
+    maxYears: 5,
+    paths: 50,
+    incomeGoalCAD: null,
+  });
+  assert.equal(mc.depletionProbability, 1);
+  assert.equal(mc.medianDepletionYearsFromNow, 1);
+}
+
+console.log("projection-monte-carlo tests passed");
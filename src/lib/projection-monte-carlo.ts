@@ -0,0 +1,205 @@
+/**
+ * Stochastic counterpart of projectScenariosRulebook. Each path draws one
+ * lognormal return per year for SCHD and the Nasdaq-100 (correlated), derives
+ * QLD/TQQQ from the index with daily-rebalance volatility decay, and replays
+ * the same rulebook path (static 70/30, SGOV/QQQI gating, exits, crisis,
+ * §11 meltdown, §10/§16 retirement cashflow) through simulateRulebookPath.
+ *
+ * Seeded, so the same input always yields the same bands.
+ */
+import {
+  simulateRulebookPath,
+  type ProjectionInputV2,
+  type RulebookYearReturns,
+} from "@/lib/rulebook";
+
+export interface MonteCarloAssumptions {
+  /** Median (geometric) annual return of SCHD, e.g. 0.06. */
+  schdMedianReturn: number;
+  /** Annual log-return volatility of SCHD. */
+  schdVolatility: number;
+  /** Median annual return of the Nasdaq-100 that QLD/TQQQ track. */
+  nasdaqMedianReturn: number;
+  nasdaqVolatility: number;
+  /** Correlation of SCHD and Nasdaq-100 annual log returns. */
+  schdNasdaqCorrelation: number;
+  sgovMedianReturn: number;
+  sgovVolatility: number;
+  /** Annual expense drag on the leveraged ETFs. Financing cost is not modelled. */
+  leveragedExpenseRatio: number;
+}
+
+// Long-run figures in the spirit of RULEBOOK_SCENARIOS: SCHD's median sits on
+// the BASE 6% path, the index a little above it so QLD's median lands near the
+// deterministic 1.5× only after decay.
+export const MONTE_CARLO_DEFAULT_ASSUMPTIONS: MonteCarloAssumptions = {
+  schdMedianReturn: 0.06,
+  schdVolatility: 0.15,
+  nasdaqMedianReturn: 0.08,
+  nasdaqVolatility: 0.22,
+  schdNasdaqCorrelation: 0.75,
+  sgovMedianReturn: 0.04,
+  sgovVolatility: 0.005,
+  leveragedExpenseRatio: 0.0095,
+};
+
+export const MONTE_CARLO_DEFAULT_PATHS = 1000;
+export const MONTE_CARLO_DEFAULT_SEED = 20260101;
+
+export interface MonteCarloInput extends ProjectionInputV2 {
+  paths?: number;
+  seed?: number;
+  /** Annual net dividend target in CAD (Settings income goal); null skips the goal probability. */
+  incomeGoalCAD: number | null;
+  /** Year-from-now the goal is checked at (retirement). Defaults to maxYears. */
+  goalYearsFromNow?: number | null;
+  assumptions?: Partial<MonteCarloAssumptions>;
+}
+
+/** Per-year percentiles across paths. Total = portfolio CAD, income = net annual dividends CAD. */
+export interface MonteCarloBand {
+  year: number;
+  yearsFromNow: number;
+  totalP10: number;
+  totalP50: number;
+  totalP90: number;
+  incomeP10: number;
+  incomeP50: number;
+  incomeP90: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  seed: number;
+  assumptions: MonteCarloAssumptions;
+  bands: MonteCarloBand[];
+  goal: {
+    annualTargetCAD: number;
+    yearsFromNow: number;
+    year: number;
+    /** Share of paths whose net annual dividends reach the target in that year. */
+    probability: number;
+  } | null;
+  /** Share of paths that run dry or cannot fund a §11 meltdown withdrawal. */
+  depletionProbability: number;
+  /** Median year-from-now of depletion among depleted paths; null if none deplete. */
+  medianDepletionYearsFromNow: number | null;
+}
+
+// mulberry32 — small, fast, good enough for simulation draws.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormal(random: () => number): () => number {
+  return () => {
+    // Box–Muller; 1 - random() keeps the log argument in (0, 1].
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/** Linear-interpolated percentile of an ascending array; p in [0, 1]. */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * One year's simple returns from two correlated standard normals. A daily
+ * rebalanced L× fund on a lognormal index has log return L·g − (L² − L)·σ²/2,
+ * which is where QLD's and TQQQ's volatility decay comes from.
+ */
+export function drawYearReturns(a: MonteCarloAssumptions, zSchd: number, zIndependent: number, zSgov: number): RulebookYearReturns {
+  const rho = Math.min(1, Math.max(-1, a.schdNasdaqCorrelation));
+  const zNasdaq = rho * zSchd + Math.sqrt(1 - rho * rho) * zIndependent;
+  const schdLog = Math.log(1 + a.schdMedianReturn) + a.schdVolatility * zSchd;
+  const nasdaqLog = Math.log(1 + a.nasdaqMedianReturn) + a.nasdaqVolatility * zNasdaq;
+  const sgovLog = Math.log(1 + a.sgovMedianReturn) + a.sgovVolatility * zSgov;
+  const variance = a.nasdaqVolatility * a.nasdaqVolatility;
+  const leveraged = (factor: number) =>
+    Math.exp(factor * nasdaqLog - ((factor * factor - factor) / 2) * variance - a.leveragedExpenseRatio) - 1;
+  const schd = Math.exp(schdLog) - 1;
+  return {
+    schd,
+    qld: leveraged(2),
+    sgov: Math.exp(sgovLog) - 1,
+    // QQQI follows SCHD, as in the deterministic projection.
+    jepq: schd,
+    tqqq: leveraged(3),
+  };
+}
+
+export function projectMonteCarloRulebook(input: MonteCarloInput): MonteCarloResult {
+  const paths = Math.max(1, Math.floor(input.paths ?? MONTE_CARLO_DEFAULT_PATHS));
+  const seed = input.seed ?? MONTE_CARLO_DEFAULT_SEED;
+  const assumptions = { ...MONTE_CARLO_DEFAULT_ASSUMPTIONS, ...input.assumptions };
+  const years = Math.max(1, Math.floor(input.maxYears));
+  const goalYears = Math.min(years, Math.max(1, Math.floor(input.goalYearsFromNow ?? years)));
+  const goalCAD = input.incomeGoalCAD != null && input.incomeGoalCAD > 0 ? input.incomeGoalCAD : null;
+  const normal = createNormal(createRandom(seed));
+
+  const totals: number[][] = Array.from({ length: years }, () => []);
+  const incomes: number[][] = Array.from({ length: years }, () => []);
+  const calendarYears: number[] = [];
+  const depletedYears: number[] = [];
+  let goalHits = 0;
+
+  for (let i = 0; i < paths; i++) {
+    const path = simulateRulebookPath({ ...input, maxYears: years }, () =>
+      drawYearReturns(assumptions, normal(), normal(), normal()),
+    );
+    for (const point of path.points) {
+      totals[point.yearsFromNow - 1].push(point.totalCAD);
+      incomes[point.yearsFromNow - 1].push(point.annualDivCAD);
+      calendarYears[point.yearsFromNow - 1] = point.year;
+    }
+    if (path.depletedInYear != null) depletedYears.push(path.depletedInYear);
+    if (goalCAD != null && path.points[goalYears - 1].annualDivCAD >= goalCAD) goalHits++;
+  }
+
+  const bands = totals.map((yearTotals, index) => {
+    const sortedTotals = [...yearTotals].sort((a, b) => a - b);
+    const sortedIncomes = [...incomes[index]].sort((a, b) => a - b);
+    return {
+      year: calendarYears[index],
+      yearsFromNow: index + 1,
+      totalP10: Math.round(percentile(sortedTotals, 0.1)),
+      totalP50: Math.round(percentile(sortedTotals, 0.5)),
+      totalP90: Math.round(percentile(sortedTotals, 0.9)),
+      incomeP10: Math.round(percentile(sortedIncomes, 0.1)),
+      incomeP50: Math.round(percentile(sortedIncomes, 0.5)),
+      incomeP90: Math.round(percentile(sortedIncomes, 0.9)),
+    };
+  });
+
+  return {
+    paths,
+    seed,
+    assumptions,
+    bands,
+    goal: goalCAD != null
+      ? {
+          annualTargetCAD: Math.round(goalCAD),
+          yearsFromNow: goalYears,
+          year: calendarYears[goalYears - 1],
+          probability: goalHits / paths,
+        }
+      : null,
+    depletionProbability: depletedYears.length / paths,
+    medianDepletionYearsFromNow: depletedYears.length > 0
+      ? percentile([...depletedYears].sort((a, b) => a - b), 0.5)
+      : null,
+  };
+}
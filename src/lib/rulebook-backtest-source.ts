@@ -0,0 +1,70 @@
+/**
+ * Loads daily closes and dividends for the rulebook tickers from Yahoo plus the
+ * stored USD/CAD rates, then runs ./rulebook-backtest. Used by
+ * scripts/backtest-rulebook.ts; run fx:backfill for the window first or every
+ * day falls back to defaultUsdCad().
+ */
+import { defaultUsdCad, loadFxRateResolver } from "@/lib/fx-rates";
+import { yahooFinance } from "@/lib/price";
+import {
+  BACKTEST_TICKERS,
+  runRulebookBacktest,
+  type BacktestPriceSeries,
+  type RulebookBacktestInput,
+  type RulebookBacktestResult,
+} from "@/lib/rulebook-backtest";
+
+export type RulebookBacktestOptions = Omit<RulebookBacktestInput, "prices" | "usdCadOn">;
+
+function shiftDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+async function loadSeries(ticker: BacktestPriceSeries["ticker"], from: string, to: string): Promise<BacktestPriceSeries> {
+  const chart = await yahooFinance.chart(ticker, {
+    period1: shiftDays(from, -7),
+    // period2 is exclusive; one extra day keeps `to` itself in the series.
+    period2: shiftDays(to, 1),
+    interval: "1d",
+  });
+  const closes = (chart.quotes ?? [])
+    .filter((q) => q.close != null)
+    .map((q) => ({ date: new Date(q.date).toISOString().slice(0, 10), close: q.close! }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const dividends = Object.values(chart.events?.dividends ?? {})
+    .map((d) => {
+      const item = d as { date: Date | number | string; amount: number };
+      return { date: new Date(item.date).toISOString().slice(0, 10), amount: item.amount };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { ticker, closes, dividends };
+}
+
+export async function loadRulebookBacktest(
+  options: RulebookBacktestOptions,
+  onProgress: (message: string) => void = () => {},
+): Promise<RulebookBacktestResult & { failedTickers: string[] }> {
+  const prices: BacktestPriceSeries[] = [];
+  const failedTickers: string[] = [];
+  for (const ticker of BACKTEST_TICKERS) {
+    try {
+      const series = await loadSeries(ticker, options.from, options.to);
+      prices.push(series);
+      onProgress(`  ${ticker.padEnd(6)} ${series.closes.length} closes, ${series.dividends.length} dividends`);
+    } catch (error) {
+      failedTickers.push(ticker);
+      onProgress(`  ${ticker.padEnd(6)} history unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const fxRateOn = await loadFxRateResolver(shiftDays(options.from, -7), options.to);
+  const fallbackUsdCad = defaultUsdCad();
+  const result = runRulebookBacktest({
+    ...options,
+    prices,
+    usdCadOn: (date) => fxRateOn(date) ?? fallbackUsdCad,
+  });
+  return { ...result, failedTickers };
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import {
+  DEFAULT_WEEKLY_CONTRIBUTION_CAD,
+  runRulebookBacktest,
+  type BacktestPriceSeries,
+  type BacktestTicker,
+} from "./rulebook-backtest";
+
+function weekdays(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let d = new Date(`${from}T00:00:00Z`); d <= new Date(`${to}T00:00:00Z`); d.setUTCDate(d.getUTCDate() + 1)) {
+    if (d.getUTCDay() !== 0 && d.getUTCDay() !== 6) days.push(d.toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+function flat(
+  days: string[],
+  prices: Record<BacktestTicker, number>,
+  overrides: Partial<Record<BacktestTicker, (date: string) => number>> = {},
+  dividends: Partial<Record<BacktestTicker, Array<{ date: string; amount: number }>>> = {},
+): BacktestPriceSeries[] {
+  return (Object.keys(prices) as BacktestTicker[]).map((ticker) => ({
+    ticker,
+    closes: days.map((date) => ({ date, close: overrides[ticker]?.(date) ?? prices[ticker] })),
+    dividends: dividends[ticker] ?? [],
+  }));
+}
+
+const PRICES = { SCHD: 100, QLD: 100, TQQQ: 50, SGOV: 100, QQQI: 20 };
+
+{
+  // Flat prices: every strategy is worth exactly what went in; one contribution per week.
+  const days = weekdays("2025-03-03", "2025-03-28");
+  const result = runRulebookBacktest({ from: days[0], to: days[days.length - 1], prices: flat(days, PRICES), usdCadOn: () => 1.35 });
+  assert.equal(result.tradingDays, 20);
+  assert.equal(result.curve[result.curve.length - 1].contributedCAD, 4 * DEFAULT_WEEKLY_CONTRIBUTION_CAD);
+  for (const strategy of result.strategies) {
+    assert.ok(Math.abs(strategy.endValueCAD - (4 * DEFAULT_WEEKLY_CONTRIBUTION_CAD)) < 1e-6, `${strategy.key} end value`);
+    assert.ok(Math.abs((strategy.twr ?? NaN) - 0) < 1e-6, `${strategy.key} TWR`);
+  }
+  assert.ok(Math.abs((result.finalWeights?.qldCoreWeightPct ?? NaN) - 30) < 1e-6, "static 70/30 keeps the core on target");
+  const qqqiCap = result.triggers.filter((t) => t.kind === "qqqi_at_cap");
+  assert.equal(qqqiCap.length, 1, "a trigger that stays active fires once");
+  assert.deepEqual(qqqiCap[0].trades, []);
+  assert.equal(qqqiCap[0].outcome, "flagged");
+}
+
+{
+  // QLD −60% mid-month: crisis T2 waits for the month-end close, fires once, and sells SGOV into TQQQ.
+  const days = weekdays("2025-01-27", "2025-02-28");
+  const result = runRulebookBacktest({
+    from: days[0],
+    to: days[days.length - 1],
+    prices: flat(days, PRICES, { QLD: (date) => (date >= "2025-01-29" ? 40 : 100) }),
+    usdCadOn: () => 1,
+    weeklyContributionCAD: 0,
+    initialCAD: 100_000,
+  });
+  const crisis = result.triggers.filter((t) => t.kind.startsWith("crisis"));
+  assert.equal(crisis.length, 1);
+  assert.equal(crisis[0].kind, "crisis_t2");
+  assert.equal(crisis[0].date, "2025-01-31");
+  assert.equal(crisis[0].outcome, "applied");
+  // Total after the drop: SCHD 64,400 + QLD 11,040 + SGOV 8,000; T1 + T2 = 5% of it.
+  assert.deepEqual(crisis[0].trades.map((t) => [t.side, t.ticker, Math.round(t.amountCAD)]), [
+    ["SELL", "SGOV", 4172],
+    ["BUY", "TQQQ", 4172],
+  ]);
+  assert.ok(result.finalWeights!.tqqqCAD > 0);
+  assert.ok(result.strategies[0].maxDrawdown < -0.15);
+}
+
+{
+  // SCHD dividends: SCHD-only reinvests in kind, the rulebook splits 70/30 into SCHD/QLD.
+  const days = weekdays("2025-03-03", "2025-03-07");
+  const result = runRulebookBacktest({
+    from: days[0],
+    to: days[days.length - 1],
+    prices: flat(days, PRICES, {}, { SCHD: [{ date: "2025-03-05", amount: 1 }] }),
+    usdCadOn: () => 1,
+    weeklyContributionCAD: 0,
+    initialCAD: 10_000,
+  });
+  const schdOnly = result.strategies.find((s) => s.key === "schd_only")!;
+  assert.ok(Math.abs(schdOnly.endValueCAD - (10_000 + 100)) < 1e-6, "100 SCHD shares × $1 reinvested");
+  assert.ok(Math.abs((schdOnly.twr ?? NaN) - 0.01) < 1e-6, "dividends count as return, not contributions");
+  const rulebook = result.strategies.find((s) => s.key === "rulebook")!;
+  assert.ok(Math.abs(rulebook.endValueCAD - (10_000 + 64.4)) < 1e-6, "rulebook holds 64.4 SCHD shares");
+  assert.ok(Math.abs((result.finalWeights?.qldCoreWeightPct ?? NaN) - 30) < 1e-6, "dividend reinvestment keeps 70/30");
+}
+
+console.log("rulebook-backtest tests passed");
@@ -0,0 +1,378 @@
+// Historical replay of the rulebook. Pure; ./rulebook-backtest-source.ts loads
+// Yahoo closes, dividends and stored USD/CAD rates, and
+// scripts/backtest-rulebook.ts prints the result.
+//
+// Every trading day (a day with a SCHD close), in order:
+//  1. Dividends going ex since the previous day are paid on the shares held: SCHD through
+//     computeSchdDividendReinvest, QQQI into cash (no auto routing, §4), the
+//     rest reinvested in kind.
+//  2. On the first trading day of each week the contribution is split like the
+//     rulebook's weekly schedule (Core 350 / SGOV 50 / QQQI 25, scaled to the
+//     chosen amount): QQQI through computeQqqiWeeklyPlan, SGOV only while below
+//     its 8% target, everything else through computeStaticCoreAllocation.
+//  3. The trigger specs are evaluated with the cron's close gates. A trigger
+//     fires on its rising edge, which mirrors an event being opened once and
+//     approved; actionable plans are executed at that day's close, in spec
+//     order, re-reading the weights after each one.
+//
+// The comparisons receive the same contributions: "70/30" splits them
+// SCHD/QLD and never trades again, "SCHD" buys only SCHD; both reinvest
+// dividends in kind. A ticker without a close yet (QQQI before 2024, SGOV
+// before 2020) cannot be bought; that money is held as cash.
+
+import {
+  RULEBOOK_TARGETS,
+  computeQqqiWeeklyPlan,
+  computeRulebookWeights,
+  computeSchdDividendReinvest,
+  computeStaticCoreAllocation,
+  type AnnualRebalancePlan,
+  type CrisisTriggerPlan,
+  type RulebookHoldingValue,
+  type RulebookWeights,
+  type TqqqExitPlan,
+  type TqqqSoftExitPlan,
+} from "./rulebook";
+import {
+  RULEBOOK_TRIGGER_SPECS,
+  evaluateRulebookTriggers,
+  isGateOpen,
+  isMonthEndClose,
+  isYearEndClose,
+  type TriggerSeverityLevel,
+} from "./rulebook-triggers";
+import { computeDrawdownEpisodes } from "./performance-risk";
+import { computePeriodReturns, computeTimeWeightedReturn, type TwrCashflow } from "./performance-twr";
+
+export const BACKTEST_TICKERS = ["SCHD", "QLD", "TQQQ", "SGOV", "QQQI"] as const;
+export type BacktestTicker = typeof BACKTEST_TICKERS[number];
+
+/** The rulebook's weekly schedule: Core + SGOV refill + QQQI. */
+export const DEFAULT_WEEKLY_CONTRIBUTION_CAD =
+  RULEBOOK_TARGETS.CORE_WEEKLY_CAD + RULEBOOK_TARGETS.SGOV_WEEKLY_REFILL_CAD + RULEBOOK_TARGETS.QQQI_WEEKLY_BUY_CAD;
+
+export interface BacktestPriceSeries {
+  ticker: BacktestTicker;
+  /** USD closes, ascending. */
+  closes: Array<{ date: string; close: number }>;
+  /** USD per share, keyed by ex-date. */
+  dividends: Array<{ date: string; amount: number }>;
+}
+
+export interface RulebookBacktestInput {
+  from: string;
+  to: string;
+  prices: BacktestPriceSeries[];
+  usdCadOn: (date: string) => number;
+  weeklyContributionCAD?: number;
+  /** Invested on the first day: SGOV to its 8% target, the rest 70/30. */
+  initialCAD?: number;
+  tfsaRoomExists?: boolean;
+}
+
+export interface BacktestTrade {
+  date: string;
+  ticker: BacktestTicker;
+  side: "BUY" | "SELL";
+  amountCAD: number;
+  shares: number;
+  priceUSD: number;
+}
+
+export interface BacktestTriggerEvent {
+  date: string;
+  kind: string;
+  label: string;
+  severity: TriggerSeverityLevel;
+  /** Plan outcome, e.g. "applied", "cycle-not-armed", "deadband". */
+  outcome: string;
+  trades: BacktestTrade[];
+}
+
+export interface BacktestCurvePoint {
+  date: string;
+  contributedCAD: number;
+  rulebookCAD: number;
+  static7030CAD: number;
+  schdOnlyCAD: number;
+}
+
+export type BacktestStrategy = "rulebook" | "static_70_30" | "schd_only";
+
+export interface BacktestStrategySummary {
+  key: BacktestStrategy;
+  label: string;
+  endValueCAD: number;
+  contributedCAD: number;
+  twr: number | null;
+  twrAnnualized: number | null;
+  /** Deepest flow-neutral drawdown, decimal, ≤ 0. */
+  maxDrawdown: number;
+}
+
+export interface RulebookBacktestResult {
+  from: string;
+  to: string;
+  tradingDays: number;
+  weeklyContributionCAD: number;
+  curve: BacktestCurvePoint[];
+  triggers: BacktestTriggerEvent[];
+  strategies: BacktestStrategySummary[];
+  /** Final rulebook weights, for a quick look at where the replay ended. */
+  finalWeights: RulebookWeights | null;
+  /** Tickers with no close at the start of the window. */
+  unpricedAtStart: BacktestTicker[];
+}
+
+interface Book {
+  shares: Record<BacktestTicker, number>;
+  cashCAD: number;
+}
+
+function emptyBook(): Book {
+  return { shares: { SCHD: 0, QLD: 0, TQQQ: 0, SGOV: 0, QQQI: 0 }, cashCAD: 0 };
+}
+
+function latestOnOrBefore(points: Array<{ date: string; close: number }>, date: string): number | null {
+  let lo = 0;
+  let hi = points.length - 1;
+  let best: number | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].date <= date) {
+      best = points[mid].close;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return best;
+}
+
+/** Monday of the UTC week containing `date`. */
+function weekKey(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function summarize(
+  key: BacktestStrategy,
+  label: string,
+  curve: BacktestCurvePoint[],
+  field: "rulebookCAD" | "static7030CAD" | "schdOnlyCAD",
+  flows: TwrCashflow[],
+): BacktestStrategySummary {
+  const points = curve.map((point) => ({ date: point.date, valueCAD: point[field] }));
+  const twr = computeTimeWeightedReturn(points, flows);
+  const drawdowns = computeDrawdownEpisodes(computePeriodReturns(points, flows));
+  return {
+    key,
+    label,
+    endValueCAD: points[points.length - 1]?.valueCAD ?? 0,
+    contributedCAD: curve[curve.length - 1]?.contributedCAD ?? 0,
+    twr: twr?.twr ?? null,
+    twrAnnualized: twr?.annualized ?? null,
+    maxDrawdown: drawdowns[0]?.depth ?? 0,
+  };
+}
+
+export function runRulebookBacktest(input: RulebookBacktestInput): RulebookBacktestResult {
+  const weekly = Math.max(0, input.weeklyContributionCAD ?? DEFAULT_WEEKLY_CONTRIBUTION_CAD);
+  const scale = weekly / DEFAULT_WEEKLY_CONTRIBUTION_CAD;
+  const tfsaRoomExists = input.tfsaRoomExists ?? true;
+  const series = new Map(input.prices.map((p) => [p.ticker, p]));
+  // An ex-date that is not a SCHD trading day is paid on the next one.
+  const dividends = input.prices
+    .flatMap((p) => p.dividends.map((d) => ({ ticker: p.ticker, date: d.date, amount: d.amount })))
+    .filter((d) => d.date >= input.from && d.date <= input.to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  let dividendIndex = 0;
+  const tradingDays = (series.get("SCHD")?.closes ?? [])
+    .map((point) => point.date)
+    .filter((date) => date >= input.from && date <= input.to);
+
+  const priceOn = (ticker: BacktestTicker, date: string) => latestOnOrBefore(series.get(ticker)?.closes ?? [], date);
+  const valueOf = (book: Book, date: string) => BACKTEST_TICKERS.reduce(
+    (sum, ticker) => sum + book.shares[ticker] * (priceOn(ticker, date) ?? 0) * input.usdCadOn(date),
+    book.cashCAD,
+  );
+  const weightsOf = (book: Book, date: string): RulebookWeights => {
+    const holdings: RulebookHoldingValue[] = BACKTEST_TICKERS.map((ticker) => ({
+      ticker,
+      valueCAD: book.shares[ticker] * (priceOn(ticker, date) ?? 0) * input.usdCadOn(date),
+    }));
+    if (book.cashCAD !== 0) holdings.push({ ticker: "CASH", valueCAD: book.cashCAD });
+    return computeRulebookWeights(holdings);
+  };
+
+  const trade = (book: Book, ticker: BacktestTicker, side: "BUY" | "SELL", amountCAD: number, date: string, log?: BacktestTrade[]) => {
+    if (!(amountCAD > 0)) return;
+    const priceUSD = priceOn(ticker, date);
+    if (priceUSD == null || priceUSD <= 0) {
+      if (side === "BUY") book.cashCAD += amountCAD;
+      return;
+    }
+    const shares = amountCAD / (priceUSD * input.usdCadOn(date));
+    book.shares[ticker] += side === "BUY" ? shares : -Math.min(shares, book.shares[ticker]);
+    log?.push({ date, ticker, side, amountCAD, shares, priceUSD });
+  };
+
+  const rulebook = emptyBook();
+  const static7030 = emptyBook();
+  const schdOnly = emptyBook();
+  const curve: BacktestCurvePoint[] = [];
+  const triggers: BacktestTriggerEvent[] = [];
+  const flows: TwrCashflow[] = [];
+  const lastActive = new Map<string, boolean>();
+  let cycleArmed = true;
+  let contributedCAD = 0;
+  let lastWeek: string | null = null;
+
+  const investPassive = (amountCAD: number, date: string) => {
+    trade(static7030, "SCHD", "BUY", amountCAD * RULEBOOK_TARGETS.SCHD_OF_CORE_PCT / 100, date);
+    trade(static7030, "QLD", "BUY", amountCAD * RULEBOOK_TARGETS.QLD_OF_CORE_PCT / 100, date);
+    trade(schdOnly, "SCHD", "BUY", amountCAD, date);
+  };
+  const buyCore = (amountCAD: number, date: string) => {
+    const plan = computeStaticCoreAllocation(amountCAD, rulebook.shares.TQQQ > 0);
+    trade(rulebook, "SCHD", "BUY", plan.schdBuyCAD, date);
+    trade(rulebook, "QLD", "BUY", plan.qldBuyCAD, date);
+    trade(rulebook, "TQQQ", "BUY", plan.tqqqBuyCAD, date);
+  };
+
+  for (const date of tradingDays) {
+    const fx = input.usdCadOn(date);
+    let flowCAD = 0;
+
+    for (; dividendIndex < dividends.length && dividends[dividendIndex].date <= date; dividendIndex++) {
+      const dividend = dividends[dividendIndex];
+      const overlayActive = rulebook.shares.TQQQ > 0;
+      const rulebookCAD = rulebook.shares[dividend.ticker] * dividend.amount * fx;
+      if (dividend.ticker === "SCHD") {
+        const plan = computeSchdDividendReinvest(rulebookCAD, overlayActive);
+        trade(rulebook, "SCHD", "BUY", plan.schdBuyCAD, date);
+        trade(rulebook, "QLD", "BUY", plan.qldBuyCAD, date);
+        trade(rulebook, "TQQQ", "BUY", plan.tqqqBuyCAD, date);
+      } else if (dividend.ticker === "QQQI") {
+        rulebook.cashCAD += rulebookCAD;
+      } else {
+        trade(rulebook, dividend.ticker, "BUY", rulebookCAD, date);
+      }
+      for (const book of [static7030, schdOnly]) {
+        trade(book, dividend.ticker, "BUY", book.shares[dividend.ticker] * dividend.amount * fx, date);
+      }
+    }
+
+    if (curve.length === 0 && (input.initialCAD ?? 0) > 0) {
+      const initial = input.initialCAD!;
+      const sgov = priceOn("SGOV", date) != null ? initial * RULEBOOK_TARGETS.SGOV_TARGET_PCT / 100 : 0;
+      trade(rulebook, "SGOV", "BUY", sgov, date);
+      buyCore(initial - sgov, date);
+      investPassive(initial, date);
+      flowCAD += initial;
+    }
+
+    const week = weekKey(date);
+    if (week !== lastWeek) {
+      lastWeek = week;
+      if (weekly > 0) {
+        const w = weightsOf(rulebook, date);
+        let coreCAD = RULEBOOK_TARGETS.CORE_WEEKLY_CAD * scale;
+        const qqqiCAD = RULEBOOK_TARGETS.QQQI_WEEKLY_BUY_CAD * scale;
+        const sgovCAD = RULEBOOK_TARGETS.SGOV_WEEKLY_REFILL_CAD * scale;
+        const qqqi = computeQqqiWeeklyPlan(tfsaRoomExists, w.jepqTotalWeightPct);
+        if (qqqi.qqqiBuyCAD > 0 && priceOn("QQQI", date) != null) trade(rulebook, "QQQI", "BUY", qqqiCAD, date);
+        else coreCAD += qqqiCAD;
+        if (w.totalCAD === 0 || w.sgovBelowTarget) trade(rulebook, "SGOV", "BUY", sgovCAD, date);
+        else coreCAD += sgovCAD;
+        buyCore(coreCAD, date);
+        investPassive(weekly, date);
+        flowCAD += weekly;
+      }
+    }
+
+    if (flowCAD > 0) {
+      contributedCAD += flowCAD;
+      flows.push({ date, amountCAD: flowCAD });
+    }
+
+    const closeDate = new Date(`${date}T00:00:00Z`);
+    const gates = { monthEndClose: isMonthEndClose(closeDate), yearEndClose: isYearEndClose(closeDate) };
+    for (const spec of RULEBOOK_TRIGGER_SPECS) {
+      if (!isGateOpen(spec.gate, gates)) continue;
+      const w = weightsOf(rulebook, date);
+      if (w.totalCAD <= 0) continue;
+      const active = spec.active(w);
+      const rising = active && !lastActive.get(spec.kind);
+      lastActive.set(spec.kind, active);
+      if (spec.kind === "cycle_armable" && active) cycleArmed = true;
+      if (!rising) continue;
+
+      const evaluation = evaluateRulebookTriggers(w, gates, { cycleArmed }).find((e) => e.kind === spec.kind);
+      const log: BacktestTrade[] = [];
+      let outcome = "flagged";
+      if (spec.kind === "hard_exit") {
+        const plan = evaluation?.plan as TqqqExitPlan | null;
+        if (plan?.active) {
+          trade(rulebook, "TQQQ", "SELL", plan.tqqqSaleCAD, date, log);
+          trade(rulebook, "QLD", "SELL", plan.qldSaleCAD, date, log);
+          trade(rulebook, "SGOV", "BUY", plan.sgovRefillCAD, date, log);
+          trade(rulebook, "SCHD", "BUY", plan.schdBuyCAD, date, log);
+        }
+        outcome = plan?.active ? "applied" : "no-op";
+      } else if (spec.kind === "soft_exit") {
+        const plan = evaluation?.plan as TqqqSoftExitPlan | null;
+        if (plan?.active) {
+          trade(rulebook, "TQQQ", "SELL", plan.tqqqSaleCAD, date, log);
+          trade(rulebook, "SGOV", "BUY", plan.sgovRefillCAD, date, log);
+          trade(rulebook, "SCHD", "BUY", plan.schdBuyCAD, date, log);
+        }
+        outcome = plan?.active ? "applied" : "no-tqqq";
+      } else if (spec.kind === "crisis_t1" || spec.kind === "crisis_t2") {
+        const plan = evaluation?.plan as CrisisTriggerPlan | null;
+        if (plan?.active) {
+          trade(rulebook, "SGOV", "SELL", plan.sgovSaleCAD, date, log);
+          trade(rulebook, "TQQQ", "BUY", plan.tqqqBuyCAD, date, log);
+          cycleArmed = false;
+        }
+        outcome = plan?.reason ?? "no-plan";
+      } else if (spec.kind === "case_a" || spec.kind === "case_b") {
+        const plan = evaluation?.plan as AnnualRebalancePlan | null;
+        if (plan?.action === "case_a") {
+          trade(rulebook, "QLD", "SELL", plan.qldSaleCAD, date, log);
+          trade(rulebook, "SGOV", "BUY", plan.sgovDeltaCAD, date, log);
+          trade(rulebook, "SCHD", "BUY", plan.schdBuyCAD, date, log);
+        }
+        outcome = plan?.action ?? "no-plan";
+      }
+      triggers.push({ date, kind: spec.kind, label: spec.label, severity: spec.severity, outcome, trades: log });
+    }
+
+    curve.push({
+      date,
+      contributedCAD,
+      rulebookCAD: valueOf(rulebook, date),
+      static7030CAD: valueOf(static7030, date),
+      schdOnlyCAD: valueOf(schdOnly, date),
+    });
+  }
+
+  const first = tradingDays[0];
+  const last = tradingDays[tradingDays.length - 1];
+  return {
+    from: first ?? input.from,
+    to: last ?? input.to,
+    tradingDays: tradingDays.length,
+    weeklyContributionCAD: weekly,
+    curve,
+    triggers,
+    strategies: [
+      summarize("rulebook", "Rulebook", curve, "rulebookCAD", flows),
+      summarize("static_70_30", "70/30 SCHD/QLD", curve, "static7030CAD", flows),
+      summarize("schd_only", "SCHD only", curve, "schdOnlyCAD", flows),
+    ],
+    finalWeights: last ? weightsOf(rulebook, last) : null,
+    unpricedAtStart: first ? BACKTEST_TICKERS.filter((ticker) => priceOn(ticker, first) == null) : [],
+  };
+}
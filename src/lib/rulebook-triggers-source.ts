@@ -0,0 +1,157 @@
+/**
+ * Daily rulebook trigger writer, called from /api/cron/snapshot.
+ *
+ * Records the day's AssetWeightSnapshot, then for every trigger whose close
+ * gate is open: opens / refreshes a RulebookTriggerEvent while the flag is
+ * on, and auto-resolves the open event when the flag turns off. Audit
+ * failures are logged by the helpers and never fail the cron.
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { log } from "@/lib/logger";
+import { recordWeightSnapshot } from "@/lib/audit/assetWeightSnapshot";
+import { resolveTriggerEvent, upsertTriggerEvent } from "@/lib/audit/triggerEvent";
+import { computeRulebookWeights, type RulebookHoldingValue } from "@/lib/rulebook";
+import {
+  buildTriggerFlags,
+  evaluateRulebookTriggers,
+  gateStateForRun,
+  isCrisisCycleArmed,
+  suppressedByUserResolution,
+  type GateState,
+} from "@/lib/rulebook-triggers";
+
+export const TRIGGER_RULEBOOK_VERSION = "v4.4.2";
+
+export interface RulebookTriggerRunResult {
+  closeDate: string;
+  monthEndClose: boolean;
+  yearEndClose: boolean;
+  weightsSnapshotId: string | null;
+  opened: string[];
+  refreshed: string[];
+  resolved: string[];
+  suppressed: string[];
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+/** Crisis-cycle state from the event log; also read by the what-if sandbox. */
+export async function loadCycleArmed(userId: string): Promise<boolean> {
+  const [approvedCrisis, armable] = await Promise.all([
+    prisma.rulebookTriggerEvent.findFirst({
+      where: { userId, triggerKind: { in: ["crisis_t1", "crisis_t2"] }, resolutionAction: "user_approved" },
+      orderBy: { resolvedAt: "desc" },
+      select: { resolvedAt: true },
+    }),
+    prisma.rulebookTriggerEvent.findFirst({
+      where: { userId, triggerKind: "cycle_armable" },
+      orderBy: { detectedAt: "desc" },
+      select: { detectedAt: true },
+    }),
+  ]);
+  return isCrisisCycleArmed({
+    lastApprovedCrisisAt: approvedCrisis?.resolvedAt ?? null,
+    lastCycleArmableAt: armable?.detectedAt ?? null,
+  });
+}
+
+async function isSuppressed(userId: string, kind: string): Promise<boolean> {
+  const last = await prisma.rulebookTriggerEvent.findFirst({
+    where: { userId, triggerKind: kind },
+    orderBy: { detectedAt: "desc" },
+    select: { resolvedAt: true, resolutionAction: true },
+  });
+  if (!last?.resolvedAt) return false;
+  const observations = await prisma.assetWeightSnapshot.findMany({
+    where: { userId, date: { gt: last.resolvedAt } },
+    select: { date: true, triggerFlags: true },
+  });
+  return suppressedByUserResolution(
+    kind,
+    last,
+    observations.map((o) => ({ date: o.date.toISOString().slice(0, 10), flags: (o.triggerFlags ?? {}) as Record<string, unknown> })),
+  );
+}
+
+export async function writeRulebookTriggers(input: {
+  userId: string;
+  runDate: Date;
+  holdings: RulebookHoldingValue[];
+  cashCAD: number;
+  fxRate: number;
+  unverifiedItems?: string[];
+}): Promise<RulebookTriggerRunResult> {
+  const gates: GateState = gateStateForRun(input.runDate);
+  const weights = computeRulebookWeights(input.holdings);
+  const result: RulebookTriggerRunResult = {
+    ...gates, weightsSnapshotId: null, opened: [], refreshed: [], resolved: [], suppressed: [],
+  };
+  // An empty portfolio (no prices yet) would read as every SGOV / crisis flag at once.
+  if (weights.totalCAD <= 0) return result;
+
+  const triggerFlags = buildTriggerFlags(weights, gates);
+  const snapshot = await recordWeightSnapshot({
+    userId: input.userId,
+    date: input.runDate,
+    totalCAD: round(weights.totalCAD),
+    schdCAD: round(weights.schdCAD),
+    qldCAD: round(weights.qldCAD),
+    sgovCAD: round(weights.sgovCAD),
+    iaumCAD: round(weights.jepqCAD), // satellite slot column; QQQI since v4.4.2
+    tqqqCAD: round(weights.tqqqCAD),
+    otherCAD: round(weights.totalCAD - weights.schdCAD - weights.qldCAD - weights.sgovCAD - weights.jepqCAD - weights.tqqqCAD),
+    cashCAD: round(input.cashCAD),
+    qldCoreWeightPct: round(weights.qldCoreWeightPct, 3),
+    schdCoreWeightPct: round(weights.schdCoreWeightPct, 3),
+    growthBucketPct: round(weights.growthBucketPct, 3),
+    sgovTotalWeightPct: round(weights.sgovTotalWeightPct, 3),
+    iaumTotalWeightPct: round(weights.jepqTotalWeightPct, 3),
+    tqqqTotalWeightPct: round(weights.tqqqTotalWeightPct, 3),
+    triggerFlags,
+    fxRateCAD: input.fxRate,
+    priceSource: (input.unverifiedItems ?? []).length > 0 ? "yahoo-with-fallback" : "yahoo",
+    unverifiedItems: input.unverifiedItems,
+    rulebookVersion: TRIGGER_RULEBOOK_VERSION,
+  });
+  result.weightsSnapshotId = snapshot.id;
+
+  const evaluations = evaluateRulebookTriggers(weights, gates, { cycleArmed: await loadCycleArmed(input.userId) });
+  const weightsAtDetect = JSON.parse(JSON.stringify(weights)) as Prisma.InputJsonValue;
+
+  for (const evaluation of evaluations) {
+    if (!evaluation.evaluated) continue;
+    if (!evaluation.active) {
+      const resolved = await resolveTriggerEvent({
+        userId: input.userId,
+        triggerKind: evaluation.kind,
+        resolutionAction: "auto_resolved_by_market",
+      });
+      if (resolved.resolved) result.resolved.push(evaluation.kind);
+      continue;
+    }
+    if (await isSuppressed(input.userId, evaluation.kind)) {
+      result.suppressed.push(evaluation.kind);
+      continue;
+    }
+    const upserted = await upsertTriggerEvent({
+      userId: input.userId,
+      triggerKind: evaluation.kind,
+      severity: evaluation.severity,
+      rulebookVersion: TRIGGER_RULEBOOK_VERSION,
+      weightsAtDetect,
+      computedPlan: evaluation.plan != null ? JSON.parse(JSON.stringify(evaluation.plan)) as Prisma.InputJsonValue : null,
+      weightsSnapshotId: snapshot.id,
+    });
+    if (upserted.outcome === "created") result.opened.push(evaluation.kind);
+    else if (upserted.outcome === "updated") result.refreshed.push(evaluation.kind);
+  }
+
+  if (result.opened.length > 0 || result.resolved.length > 0) {
+    log.info({ event: "rulebook.triggers.changed", userId: input.userId, closeDate: gates.closeDate, opened: result.opened, resolved: result.resolved });
+  }
+  return result;
+}
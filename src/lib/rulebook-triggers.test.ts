@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+
+import { computeRulebookWeights } from "./rulebook";
+import {
+  buildTriggerFlags,
+  closeDateForRun,
+  evaluateRulebookTriggers,
+  gateStateForRun,
+  isCrisisCycleArmed,
+  isMonthEndClose,
+  suppressedByUserResolution,
+} from "./rulebook-triggers";
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+function testCloseDateAndMonthEndGating() {
+  // Monday 06:30 UTC run judges Friday's close.
+  assert.equal(closeDateForRun(utc("2026-06-01")).toISOString().slice(0, 10), "2026-05-29");
+  // 2026-05-31 is a Sunday, so Friday 2026-05-29 is the last close of May.
+  assert.equal(isMonthEndClose(utc("2026-05-29")), true);
+  assert.equal(isMonthEndClose(utc("2026-05-28")), false);
+  assert.deepEqual(gateStateForRun(utc("2026-01-01")), { closeDate: "2025-12-31", monthEndClose: true, yearEndClose: true });
+  assert.deepEqual(gateStateForRun(utc("2026-07-01")), { closeDate: "2026-06-30", monthEndClose: true, yearEndClose: false });
+}
+
+function testCrisisOnlyEvaluatedOnMonthEndClose() {
+  // QLD 20% of core → crisis T2; growth bucket small; SGOV 10%.
+  const weights = computeRulebookWeights([
+    { ticker: "SCHD", valueCAD: 72000 },
+    { ticker: "QLD", valueCAD: 18000 },
+    { ticker: "SGOV", valueCAD: 10000 },
+  ]);
+  assert.equal(weights.crisisT2, true);
+
+  const midMonth = evaluateRulebookTriggers(weights, { monthEndClose: false, yearEndClose: false });
+  const crisisMid = midMonth.find((e) => e.kind === "crisis_t2")!;
+  assert.equal(crisisMid.evaluated, false);
+  assert.equal(crisisMid.active, false);
+
+  const monthEnd = evaluateRulebookTriggers(weights, { monthEndClose: true, yearEndClose: false });
+  const crisis = monthEnd.find((e) => e.kind === "crisis_t2")!;
+  assert.equal(crisis.active, true);
+  assert.equal(crisis.severity, "action_required");
+  assert.deepEqual((crisis.plan as { tier: string; tqqqBuyCAD: number }).tier, "T2");
+  assert.equal((crisis.plan as { tqqqBuyCAD: number }).tqqqBuyCAD, 5000);
+
+  // Case B (annual) stays closed until the December close.
+  assert.equal(monthEnd.find((e) => e.kind === "case_b")!.evaluated, false);
+  assert.equal(evaluateRulebookTriggers(weights, { monthEndClose: true, yearEndClose: true }).find((e) => e.kind === "case_b")!.active, true);
+}
+
+function testDailyExitsAndNotArmedCrisisPlan() {
+  const weights = computeRulebookWeights([
+    { ticker: "SCHD", valueCAD: 50000 },
+    { ticker: "QLD", valueCAD: 30000 },
+    { ticker: "TQQQ", valueCAD: 10000 },
+    { ticker: "SGOV", valueCAD: 10000 },
+  ]);
+  const evaluations = evaluateRulebookTriggers(weights, { monthEndClose: false, yearEndClose: false }, { cycleArmed: false });
+  assert.equal(evaluations.find((e) => e.kind === "hard_exit")!.active, true);
+  assert.equal(evaluations.find((e) => e.kind === "soft_exit")!.active, false);
+  assert.equal(evaluations.find((e) => e.kind === "sgov_below_target")!.active, false);
+
+  assert.equal(isCrisisCycleArmed({ lastApprovedCrisisAt: null, lastCycleArmableAt: null }), true);
+  assert.equal(isCrisisCycleArmed({ lastApprovedCrisisAt: utc("2026-03-31"), lastCycleArmableAt: utc("2026-01-10") }), false);
+  assert.equal(isCrisisCycleArmed({ lastApprovedCrisisAt: utc("2026-03-31"), lastCycleArmableAt: utc("2026-08-03") }), true);
+}
+
+function testUserResolutionSuppressesUntilConditionClears() {
+  const weights = computeRulebookWeights([
+    { ticker: "SCHD", valueCAD: 50000 },
+    { ticker: "QLD", valueCAD: 30000 },
+    { ticker: "TQQQ", valueCAD: 10000 },
+    { ticker: "SGOV", valueCAD: 10000 },
+  ]);
+  const on = buildTriggerFlags(weights, { closeDate: "2026-04-02", monthEndClose: false, yearEndClose: false });
+  const off = { ...on, hard_exit: false };
+  const approved = { resolvedAt: new Date("2026-04-01T15:00:00Z"), resolutionAction: "user_approved" };
+
+  assert.equal(suppressedByUserResolution("hard_exit", approved, [{ date: "2026-04-02", flags: on }]), true);
+  assert.equal(suppressedByUserResolution("hard_exit", approved, [{ date: "2026-04-02", flags: off }, { date: "2026-04-03", flags: on }]), false);
+  assert.equal(suppressedByUserResolution("hard_exit", { ...approved, resolutionAction: "auto_resolved_by_market" }, []), false);
+  // A mid-month reading does not clear a month-end trigger.
+  const crisisOff = { ...on, crisis_t1: false };
+  assert.equal(suppressedByUserResolution("crisis_t1", approved, [{ date: "2026-04-15", flags: crisisOff }]), true);
+  assert.equal(suppressedByUserResolution("crisis_t1", approved, [{ date: "2026-05-01", flags: { ...crisisOff, monthEndClose: true } }]), false);
+}
+
+const tests = [
+  testCloseDateAndMonthEndGating,
+  testCrisisOnlyEvaluatedOnMonthEndClose,
+  testDailyExitsAndNotArmedCrisisPlan,
+  testUserResolutionSuppressesUntilConditionClears,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("rulebook trigger tests passed");
@@ -0,0 +1,205 @@
+// RULEBOOK v4.4.2 trigger evaluation for the daily snapshot cron.
+// Pure functions; rulebook-triggers-source.ts writes the results to
+// AssetWeightSnapshot / RulebookTriggerEvent.
+//
+// Close-basis gating (rulebook header):
+//  - DAILY close     : §10 Emergency cap (hard_exit), §6.2 Soft Exit, SGOV target / floor,
+//                      QQQI cap, cycle re-arm. Evaluated on every run.
+//  - MONTH-END close : §6.1 Crisis T1 / T2. Evaluated only when the close being
+//                      judged is the last trading day of the month.
+//  - YEAR-END close  : §5 Annual rebalance Case A / B (Dec 31).
+// A gated trigger is neither opened nor auto-resolved on other days.
+//
+// The cron runs at 06:30 UTC, after the previous session's close, so the close
+// being judged is the weekday before the run date. Exchange holidays are not
+// modelled; a month ending on a holiday is judged on its last weekday.
+import {
+  computeAnnualRebalancePlan,
+  computeCrisisTriggerPlan,
+  computeTqqqHardExitPlan,
+  computeTqqqSoftExitPlan,
+  type RulebookWeights,
+} from "./rulebook";
+
+export type TriggerGate = "daily" | "month_end" | "year_end";
+export type TriggerSeverityLevel = "info" | "warn" | "action_required";
+
+export type TriggerResolutionAction = "user_approved" | "user_rejected" | "auto_resolved_by_market";
+export const USER_RESOLUTION_ACTIONS: TriggerResolutionAction[] = ["user_approved", "user_rejected"];
+
+export interface TriggerSpec {
+  kind: string;
+  label: string;
+  gate: TriggerGate;
+  severity: TriggerSeverityLevel;
+  active: (w: RulebookWeights) => boolean;
+}
+
+export const RULEBOOK_TRIGGER_SPECS: TriggerSpec[] = [
+  { kind: "hard_exit", label: "§10 Emergency cap (growth ≥ 38%)", gate: "daily", severity: "action_required", active: (w) => w.hardExit },
+  { kind: "soft_exit", label: "§6.2 Soft Exit (growth ≥ 34%)", gate: "daily", severity: "action_required", active: (w) => w.softExit },
+  { kind: "crisis_t1", label: "§6.1 Crisis T1 (core W ≤ 25%)", gate: "month_end", severity: "action_required", active: (w) => w.crisisT1 },
+  { kind: "crisis_t2", label: "§6.1 Crisis T2 (core W ≤ 20%)", gate: "month_end", severity: "action_required", active: (w) => w.crisisT2 },
+  { kind: "case_a", label: "§5 Case A (core W > 31%)", gate: "year_end", severity: "action_required", active: (w) => w.caseAEligible },
+  // v4.4.2: Case B is awareness only — no trade.
+  { kind: "case_b", label: "§5 Case B (core W < 29%, no action)", gate: "year_end", severity: "info", active: (w) => w.caseBEligible },
+  { kind: "sgov_below_floor", label: "SGOV below 5% floor", gate: "daily", severity: "warn", active: (w) => w.sgovBelowFloor },
+  { kind: "sgov_below_target", label: "SGOV below 8% target", gate: "daily", severity: "info", active: (w) => w.sgovBelowTarget && !w.sgovBelowFloor },
+  { kind: "qqqi_at_cap", label: "QQQI at 5% cap", gate: "daily", severity: "warn", active: (w) => w.jepqAtCap },
+  { kind: "cycle_armable", label: "Crisis cycle re-armed", gate: "daily", severity: "info", active: (w) => w.cycleArmable },
+];
+
+export function triggerSpec(kind: string): TriggerSpec | undefined {
+  return RULEBOOK_TRIGGER_SPECS.find((spec) => spec.kind === kind);
+}
+
+function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+/** The session close a run on `runDate` judges: the previous weekday. */
+export function closeDateForRun(runDate: Date): Date {
+  let close = addDays(utcDay(runDate), -1);
+  while (isWeekend(close)) close = addDays(close, -1);
+  return close;
+}
+
+/** True when `closeDate` is the last weekday of its month. */
+export function isMonthEndClose(closeDate: Date): boolean {
+  let next = addDays(utcDay(closeDate), 1);
+  while (isWeekend(next)) next = addDays(next, 1);
+  return next.getUTCMonth() !== closeDate.getUTCMonth();
+}
+
+export function isYearEndClose(closeDate: Date): boolean {
+  return closeDate.getUTCMonth() === 11 && isMonthEndClose(closeDate);
+}
+
+export interface GateState {
+  closeDate: string;
+  monthEndClose: boolean;
+  yearEndClose: boolean;
+}
+
+export function gateStateForRun(runDate: Date): GateState {
+  const close = closeDateForRun(runDate);
+  return {
+    closeDate: close.toISOString().slice(0, 10),
+    monthEndClose: isMonthEndClose(close),
+    yearEndClose: isYearEndClose(close),
+  };
+}
+
+export function isGateOpen(gate: TriggerGate, state: Pick<GateState, "monthEndClose" | "yearEndClose">): boolean {
+  if (gate === "month_end") return state.monthEndClose;
+  if (gate === "year_end") return state.yearEndClose;
+  return true;
+}
+
+export interface TriggerEvaluation {
+  kind: string;
+  severity: TriggerSeverityLevel;
+  gate: TriggerGate;
+  /** False on days the gate is closed: the trigger is left untouched. */
+  evaluated: boolean;
+  active: boolean;
+  plan: unknown | null;
+}
+
+function planFor(kind: string, w: RulebookWeights, cycleArmed: boolean): unknown | null {
+  const base = { schdCAD: w.schdCAD, qldCAD: w.qldCAD, tqqqCAD: w.tqqqCAD, sgovCAD: w.sgovCAD, totalCAD: w.totalCAD };
+  switch (kind) {
+    case "hard_exit":
+      return computeTqqqHardExitPlan({ ...base, hardExit: w.hardExit });
+    case "soft_exit":
+      return computeTqqqSoftExitPlan({ ...base, softExit: w.softExit });
+    case "crisis_t1":
+    case "crisis_t2":
+      return computeCrisisTriggerPlan({
+        totalCAD: w.totalCAD, sgovCAD: w.sgovCAD, tqqqCAD: w.tqqqCAD,
+        crisisT1: w.crisisT1, crisisT2: w.crisisT2, cycleArmed,
+      });
+    case "case_a":
+    case "case_b":
+      return computeAnnualRebalancePlan({ ...base, caseAEligible: w.caseAEligible, caseBEligible: w.caseBEligible });
+    default:
+      return null;
+  }
+}
+
+export function evaluateRulebookTriggers(
+  weights: RulebookWeights,
+  gates: Pick<GateState, "monthEndClose" | "yearEndClose">,
+  options: { cycleArmed?: boolean } = {},
+): TriggerEvaluation[] {
+  const cycleArmed = options.cycleArmed ?? true;
+  return RULEBOOK_TRIGGER_SPECS.map((spec) => {
+    const evaluated = isGateOpen(spec.gate, gates);
+    const active = evaluated && spec.active(weights);
+    return {
+      kind: spec.kind,
+      severity: spec.severity,
+      gate: spec.gate,
+      evaluated,
+      active,
+      plan: active ? planFor(spec.kind, weights, cycleArmed) : null,
+    };
+  });
+}
+
+/**
+ * §6.1 tiers fire once per cycle. The cycle is armed until a crisis event is
+ * approved, and re-arms when a cycle_armable event (TQQQ = 0 AND growth ≥ 30%)
+ * is detected after that approval.
+ */
+export function isCrisisCycleArmed(args: { lastApprovedCrisisAt: Date | null; lastCycleArmableAt: Date | null }): boolean {
+  if (!args.lastApprovedCrisisAt) return true;
+  return args.lastCycleArmableAt != null && args.lastCycleArmableAt > args.lastApprovedCrisisAt;
+}
+
+/** Stored in AssetWeightSnapshot.triggerFlags; flags are raw (ungated) plus the gate state. */
+export function buildTriggerFlags(weights: RulebookWeights, gates: GateState): Record<string, boolean | string> {
+  return {
+    ...gates,
+    inDeadband: weights.inDeadband,
+    ...Object.fromEntries(RULEBOOK_TRIGGER_SPECS.map((spec) => [spec.kind, spec.active(weights)])),
+  };
+}
+
+export interface FlagObservation {
+  date: string;
+  flags: Record<string, unknown>;
+}
+
+/**
+ * After a user approves or rejects an event, the same condition must not open
+ * a new event the next morning. A new event is allowed only once a gated
+ * snapshot after the resolution showed the condition cleared.
+ */
+export function suppressedByUserResolution(
+  kind: string,
+  lastEvent: { resolvedAt: Date | null; resolutionAction: string | null } | null,
+  observations: FlagObservation[],
+): boolean {
+  if (!lastEvent?.resolvedAt) return false;
+  if (!USER_RESOLUTION_ACTIONS.includes(lastEvent.resolutionAction as TriggerResolutionAction)) return false;
+  const spec = triggerSpec(kind);
+  const since = lastEvent.resolvedAt.toISOString().slice(0, 10);
+  const cleared = observations.some((o) =>
+    o.date > since &&
+    (!spec || isGateOpen(spec.gate, { monthEndClose: o.flags.monthEndClose === true, yearEndClose: o.flags.yearEndClose === true })) &&
+    o.flags[kind] === false,
+  );
+  return !cleared;
+}
@@ -0,0 +1,72 @@
+/**
+ * Live inputs for ./rulebook-what-if: the user's active holdings valued in CAD
+ * at the current quote and USD/CAD rate, and the crisis-cycle state from the
+ * trigger event log. Read-only — used by /api/rulebook/what-if.
+ */
+import { prisma } from "@/lib/db";
+import { getFxRate, getPrice } from "@/lib/price";
+import type { RulebookHoldingValue } from "@/lib/rulebook";
+import { loadCycleArmed } from "@/lib/rulebook-triggers-source";
+import { simulateWhatIf, type WhatIfAction, type WhatIfResult } from "@/lib/rulebook-what-if";
+
+export interface WhatIfReport extends WhatIfResult {
+  fxRate: number;
+  fxFallback: boolean;
+  cycleArmed: boolean;
+  /** Held tickers with no quote; left out of both books. */
+  unpriced: string[];
+}
+
+export async function loadWhatIfHoldings(userId: string): Promise<{
+  holdings: RulebookHoldingValue[];
+  fxRate: number;
+  fxFallback: boolean;
+  unpriced: string[];
+}> {
+  const [rows, fx] = await Promise.all([
+    prisma.holding.findMany({
+      where: { isActive: true, quantity: { gt: 0 }, portfolio: { userId } },
+      select: { ticker: true, currency: true, quantity: true },
+    }),
+    getFxRate(),
+  ]);
+
+  const shares = new Map<string, { quantity: number; currency: string }>();
+  for (const row of rows) {
+    const ticker = row.ticker.toUpperCase();
+    const prev = shares.get(ticker);
+    shares.set(ticker, {
+      quantity: (prev?.quantity ?? 0) + parseFloat(row.quantity?.toString() ?? "0"),
+      currency: prev?.currency ?? row.currency,
+    });
+  }
+
+  const holdings: RulebookHoldingValue[] = [];
+  const unpriced: string[] = [];
+  await Promise.all(
+    [...shares.entries()].map(async ([ticker, { quantity, currency }]) => {
+      const price = (await getPrice(ticker).catch(() => null))?.price;
+      if (price == null) {
+        unpriced.push(ticker);
+        return;
+      }
+      holdings.push({ ticker, valueCAD: quantity * price * (currency === "USD" ? fx.rate : 1) });
+    }),
+  );
+
+  return { holdings, fxRate: fx.rate, fxFallback: fx.fallback, unpriced: unpriced.sort() };
+}
+
+export async function loadWhatIfReport(userId: string, actions: WhatIfAction[]): Promise<WhatIfReport> {
+  const [{ holdings, fxRate, fxFallback, unpriced }, cycleArmed] = await Promise.all([
+    loadWhatIfHoldings(userId),
+    loadCycleArmed(userId),
+  ]);
+  return {
+    ...simulateWhatIf({ holdings, actions, cycleArmed }),
+    fxRate,
+    fxFallback,
+    cycleArmed,
+    unpriced,
+  };
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { applyWhatIfActions, simulateWhatIf } from "./rulebook-what-if";
+import type { CrisisTriggerPlan, TqqqExitPlan } from "./rulebook";
+
+// SCHD 70 / QLD 30 core, SGOV above the 8 % target, QQQI under its cap.
+const book = [
+  { ticker: "SCHD", valueCAD: 50_000 },
+  { ticker: "schd", valueCAD: 20_000 },
+  { ticker: "QLD", valueCAD: 30_000 },
+  { ticker: "SGOV", valueCAD: 9_000 },
+  { ticker: "QQQI", valueCAD: 1_000 },
+];
+
+{
+  // No actions: same book, nothing flips, no plans.
+  const result = simulateWhatIf({ holdings: book, actions: [] });
+  assert.equal(result.holdingsBefore.find((h) => h.ticker === "SCHD")?.valueCAD, 70_000, "duplicate tickers merge");
+  assert.deepEqual(result.holdingsAfter, result.holdingsBefore);
+  assert.equal(result.before.qldCoreWeightPct, 30);
+  assert.ok(result.flags.every((f) => !f.changed));
+  assert.deepEqual(result.plans, []);
+}
+
+{
+  // QLD −30 %: core W 21,000 / 91,000 = 23.1 % → Crisis T1 sells 2.5 % of total SGOV into TQQQ.
+  const result = simulateWhatIf({ holdings: book, actions: [{ kind: "shock", ticker: "qld", pct: -30 }] });
+  assert.equal(result.after.qldCAD, 21_000);
+  assert.equal(result.after.totalCAD, 101_000);
+  const t1 = result.flags.find((f) => f.kind === "crisis_t1")!;
+  assert.deepEqual([t1.before, t1.after, t1.changed], [false, true, true]);
+  assert.equal(result.flags.find((f) => f.kind === "case_b")?.after, true, "W < 29 with no TQQQ");
+  const crisis = result.plans.find((p) => p.kind === "crisis_t1")!.plan as CrisisTriggerPlan;
+  assert.equal(crisis.tier, "T1");
+  assert.ok(Math.abs(crisis.tqqqBuyCAD - 2_525) < 1e-6, `buy ${crisis.tqqqBuyCAD}`);
+}
+
+{
+  // A used-up crisis cycle still reports the trigger, with an inactive plan.
+  const result = simulateWhatIf({
+    holdings: book,
+    actions: [{ kind: "shock", ticker: "QLD", pct: -30 }],
+    cycleArmed: false,
+  });
+  const crisis = result.plans.find((p) => p.kind === "crisis_t1")!.plan as CrisisTriggerPlan;
+  assert.equal(crisis.active, false);
+  assert.equal(crisis.reason, "cycle-not-armed");
+}
+
+{
+  // Buying 50,000 of TQQQ with new cash: growth 80,000 / 160,000 = 50 % → §10 Emergency cap.
+  const result = simulateWhatIf({
+    holdings: book,
+    actions: [{ kind: "trade", ticker: "TQQQ", side: "BUY", amountCAD: 50_000 }],
+  });
+  assert.equal(result.after.totalCAD, 160_000);
+  assert.equal(result.flags.find((f) => f.kind === "hard_exit")?.after, true);
+  assert.equal(result.flags.find((f) => f.kind === "soft_exit")?.after, false, "hard exit supersedes soft");
+  const exit = result.plans.find((p) => p.kind === "hard_exit")!.plan as TqqqExitPlan;
+  assert.equal(exit.tqqqSaleCAD, 50_000);
+}
+
+{
+  // Selling more than held clamps to zero with a warning; SGOV then sits below the floor.
+  const result = simulateWhatIf({
+    holdings: book,
+    actions: [{ kind: "trade", ticker: "SGOV", side: "SELL", amountCAD: 20_000 }],
+  });
+  assert.equal(result.after.sgovCAD, 0);
+  assert.equal(result.holdingsAfter.some((h) => h.ticker === "SGOV"), false);
+  assert.equal(result.warnings.length, 1);
+  assert.match(result.warnings[0], /^SELL SGOV/);
+  assert.equal(result.flags.find((f) => f.kind === "sgov_below_floor")?.changed, true);
+  assert.equal(result.flags.find((f) => f.kind === "sgov_below_target")?.after, false, "floor supersedes target");
+}
+
+{
+  // Actions apply in order; shocks floor at −100 % and skip tickers not held.
+  const { holdings, warnings } = applyWhatIfActions(book, [
+    { kind: "trade", ticker: "QQQI", side: "BUY", amountCAD: 4_000 },
+    { kind: "shock", ticker: "QQQI", pct: -50 },
+    { kind: "shock", ticker: "QLD", pct: -150 },
+    { kind: "shock", ticker: "TQQQ", pct: -10 },
+  ]);
+  assert.equal(holdings.find((h) => h.ticker === "QQQI")?.valueCAD, 2_500);
+  assert.equal(holdings.some((h) => h.ticker === "QLD"), false);
+  assert.deepEqual(warnings, ["TQQQ -10%: not held, no effect"]);
+}
+
+console.log("rulebook what-if tests passed");
@@ -0,0 +1,174 @@
+// What-if sandbox for the rulebook: apply hypothetical trades and price shocks
+// to the current CAD holdings and compare RulebookWeights, trigger flags and
+// the plans the triggers would generate. Pure; nothing here touches the DB.
+//
+// Actions apply in order, so "QLD −30%" followed by "BUY TQQQ 5,000" judges the
+// buy against the shocked book. BUY adds new cash to the book, SELL takes the
+// proceeds out; pair them to model a switch. Every gate is treated as open —
+// the sandbox shows what the month-end / year-end close would judge today.
+import {
+  computeRulebookWeights,
+  type RulebookHoldingValue,
+  type RulebookWeights,
+} from "./rulebook";
+import {
+  RULEBOOK_TRIGGER_SPECS,
+  evaluateRulebookTriggers,
+  triggerSpec,
+  type TriggerGate,
+  type TriggerSeverityLevel,
+} from "./rulebook-triggers";
+
+export type WhatIfAction =
+  | { kind: "trade"; ticker: string; side: "BUY" | "SELL"; amountCAD: number }
+  | { kind: "shock"; ticker: string; pct: number };
+
+export const WHAT_IF_MAX_ACTIONS = 20;
+
+const TICKER_RE = /^[A-Z0-9.\-]{1,12}$/;
+
+/** Validates one untrusted action (API body or AI chat tool argument); null when malformed. */
+export function parseWhatIfAction(raw: unknown): WhatIfAction | null {
+  if (!raw || typeof raw !== "object") return null;
+  const a = raw as Record<string, unknown>;
+  const ticker = typeof a.ticker === "string" ? a.ticker.trim().toUpperCase() : "";
+  if (!TICKER_RE.test(ticker)) return null;
+  if (a.kind === "trade") {
+    const amountCAD = Number(a.amountCAD);
+    if ((a.side !== "BUY" && a.side !== "SELL") || !Number.isFinite(amountCAD) || amountCAD <= 0 || amountCAD > 100_000_000) {
+      return null;
+    }
+    return { kind: "trade", ticker, side: a.side, amountCAD };
+  }
+  if (a.kind === "shock") {
+    const pct = Number(a.pct);
+    if (!Number.isFinite(pct) || pct < -100 || pct > 1000) return null;
+    return { kind: "shock", ticker, pct };
+  }
+  return null;
+}
+
+export interface WhatIfFlagChange {
+  kind: string;
+  label: string;
+  severity: TriggerSeverityLevel;
+  gate: TriggerGate;
+  before: boolean;
+  after: boolean;
+  changed: boolean;
+}
+
+export interface WhatIfPlan {
+  kind: string;
+  label: string;
+  severity: TriggerSeverityLevel;
+  plan: unknown;
+}
+
+export interface WhatIfResult {
+  holdingsBefore: RulebookHoldingValue[];
+  holdingsAfter: RulebookHoldingValue[];
+  before: RulebookWeights;
+  after: RulebookWeights;
+  flags: WhatIfFlagChange[];
+  /** Plans for the triggers active after the actions, in spec order. */
+  plans: WhatIfPlan[];
+  warnings: string[];
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+/** Sums duplicate tickers (several accounts) into one upper-cased line each. */
+function normalise(holdings: RulebookHoldingValue[]): Map<string, number> {
+  const byTicker = new Map<string, number>();
+  for (const h of holdings) {
+    const ticker = h.ticker.trim().toUpperCase();
+    const value = Number.isFinite(h.valueCAD) ? h.valueCAD : 0;
+    byTicker.set(ticker, (byTicker.get(ticker) ?? 0) + value);
+  }
+  return byTicker;
+}
+
+function toHoldings(byTicker: Map<string, number>): RulebookHoldingValue[] {
+  return [...byTicker.entries()]
+    .filter(([, valueCAD]) => valueCAD > 0)
+    .map(([ticker, valueCAD]) => ({ ticker, valueCAD: round(valueCAD) }))
+    .sort((a, b) => b.valueCAD - a.valueCAD);
+}
+
+/** Applies the actions in order; returns the resulting book and any clamping warnings. */
+export function applyWhatIfActions(
+  holdings: RulebookHoldingValue[],
+  actions: WhatIfAction[],
+): { holdings: RulebookHoldingValue[]; warnings: string[] } {
+  const book = normalise(holdings);
+  const warnings: string[] = [];
+
+  for (const action of actions) {
+    const ticker = action.ticker.trim().toUpperCase();
+    const held = book.get(ticker) ?? 0;
+    if (action.kind === "shock") {
+      if (held <= 0) {
+        warnings.push(`${ticker} ${action.pct}%: not held, no effect`);
+        continue;
+      }
+      book.set(ticker, held * (1 + Math.max(action.pct, -100) / 100));
+      continue;
+    }
+    if (action.side === "BUY") {
+      book.set(ticker, held + action.amountCAD);
+      continue;
+    }
+    if (action.amountCAD > held) {
+      warnings.push(`SELL ${ticker}: only $${round(held).toLocaleString("en-CA")} held, sold all`);
+    }
+    book.set(ticker, Math.max(0, held - action.amountCAD));
+  }
+
+  return { holdings: toHoldings(book), warnings };
+}
+
+export function simulateWhatIf(input: {
+  holdings: RulebookHoldingValue[];
+  actions: WhatIfAction[];
+  cycleArmed?: boolean;
+}): WhatIfResult {
+  const holdingsBefore = toHoldings(normalise(input.holdings));
+  const { holdings: holdingsAfter, warnings } = applyWhatIfActions(holdingsBefore, input.actions);
+  const before = computeRulebookWeights(holdingsBefore);
+  const after = computeRulebookWeights(holdingsAfter);
+
+  const flags = RULEBOOK_TRIGGER_SPECS.map((spec) => {
+    const was = spec.active(before);
+    const now = spec.active(after);
+    return {
+      kind: spec.kind,
+      label: spec.label,
+      severity: spec.severity,
+      gate: spec.gate,
+      before: was,
+      after: now,
+      changed: was !== now,
+    };
+  });
+
+  const plans = evaluateRulebookTriggers(
+    after,
+    { monthEndClose: true, yearEndClose: true },
+    { cycleArmed: input.cycleArmed },
+  )
+    .filter((evaluation) => evaluation.active && evaluation.plan != null)
+    .map((evaluation) => ({
+      kind: evaluation.kind,
+      label: triggerSpec(evaluation.kind)?.label ?? evaluation.kind,
+      severity: evaluation.severity,
+      plan: evaluation.plan,
+    }));
+
+  if (after.totalCAD <= 0) warnings.push("Nothing left in the book after these actions");
+
+  return { holdingsBefore, holdingsAfter, before, after, flags, plans, warnings };
+}
@@ -858,6 +858,15 @@ test("§11 Meltdown: both depleted → unmet > 0", () => {
   assert.equal(m.unmet, 25000);
 });
 
+test("§11 Meltdown: RRIF minimum raises the request, SCHD first", () => {
+  const m = computeMeltdownAllocation(30000, 60000, 0, { minimumCAD: 48600 });
+  assert.equal(m.requestedCAD, 48600);
+  assert.equal(m.fromSchd, 30000);
+  assert.equal(m.fromQld, 18600);
+  assert.equal(m.unmet, 0);
+  assert.equal(computeMeltdownAllocation(90000, 0, 40000, { minimumCAD: 10000 }).totalWithdrawn, 40000);
+});
+
 // ── Retirement phase projection tests (rulebook [10] / [11] / [16]) ──────────
 test("projection: 60-71세 RRSP 멜트다운 인출 40K/년 적용", () => {
   // Retirement-realistic start so 12yr × 40K = 480K is feasible. baseProjectionInput's
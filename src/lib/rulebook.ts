@@ -448,21 +448,25 @@ export function computeAnnualRebalancePlan(args: {
 // Rulebook [11]: RRSP 멜트다운 60-71세, 연 30-50K. SCHD 인-카인드 선호.
 // 이 helper는 매매 메커니즘이 아니라 인출 (distribution) 이므로 §15 "SCHD 매도 금지"의 예외.
 // SCHD가 부족하면 QLD에서 잔여를 차감. 둘 다 부족하면 unmet으로 surface.
+// 72세부터 RRIF 최소 인출이 적용되면 options.minimumCAD 가 요청액의 하한 (decumulation planner).
 export interface MeltdownAllocation {
   fromSchd: number;
   fromQld: number;
   totalWithdrawn: number;
   unmet: number;
+  /** Amount actually requested after the minimum floor, ≥ requestedCAD. */
+  requestedCAD: number;
 }
 
 export function computeMeltdownAllocation(
   schdCAD: number,
   qldCAD: number,
   requestedCAD: number,
+  options: { minimumCAD?: number } = {},
 ): MeltdownAllocation {
   const safeSchd = Math.max(0, schdCAD);
   const safeQld  = Math.max(0, qldCAD);
-  const safeReq  = Math.max(0, requestedCAD);
+  const safeReq  = Math.max(0, requestedCAD, options.minimumCAD ?? 0);
   const fromSchd = Math.min(safeSchd, safeReq);
   const remaining = safeReq - fromSchd;
   const fromQld = Math.min(safeQld, remaining);
@@ -472,6 +476,7 @@ export function computeMeltdownAllocation(
     fromQld,
     totalWithdrawn,
     unmet: Math.max(0, safeReq - totalWithdrawn),
+    requestedCAD: safeReq,
   };
 }
 
@@ -656,267 +661,298 @@ const SGOV_FIXED_CAGR = 0.04;
 const QLD_LEVERAGE_FACTOR = 1.5;
 const TQQQ_LEVERAGE_FACTOR = 3;   // 3× SCHD CAGR proxy for leveraged Nasdaq overlay
 
-export function projectScenariosRulebook(input: ProjectionInputV2): ProjectionScenarioV2[] {
+/** Simple annual return applied to each sleeve in one simulated year (0.06 = +6%). */
+export interface RulebookYearReturns {
+  schd: number;
+  qld: number;
+  sgov: number;
+  jepq: number;
+  tqqq: number;
+}
+
+export interface RulebookPathResult {
+  /** One point per simulated year, 1..maxYears. */
+  points: ProjectionYearPointV2[];
+  triggerCounts: ProjectionScenarioV2["triggerCounts"];
+  /** First year the portfolio ran dry or a §11 meltdown withdrawal went unmet; null if never. */
+  depletedInYear: number | null;
+}
+
+// One rulebook path under caller-supplied yearly returns. projectScenariosRulebook
+// feeds it constant scenario CAGRs; the Monte Carlo engine feeds it random draws.
+export function simulateRulebookPath(
+  input: ProjectionInputV2,
+  returnsForYear: (yearsFromNow: number) => RulebookYearReturns,
+): RulebookPathResult {
   const startYear = new Date().getFullYear();
-  const yearPointsClean = Array.from(new Set(
-    input.yearPoints.filter(y => Number.isFinite(y) && y > 0 && y <= input.maxYears),
-  )).sort((a, b) => a - b);
 
   // Optional knobs with defaults preserving prior behaviour where useful.
   const redirectGated = input.redirectGatedToCore ?? true;
   const dcaFactor = Math.max(0, Math.min(1, input.dcaContributionFactor ?? 0.5));
   const taxWithhold = Math.max(0, Math.min(50, input.taxWithholdPct ?? 0)) / 100;
 
-  return RULEBOOK_SCENARIOS.map(scen => {
-    const SCHD_CAGR = scen.cagrPct / 100;
-    const QLD_CAGR = SCHD_CAGR * QLD_LEVERAGE_FACTOR;
-
-    let schdCAD = Math.max(0, input.start.schdCAD);
-    let qldCAD  = Math.max(0, input.start.qldCAD);
-    let sgovCAD = Math.max(0, input.start.sgovCAD);
-    let jepqCAD = Math.max(0, input.start.jepqCAD);
-    let tqqqCAD = Math.max(0, input.start.tqqqCAD ?? 0);
-    const schdYld = Math.max(0, input.start.schdYieldPct) / 100;
-    const qldYld  = Math.max(0, input.start.qldYieldPct)  / 100;
-    const sgovYld = Math.max(0, input.start.sgovYieldPct) / 100;
-    const jepqYld = Math.max(0, input.start.jepqYieldPct) / 100;
-    let cumContrib = 0;
+  let schdCAD = Math.max(0, input.start.schdCAD);
+  let qldCAD  = Math.max(0, input.start.qldCAD);
+  let sgovCAD = Math.max(0, input.start.sgovCAD);
+  let jepqCAD = Math.max(0, input.start.jepqCAD);
+  let tqqqCAD = Math.max(0, input.start.tqqqCAD ?? 0);
+  const schdYld = Math.max(0, input.start.schdYieldPct) / 100;
+  const qldYld  = Math.max(0, input.start.qldYieldPct)  / 100;
+  const sgovYld = Math.max(0, input.start.sgovYieldPct) / 100;
+  const jepqYld = Math.max(0, input.start.jepqYieldPct) / 100;
+  let cumContrib = 0;
+
+  // Cycle gating state (in-memory; per scenario)
+  let cycleArmed = tqqqCAD <= 0;
+  let t1Fired = false;
+  let t2Fired = false;
+  const counts = { hardExit: 0, softExit: 0, crisisT1: 0, crisisT2: 0, caseA: 0, caseB: 0 };
+
+  const points: ProjectionYearPointV2[] = [];
+  let depletedInYear: number | null = null;
+
+  for (let y = 1; y <= input.maxYears; y++) {
+    const r = returnsForYear(y);
+    let hardExitApplied = false;
+    let softExitApplied = false;
+    let crisisT1Applied = false;
+    let crisisT2Applied = false;
+    let caseAApplied = false;
+    let caseBApplied = false;
+    let withdrawalCAD = 0;
+    let dividendConsumedCAD = 0;
+    let pensionCAD = 0;
+    let meltdownUnmet = 0;
+
+    // (0) §11 RRSP Meltdown — 60-71세, runs FIRST per rulebook [14] priority #1 (법률/세무 출금 의미적 유사).
+    //     SCHD 우선 인출, SCHD 부족시 QLD 보조. SCHD 매도 금지 invariant의 예외 (distribution, not trading).
+    const meltdownAgeNow = input.currentAge != null ? input.currentAge + y : null;
+    if (meltdownAgeNow != null
+        && meltdownAgeNow >= RULEBOOK_TARGETS.RRSP_MELTDOWN_START_AGE
+        && meltdownAgeNow <= RULEBOOK_TARGETS.RRSP_MELTDOWN_END_AGE) {
+      const m = computeMeltdownAllocation(schdCAD, qldCAD, RULEBOOK_TARGETS.RRSP_MELTDOWN_ANNUAL_CAD);
+      schdCAD -= m.fromSchd;
+      qldCAD  -= m.fromQld;
+      withdrawalCAD = m.totalWithdrawn;
+      meltdownUnmet = m.unmet;
+    }
 
-    // Cycle gating state (in-memory; per scenario)
-    let cycleArmed = tqqqCAD <= 0;
-    let t1Fired = false;
-    let t2Fired = false;
-    const counts = { hardExit: 0, softExit: 0, crisisT1: 0, crisisT2: 0, caseA: 0, caseB: 0 };
-
-    const points: ProjectionYearPointV2[] = [];
-
-    for (let y = 1; y <= input.maxYears; y++) {
-      let hardExitApplied = false;
-      let softExitApplied = false;
-      let crisisT1Applied = false;
-      let crisisT2Applied = false;
-      let caseAApplied = false;
-      let caseBApplied = false;
-      let withdrawalCAD = 0;
-      let dividendConsumedCAD = 0;
-      let pensionCAD = 0;
-
-      // (0) §11 RRSP Meltdown — 60-71세, runs FIRST per rulebook [14] priority #1 (법률/세무 출금 의미적 유사).
-      //     SCHD 우선 인출, SCHD 부족시 QLD 보조. SCHD 매도 금지 invariant의 예외 (distribution, not trading).
-      const meltdownAgeNow = input.currentAge != null ? input.currentAge + y : null;
-      if (meltdownAgeNow != null
-          && meltdownAgeNow >= RULEBOOK_TARGETS.RRSP_MELTDOWN_START_AGE
-          && meltdownAgeNow <= RULEBOOK_TARGETS.RRSP_MELTDOWN_END_AGE) {
-        const m = computeMeltdownAllocation(schdCAD, qldCAD, RULEBOOK_TARGETS.RRSP_MELTDOWN_ANNUAL_CAD);
-        schdCAD -= m.fromSchd;
-        qldCAD  -= m.fromQld;
-        withdrawalCAD = m.totalWithdrawn;
+    // (1) Annual contribution amounts — SGOV gated by 8% target (§8), QQQI by TFSA + 5% cap (§4)
+    let annualCore = Math.max(0, input.coreWeeklyCAD * 52);
+    const totalForGate = schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD;
+    const sgovPctOfTotal = totalForGate > 0 ? sgovCAD / totalForGate : 1;
+    const jepqPctOfTotal = totalForGate > 0 ? jepqCAD / totalForGate : 1;
+    const sgovPlanned = Math.max(0, input.sgovWeeklyCAD * 52);
+    const jepqPlanned = Math.max(0, input.jepqWeeklyCAD * 52);
+    const sgovGated = !(sgovPctOfTotal < RULEBOOK_TARGETS.SGOV_TARGET_PCT / 100);
+    const jepqGated = !(jepqPctOfTotal < RULEBOOK_TARGETS.QQQI_MAX_PCT / 100 && input.tfsaRoomExists);
+    const annualSGOV = sgovGated ? 0 : sgovPlanned;
+    const annualQQQI = jepqGated ? 0 : jepqPlanned;
+    if (redirectGated) {
+      if (sgovGated) annualCore += sgovPlanned;
+      if (jepqGated) annualCore += jepqPlanned;
+    }
+    cumContrib += annualCore + annualSGOV + annualQQQI;
+
+    // (2) Static 70/30 — overlay-aware (TQQQ > 0 at start of year ⇒ SCHD 70 / TQQQ 30 / QLD 0).
+    const overlayActive = tqqqCAD > 0;
+    const schdBuy  = annualCore * (RULEBOOK_TARGETS.SCHD_OF_CORE_PCT / 100);
+    const growthBuy = annualCore * (RULEBOOK_TARGETS.QLD_OF_CORE_PCT  / 100);
+    const qldBuy  = overlayActive ? 0 : growthBuy;
+    const tqqqBuy = overlayActive ? growthBuy : 0;
+
+    // (3) DCA growth (mid-year average by default)
+    schdCAD = schdCAD * (1 + r.schd) + schdBuy * (1 + r.schd * dcaFactor);
+    qldCAD  = qldCAD  * (1 + r.qld)  + qldBuy  * (1 + r.qld  * dcaFactor);
+    sgovCAD = sgovCAD * (1 + r.sgov) + annualSGOV * (1 + r.sgov * dcaFactor);
+    jepqCAD = jepqCAD * (1 + r.jepq) + annualQQQI * (1 + r.jepq * dcaFactor);
+    // TQQQ: overlay contributions (if any) grow alongside the held position.
+    tqqqCAD = tqqqCAD * (1 + r.tqqq) + tqqqBuy * (1 + r.tqqq * dcaFactor);
+
+    // (4) Recompute weights for rulebook decisions
+    const totalNow = schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD;
+    const w = computeRulebookWeights([
+      { ticker: "SCHD", valueCAD: schdCAD },
+      { ticker: "QLD",  valueCAD: qldCAD },
+      { ticker: "SGOV", valueCAD: sgovCAD },
+      { ticker: "QQQI", valueCAD: jepqCAD },
+      { ticker: "TQQQ", valueCAD: tqqqCAD },
+    ]);
+
+    // (5) Priority order per rulebook v4.4.2: Emergency cap (38%) → Soft Exit (34%) → Crisis → Annual Rebal
+    if (w.hardExit) {
+      const plan = computeTqqqHardExitPlan({
+        schdCAD, qldCAD, tqqqCAD, sgovCAD, totalCAD: totalNow, hardExit: true,
+      });
+      if (plan.active) {
+        tqqqCAD -= plan.tqqqSaleCAD;
+        qldCAD  -= plan.qldSaleCAD;
+        sgovCAD += plan.sgovRefillCAD;
+        schdCAD += plan.schdBuyCAD;
+        hardExitApplied = true;
+        counts.hardExit++;
       }
+    } else if (w.softExit) {
+      const plan = computeTqqqSoftExitPlan({
+        schdCAD, qldCAD, tqqqCAD, sgovCAD, totalCAD: totalNow, softExit: true,
+      });
+      if (plan.active) {
+        tqqqCAD -= plan.tqqqSaleCAD;
+        sgovCAD += plan.sgovRefillCAD;
+        schdCAD += plan.schdBuyCAD;
+        softExitApplied = true;
+        counts.softExit++;
+      }
+    }
 
-      // (1) Annual contribution amounts — SGOV gated by 8% target (§8), QQQI by TFSA + 5% cap (§4)
-      let annualCore = Math.max(0, input.coreWeeklyCAD * 52);
-      const totalForGate = schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD;
-      const sgovPctOfTotal = totalForGate > 0 ? sgovCAD / totalForGate : 1;
-      const jepqPctOfTotal = totalForGate > 0 ? jepqCAD / totalForGate : 1;
-      const sgovPlanned = Math.max(0, input.sgovWeeklyCAD * 52);
-      const jepqPlanned = Math.max(0, input.jepqWeeklyCAD * 52);
-      const sgovGated = !(sgovPctOfTotal < RULEBOOK_TARGETS.SGOV_TARGET_PCT / 100);
-      const jepqGated = !(jepqPctOfTotal < RULEBOOK_TARGETS.QQQI_MAX_PCT / 100 && input.tfsaRoomExists);
-      const annualSGOV = sgovGated ? 0 : sgovPlanned;
-      const annualQQQI = jepqGated ? 0 : jepqPlanned;
-      if (redirectGated) {
-        if (sgovGated) annualCore += sgovPlanned;
-        if (jepqGated) annualCore += jepqPlanned;
+    // Crisis trigger (independent — cycle gating prevents repeat within a cycle)
+    if (w.crisisT2 && cycleArmed && !t2Fired) {
+      const plan = computeCrisisTriggerPlan({
+        totalCAD: totalNow, sgovCAD, crisisT1: false, crisisT2: true, cycleArmed, tqqqCAD,
+      });
+      if (plan.active) {
+        sgovCAD -= plan.sgovSaleCAD;
+        tqqqCAD += plan.tqqqBuyCAD;
+        t1Fired = true; t2Fired = true;
+        crisisT2Applied = true;
+        counts.crisisT2++;
       }
-      cumContrib += annualCore + annualSGOV + annualQQQI;
-
-      // (2) Static 70/30 — overlay-aware (TQQQ > 0 at start of year ⇒ SCHD 70 / TQQQ 30 / QLD 0).
-      const overlayActive = tqqqCAD > 0;
-      const schdBuy  = annualCore * (RULEBOOK_TARGETS.SCHD_OF_CORE_PCT / 100);
-      const growthBuy = annualCore * (RULEBOOK_TARGETS.QLD_OF_CORE_PCT  / 100);
-      const qldBuy  = overlayActive ? 0 : growthBuy;
-      const tqqqBuy = overlayActive ? growthBuy : 0;
-
-      // (3) DCA growth (mid-year average by default)
-      schdCAD = schdCAD * (1 + SCHD_CAGR) + schdBuy * (1 + SCHD_CAGR * dcaFactor);
-      qldCAD  = qldCAD  * (1 + QLD_CAGR)  + qldBuy  * (1 + QLD_CAGR  * dcaFactor);
-      sgovCAD = sgovCAD * (1 + SGOV_FIXED_CAGR) + annualSGOV * (1 + SGOV_FIXED_CAGR * dcaFactor);
-      // QQQI: covered-call ETF; proxy growth = scenario CAGR (held in TFSA so no withholding model needed).
-      jepqCAD = jepqCAD * (1 + SCHD_CAGR) + annualQQQI * (1 + SCHD_CAGR * dcaFactor);
-      // TQQQ: leveraged-Nasdaq proxy growth + overlay contributions (if any).
-      tqqqCAD = tqqqCAD * (1 + SCHD_CAGR * TQQQ_LEVERAGE_FACTOR) + tqqqBuy * (1 + SCHD_CAGR * TQQQ_LEVERAGE_FACTOR * dcaFactor);
+    } else if (w.crisisT1 && cycleArmed && !t1Fired) {
+      const plan = computeCrisisTriggerPlan({
+        totalCAD: totalNow, sgovCAD, crisisT1: true, crisisT2: false, cycleArmed, tqqqCAD,
+      });
+      if (plan.active) {
+        sgovCAD -= plan.sgovSaleCAD;
+        tqqqCAD += plan.tqqqBuyCAD;
+        t1Fired = true;
+        crisisT1Applied = true;
+        counts.crisisT1++;
+      }
+    }
 
-      // (4) Recompute weights for rulebook decisions
-      const totalNow = schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD;
-      const w = computeRulebookWeights([
+    // Annual rebalance (Dec 31) — only when no Emergency cap / Soft Exit fired this year
+    if (!hardExitApplied && !softExitApplied) {
+      const w2 = computeRulebookWeights([
         { ticker: "SCHD", valueCAD: schdCAD },
         { ticker: "QLD",  valueCAD: qldCAD },
         { ticker: "SGOV", valueCAD: sgovCAD },
         { ticker: "QQQI", valueCAD: jepqCAD },
         { ticker: "TQQQ", valueCAD: tqqqCAD },
       ]);
-
-      // (5) Priority order per rulebook v4.4.2: Emergency cap (38%) → Soft Exit (34%) → Crisis → Annual Rebal
-      if (w.hardExit) {
-        const plan = computeTqqqHardExitPlan({
-          schdCAD, qldCAD, tqqqCAD, sgovCAD, totalCAD: totalNow, hardExit: true,
-        });
-        if (plan.active) {
-          tqqqCAD -= plan.tqqqSaleCAD;
-          qldCAD  -= plan.qldSaleCAD;
-          sgovCAD += plan.sgovRefillCAD;
-          schdCAD += plan.schdBuyCAD;
-          hardExitApplied = true;
-          counts.hardExit++;
-        }
-      } else if (w.softExit) {
-        const plan = computeTqqqSoftExitPlan({
-          schdCAD, qldCAD, tqqqCAD, sgovCAD, totalCAD: totalNow, softExit: true,
-        });
-        if (plan.active) {
-          tqqqCAD -= plan.tqqqSaleCAD;
-          sgovCAD += plan.sgovRefillCAD;
-          schdCAD += plan.schdBuyCAD;
-          softExitApplied = true;
-          counts.softExit++;
-        }
+      const reb = computeAnnualRebalancePlan({
+        schdCAD, qldCAD, tqqqCAD, sgovCAD,
+        totalCAD: schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD,
+        caseAEligible: w2.caseAEligible,
+        caseBEligible: w2.caseBEligible,
+      });
+      if (reb.action === "case_a") {
+        qldCAD  -= reb.qldSaleCAD;
+        sgovCAD += reb.sgovDeltaCAD;
+        schdCAD += reb.schdBuyCAD;
+        caseAApplied = true;
+        counts.caseA++;
+      } else if (reb.action === "case_b") {
+        qldCAD += reb.qldBuyCAD;
+        sgovCAD += reb.sgovDeltaCAD;  // negative
+        caseBApplied = true;
+        counts.caseB++;
       }
+    }
 
-      // Crisis trigger (independent — cycle gating prevents repeat within a cycle)
-      if (w.crisisT2 && cycleArmed && !t2Fired) {
-        const plan = computeCrisisTriggerPlan({
-          totalCAD: totalNow, sgovCAD, crisisT1: false, crisisT2: true, cycleArmed, tqqqCAD,
-        });
-        if (plan.active) {
-          sgovCAD -= plan.sgovSaleCAD;
-          tqqqCAD += plan.tqqqBuyCAD;
-          t1Fired = true; t2Fired = true;
-          crisisT2Applied = true;
-          counts.crisisT2++;
-        }
-      } else if (w.crisisT1 && cycleArmed && !t1Fired) {
-        const plan = computeCrisisTriggerPlan({
-          totalCAD: totalNow, sgovCAD, crisisT1: true, crisisT2: false, cycleArmed, tqqqCAD,
-        });
-        if (plan.active) {
-          sgovCAD -= plan.sgovSaleCAD;
-          tqqqCAD += plan.tqqqBuyCAD;
-          t1Fired = true;
-          crisisT1Applied = true;
-          counts.crisisT1++;
-        }
-      }
+    // (6) v4.4.2: no age-based QQQI exit. Legacy age-65 IAUM → QLD exit removed.
+
+    // (7) Dividend snapshot (TQQQ pays effectively 0).
+    // Yield is held CONSTANT — dividend dollars grow via balance × yield (CAGR captures
+    // total return; multiplying yield by (1+divGrowth) on top compounds with CAGR and
+    // produces unrealistic 90%+ yield-of-balance figures in 20yr horizons.
+    const coreCAD = schdCAD + qldCAD;
+    const totalCAD = schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD;
+    const annualDivGross = schdCAD * schdYld + qldCAD * qldYld + sgovCAD * sgovYld + jepqCAD * jepqYld;
+    const annualDivNet = annualDivGross * (1 - taxWithhold);
+
+    // §10 65+ Dividend Consumption Mode — disable reinvestment, track as cashflow only.
+    const consumptionAgeNow = input.currentAge != null ? input.currentAge + y : null;
+    if (consumptionAgeNow != null && consumptionAgeNow >= RULEBOOK_TARGETS.DIVIDEND_CONSUMPTION_AGE) {
+      dividendConsumedCAD = Math.round(annualDivGross);
+    }
 
-      // Annual rebalance (Dec 31) — only when no Emergency cap / Soft Exit fired this year
-      if (!hardExitApplied && !softExitApplied) {
-        const w2 = computeRulebookWeights([
-          { ticker: "SCHD", valueCAD: schdCAD },
-          { ticker: "QLD",  valueCAD: qldCAD },
-          { ticker: "SGOV", valueCAD: sgovCAD },
-          { ticker: "QQQI", valueCAD: jepqCAD },
-          { ticker: "TQQQ", valueCAD: tqqqCAD },
-        ]);
-        const reb = computeAnnualRebalancePlan({
-          schdCAD, qldCAD, tqqqCAD, sgovCAD,
-          totalCAD: schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD,
-          caseAEligible: w2.caseAEligible,
-          caseBEligible: w2.caseBEligible,
-        });
-        if (reb.action === "case_a") {
-          qldCAD  -= reb.qldSaleCAD;
-          sgovCAD += reb.sgovDeltaCAD;
-          schdCAD += reb.schdBuyCAD;
-          caseAApplied = true;
-          counts.caseA++;
-        } else if (reb.action === "case_b") {
-          qldCAD += reb.qldBuyCAD;
-          sgovCAD += reb.sgovDeltaCAD;  // negative
-          caseBApplied = true;
-          counts.caseB++;
-        }
-      }
+    // §16 65+ Pension Cashflow — household estimate, portfolio 영향 없음, tracking only.
+    const pensionAgeNow = input.currentAge != null ? input.currentAge + y : null;
+    if (pensionAgeNow != null && pensionAgeNow >= RULEBOOK_TARGETS.PENSION_START_AGE) {
+      pensionCAD = RULEBOOK_TARGETS.PENSION_MONTHLY_CAD * 12;
+    }
 
-      // (6) v4.4.2: no age-based QQQI exit. Legacy age-65 IAUM → QLD exit removed.
-
-      // (7) Dividend snapshot (TQQQ pays effectively 0).
-      // Yield is held CONSTANT — dividend dollars grow via balance × yield (CAGR captures
-      // total return; multiplying yield by (1+divGrowth) on top compounds with CAGR and
-      // produces unrealistic 90%+ yield-of-balance figures in 20yr horizons.
-      const coreCAD = schdCAD + qldCAD;
-      const totalCAD = schdCAD + qldCAD + sgovCAD + jepqCAD + tqqqCAD;
-      const annualDivGross = schdCAD * schdYld + qldCAD * qldYld + sgovCAD * sgovYld + jepqCAD * jepqYld;
-      const annualDivNet = annualDivGross * (1 - taxWithhold);
-
-      // §10 65+ Dividend Consumption Mode — disable reinvestment, track as cashflow only.
-      const consumptionAgeNow = input.currentAge != null ? input.currentAge + y : null;
-      if (consumptionAgeNow != null && consumptionAgeNow >= RULEBOOK_TARGETS.DIVIDEND_CONSUMPTION_AGE) {
-        dividendConsumedCAD = Math.round(annualDivGross);
-      }
+    const totalAnnualCashflow = withdrawalCAD + dividendConsumedCAD + pensionCAD;
+    const monthlyCashflowCAD = Math.round(totalAnnualCashflow / 12);
+
+    // (9) Cycle reset: TQQQ=0 AND growth bucket ≥ 30 → re-arm
+    const growthBucketPctNow = totalCAD > 0 ? ((qldCAD + tqqqCAD) / totalCAD) * 100 : 0;
+    if (tqqqCAD <= 0 && growthBucketPctNow >= RULEBOOK_TARGETS.CYCLE_RESET_GROWTH_BUCKET_PCT) {
+      cycleArmed = true;
+      t1Fired = false;
+      t2Fired = false;
+    } else if (tqqqCAD > 0) {
+      cycleArmed = false;
+    }
 
-      // §16 65+ Pension Cashflow — household estimate, portfolio 영향 없음, tracking only.
-      const pensionAgeNow = input.currentAge != null ? input.currentAge + y : null;
-      if (pensionAgeNow != null && pensionAgeNow >= RULEBOOK_TARGETS.PENSION_START_AGE) {
-        pensionCAD = RULEBOOK_TARGETS.PENSION_MONTHLY_CAD * 12;
-      }
+    if (depletedInYear == null && (meltdownUnmet > 0 || totalCAD <= 0)) depletedInYear = y;
+
+    points.push({
+      year: startYear + y,
+      yearsFromNow: y,
+      schdCAD: Math.round(schdCAD),
+      qldCAD:  Math.round(qldCAD),
+      sgovCAD: Math.round(sgovCAD),
+      jepqCAD: Math.round(jepqCAD),
+      tqqqCAD: Math.round(tqqqCAD),
+      totalCAD: Math.round(totalCAD),
+      qldCoreWeightPct:   coreCAD > 0 ? Math.round((qldCAD / coreCAD) * 1000) / 10 : 0,
+      growthBucketPct:    Math.round(growthBucketPctNow * 10) / 10,
+      sgovTotalWeightPct: totalCAD > 0 ? Math.round((sgovCAD / totalCAD) * 1000) / 10 : 0,
+      jepqTotalWeightPct: totalCAD > 0 ? Math.round((jepqCAD / totalCAD) * 1000) / 10 : 0,
+      annualDivCAD:       Math.round(annualDivNet),
+      annualDivGrossCAD:  Math.round(annualDivGross),
+      monthlyDivCAD:      Math.round(annualDivNet / 12),
+      totalContribCAD: Math.round(cumContrib),
+      hardExitApplied,
+      softExitApplied,
+      crisisT1Applied,
+      crisisT2Applied,
+      caseAApplied,
+      caseBApplied,
+      withdrawalCAD: Math.round(withdrawalCAD),
+      dividendConsumedCAD: Math.round(dividendConsumedCAD),
+      pensionCAD: Math.round(pensionCAD),
+      monthlyCashflowCAD,
+    });
+  }
 
-      const totalAnnualCashflow = withdrawalCAD + dividendConsumedCAD + pensionCAD;
-      const monthlyCashflowCAD = Math.round(totalAnnualCashflow / 12);
-
-      // (9) Cycle reset: TQQQ=0 AND growth bucket ≥ 30 → re-arm
-      const growthBucketPctNow = totalCAD > 0 ? ((qldCAD + tqqqCAD) / totalCAD) * 100 : 0;
-      if (tqqqCAD <= 0 && growthBucketPctNow >= RULEBOOK_TARGETS.CYCLE_RESET_GROWTH_BUCKET_PCT) {
-        cycleArmed = true;
-        t1Fired = false;
-        t2Fired = false;
-      } else if (tqqqCAD > 0) {
-        cycleArmed = false;
-      }
+  return { points, triggerCounts: counts, depletedInYear };
+}
 
-      if (yearPointsClean.includes(y)) {
-        points.push({
-          year: startYear + y,
-          yearsFromNow: y,
-          schdCAD: Math.round(schdCAD),
-          qldCAD:  Math.round(qldCAD),
-          sgovCAD: Math.round(sgovCAD),
-          jepqCAD: Math.round(jepqCAD),
-          tqqqCAD: Math.round(tqqqCAD),
-          totalCAD: Math.round(totalCAD),
-          qldCoreWeightPct:   coreCAD > 0 ? Math.round((qldCAD / coreCAD) * 1000) / 10 : 0,
-          growthBucketPct:    Math.round(growthBucketPctNow * 10) / 10,
-          sgovTotalWeightPct: totalCAD > 0 ? Math.round((sgovCAD / totalCAD) * 1000) / 10 : 0,
-          jepqTotalWeightPct: totalCAD > 0 ? Math.round((jepqCAD / totalCAD) * 1000) / 10 : 0,
-          annualDivCAD:       Math.round(annualDivNet),
-          annualDivGrossCAD:  Math.round(annualDivGross),
-          monthlyDivCAD:      Math.round(annualDivNet / 12),
-          totalContribCAD: Math.round(cumContrib),
-          hardExitApplied,
-          softExitApplied,
-          crisisT1Applied,
-          crisisT2Applied,
-          caseAApplied,
-          caseBApplied,
-          withdrawalCAD: Math.round(withdrawalCAD),
-          dividendConsumedCAD: Math.round(dividendConsumedCAD),
-          pensionCAD: Math.round(pensionCAD),
-          monthlyCashflowCAD,
-        });
-      }
-    }
+export function projectScenariosRulebook(input: ProjectionInputV2): ProjectionScenarioV2[] {
+  const yearPointsClean = Array.from(new Set(
+    input.yearPoints.filter(y => Number.isFinite(y) && y > 0 && y <= input.maxYears),
+  )).sort((a, b) => a - b);
 
+  return RULEBOOK_SCENARIOS.map(scen => {
+    const SCHD_CAGR = scen.cagrPct / 100;
+    const returns: RulebookYearReturns = {
+      schd: SCHD_CAGR,
+      qld:  SCHD_CAGR * QLD_LEVERAGE_FACTOR,
+      sgov: SGOV_FIXED_CAGR,
+      // QQQI: covered-call ETF; proxy growth = scenario CAGR (held in TFSA so no withholding model needed).
+      jepq: SCHD_CAGR,
+      // TQQQ: leveraged-Nasdaq proxy growth.
+      tqqq: SCHD_CAGR * TQQQ_LEVERAGE_FACTOR,
+    };
+    const path = simulateRulebookPath(input, () => returns);
     return {
       id: scen.id,
       label: scen.label,
       cagrPct: scen.cagrPct,
-      points,
-      triggerCounts: {
-        hardExit: counts.hardExit,
-        softExit: counts.softExit,
-        crisisT1: counts.crisisT1,
-        crisisT2: counts.crisisT2,
-        caseA: counts.caseA,
-        caseB: counts.caseB,
-      },
+      points: path.points.filter(p => yearPointsClean.includes(p.yearsFromNow)),
+      triggerCounts: path.triggerCounts,
     };
   });
 }
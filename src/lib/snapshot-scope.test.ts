@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import {
+  parseSnapshotScope,
+  rollUpAccountSnapshots,
+} from "./snapshot-scope";
+
+{
+  assert.deepEqual(parseSnapshotScope(new URLSearchParams("range=1y")), { kind: "all" });
+  assert.deepEqual(parseSnapshotScope(new URLSearchParams("portfolioId=p1")), { kind: "portfolio", portfolioId: "p1" });
+  assert.deepEqual(parseSnapshotScope(new URLSearchParams("accountType=tfsa")), { kind: "accountType", accountType: "TFSA" });
+  assert.deepEqual(parseSnapshotScope(new URLSearchParams("accountType=LIRA")), { error: "Invalid accountType" });
+  assert.ok("error" in parseSnapshotScope(new URLSearchParams("portfolioId=p1&accountType=TFSA")), "both filters at once are rejected");
+}
+
+{
+  const series = rollUpAccountSnapshots([
+    { date: new Date("2026-01-02T00:00:00Z"), totalCAD: 100.1, costBasisCAD: 90, cashCAD: 5 },
+    { date: "2026-01-01", totalCAD: 50, costBasisCAD: 40, cashCAD: 1 },
+    { date: "2026-01-02", totalCAD: 200.2, costBasisCAD: 150, cashCAD: 10 },
+  ]);
+  assert.deepEqual(series, [
+    { date: "2026-01-01", totalCAD: 50, costBasisCAD: 40, cashCAD: 1 },
+    { date: "2026-01-02", totalCAD: 300.3, costBasisCAD: 240, cashCAD: 15 },
+  ]);
+}
+
+console.log("snapshot-scope tests passed");
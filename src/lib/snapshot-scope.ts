@@ -0,0 +1,59 @@
+// Which slice of the user's accounts a snapshot series covers. Parsed from the
+// `portfolioId` / `accountType` query params of /api/snapshots and
+// /api/v2/history; the per-portfolio rows come from PortfolioAccountSnapshot.
+
+export const ACCOUNT_TYPES = ["TFSA", "RRSP", "FHSA", "NON_REG", "CASH"] as const;
+export type SnapshotAccountType = typeof ACCOUNT_TYPES[number];
+
+export type SnapshotScope =
+  | { kind: "all" }
+  | { kind: "portfolio"; portfolioId: string }
+  | { kind: "accountType"; accountType: SnapshotAccountType };
+
+export interface AccountSnapshotRow {
+  date: string | Date;
+  totalCAD: number;
+  costBasisCAD: number;
+  cashCAD: number;
+}
+
+export function isSnapshotAccountType(value: string): value is SnapshotAccountType {
+  return (ACCOUNT_TYPES as readonly string[]).includes(value);
+}
+
+export function parseSnapshotScope(searchParams: URLSearchParams): SnapshotScope | { error: string } {
+  const portfolioId = searchParams.get("portfolioId")?.trim() || null;
+  const accountType = searchParams.get("accountType")?.trim().toUpperCase() || null;
+  if (portfolioId && accountType) return { error: "Use portfolioId or accountType, not both" };
+  if (portfolioId) return { kind: "portfolio", portfolioId };
+  if (accountType) {
+    if (!isSnapshotAccountType(accountType)) return { error: "Invalid accountType" };
+    return { kind: "accountType", accountType };
+  }
+  return { kind: "all" };
+}
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/** Sums per-portfolio rows into one row per date, ascending. */
+export function rollUpAccountSnapshots(rows: AccountSnapshotRow[]): Array<AccountSnapshotRow & { date: string }> {
+  const byDate = new Map<string, { totalCAD: number; costBasisCAD: number; cashCAD: number }>();
+  for (const row of rows) {
+    const date = row.date instanceof Date ? row.date.toISOString().slice(0, 10) : row.date.slice(0, 10);
+    const current = byDate.get(date) ?? { totalCAD: 0, costBasisCAD: 0, cashCAD: 0 };
+    current.totalCAD += row.totalCAD;
+    current.costBasisCAD += row.costBasisCAD;
+    current.cashCAD += row.cashCAD;
+    byDate.set(date, current);
+  }
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, values]) => ({
+      date,
+      totalCAD: roundMoney(values.totalCAD),
+      costBasisCAD: roundMoney(values.costBasisCAD),
+      cashCAD: roundMoney(values.cashCAD),
+    }));
+}
@@ -61,6 +61,28 @@ export interface ProjectionScenario {
   };
 }
 
+// Monte Carlo fan over the same rulebook path (src/lib/projection-monte-carlo.ts).
+// Bands cover every simulated year; probabilities are 0–1.
+export interface ProjectionMonteCarloBand {
+  year: number;
+  yearsFromNow: number;
+  totalP10: number;
+  totalP50: number;
+  totalP90: number;
+  incomeP10: number;
+  incomeP50: number;
+  incomeP90: number;
+}
+
+export interface ProjectionMonteCarlo {
+  paths: number;
+  seed: number;
+  bands: ProjectionMonteCarloBand[];
+  goal: { annualTargetCAD: number; yearsFromNow: number; year: number; probability: number } | null;
+  depletionProbability: number;
+  medianDepletionYearsFromNow: number | null;
+}
+
 export interface ProjectionAssumptions {
   scenarioCagrsPct?: { id: string; label: string; cagrPct: number }[];
   portfolioCagrPct: number;
@@ -176,6 +198,7 @@ export interface AnnualRebalancePlanOut {
 export interface ProjectionApiResponse {
   projections?: ProjectionYear[];
   scenarios?: ProjectionScenario[];
+  monteCarlo?: ProjectionMonteCarlo;
   assumptions?: ProjectionAssumptions;
   currentState?: CurrentState;
   coreAllocationPlan?: CoreAllocationPlan;
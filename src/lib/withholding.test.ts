@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+
+import {
+  expectedWithholdingRate,
+  reconcileWithholding,
+  summarizeForeignTaxCredit,
+  type WithholdingInputRow,
+} from "./withholding";
+
+function row(overrides: Partial<WithholdingInputRow> = {}): WithholdingInputRow {
+  return {
+    transactionId: "div",
+    date: "2025-03-31",
+    ticker: "SCHD",
+    accountType: "NON_REG",
+    currency: "USD",
+    netAmount: 85,
+    withheld: 15,
+    fxRateCAD: 1.4,
+    ...overrides,
+  };
+}
+
+function testExpectedRates() {
+  assert.equal(expectedWithholdingRate("RRSP", "USD", "SCHD"), 0);
+  assert.equal(expectedWithholdingRate("RRSP", "USD", "ASML.AS"), 0.15);
+  assert.equal(expectedWithholdingRate("TFSA", "USD", "SCHD"), 0.15);
+  assert.equal(expectedWithholdingRate("NON_REG", "USD", "SCHD"), 0.15);
+  assert.equal(expectedWithholdingRate("NON_REG", "CAD", "XEQT.TO"), 0);
+}
+
+function testRrspWithholdingOnUsListedIsFlagged() {
+  const [rrsp, nonReg, short, unrecorded, cad] = reconcileWithholding([
+    row({ transactionId: "rrsp", accountType: "RRSP" }),
+    row({ transactionId: "nr" }),
+    row({ transactionId: "short", netAmount: 100, withheld: 0 }),
+    row({ transactionId: "unrecorded", withheld: null }),
+    row({ transactionId: "cad", currency: "CAD", ticker: "XEQT.TO", withheld: null }),
+  ]);
+
+  assert.equal(rrsp.status, "unexpected");
+  assert.equal(rrsp.actualRate, 0.15);
+  assert.equal(rrsp.differenceAmount, 15);
+  assert.equal(nonReg.status, "ok");
+  assert.equal(nonReg.grossAmount, 100);
+  assert.equal(short.status, "short");
+  assert.equal(unrecorded.status, "unrecorded");
+  assert.equal(unrecorded.grossAmount, 100);
+  assert.equal(cad.status, "ok");
+}
+
+function testForeignTaxCreditOnlyCountsTaxableAccounts() {
+  const summary = summarizeForeignTaxCredit(
+    reconcileWithholding([
+      row({ transactionId: "nr1" }),
+      row({ transactionId: "cash", accountType: "CASH", date: "2025-06-30", netAmount: 170, withheld: 30 }),
+      row({ transactionId: "tfsa", accountType: "TFSA" }),
+      row({ transactionId: "nr-unrecorded", date: "2025-09-30", withheld: null }),
+      row({ transactionId: "nr-2024", date: "2024-12-31" }),
+    ]),
+  );
+
+  assert.deepEqual(summary, [
+    { year: 2024, foreignIncomeCAD: 140, foreignTaxPaidCAD: 21, unrecordedCount: 0 },
+    { year: 2025, foreignIncomeCAD: 560, foreignTaxPaidCAD: 63, unrecordedCount: 1 },
+  ]);
+}
+
+const tests = [
+  testExpectedRates,
+  testRrspWithholdingOnUsListedIsFlagged,
+  testForeignTaxCreditOnlyCountsTaxableAccounts,
+];
+
+for (const run of tests) {
+  run();
+}
+
+console.log("withholding reconciliation tests passed");
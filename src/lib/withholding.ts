@@ -0,0 +1,127 @@
+// US non-resident withholding on dividends: expected treaty rate per account
+// type, reconciliation against the withholdingTax recorded on DIVIDEND rows,
+// and the foreign tax paid in taxable accounts for the foreign tax credit line.
+//
+// DIVIDEND rows store the net amount received (quantity × price) and the tax
+// withheld as a positive amount, so gross = net + withheld.
+
+export const US_TREATY_WITHHOLDING_RATE = 0.15;
+
+/** Rate difference treated as rounding, not a mismatch (1 percentage point). */
+export const WITHHOLDING_RATE_TOLERANCE = 0.01;
+
+// Accounts whose dividends are taxed personally; foreign tax paid there is creditable.
+const TAXABLE_ACCOUNT_TYPES = new Set(["NON_REG", "CASH"]);
+
+// Heuristic: US-listed tickers have no exchange suffix (e.g. AAPL, VTI)
+// Canadian tickers use .TO, .V, etc. Foreign ADRs in USD may have different rates.
+export function isUSListed(ticker: string): boolean {
+  return !ticker.includes(".");
+}
+
+export function expectedWithholdingRate(accountType: string, currency: string, ticker: string): number {
+  if (currency !== "USD") return 0; // domestic dividends: no foreign withholding
+  const usListed = isUSListed(ticker);
+  if (accountType === "RRSP") {
+    // Canada-US treaty Art XXI(7): US-listed stocks exempt from NRA withholding
+    // Non-US foreign holdings (ADRs, EU stocks): treaty may not apply
+    return usListed ? 0 : US_TREATY_WITHHOLDING_RATE;
+  }
+  // TFSA / FHSA / RESP are not treaty-exempt; NON_REG / CASH withhold 15% too
+  return usListed ? US_TREATY_WITHHOLDING_RATE : 0;
+}
+
+export type WithholdingStatus = "ok" | "unexpected" | "short" | "unrecorded";
+
+export interface WithholdingInputRow {
+  transactionId: string;
+  date: string;
+  ticker: string;
+  accountType: string;
+  currency: string;
+  /** Net amount received, in the holding currency. */
+  netAmount: number;
+  /** Tax withheld (positive), in the holding currency. Null when never recorded. */
+  withheld: number | null;
+  /** CAD per unit of the holding currency (1 for CAD). */
+  fxRateCAD: number;
+}
+
+export interface WithholdingReconciliationRow extends WithholdingInputRow {
+  grossAmount: number;
+  actualRate: number | null;
+  expectedRate: number;
+  /** Withheld minus expected withholding on the gross, in the holding currency. */
+  differenceAmount: number | null;
+  status: WithholdingStatus;
+}
+
+export interface ForeignTaxCreditSummary {
+  year: number;
+  foreignIncomeCAD: number;
+  foreignTaxPaidCAD: number;
+  /** Taxable-account foreign dividends with no withholding recorded; the credit is understated by these. */
+  unrecordedCount: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isMismatch(status: WithholdingStatus): boolean {
+  return status === "unexpected" || status === "short";
+}
+
+export function reconcileWithholdingRow(row: WithholdingInputRow): WithholdingReconciliationRow {
+  const expectedRate = expectedWithholdingRate(row.accountType, row.currency, row.ticker);
+
+  if (row.withheld == null) {
+    // Nothing recorded: a 0% expectation is trivially met.
+    const grossAmount = expectedRate > 0 && expectedRate < 1 ? row.netAmount / (1 - expectedRate) : row.netAmount;
+    return {
+      ...row,
+      grossAmount: roundMoney(grossAmount),
+      actualRate: null,
+      expectedRate,
+      differenceAmount: null,
+      status: expectedRate > 0 ? "unrecorded" : "ok",
+    };
+  }
+
+  const grossAmount = row.netAmount + row.withheld;
+  const actualRate = grossAmount > 0 ? row.withheld / grossAmount : 0;
+  let status: WithholdingStatus = "ok";
+  if (actualRate > expectedRate + WITHHOLDING_RATE_TOLERANCE) status = "unexpected";
+  else if (actualRate < expectedRate - WITHHOLDING_RATE_TOLERANCE) status = "short";
+
+  return {
+    ...row,
+    grossAmount: roundMoney(grossAmount),
+    actualRate: Math.round(actualRate * 10_000) / 10_000,
+    expectedRate,
+    differenceAmount: roundMoney(row.withheld - grossAmount * expectedRate),
+    status,
+  };
+}
+
+export function reconcileWithholding(rows: WithholdingInputRow[]): WithholdingReconciliationRow[] {
+  return rows.map(reconcileWithholdingRow);
+}
+
+/** Foreign income and tax paid in taxable accounts, per calendar year. */
+export function summarizeForeignTaxCredit(rows: WithholdingReconciliationRow[]): ForeignTaxCreditSummary[] {
+  const byYear = new Map<number, ForeignTaxCreditSummary>();
+  for (const row of rows) {
+    if (row.currency === "CAD" || !TAXABLE_ACCOUNT_TYPES.has(row.accountType)) continue;
+    const year = Number(row.date.slice(0, 4));
+    const summary = byYear.get(year) ?? { year, foreignIncomeCAD: 0, foreignTaxPaidCAD: 0, unrecordedCount: 0 };
+    summary.foreignIncomeCAD = roundMoney(summary.foreignIncomeCAD + row.grossAmount * row.fxRateCAD);
+    if (row.withheld == null) {
+      if (row.status === "unrecorded") summary.unrecordedCount += 1;
+    } else {
+      summary.foreignTaxPaidCAD = roundMoney(summary.foreignTaxPaidCAD + row.withheld * row.fxRateCAD);
+    }
+    byYear.set(year, summary);
+  }
+  return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+}